@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "stockDeductedAt" TIMESTAMP(3);
+
+-- Transactions that were already paid have had their stock deducted
+UPDATE "transactions" SET "stockDeductedAt" = "createdAt" WHERE "paymentStatus" = 'PAID';
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "TaxClass" AS ENUM ('TAXABLE', 'EXEMPT', 'CUSTOM');
+
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN     "taxClass" "TaxClass",
+ADD COLUMN     "taxRateId" TEXT;
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "taxClass" "TaxClass",
+ADD COLUMN     "taxRateId" TEXT;
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "taxInclusive" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "transaction_items" ADD COLUMN     "taxName" TEXT,
+ADD COLUMN     "taxRate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxAmount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "tax_rates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "rate" DECIMAL(5,2) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "store_settings" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "pricesIncludeTax" BOOLEAN NOT NULL DEFAULT false,
+    "defaultTaxRateId" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "store_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "categories" ADD CONSTRAINT "categories_taxRateId_fkey" FOREIGN KEY ("taxRateId") REFERENCES "tax_rates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "products" ADD CONSTRAINT "products_taxRateId_fkey" FOREIGN KEY ("taxRateId") REFERENCES "tax_rates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "store_settings" ADD CONSTRAINT "store_settings_defaultTaxRateId_fkey" FOREIGN KEY ("defaultTaxRateId") REFERENCES "tax_rates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
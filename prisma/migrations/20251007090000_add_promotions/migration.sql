@@ -0,0 +1,85 @@
+-- CreateEnum
+CREATE TYPE "PromotionType" AS ENUM ('PERCENTAGE', 'FIXED_AMOUNT', 'BUY_X_GET_Y', 'BUNDLE');
+
+-- CreateEnum
+CREATE TYPE "PromotionScope" AS ENUM ('PRODUCT', 'CATEGORY', 'CART');
+
+-- AlterTable
+ALTER TABLE "transaction_items" ADD COLUMN     "discountAmount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "promotions" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "PromotionType" NOT NULL,
+    "scope" "PromotionScope" NOT NULL DEFAULT 'CART',
+    "value" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "buyQuantity" INTEGER,
+    "getQuantity" INTEGER,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "daysOfWeek" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promotions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "transaction_item_promotions" (
+    "id" TEXT NOT NULL,
+    "transactionItemId" TEXT NOT NULL,
+    "promotionId" TEXT,
+    "promotionName" TEXT NOT NULL,
+    "discountAmount" DECIMAL(10,2) NOT NULL,
+
+    CONSTRAINT "transaction_item_promotions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_ProductToPromotion" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_ProductToPromotion_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateTable
+CREATE TABLE "_CategoryToPromotion" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_CategoryToPromotion_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "transaction_item_promotions_transactionItemId_idx" ON "transaction_item_promotions"("transactionItemId");
+
+-- CreateIndex
+CREATE INDEX "_ProductToPromotion_B_index" ON "_ProductToPromotion"("B");
+
+-- CreateIndex
+CREATE INDEX "_CategoryToPromotion_B_index" ON "_CategoryToPromotion"("B");
+
+-- AddForeignKey
+ALTER TABLE "transaction_item_promotions" ADD CONSTRAINT "transaction_item_promotions_transactionItemId_fkey" FOREIGN KEY ("transactionItemId") REFERENCES "transaction_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transaction_item_promotions" ADD CONSTRAINT "transaction_item_promotions_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "promotions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ProductToPromotion" ADD CONSTRAINT "_ProductToPromotion_A_fkey" FOREIGN KEY ("A") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ProductToPromotion" ADD CONSTRAINT "_ProductToPromotion_B_fkey" FOREIGN KEY ("B") REFERENCES "promotions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CategoryToPromotion" ADD CONSTRAINT "_CategoryToPromotion_A_fkey" FOREIGN KEY ("A") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CategoryToPromotion" ADD CONSTRAINT "_CategoryToPromotion_B_fkey" FOREIGN KEY ("B") REFERENCES "promotions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
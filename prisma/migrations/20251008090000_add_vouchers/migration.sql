@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "VoucherDiscountType" AS ENUM ('PERCENTAGE', 'FIXED_AMOUNT');
+
+-- CreateTable
+CREATE TABLE "voucher_batches" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "discountType" "VoucherDiscountType" NOT NULL,
+    "value" DECIMAL(10,2) NOT NULL,
+    "maxDiscount" DECIMAL(10,2),
+    "minSpend" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "usageLimit" INTEGER,
+    "perCustomerLimit" INTEGER,
+    "startsAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "voucher_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "vouchers" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vouchers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "voucher_redemptions" (
+    "id" TEXT NOT NULL,
+    "voucherId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "customerEmail" TEXT,
+    "discountAmount" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "voucher_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vouchers_code_key" ON "vouchers"("code");
+
+-- CreateIndex
+CREATE INDEX "vouchers_batchId_idx" ON "vouchers"("batchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "voucher_redemptions_transactionId_key" ON "voucher_redemptions"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "voucher_redemptions_voucherId_idx" ON "voucher_redemptions"("voucherId");
+
+-- CreateIndex
+CREATE INDEX "voucher_redemptions_customerEmail_idx" ON "voucher_redemptions"("customerEmail");
+
+-- AddForeignKey
+ALTER TABLE "voucher_batches" ADD CONSTRAINT "voucher_batches_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vouchers" ADD CONSTRAINT "vouchers_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "voucher_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_redemptions" ADD CONSTRAINT "voucher_redemptions_voucherId_fkey" FOREIGN KEY ("voucherId") REFERENCES "vouchers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_redemptions" ADD CONSTRAINT "voucher_redemptions_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterEnum
+ALTER TYPE "PaymentMethod" ADD VALUE 'SPLIT';
+
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "method" "PaymentMethod" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "providerReference" TEXT,
+    "externalId" TEXT,
+    "invoiceUrl" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_externalId_key" ON "payments"("externalId");
+
+-- CreateIndex
+CREATE INDEX "payments_transactionId_idx" ON "payments"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing transactions were paid with a single tender
+INSERT INTO "payments" ("id", "transactionId", "method", "amount", "status", "providerReference", "invoiceUrl", "paidAt", "createdAt", "updatedAt")
+SELECT
+    'pmt_' || "id",
+    "id",
+    "paymentMethod",
+    "finalAmount",
+    "paymentStatus",
+    "xenditPaymentId",
+    "xenditInvoiceUrl",
+    CASE WHEN "paymentStatus" = 'PAID' THEN "createdAt" END,
+    "createdAt",
+    "createdAt"
+FROM "transactions";
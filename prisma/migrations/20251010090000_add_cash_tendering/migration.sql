@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "cashTendered" DECIMAL(10,2),
+ADD COLUMN     "changeDue" DECIMAL(10,2),
+ADD COLUMN     "roundingAmount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "store_settings" ADD COLUMN     "cashRounding" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "held_carts" (
+    "id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "voucherCode" TEXT,
+    "customerEmail" TEXT,
+    "cashierId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "held_carts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "held_cart_items" (
+    "id" TEXT NOT NULL,
+    "heldCartId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "held_cart_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "held_carts_expiresAt_idx" ON "held_carts"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "held_carts" ADD CONSTRAINT "held_carts_cashierId_fkey" FOREIGN KEY ("cashierId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "held_cart_items" ADD CONSTRAINT "held_cart_items_heldCartId_fkey" FOREIGN KEY ("heldCartId") REFERENCES "held_carts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "held_cart_items" ADD CONSTRAINT "held_cart_items_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
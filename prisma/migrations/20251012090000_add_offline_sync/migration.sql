@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "clientId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transactions_clientId_key" ON "transactions"("clientId");
@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "ShiftStatus" AS ENUM ('OPEN', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "CashMovementType" AS ENUM ('CASH_IN', 'CASH_OUT');
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "shiftId" TEXT;
+
+-- AlterTable
+ALTER TABLE "refunds" ADD COLUMN "shiftId" TEXT;
+
+-- CreateTable
+CREATE TABLE "shifts" (
+    "id" TEXT NOT NULL,
+    "cashierId" TEXT NOT NULL,
+    "status" "ShiftStatus" NOT NULL DEFAULT 'OPEN',
+    "openingFloat" DECIMAL(10,2) NOT NULL,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "closedBy" TEXT,
+    "expectedCash" DECIMAL(10,2),
+    "countedCash" DECIMAL(10,2),
+    "variance" DECIMAL(10,2),
+    "denominationCounts" JSONB,
+    "closingNotes" TEXT,
+
+    CONSTRAINT "shifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cash_movements" (
+    "id" TEXT NOT NULL,
+    "shiftId" TEXT NOT NULL,
+    "type" "CashMovementType" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cash_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transactions_shiftId_idx" ON "transactions"("shiftId");
+
+-- CreateIndex
+CREATE INDEX "refunds_shiftId_idx" ON "refunds"("shiftId");
+
+-- CreateIndex
+CREATE INDEX "shifts_cashierId_status_idx" ON "shifts"("cashierId", "status");
+
+-- CreateIndex
+CREATE INDEX "shifts_openedAt_idx" ON "shifts"("openedAt");
+
+-- CreateIndex
+CREATE INDEX "cash_movements_shiftId_idx" ON "cash_movements"("shiftId");
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "shifts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "shifts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_cashierId_fkey" FOREIGN KEY ("cashierId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_closedBy_fkey" FOREIGN KEY ("closedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_movements" ADD CONSTRAINT "cash_movements_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "shifts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_movements" ADD CONSTRAINT "cash_movements_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "LoyaltyEntryType" AS ENUM ('EARN', 'REDEEM', 'REVERSE', 'RESTORE', 'EXPIRE', 'ADJUST');
+
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN "loyaltyMultiplier" DECIMAL(5,2) NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN "loyaltyPoints" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "loyaltyPointsEarned" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "loyaltyPointsRedeemed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "loyaltyDiscount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "store_settings" ADD COLUMN "loyaltyEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "loyaltySpendPerPoint" INTEGER NOT NULL DEFAULT 10000,
+ADD COLUMN "loyaltyPointValue" INTEGER NOT NULL DEFAULT 100,
+ADD COLUMN "loyaltyPointsExpireDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "loyalty_entries" (
+    "id" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "transactionId" TEXT,
+    "type" "LoyaltyEntryType" NOT NULL,
+    "points" INTEGER NOT NULL,
+    "remaining" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "description" TEXT NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "loyalty_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "loyalty_entries_customerId_createdAt_idx" ON "loyalty_entries"("customerId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "loyalty_entries_transactionId_idx" ON "loyalty_entries"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "loyalty_entries" ADD CONSTRAINT "loyalty_entries_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "loyalty_entries" ADD CONSTRAINT "loyalty_entries_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "loyalty_entries" ADD CONSTRAINT "loyalty_entries_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,105 @@
+-- DropIndex
+DROP INDEX "transaction_items_transactionId_productId_key";
+
+-- AlterTable
+ALTER TABLE "held_cart_items" ADD COLUMN "modifierOptionIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "modifier_groups" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "minSelect" INTEGER NOT NULL DEFAULT 0,
+    "maxSelect" INTEGER DEFAULT 1,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "modifier_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "modifier_options" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priceDelta" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "ingredientId" TEXT,
+    "ingredientQuantity" INTEGER NOT NULL DEFAULT 1,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+
+    CONSTRAINT "modifier_options_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "transaction_item_modifiers" (
+    "id" TEXT NOT NULL,
+    "transactionItemId" TEXT NOT NULL,
+    "modifierOptionId" TEXT,
+    "groupName" TEXT NOT NULL,
+    "optionName" TEXT NOT NULL,
+    "priceDelta" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "ingredientId" TEXT,
+    "ingredientQuantity" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "transaction_item_modifiers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_CategoryToModifierGroup" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_CategoryToModifierGroup_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateTable
+CREATE TABLE "_ModifierGroupToProduct" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_ModifierGroupToProduct_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "transaction_items_transactionId_idx" ON "transaction_items"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "modifier_options_groupId_idx" ON "modifier_options"("groupId");
+
+-- CreateIndex
+CREATE INDEX "transaction_item_modifiers_transactionItemId_idx" ON "transaction_item_modifiers"("transactionItemId");
+
+-- CreateIndex
+CREATE INDEX "_CategoryToModifierGroup_B_index" ON "_CategoryToModifierGroup"("B");
+
+-- CreateIndex
+CREATE INDEX "_ModifierGroupToProduct_B_index" ON "_ModifierGroupToProduct"("B");
+
+-- AddForeignKey
+ALTER TABLE "modifier_options" ADD CONSTRAINT "modifier_options_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "modifier_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "modifier_options" ADD CONSTRAINT "modifier_options_ingredientId_fkey" FOREIGN KEY ("ingredientId") REFERENCES "products"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transaction_item_modifiers" ADD CONSTRAINT "transaction_item_modifiers_transactionItemId_fkey" FOREIGN KEY ("transactionItemId") REFERENCES "transaction_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transaction_item_modifiers" ADD CONSTRAINT "transaction_item_modifiers_modifierOptionId_fkey" FOREIGN KEY ("modifierOptionId") REFERENCES "modifier_options"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transaction_item_modifiers" ADD CONSTRAINT "transaction_item_modifiers_ingredientId_fkey" FOREIGN KEY ("ingredientId") REFERENCES "products"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CategoryToModifierGroup" ADD CONSTRAINT "_CategoryToModifierGroup_A_fkey" FOREIGN KEY ("A") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CategoryToModifierGroup" ADD CONSTRAINT "_CategoryToModifierGroup_B_fkey" FOREIGN KEY ("B") REFERENCES "modifier_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ModifierGroupToProduct" ADD CONSTRAINT "_ModifierGroupToProduct_A_fkey" FOREIGN KEY ("A") REFERENCES "modifier_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ModifierGroupToProduct" ADD CONSTRAINT "_ModifierGroupToProduct_B_fkey" FOREIGN KEY ("B") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
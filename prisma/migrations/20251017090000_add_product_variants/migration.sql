@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "parentId" TEXT,
+ADD COLUMN     "variantAxes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "variantValues" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "products_parentId_idx" ON "products"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "products" ADD CONSTRAINT "products_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "products"("id") ON DELETE SET NULL ON UPDATE CASCADE;
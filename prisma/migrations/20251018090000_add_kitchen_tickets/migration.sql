@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "KitchenStation" AS ENUM ('KITCHEN', 'BAR');
+
+-- CreateEnum
+CREATE TYPE "KitchenItemStatus" AS ENUM ('NEW', 'IN_PROGRESS', 'READY', 'SERVED');
+
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN "kitchenStation" "KitchenStation";
+
+-- CreateTable
+CREATE TABLE "kitchen_tickets" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "station" "KitchenStation" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "kitchen_tickets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "kitchen_ticket_items" (
+    "id" TEXT NOT NULL,
+    "ticketId" TEXT NOT NULL,
+    "transactionItemId" TEXT NOT NULL,
+    "status" "KitchenItemStatus" NOT NULL DEFAULT 'NEW',
+    "startedAt" TIMESTAMP(3),
+    "readyAt" TIMESTAMP(3),
+    "servedAt" TIMESTAMP(3),
+
+    CONSTRAINT "kitchen_ticket_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "kitchen_tickets_station_createdAt_idx" ON "kitchen_tickets"("station", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "kitchen_tickets_transactionId_station_key" ON "kitchen_tickets"("transactionId", "station");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "kitchen_ticket_items_transactionItemId_key" ON "kitchen_ticket_items"("transactionItemId");
+
+-- CreateIndex
+CREATE INDEX "kitchen_ticket_items_ticketId_idx" ON "kitchen_ticket_items"("ticketId");
+
+-- AddForeignKey
+ALTER TABLE "kitchen_tickets" ADD CONSTRAINT "kitchen_tickets_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kitchen_ticket_items" ADD CONSTRAINT "kitchen_ticket_items_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "kitchen_tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kitchen_ticket_items" ADD CONSTRAINT "kitchen_ticket_items_transactionItemId_fkey" FOREIGN KEY ("transactionItemId") REFERENCES "transaction_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
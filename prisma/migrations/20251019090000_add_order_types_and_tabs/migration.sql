@@ -0,0 +1,114 @@
+-- CreateEnum
+CREATE TYPE "OrderType" AS ENUM ('DINE_IN', 'TAKEAWAY', 'DELIVERY');
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "orderType" "OrderType" NOT NULL DEFAULT 'TAKEAWAY',
+ADD COLUMN "tableId" TEXT;
+
+-- CreateTable
+CREATE TABLE "dining_tables" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "area" TEXT,
+    "seats" INTEGER NOT NULL DEFAULT 4,
+    "posX" INTEGER NOT NULL DEFAULT 0,
+    "posY" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "dining_tables_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "open_tabs" (
+    "id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "orderType" "OrderType" NOT NULL DEFAULT 'DINE_IN',
+    "tableId" TEXT,
+    "customerId" TEXT,
+    "cashierId" TEXT NOT NULL,
+    "transactionId" TEXT,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+
+    CONSTRAINT "open_tabs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "open_tab_items" (
+    "id" TEXT NOT NULL,
+    "tabId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "modifierOptionIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "round" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "open_tab_items_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "kitchen_tickets" ALTER COLUMN "transactionId" DROP NOT NULL,
+ADD COLUMN "tabId" TEXT,
+ADD COLUMN "round" INTEGER;
+
+-- AlterTable
+ALTER TABLE "kitchen_ticket_items" ALTER COLUMN "transactionItemId" DROP NOT NULL,
+ADD COLUMN "name" TEXT,
+ADD COLUMN "quantity" INTEGER,
+ADD COLUMN "modifiers" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Copy the item details onto tickets already sent
+UPDATE "kitchen_ticket_items" AS k
+SET "name" = p."name",
+    "quantity" = i."quantity",
+    "modifiers" = COALESCE(
+      (SELECT array_agg(m."optionName" ORDER BY m."id") FROM "transaction_item_modifiers" m WHERE m."transactionItemId" = i."id"),
+      ARRAY[]::TEXT[]
+    )
+FROM "transaction_items" i
+JOIN "products" p ON p."id" = i."productId"
+WHERE k."transactionItemId" = i."id";
+
+-- AlterTable
+ALTER TABLE "kitchen_ticket_items" ALTER COLUMN "name" SET NOT NULL,
+ALTER COLUMN "quantity" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dining_tables_name_key" ON "dining_tables"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "open_tabs_transactionId_key" ON "open_tabs"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "open_tabs_tableId_closedAt_idx" ON "open_tabs"("tableId", "closedAt");
+
+-- CreateIndex
+CREATE INDEX "open_tab_items_tabId_idx" ON "open_tab_items"("tabId");
+
+-- CreateIndex
+CREATE INDEX "kitchen_tickets_tabId_idx" ON "kitchen_tickets"("tabId");
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "dining_tables"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "open_tabs" ADD CONSTRAINT "open_tabs_tableId_fkey" FOREIGN KEY ("tableId") REFERENCES "dining_tables"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "open_tabs" ADD CONSTRAINT "open_tabs_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "open_tabs" ADD CONSTRAINT "open_tabs_cashierId_fkey" FOREIGN KEY ("cashierId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "open_tabs" ADD CONSTRAINT "open_tabs_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "open_tab_items" ADD CONSTRAINT "open_tab_items_tabId_fkey" FOREIGN KEY ("tabId") REFERENCES "open_tabs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "open_tab_items" ADD CONSTRAINT "open_tab_items_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kitchen_tickets" ADD CONSTRAINT "kitchen_tickets_tabId_fkey" FOREIGN KEY ("tabId") REFERENCES "open_tabs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "note" TEXT;
+
+-- AlterTable
+ALTER TABLE "transaction_items" ADD COLUMN "note" TEXT;
+
+-- AlterTable
+ALTER TABLE "held_carts" ADD COLUMN "note" TEXT;
+
+-- AlterTable
+ALTER TABLE "held_cart_items" ADD COLUMN "note" TEXT;
+
+-- AlterTable
+ALTER TABLE "open_tab_items" ADD COLUMN "note" TEXT;
+
+-- AlterTable
+ALTER TABLE "kitchen_ticket_items" ADD COLUMN "note" TEXT;
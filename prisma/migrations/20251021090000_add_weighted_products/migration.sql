@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "BarcodeValueType" AS ENUM ('WEIGHT', 'PRICE');
+
+-- AlterTable
+ALTER TABLE "products" ALTER COLUMN "stock" SET DATA TYPE DECIMAL(10,3),
+ALTER COLUMN "minStock" SET DATA TYPE DECIMAL(10,3),
+ADD COLUMN "soldByWeight" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "plu" TEXT;
+
+-- AlterTable
+ALTER TABLE "transaction_items" ALTER COLUMN "quantity" SET DATA TYPE DECIMAL(10,3),
+ALTER COLUMN "refundedQuantity" SET DATA TYPE DECIMAL(10,3);
+
+-- AlterTable
+ALTER TABLE "refund_items" ALTER COLUMN "quantity" SET DATA TYPE DECIMAL(10,3);
+
+-- AlterTable
+ALTER TABLE "held_cart_items" ALTER COLUMN "quantity" SET DATA TYPE DECIMAL(10,3);
+
+-- AlterTable
+ALTER TABLE "kitchen_ticket_items" ALTER COLUMN "quantity" SET DATA TYPE DECIMAL(10,3);
+
+-- AlterTable
+ALTER TABLE "inventory_logs" ALTER COLUMN "quantity" SET DATA TYPE DECIMAL(10,3),
+ALTER COLUMN "previousStock" SET DATA TYPE DECIMAL(10,3),
+ALTER COLUMN "newStock" SET DATA TYPE DECIMAL(10,3);
+
+-- CreateTable
+CREATE TABLE "barcode_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "pluLength" INTEGER NOT NULL DEFAULT 5,
+    "valueType" "BarcodeValueType" NOT NULL,
+    "valueLength" INTEGER NOT NULL DEFAULT 5,
+    "valueDecimals" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "barcode_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "products_plu_key" ON "products"("plu");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "barcode_rules_prefix_key" ON "barcode_rules"("prefix");
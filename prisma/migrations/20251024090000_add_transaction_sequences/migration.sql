@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "store_settings" ADD COLUMN "storeCode" TEXT NOT NULL DEFAULT 'TK01',
+ADD COLUMN "transactionNumberFormat" TEXT NOT NULL DEFAULT '{store}-{date}-{seq}';
+
+-- CreateTable
+CREATE TABLE "transaction_sequences" (
+    "id" TEXT NOT NULL,
+    "storeCode" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "lastValue" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "transaction_sequences_pkey" PRIMARY KEY ("id")
+);
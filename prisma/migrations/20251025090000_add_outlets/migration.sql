@@ -0,0 +1,92 @@
+-- CreateTable
+CREATE TABLE "outlets" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "address" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "outlets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outlet_stocks" (
+    "id" TEXT NOT NULL,
+    "outletId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "stock" DECIMAL(10,3) NOT NULL DEFAULT 0,
+    "minStock" DECIMAL(10,3) NOT NULL DEFAULT 5,
+
+    CONSTRAINT "outlet_stocks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_OutletToUser" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_OutletToUser_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outlets_code_key" ON "outlets"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outlet_stocks_outletId_productId_key" ON "outlet_stocks"("outletId", "productId");
+
+-- CreateIndex
+CREATE INDEX "outlet_stocks_productId_idx" ON "outlet_stocks"("productId");
+
+-- CreateIndex
+CREATE INDEX "_OutletToUser_B_index" ON "_OutletToUser"("B");
+
+-- Backfill: everything so far happened at one shop, which keeps the store code
+INSERT INTO "outlets" ("id", "name", "code", "updatedAt")
+SELECT 'main', 'Main Store', COALESCE((SELECT "storeCode" FROM "store_settings" WHERE "id" = 'default'), 'TK01'), CURRENT_TIMESTAMP;
+
+INSERT INTO "outlet_stocks" ("id", "outletId", "productId", "stock", "minStock")
+SELECT 'main-' || "id", 'main', "id", "stock", "minStock" FROM "products";
+
+INSERT INTO "_OutletToUser" ("A", "B")
+SELECT 'main', "id" FROM "users";
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "outletId" TEXT NOT NULL DEFAULT 'main';
+ALTER TABLE "transactions" ALTER COLUMN "outletId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "inventory_logs" ADD COLUMN "outletId" TEXT NOT NULL DEFAULT 'main';
+ALTER TABLE "inventory_logs" ALTER COLUMN "outletId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "stock_reservations" ADD COLUMN "outletId" TEXT NOT NULL DEFAULT 'main';
+ALTER TABLE "stock_reservations" ALTER COLUMN "outletId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "store_settings" DROP COLUMN "storeCode";
+
+-- CreateIndex
+CREATE INDEX "transactions_outletId_idx" ON "transactions"("outletId");
+
+-- AddForeignKey
+ALTER TABLE "outlet_stocks" ADD CONSTRAINT "outlet_stocks_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "outlets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "outlet_stocks" ADD CONSTRAINT "outlet_stocks_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "outlets"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_logs" ADD CONSTRAINT "inventory_logs_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "outlets"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "outlets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_OutletToUser" ADD CONSTRAINT "_OutletToUser_A_fkey" FOREIGN KEY ("A") REFERENCES "outlets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_OutletToUser" ADD CONSTRAINT "_OutletToUser_B_fkey" FOREIGN KEY ("B") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
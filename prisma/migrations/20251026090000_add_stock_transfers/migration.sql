@@ -0,0 +1,78 @@
+-- AlterEnum
+ALTER TYPE "InventoryLogType" ADD VALUE 'TRANSFER';
+
+-- CreateEnum
+CREATE TYPE "StockTransferStatus" AS ENUM ('DRAFT', 'IN_TRANSIT', 'RECEIVED');
+
+-- AlterTable
+ALTER TABLE "inventory_logs" ADD COLUMN "transferId" TEXT;
+
+-- CreateTable
+CREATE TABLE "stock_transfers" (
+    "id" TEXT NOT NULL,
+    "transferNumber" TEXT NOT NULL,
+    "fromOutletId" TEXT NOT NULL,
+    "toOutletId" TEXT NOT NULL,
+    "status" "StockTransferStatus" NOT NULL DEFAULT 'DRAFT',
+    "note" TEXT,
+    "receivedNote" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "sentBy" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "receivedBy" TEXT,
+    "receivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_transfer_items" (
+    "id" TEXT NOT NULL,
+    "transferId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" DECIMAL(10,3) NOT NULL,
+    "receivedQuantity" DECIMAL(10,3),
+
+    CONSTRAINT "stock_transfer_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "inventory_logs_transferId_idx" ON "inventory_logs"("transferId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_transfers_transferNumber_key" ON "stock_transfers"("transferNumber");
+
+-- CreateIndex
+CREATE INDEX "stock_transfers_fromOutletId_idx" ON "stock_transfers"("fromOutletId");
+
+-- CreateIndex
+CREATE INDEX "stock_transfers_toOutletId_idx" ON "stock_transfers"("toOutletId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_transfer_items_transferId_productId_key" ON "stock_transfer_items"("transferId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "inventory_logs" ADD CONSTRAINT "inventory_logs_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "stock_transfers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_fromOutletId_fkey" FOREIGN KEY ("fromOutletId") REFERENCES "outlets"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_toOutletId_fkey" FOREIGN KEY ("toOutletId") REFERENCES "outlets"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_sentBy_fkey" FOREIGN KEY ("sentBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_receivedBy_fkey" FOREIGN KEY ("receivedBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "stock_transfers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "held_cart_items" ADD COLUMN "labelBarcode" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "store_settings" ADD COLUMN "timeZone" TEXT NOT NULL DEFAULT 'Asia/Jakarta';
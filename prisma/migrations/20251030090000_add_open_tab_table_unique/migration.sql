@@ -0,0 +1,14 @@
+-- Tables that somehow have several open tabs keep the oldest; the others stay open off the floor plan
+UPDATE "open_tabs" AS "tab"
+SET "tableId" = NULL
+WHERE "tab"."closedAt" IS NULL
+  AND "tab"."tableId" IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM "open_tabs" AS "older"
+    WHERE "older"."tableId" = "tab"."tableId"
+      AND "older"."closedAt" IS NULL
+      AND ("older"."openedAt", "older"."id") < ("tab"."openedAt", "tab"."id")
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "open_tabs_tableId_open_key" ON "open_tabs"("tableId") WHERE "closedAt" IS NULL;
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "held_carts" ADD COLUMN "outletId" TEXT;
+
+-- AlterTable
+ALTER TABLE "dining_tables" ADD COLUMN "outletId" TEXT;
+
+-- AlterTable
+ALTER TABLE "open_tabs" ADD COLUMN "outletId" TEXT;
+
+-- Backfill: tables, tabs and held carts so far were all at the first outlet
+UPDATE "dining_tables" SET "outletId" = (SELECT "id" FROM "outlets" ORDER BY "createdAt" ASC LIMIT 1);
+
+UPDATE "held_carts" SET "outletId" = (SELECT "id" FROM "outlets" ORDER BY "createdAt" ASC LIMIT 1);
+
+UPDATE "open_tabs" SET "outletId" = COALESCE(
+  (SELECT "outletId" FROM "dining_tables" WHERE "dining_tables"."id" = "open_tabs"."tableId"),
+  (SELECT "id" FROM "outlets" ORDER BY "createdAt" ASC LIMIT 1)
+);
+
+ALTER TABLE "held_carts" ALTER COLUMN "outletId" SET NOT NULL;
+ALTER TABLE "dining_tables" ALTER COLUMN "outletId" SET NOT NULL;
+ALTER TABLE "open_tabs" ALTER COLUMN "outletId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "dining_tables_name_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dining_tables_outletId_name_key" ON "dining_tables"("outletId", "name");
+
+-- CreateIndex
+CREATE INDEX "held_carts_outletId_idx" ON "held_carts"("outletId");
+
+-- CreateIndex
+CREATE INDEX "open_tabs_outletId_closedAt_idx" ON "open_tabs"("outletId", "closedAt");
+
+-- AddForeignKey
+ALTER TABLE "held_carts" ADD CONSTRAINT "held_carts_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "outlets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dining_tables" ADD CONSTRAINT "dining_tables_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "outlets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "open_tabs" ADD CONSTRAINT "open_tabs_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "outlets"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable: keys already stored keep an empty token; new claims get a fresh one
+ALTER TABLE "idempotency_keys" ADD COLUMN "claimToken" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "idempotency_keys" ALTER COLUMN "claimToken" DROP DEFAULT;
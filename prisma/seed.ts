@@ -10,12 +10,30 @@ async function main() {
 
   // Clear existing data
   console.log('🗑️  Clearing existing data...');
+  await prisma.stockTransfer.deleteMany();
+  await prisma.purchaseOrder.deleteMany();
+  await prisma.supplier.deleteMany();
   await prisma.inventoryLog.deleteMany();
+  await prisma.refundItem.deleteMany();
+  await prisma.refund.deleteMany();
+  await prisma.loyaltyEntry.deleteMany();
   await prisma.transactionItem.deleteMany();
+  await prisma.openTab.deleteMany();
   await prisma.transaction.deleteMany();
+  await prisma.diningTable.deleteMany();
+  await prisma.customer.deleteMany();
+  await prisma.heldCart.deleteMany();
+  await prisma.shift.deleteMany();
+  await prisma.voucherBatch.deleteMany();
+  await prisma.promotion.deleteMany();
+  await prisma.modifierGroup.deleteMany();
   await prisma.product.deleteMany();
+  await prisma.outlet.deleteMany();
   await prisma.category.deleteMany();
   await prisma.user.deleteMany();
+  await prisma.storeSettings.deleteMany();
+  await prisma.taxRate.deleteMany();
+  await prisma.barcodeRule.deleteMany();
 
   // Create Users
   console.log('👥 Creating users...');
@@ -50,6 +68,41 @@ async function main() {
 
   console.log(`✅ Created ${3} users`);
 
+  // Create Outlets
+  console.log('🏬 Creating outlets...');
+  const mainOutlet = await prisma.outlet.create({
+    data: {
+      name: 'Main Store',
+      code: 'TK01',
+      users: { connect: [{ id: admin.id }, { id: manager.id }, { id: cashier.id }] },
+    },
+  });
+  const branchOutlet = await prisma.outlet.create({
+    data: {
+      name: 'Branch Store',
+      code: 'TK02',
+      users: { connect: [{ id: admin.id }, { id: manager.id }] },
+    },
+  });
+  console.log('✅ Created 2 outlets');
+
+  // Create Tax Settings
+  console.log('🧾 Creating tax settings...');
+  const ppn = await prisma.taxRate.create({
+    data: { name: 'PPN', rate: 11 },
+  });
+  await prisma.storeSettings.create({
+    data: { pricesIncludeTax: true, defaultTaxRateId: ppn.id },
+  });
+  console.log('✅ Created PPN 11% as the default tax rate');
+
+  // Create Scale Barcode Rule
+  console.log('⚖️  Creating scale barcode rule...');
+  await prisma.barcodeRule.create({
+    data: { name: 'Scale weight', prefix: '20', pluLength: 5, valueType: 'WEIGHT', valueLength: 5, valueDecimals: 3 },
+  });
+  console.log('✅ Created prefix 20 for weight labels');
+
   // Fetch data from TheMealDB
   console.log('🌐 Fetching data from TheMealDB API...');
   const { categories: mealCategories, meals: mealsMap } = await fetchMealsForSeeding();
@@ -64,6 +117,7 @@ async function main() {
       data: {
         name: mealCategory.strCategory,
         description: mealCategory.strCategoryDescription.substring(0, 200), // Limit description length
+        kitchenStation: 'KITCHEN',
       },
     });
     categoryMap.set(mealCategory.strCategory, category);
@@ -141,6 +195,7 @@ async function main() {
         data: {
           name: categoryName,
           description: `${categoryName} beverages and drinks`,
+          kitchenStation: 'BAR',
         },
       });
       categoryMap.set(categoryName, category);
@@ -183,12 +238,21 @@ async function main() {
   
   console.log(`✅ Created ${drinksData.length} drink products`);
 
+  // All seeded stock sits at the main store; the branch starts empty
+  await prisma.outletStock.createMany({
+    data: products.flatMap(product => [
+      { outletId: mainOutlet.id, productId: product.id, stock: product.stock, minStock: product.minStock },
+      { outletId: branchOutlet.id, productId: product.id, stock: 0, minStock: product.minStock },
+    ]),
+  });
+
   // Create sample inventory logs
   console.log('📊 Creating inventory logs...');
   const inventoryLogs = await Promise.all([
     prisma.inventoryLog.create({
       data: {
         productId: products[0].id,
+        outletId: mainOutlet.id,
         type: 'RESTOCK',
         quantity: 100,
         previousStock: 0,
@@ -200,6 +264,7 @@ async function main() {
     prisma.inventoryLog.create({
       data: {
         productId: products[1].id,
+        outletId: mainOutlet.id,
         type: 'RESTOCK',
         quantity: 100,
         previousStock: 0,
@@ -212,6 +277,30 @@ async function main() {
 
   console.log(`✅ Created ${inventoryLogs.length} inventory logs`);
 
+  // Create a small floor plan
+  console.log('🍽️  Creating dining tables...');
+  const tables = await prisma.diningTable.createMany({
+    data: Array.from({ length: 8 }, (_, i) => ({
+      outletId: mainOutlet.id,
+      name: String(i + 1),
+      area: i < 6 ? 'Indoor' : 'Terrace',
+      seats: i % 3 === 0 ? 2 : 4,
+      posX: (i % 4) * 2,
+      posY: Math.floor(i / 4) * 2,
+    })),
+  });
+  console.log(`✅ Created ${tables.count} dining tables`);
+
+  // Create suppliers to order stock from
+  console.log('🚛 Creating suppliers...');
+  const suppliers = await prisma.supplier.createMany({
+    data: [
+      { name: 'Sumber Pangan Distributor', contactName: 'Budi Santoso', phone: '+6281234567890', email: 'sales@sumberpangan.co.id', address: 'Jl. Raya Bogor No. 12, Jakarta' },
+      { name: 'Segar Minuman Supply', contactName: 'Rina Wijaya', phone: '+6282198765432', address: 'Jl. Industri No. 5, Bekasi' },
+    ],
+  });
+  console.log(`✅ Created ${suppliers.count} suppliers`);
+
   console.log('✨ Seeding completed successfully!');
   console.log('\n📝 Default credentials:');
   console.log('   Admin: admin@nextpos.com / password123');
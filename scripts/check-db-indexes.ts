@@ -0,0 +1,41 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Indexes the schema cannot declare, so they live only in hand-written
+// migration SQL. `prisma migrate dev` does not know about them: a regenerated
+// or squashed migration drops them silently, and this check catches that.
+const RAW_INDEXES = [
+  {
+    table: 'open_tabs',
+    name: 'open_tabs_tableId_open_key',
+    purpose: 'one open tab per table (partial unique index on "tableId" where "closedAt" is null)',
+  },
+];
+
+async function main() {
+  const existing = await prisma.$queryRaw<Array<{ indexname: string }>>`
+    SELECT indexname FROM pg_indexes WHERE schemaname = current_schema()
+  `;
+  const names = new Set(existing.map((row) => row.indexname));
+
+  const missing = RAW_INDEXES.filter((index) => !names.has(index.name));
+  for (const index of missing) {
+    console.error(`❌ Missing index ${index.name} on ${index.table}: ${index.purpose}`);
+  }
+
+  if (missing.length > 0) {
+    process.exit(1);
+  }
+
+  console.log(`✅ All ${RAW_INDEXES.length} hand-written indexes are in place`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error checking indexes:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
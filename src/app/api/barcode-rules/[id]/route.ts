@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { assertPrefixAvailable, BarcodeRuleError, parseBarcodeRuleInput } from '@/lib/barcodeRules'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const existingRule = await prisma.barcodeRule.findUnique({
+      where: { id },
+    })
+
+    if (!existingRule) {
+      return NextResponse.json({ error: 'Barcode rule not found' }, { status: 404 })
+    }
+
+    // Switching a rule on or off only sends isActive
+    const input = parseBarcodeRuleInput({ ...existingRule, ...body })
+    await assertPrefixAvailable(input.prefix, id)
+
+    const rule = await prisma.barcodeRule.update({
+      where: { id },
+      data: {
+        ...input,
+        ...(body.isActive !== undefined && { isActive: Boolean(body.isActive) }),
+      },
+    })
+
+    return NextResponse.json(rule)
+  } catch (error) {
+    if (error instanceof BarcodeRuleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error updating barcode rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existingRule = await prisma.barcodeRule.findUnique({
+      where: { id },
+    })
+
+    if (!existingRule) {
+      return NextResponse.json({ error: 'Barcode rule not found' }, { status: 404 })
+    }
+
+    // Sales keep their own weights, so nothing else refers to a rule
+    await prisma.barcodeRule.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'Barcode rule deleted' })
+  } catch (error) {
+    console.error('Error deleting barcode rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
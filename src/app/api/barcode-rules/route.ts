@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { assertPrefixAvailable, BarcodeRuleError, parseBarcodeRuleInput } from '@/lib/barcodeRules'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const rules = await prisma.barcodeRule.findMany({
+      orderBy: { prefix: 'asc' },
+    })
+
+    return NextResponse.json(rules)
+  } catch (error) {
+    console.error('Error fetching barcode rules:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const input = parseBarcodeRuleInput(await request.json())
+    await assertPrefixAvailable(input.prefix)
+
+    const rule = await prisma.barcodeRule.create({
+      data: input,
+    })
+
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error) {
+    if (error instanceof BarcodeRuleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error creating barcode rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
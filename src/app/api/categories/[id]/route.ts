@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { KitchenStation, TaxClass } from '@prisma/client'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { name, description, taxClass, taxRateId, loyaltyMultiplier, kitchenStation } = body
+
+    const existingCategory = await prisma.category.findUnique({
+      where: { id },
+    })
+
+    if (!existingCategory) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+    }
+
+    if (taxClass && !Object.values(TaxClass).includes(taxClass as TaxClass)) {
+      return NextResponse.json(
+        { error: 'Invalid tax class' },
+        { status: 400 }
+      )
+    }
+
+    if (loyaltyMultiplier !== undefined && !(Number(loyaltyMultiplier) >= 0 && Number(loyaltyMultiplier) <= 100)) {
+      return NextResponse.json(
+        { error: 'Loyalty multiplier must be between 0 and 100' },
+        { status: 400 }
+      )
+    }
+
+    if (kitchenStation && !Object.values(KitchenStation).includes(kitchenStation as KitchenStation)) {
+      return NextResponse.json(
+        { error: 'Invalid kitchen station' },
+        { status: 400 }
+      )
+    }
+
+    // Check if name is being changed and if it already exists
+    if (name && name !== existingCategory.name) {
+      const nameExists = await prisma.category.findUnique({
+        where: { name },
+      })
+
+      if (nameExists) {
+        return NextResponse.json(
+          { error: 'Category already exists' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const category = await prisma.category.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(description !== undefined && { description }),
+        // An empty tax class means "inherit the store default"
+        ...(taxClass !== undefined && {
+          taxClass: taxClass || null,
+          taxRateId: taxClass === 'CUSTOM' ? taxRateId || null : null,
+        }),
+        ...(loyaltyMultiplier !== undefined && { loyaltyMultiplier: Number(loyaltyMultiplier) }),
+        // An empty station means the items are handed over at the till
+        ...(kitchenStation !== undefined && { kitchenStation: kitchenStation || null }),
+      },
+      include: {
+        taxRate: true,
+      },
+    })
+
+    return NextResponse.json(category)
+  } catch (error) {
+    console.error('Error updating category:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
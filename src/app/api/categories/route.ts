@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { KitchenStation, TaxClass } from '@prisma/client'
 
 export async function GET() {
   try {
@@ -12,6 +13,9 @@ export async function GET() {
     }
 
     const categories = await prisma.category.findMany({
+      include: {
+        taxRate: true,
+      },
       orderBy: { name: 'asc' },
     })
 
@@ -34,7 +38,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { name, description } = body
+    const { name, description, taxClass, taxRateId, loyaltyMultiplier, kitchenStation } = body
 
     // Validate required fields
     if (!name) {
@@ -44,6 +48,27 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (taxClass && !Object.values(TaxClass).includes(taxClass as TaxClass)) {
+      return NextResponse.json(
+        { error: 'Invalid tax class' },
+        { status: 400 }
+      )
+    }
+
+    if (loyaltyMultiplier !== undefined && !(Number(loyaltyMultiplier) >= 0 && Number(loyaltyMultiplier) <= 100)) {
+      return NextResponse.json(
+        { error: 'Loyalty multiplier must be between 0 and 100' },
+        { status: 400 }
+      )
+    }
+
+    if (kitchenStation && !Object.values(KitchenStation).includes(kitchenStation as KitchenStation)) {
+      return NextResponse.json(
+        { error: 'Invalid kitchen station' },
+        { status: 400 }
+      )
+    }
+
     // Check if category already exists
     const existingCategory = await prisma.category.findUnique({
       where: { name },
@@ -60,6 +85,10 @@ export async function POST(request: NextRequest) {
       data: {
         name,
         description,
+        taxClass: taxClass || null,
+        taxRateId: taxClass === 'CUSTOM' ? taxRateId || null : null,
+        ...(loyaltyMultiplier !== undefined && { loyaltyMultiplier: Number(loyaltyMultiplier) }),
+        kitchenStation: kitchenStation || null,
       },
     })
 
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { adjustLoyaltyPoints, LoyaltyError } from '@/lib/loyalty'
+
+// Manual points correction (goodwill, data entry mistakes)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json() as {
+      points?: number | string;
+      reason?: string;
+    }
+
+    const customer = await prisma.customer.findUnique({ where: { id } })
+
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 })
+    }
+
+    const entry = await adjustLoyaltyPoints(customer.id, Number(body.points), body.reason || '', session.user.id)
+
+    return NextResponse.json(entry, { status: 201 })
+  } catch (error) {
+    if (error instanceof LoyaltyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error adjusting loyalty points:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import {
+  CustomerError,
+  EMPTY_CUSTOMER_STATS,
+  findDuplicateCustomer,
+  getCustomerStats,
+  parseCustomerInput,
+} from '@/lib/customers'
+import { expireLoyaltyPoints } from '@/lib/loyalty'
+
+// Customer profile with lifetime figures, purchase history and points ledger
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    await expireLoyaltyPoints([id])
+
+    const customer = await prisma.customer.findUnique({
+      where: { id },
+      include: {
+        transactions: {
+          include: {
+            items: {
+              include: {
+                product: {
+                  select: { name: true }
+                }
+              }
+            },
+            cashier: {
+              select: { name: true }
+            }
+          },
+          orderBy: { createdAt: 'desc' },
+          take: 100,
+        },
+        loyaltyEntries: {
+          include: {
+            transaction: {
+              select: { transactionNumber: true }
+            },
+            user: {
+              select: { name: true }
+            }
+          },
+          orderBy: { createdAt: 'desc' },
+          take: 100,
+        },
+      },
+    })
+
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 })
+    }
+
+    const stats = await getCustomerStats([customer.id])
+
+    return NextResponse.json({
+      ...customer,
+      ...(stats.get(customer.id) ?? EMPTY_CUSTOMER_STATS),
+    })
+  } catch (error) {
+    console.error('Error fetching customer:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const input = parseCustomerInput(await request.json())
+
+    const existing = await prisma.customer.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 })
+    }
+
+    const duplicate = await findDuplicateCustomer(input, id)
+    if (duplicate) {
+      return NextResponse.json({ error: duplicate }, { status: 409 })
+    }
+
+    const customer = await prisma.customer.update({
+      where: { id },
+      data: input,
+    })
+
+    return NextResponse.json(customer)
+  } catch (error) {
+    if (error instanceof CustomerError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error updating customer:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Past sales are kept; they are simply no longer linked to anyone
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const existing = await prisma.customer.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 })
+    }
+
+    await prisma.customer.delete({ where: { id } })
+
+    return NextResponse.json({ message: 'Customer deleted' })
+  } catch (error) {
+    console.error('Error deleting customer:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
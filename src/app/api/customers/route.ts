@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { Prisma } from '@prisma/client'
+import {
+  CustomerError,
+  EMPTY_CUSTOMER_STATS,
+  findDuplicateCustomer,
+  getCustomerStats,
+  normalizePhone,
+  parseCustomerInput,
+} from '@/lib/customers'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const search = searchParams.get('search')?.trim() || ''
+
+    const where: Prisma.CustomerWhereInput = {}
+
+    if (search) {
+      // Phone numbers are stored normalized, so the search term is too
+      const phone = normalizePhone(search)
+      where.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { email: { contains: search, mode: 'insensitive' } },
+        ...(phone && /\d{3,}/.test(phone) ? [{ phone: { contains: phone.replace(/^\+62/, '') } }] : []),
+      ]
+    }
+
+    const [customers, total] = await Promise.all([
+      prisma.customer.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { name: 'asc' },
+      }),
+      prisma.customer.count({ where }),
+    ])
+
+    const stats = await getCustomerStats(customers.map(customer => customer.id))
+
+    return NextResponse.json({
+      customers: customers.map(customer => ({
+        ...customer,
+        ...(stats.get(customer.id) ?? EMPTY_CUSTOMER_STATS),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching customers:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Any signed-in user can add a customer so cashiers can quick-create at the till
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const input = parseCustomerInput(await request.json())
+
+    const duplicate = await findDuplicateCustomer(input)
+    if (duplicate) {
+      return NextResponse.json({ error: duplicate }, { status: 409 })
+    }
+
+    const customer = await prisma.customer.create({
+      data: input,
+    })
+
+    return NextResponse.json({ ...customer, ...EMPTY_CUSTOMER_STATS }, { status: 201 })
+  } catch (error) {
+    if (error instanceof CustomerError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error creating customer:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,37 +1,57 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getActiveOutlet, OutletError } from '@/lib/outlets'
 
 export async function GET() {
   try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Figures for the active outlet; admins looking at all outlets get the whole business
+    const outlet = await getActiveOutlet(session)
+    // Only paid sales count, as in the reports
+    const transactionFilter = { paymentStatus: 'PAID' as const, ...(outlet && { outletId: outlet.id }) }
+
     // Get total number of products
     const totalProducts = await prisma.product.count()
     
     // Get total number of transactions
-    const totalTransactions = await prisma.transaction.count()
+    const totalTransactions = await prisma.transaction.count({
+      where: transactionFilter
+    })
     
-    // Get total revenue (sum of all final amounts from transactions)
+    // Net revenue: refunds are deducted from the sale they belong to
     const revenueResult = await prisma.transaction.aggregate({
       _sum: {
-        finalAmount: true
-      }
+        finalAmount: true,
+        refundedAmount: true
+      },
+      where: transactionFilter
     })
     
     // Get count of low stock products (assuming we consider < 10 as low stock)
     const lowStockProducts = await prisma.product.count({
-      where: {
-        stock: {
-          lt: 10
-        }
-      }
+      where: outlet
+        ? { outletStocks: { some: { outletId: outlet.id, stock: { lt: 10 } } } }
+        : { stock: { lt: 10 } }
     })
 
     return NextResponse.json({
       totalProducts,
       totalTransactions,
-totalRevenue: Number(revenueResult._sum.finalAmount) || 0,
+totalRevenue: (Number(revenueResult._sum.finalAmount) || 0) - (Number(revenueResult._sum.refundedAmount) || 0),
       lowStockProducts
     })
   } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error('Error fetching dashboard stats:', error)
     return NextResponse.json(
       { error: 'Failed to fetch dashboard statistics' },
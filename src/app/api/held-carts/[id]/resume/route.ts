@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { HELD_CART_INCLUDE, withHeldCartWarnings } from '@/lib/heldCarts'
+import { OutletError, requireActiveOutlet } from '@/lib/outlets'
+
+// Take a held cart back into the POS. It is removed in the same step so two
+// registers can't both resume it.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    // Only carts parked at this outlet can be resumed here
+    const outlet = await requireActiveOutlet(session)
+
+    const heldCart = await prisma.$transaction(async (tx) => {
+      const cart = await tx.heldCart.findUnique({
+        where: { id },
+        include: HELD_CART_INCLUDE,
+      })
+
+      if (!cart || cart.outletId !== outlet.id || cart.expiresAt < new Date()) {
+        return null
+      }
+
+      const deleted = await tx.heldCart.deleteMany({
+        where: { id },
+      })
+
+      return deleted.count > 0 ? cart : null
+    })
+
+    if (!heldCart) {
+      return NextResponse.json(
+        { error: 'Held cart not found. It may have expired or been resumed elsewhere.' },
+        { status: 404 }
+      )
+    }
+
+    const [resumed] = await withHeldCartWarnings([heldCart])
+    return NextResponse.json(resumed)
+  } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error resuming held cart:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const deleted = await prisma.heldCart.deleteMany({
+      where: { id },
+    })
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Held cart not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Held cart discarded' })
+  } catch (error) {
+    console.error('Error discarding held cart:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { normalizeNote, ORDER_NOTE_MAX_LENGTH, PricingError } from '@/lib/pricing'
+import {
+  getHeldCartExpiry,
+  HELD_CART_INCLUDE,
+  purgeExpiredHeldCarts,
+  withHeldCartWarnings,
+} from '@/lib/heldCarts'
+import { roundQuantity } from '@/lib/scaleBarcodes'
+import { withIdempotency } from '@/lib/idempotency'
+import { getActiveOutlet, OutletError, requireActiveOutlet } from '@/lib/outlets'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Stale holds are cleared whenever the list is read
+    await purgeExpiredHeldCarts()
+
+    // Carts parked at the till's outlet; admins looking at all outlets see every one
+    const outlet = await getActiveOutlet(session)
+
+    // Cashiers see the carts they parked; managers also pick up those left by others
+    const heldCarts = await prisma.heldCart.findMany({
+      where: {
+        ...(outlet && { outletId: outlet.id }),
+        ...(!canManageStore(session.user.role) && { cashierId: session.user.id })
+      },
+      include: HELD_CART_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json(await withHeldCartWarnings(heldCarts))
+  } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error fetching held carts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return withIdempotency(request, () => holdCart(request))
+}
+
+async function holdCart(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json() as {
+      label?: string;
+      voucherCode?: string;
+      customerEmail?: string;
+      customerId?: string;
+      note?: string;
+      items?: Array<{
+        productId: string;
+        quantity: number | string;
+        modifierOptionIds?: string[];
+        note?: string;
+        labelBarcode?: string;
+      }>;
+    }
+    const { label, voucherCode, customerEmail, customerId, note, items } = body
+
+    if (!label || !label.trim()) {
+      return NextResponse.json(
+        { error: 'Label is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!items || items.length === 0) {
+      return NextResponse.json(
+        { error: 'Items are required' },
+        { status: 400 }
+      )
+    }
+
+    // Weighed items are held at their weight; the sale checks it against the product
+    if (items.some(item => !item.productId || !(Number(item.quantity) > 0) || roundQuantity(Number(item.quantity)) !== Number(item.quantity))) {
+      return NextResponse.json(
+        { error: 'Each item needs a product and a positive quantity' },
+        { status: 400 }
+      )
+    }
+
+    const productIds = [...new Set(items.map(item => item.productId))]
+    if (await prisma.product.count({ where: { id: { in: productIds } } }) !== productIds.length) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 400 })
+    }
+
+    if (customerId && !await prisma.customer.findUnique({ where: { id: customerId } })) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 400 })
+    }
+
+    const outlet = await requireActiveOutlet(session)
+
+    // Parking a cart only records it; stock is untouched until the sale
+    const heldCart = await prisma.heldCart.create({
+      data: {
+        label: label.trim(),
+        voucherCode: voucherCode || null,
+        customerEmail: customerEmail || null,
+        customerId: customerId || null,
+        note: normalizeNote(note, ORDER_NOTE_MAX_LENGTH),
+        cashierId: session.user.id,
+        outletId: outlet.id,
+        expiresAt: getHeldCartExpiry(),
+        items: {
+          create: items.map(item => ({
+            productId: item.productId,
+            quantity: Number(item.quantity),
+            modifierOptionIds: item.modifierOptionIds ?? [],
+            note: normalizeNote(item.note),
+            labelBarcode: item.labelBarcode || null,
+          })),
+        },
+      },
+      include: HELD_CART_INCLUDE,
+    })
+
+    const [held] = await withHeldCartWarnings([heldCart])
+    return NextResponse.json(held, { status: 201 })
+  } catch (error) {
+    if (error instanceof PricingError || error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error holding cart:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
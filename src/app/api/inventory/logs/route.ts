@@ -4,6 +4,7 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { InventoryLogWhereInput } from '@/types/prisma'
 import { InventoryLogType } from '@prisma/client'
+import { getActiveOutlet, OutletError } from '@/lib/outlets'
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,7 +24,9 @@ export async function GET(request: NextRequest) {
 
     const skip = (page - 1) * limit
 
-    const where: InventoryLogWhereInput = {}
+    // Admins looking at all outlets see every outlet's movements
+    const outlet = await getActiveOutlet(session)
+    const where: InventoryLogWhereInput = outlet ? { outletId: outlet.id } : {}
 
     if (productId) {
       where.productId = productId
@@ -57,6 +60,11 @@ export async function GET(request: NextRequest) {
             select: {
               name: true
             }
+          },
+          outlet: {
+            select: {
+              name: true
+            }
           }
         },
         skip,
@@ -76,6 +84,10 @@ export async function GET(request: NextRequest) {
       },
     })
   } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error('Error fetching inventory logs:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
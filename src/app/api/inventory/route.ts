@@ -2,8 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { Prisma } from '@prisma/client'
 import { ProductWhereInput } from '@/types/prisma'
 import { notifyInventoryUpdate, notifyLowStock } from '@/lib/notifications'
+import { roundQuantity } from '@/lib/scaleBarcodes'
+import { getAvailableStock, getReservedStock, setOutletStock } from '@/lib/stock'
+import { withIdempotency } from '@/lib/idempotency'
+import { getActiveOutlet, getOutletStockLevels, requireActiveOutlet, withOutletStock, OutletError } from '@/lib/outlets'
 
 export async function GET(request: NextRequest) {
   try {
@@ -22,14 +27,20 @@ export async function GET(request: NextRequest) {
 
     const skip = (page - 1) * limit
 
+    // Stock at the active outlet, or the total over all outlets for admins
+    const outlet = await getActiveOutlet(session)
+
     const where: ProductWhereInput = {
       isActive: true,
+      // Variants are listed under their parent
+      parentId: null,
     }
 
     if (search) {
       where.OR = [
         { name: { contains: search, mode: 'insensitive' } },
         { sku: { contains: search, mode: 'insensitive' } },
+        { variants: { some: { sku: { contains: search, mode: 'insensitive' } } } },
       ]
     }
 
@@ -38,16 +49,27 @@ export async function GET(request: NextRequest) {
     }
 
     if (lowStock) {
-      where.stock = {
-        lte: prisma.product.fields.minStock
-      }
+      const isLow: ProductWhereInput = outlet
+        ? { outletStocks: { some: { outletId: outlet.id, stock: { lte: prisma.outletStock.fields.minStock } } } }
+        : { stock: { lte: prisma.product.fields.minStock } }
+
+      where.AND = [{
+        OR: [
+          { variantAxes: { isEmpty: true }, ...isLow },
+          { variants: { some: { isActive: true, ...isLow } } },
+        ]
+      }]
     }
 
-    const [products, total] = await Promise.all([
+    const [parents, total] = await Promise.all([
       prisma.product.findMany({
         where,
         include: {
           category: true,
+          variants: {
+            where: { isActive: true },
+            orderBy: { name: 'asc' },
+          },
         },
         skip,
         take: limit,
@@ -56,8 +78,42 @@ export async function GET(request: NextRequest) {
       prisma.product.count({ where }),
     ])
 
+    // Available to sell is what is on hand less what pending payments hold
+    const productIds = parents.flatMap(product => [product.id, ...product.variants.map(variant => variant.id)])
+    const [levels, reserved] = await Promise.all([
+      getOutletStockLevels(outlet, productIds),
+      getReservedStock(productIds, { outletId: outlet?.id }),
+    ])
+    const withReservations = <T extends { id: string; stock: Prisma.Decimal; minStock: Prisma.Decimal }>(product: T) => {
+      const atOutlet = withOutletStock(product, levels)
+      return {
+        ...atOutlet,
+        reservedStock: reserved.get(product.id) ?? 0,
+        availableStock: getAvailableStock(atOutlet.stock, reserved.get(product.id)),
+      }
+    }
+
+    // A parent's stock is the total of its variants
+    const products = parents.map(product => {
+      if (product.variantAxes.length === 0) {
+        return withReservations(product)
+      }
+
+      const variants = product.variants.map(withReservations)
+      return {
+        ...product,
+        variants,
+        stock: roundQuantity(variants.reduce((sum, variant) => sum + Number(variant.stock), 0)),
+        minStock: roundQuantity(variants.reduce((sum, variant) => sum + Number(variant.minStock), 0)),
+        reservedStock: roundQuantity(variants.reduce((sum, variant) => sum + variant.reservedStock, 0)),
+        availableStock: roundQuantity(variants.reduce((sum, variant) => sum + variant.availableStock, 0)),
+        lowStockVariants: variants.filter(variant => Number(variant.stock) <= Number(variant.minStock)).length,
+      }
+    })
+
     return NextResponse.json({
       products,
+      outlet,
       pagination: {
         page,
         limit,
@@ -66,6 +122,10 @@ export async function GET(request: NextRequest) {
       },
     })
   } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error('Error fetching inventory:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -75,6 +135,10 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  return withIdempotency(request, () => adjustStock(request))
+}
+
+async function adjustStock(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
 
@@ -85,6 +149,9 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const { adjustments } = body
 
+    // Stock is counted at one outlet at a time
+    const outlet = await requireActiveOutlet(session)
+
     if (!adjustments || !Array.isArray(adjustments) || adjustments.length === 0) {
       return NextResponse.json(
         { error: 'Adjustments array is required' },
@@ -116,29 +183,32 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      const previousStock = product.stock
-      const stockDifference = newStock - previousStock
+      if (product.variantAxes.length > 0) {
+        return NextResponse.json(
+          { error: `Adjust the stock of each variant of ${product.name} instead` },
+          { status: 400 }
+        )
+      }
 
-      // Update product stock
-      await prisma.product.update({
-        where: { id: productId },
-        data: {
-          stock: newStock
-        }
-      })
+      // Weighed products are counted in kilograms, to the gram
+      if (product.soldByWeight ? roundQuantity(newStock) !== newStock : !Number.isInteger(newStock)) {
+        return NextResponse.json(
+          { error: `Stock of ${product.name} must be ${product.soldByWeight ? 'a weight in kg to the gram' : 'a whole number'}` },
+          { status: 400 }
+        )
+      }
 
-      // Create inventory log
-      await prisma.inventoryLog.create({
-        data: {
-          productId,
-          type: stockDifference > 0 ? 'RESTOCK' : 'ADJUSTMENT',
-          quantity: Math.abs(stockDifference),
-          previousStock,
-          newStock,
-          reason,
-          createdBy: session.user.id
-        }
-      })
+      // Update the outlet's stock and log the change
+      const movement = await prisma.$transaction(tx => setOutletStock(tx, {
+        productId,
+        outletId: outlet.id,
+        newStock,
+        reason,
+        createdBy: session.user.id
+      }))
+
+      const previousStock = movement?.previousStock ?? newStock
+      const stockDifference = roundQuantity(newStock - previousStock)
 
       // Notify about inventory update
       const updateType = stockDifference > 0 ? 'RESTOCK' : 'ADJUSTMENT'
@@ -150,7 +220,7 @@ export async function POST(request: NextRequest) {
       )
 
       // Check for low stock and notify
-      if (newStock <= product.minStock) {
+      if (movement && newStock <= movement.minStock) {
         await notifyLowStock(session.user.id, product.name, newStock)
       }
 
@@ -168,6 +238,10 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error('Error adjusting inventory:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
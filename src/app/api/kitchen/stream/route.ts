@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getKitchenVersion, KitchenError, parseKitchenStation } from '@/lib/kitchen'
+
+export const dynamic = 'force-dynamic'
+
+const CHECK_INTERVAL_MS = 2000
+
+// Server-sent events for the kitchen display: a "tickets" event is pushed
+// whenever an order arrives or an item moves, and the display refetches
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const station = parseKitchenStation(searchParams.get('station'))
+
+    const encoder = new TextEncoder()
+    let timer: ReturnType<typeof setInterval> | undefined
+    // Set once the display goes away, however it goes: the client disconnecting
+    // or the stream being cancelled. Nothing is written to the stream after that.
+    let closed = false
+
+    const stop = () => {
+      closed = true
+      clearInterval(timer)
+    }
+
+    const stream = new ReadableStream({
+      start(controller) {
+        let lastVersion = ''
+
+        const close = () => {
+          if (closed) return
+          stop()
+          controller.close()
+        }
+
+        const check = async () => {
+          try {
+            const version = await getKitchenVersion(station)
+            if (!closed && version !== lastVersion) {
+              lastVersion = version
+              controller.enqueue(encoder.encode(`event: tickets\ndata: ${version}\n\n`))
+            }
+          } catch (error) {
+            console.error('Error checking kitchen tickets:', error)
+          }
+        }
+
+        check()
+        timer = setInterval(check, CHECK_INTERVAL_MS)
+        request.signal.addEventListener('abort', close)
+      },
+      // A cancelled stream is already closed, so it must not be closed again
+      cancel() {
+        stop()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (error) {
+    if (error instanceof KitchenError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error opening kitchen stream:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  KITCHEN_TICKET_INCLUDE,
+  KitchenError,
+  KitchenTicketWithItems,
+  moveKitchenItems,
+  parseKitchenItemStatus,
+} from '@/lib/kitchen'
+import { getOrderLabel } from '@/lib/orderTypes'
+import { wrapText } from '@/lib/printing'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'json' // json, text, thermal
+
+    const ticket = await prisma.kitchenTicket.findUnique({
+      where: { id },
+      include: KITCHEN_TICKET_INCLUDE,
+    })
+
+    if (!ticket) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 })
+    }
+
+    if (format === 'json') {
+      return NextResponse.json(ticket)
+    }
+
+    const headers = new Headers()
+    headers.set('Content-Type', 'text/plain')
+
+    return new Response(
+      format === 'thermal' ? generateThermalTicket(ticket) : generateTextTicket(ticket),
+      { headers }
+    )
+  } catch (error) {
+    console.error('Error fetching kitchen ticket:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Move one item (itemId) or the whole ticket to a new status
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json() as {
+      status?: string;
+      itemId?: string;
+    }
+
+    const ticket = await moveKitchenItems(id, parseKitchenItemStatus(body.status), body.itemId || undefined)
+
+    return NextResponse.json(ticket)
+  } catch (error) {
+    if (error instanceof KitchenError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error updating kitchen ticket:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+function generateThermalTicket(ticket: KitchenTicketWithItems): string {
+  let text = ''
+
+  text += '\x1B\x40' // Initialize printer
+  text += '\x1B\x61\x01' // Center alignment
+  text += '\x1D\x21\x11' // Double width and height
+  text += `${ticket.station}\n`
+  text += '\x1D\x21\x00' // Normal size
+  text += '\x1B\x61\x00' // Left alignment
+  text += generateTicketBody(ticket, 32)
+  text += '\n\n\n'
+
+  // Cut paper
+  text += '\x1D\x56\x42\x00'
+
+  return text
+}
+
+function generateTextTicket(ticket: KitchenTicketWithItems): string {
+  return `${ticket.station}\n` + generateTicketBody(ticket, 32)
+}
+
+// Quantities, items and modifiers only; the kitchen has no use for prices
+function generateTicketBody(ticket: KitchenTicketWithItems, width: number): string {
+  const order = ticket.transaction ?? ticket.tab
+  let text = ''
+
+  text += '='.repeat(width) + '\n'
+  if (ticket.transaction) {
+    text += `Order: ${ticket.transaction.transactionNumber}\n`
+  } else if (ticket.tab) {
+    text += `Tab: ${ticket.tab.label} (round ${ticket.round})\n`
+  }
+  if (order) {
+    text += `${getOrderLabel(order.orderType, order.table?.name)}\n`
+  }
+  text += `Time: ${new Date(ticket.createdAt).toLocaleString('id-ID')}\n`
+  if (order) {
+    text += `Cashier: ${order.cashier.name}\n`
+  }
+  text += '-'.repeat(width) + '\n'
+
+  ticket.items.forEach((item) => {
+    text += `${item.quantity} x ${item.name}`.substring(0, width) + '\n'
+    item.modifiers.forEach((modifier) => {
+      text += `    + ${modifier}`.substring(0, width) + '\n'
+    })
+    // Notes are the one thing the kitchen must not miss, so they are never cut short
+    if (item.note) {
+      wrapText(item.note, width - 6).forEach((line) => {
+        text += `    * ${line}\n`
+      })
+    }
+  })
+
+  if (ticket.transaction?.note) {
+    text += '-'.repeat(width) + '\n'
+    wrapText(`NOTE: ${ticket.transaction.note}`, width).forEach((line) => {
+      text += `${line}\n`
+    })
+  }
+
+  text += '='.repeat(width) + '\n'
+
+  return text
+}
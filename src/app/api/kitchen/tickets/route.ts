@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getKitchenVersion, getOpenKitchenTickets, KitchenError, parseKitchenStation } from '@/lib/kitchen'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const station = parseKitchenStation(searchParams.get('station'))
+
+    const [tickets, version] = await Promise.all([
+      getOpenKitchenTickets(station),
+      getKitchenVersion(station),
+    ])
+
+    return NextResponse.json({ tickets, version })
+  } catch (error) {
+    if (error instanceof KitchenError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error fetching kitchen tickets:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { MODIFIER_GROUP_INCLUDE, ModifierInputError, parseModifierGroupInput } from '@/lib/modifiers'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const existingGroup = await prisma.modifierGroup.findUnique({
+      where: { id },
+      include: { options: true },
+    })
+
+    if (!existingGroup) {
+      return NextResponse.json({ error: 'Modifier group not found' }, { status: 404 })
+    }
+
+    const { options, productIds, categoryIds, ...data } = parseModifierGroupInput(body)
+    const keptOptionIds = options
+      .map(option => option.id)
+      .filter((optionId): optionId is string => !!optionId && existingGroup.options.some(o => o.id === optionId))
+
+    const modifierGroup = await prisma.$transaction(async (tx) => {
+      // Removed options drop out of open carts; past sales keep their copy
+      await tx.modifierOption.deleteMany({
+        where: { groupId: id, id: { notIn: keptOptionIds } },
+      })
+
+      for (const [index, option] of options.entries()) {
+        const optionData = {
+          name: option.name,
+          priceDelta: option.priceDelta,
+          ingredientId: option.ingredientId,
+          ingredientQuantity: option.ingredientQuantity,
+          isActive: option.isActive,
+          sortOrder: index,
+        }
+
+        if (option.id && keptOptionIds.includes(option.id)) {
+          await tx.modifierOption.update({
+            where: { id: option.id },
+            data: optionData,
+          })
+        } else {
+          await tx.modifierOption.create({
+            data: { ...optionData, groupId: id },
+          })
+        }
+      }
+
+      return tx.modifierGroup.update({
+        where: { id },
+        data: {
+          ...data,
+          products: {
+            set: productIds.map(productId => ({ id: productId })),
+          },
+          categories: {
+            set: categoryIds.map(categoryId => ({ id: categoryId })),
+          },
+        },
+        include: MODIFIER_GROUP_INCLUDE,
+      })
+    })
+
+    return NextResponse.json(modifierGroup)
+  } catch (error) {
+    if (error instanceof ModifierInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error updating modifier group:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existingGroup = await prisma.modifierGroup.findUnique({
+      where: { id },
+    })
+
+    if (!existingGroup) {
+      return NextResponse.json({ error: 'Modifier group not found' }, { status: 404 })
+    }
+
+    // Past transactions keep the group and option names they were sold with
+    await prisma.modifierGroup.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'Modifier group deleted' })
+  } catch (error) {
+    console.error('Error deleting modifier group:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
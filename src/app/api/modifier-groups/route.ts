@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { MODIFIER_GROUP_INCLUDE, ModifierInputError, parseModifierGroupInput } from '@/lib/modifiers'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const modifierGroups = await prisma.modifierGroup.findMany({
+      include: MODIFIER_GROUP_INCLUDE,
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    })
+
+    return NextResponse.json(modifierGroups)
+  } catch (error) {
+    console.error('Error fetching modifier groups:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { options, productIds, categoryIds, ...data } = parseModifierGroupInput(body)
+
+    const modifierGroup = await prisma.modifierGroup.create({
+      data: {
+        ...data,
+        options: {
+          create: options.map((option, index) => ({
+            name: option.name,
+            priceDelta: option.priceDelta,
+            ingredientId: option.ingredientId,
+            ingredientQuantity: option.ingredientQuantity,
+            isActive: option.isActive,
+            sortOrder: index,
+          })),
+        },
+        products: {
+          connect: productIds.map(id => ({ id })),
+        },
+        categories: {
+          connect: categoryIds.map(id => ({ id })),
+        },
+      },
+      include: MODIFIER_GROUP_INCLUDE,
+    })
+
+    return NextResponse.json(modifierGroup, { status: 201 })
+  } catch (error) {
+    if (error instanceof ModifierInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error creating modifier group:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { assertOutletCodeAvailable, OutletError, parseOutletInput } from '@/lib/outlets'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const existingOutlet = await prisma.outlet.findUnique({
+      where: { id },
+    })
+
+    if (!existingOutlet) {
+      return NextResponse.json({ error: 'Outlet not found' }, { status: 404 })
+    }
+
+    // Switching an outlet off or reassigning staff only sends those fields
+    const input = parseOutletInput({ ...existingOutlet, ...body })
+    await assertOutletCodeAvailable(input.code, id)
+
+    const userIds = body.userIds
+    if (userIds !== undefined && (!Array.isArray(userIds) || !userIds.every(userId => typeof userId === 'string'))) {
+      return NextResponse.json({ error: 'User IDs must be a list' }, { status: 400 })
+    }
+
+    const outlet = await prisma.outlet.update({
+      where: { id },
+      data: {
+        ...input,
+        ...(body.isActive !== undefined && { isActive: Boolean(body.isActive) }),
+        ...(userIds !== undefined && { users: { set: userIds.map((userId: string) => ({ id: userId })) } }),
+      },
+      include: {
+        users: {
+          select: { id: true, name: true }
+        }
+      }
+    })
+
+    return NextResponse.json(outlet)
+  } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error updating outlet:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getAccessibleOutlets, OUTLET_COOKIE } from '@/lib/outlets'
+
+// Switch the outlet the user is working at; admins may pass null to see all outlets
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { outletId } = await request.json()
+
+    if (outletId === null) {
+      if (session.user.role !== 'ADMIN') {
+        return NextResponse.json({ error: 'Choose an outlet' }, { status: 400 })
+      }
+
+      const response = NextResponse.json({ activeOutletId: null })
+      response.cookies.delete(OUTLET_COOKIE)
+      return response
+    }
+
+    const outlets = await getAccessibleOutlets(session)
+    if (!outlets.some(outlet => outlet.id === outletId)) {
+      return NextResponse.json({ error: 'You do not work at that outlet' }, { status: 403 })
+    }
+
+    const response = NextResponse.json({ activeOutletId: outletId })
+    response.cookies.set(OUTLET_COOKIE, outletId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      path: '/',
+      maxAge: 60 * 60 * 24 * 365
+    })
+    return response
+  } catch (error) {
+    console.error('Error switching outlet:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  assertOutletCodeAvailable,
+  createOutletStocks,
+  getAccessibleOutlets,
+  getActiveOutlet,
+  OutletError,
+  parseOutletInput
+} from '@/lib/outlets'
+
+// The outlets the user can switch between, and the one they are working at
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [outlets, activeOutlet] = await Promise.all([
+      getAccessibleOutlets(session),
+      getActiveOutlet(session).catch(error => {
+        if (error instanceof OutletError) return null
+        throw error
+      })
+    ])
+
+    // Admins also manage outlets that were switched off, and who works where
+    const allOutlets = session.user.role === 'ADMIN'
+      ? await prisma.outlet.findMany({
+          include: {
+            users: {
+              select: { id: true, name: true }
+            }
+          },
+          orderBy: { name: 'asc' }
+        })
+      : null
+
+    return NextResponse.json({
+      outlets,
+      activeOutletId: activeOutlet?.id ?? null,
+      ...(allOutlets && { allOutlets })
+    })
+  } catch (error) {
+    console.error('Error fetching outlets:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const input = parseOutletInput(await request.json())
+    await assertOutletCodeAvailable(input.code)
+
+    // A new outlet starts with every product out of stock
+    const outlet = await prisma.$transaction(async (tx) => {
+      const created = await tx.outlet.create({
+        data: input
+      })
+      await createOutletStocks(tx, { outletIds: [created.id] })
+      return created
+    })
+
+    return NextResponse.json(outlet, { status: 201 })
+  } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error creating outlet:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
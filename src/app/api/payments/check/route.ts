@@ -4,7 +4,7 @@ import { prisma } from '@/lib/prisma'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { PaymentStatus } from '@prisma/client'
-import { notifyPaymentReceived, notifyLowStock } from '@/lib/notifications'
+import { markPaymentPaid, markPaymentUnpaid } from '@/lib/payments'
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,10 +30,22 @@ export async function POST(request: NextRequest) {
       include: {
         items: {
           include: {
-            product: true
+            product: true,
+            promotions: true,
+            modifiers: true
           }
         },
-        cashier: true
+        cashier: true,
+        payments: {
+          orderBy: { createdAt: 'asc' }
+        },
+        voucherRedemption: {
+          include: {
+            voucher: {
+              select: { code: true }
+            }
+          }
+        }
       }
     })
 
@@ -52,95 +64,63 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Check with Xendit if we have a payment ID
-    if (transaction.xenditPaymentId) {
+    // Check every outstanding Xendit tender; split sales may have several
+    const pendingPayments = transaction.payments.filter(payment =>
+      payment.status === 'PENDING' && payment.providerReference
+    )
+
+    let changed = false
+    for (const payment of pendingPayments) {
       try {
         const invoice = await xendit.Invoice.getInvoiceById({
-          invoiceId: transaction.xenditPaymentId
+          invoiceId: payment.providerReference!
         })
 
         console.log('Xendit invoice status:', invoice.status)
 
-        // Update transaction based on Xendit status
-        let paymentStatus: PaymentStatus = PaymentStatus.PENDING
-
+        // Shares the idempotent path with the webhook, so a race between
+        // the two deducts stock only once
         if (invoice.status === 'PAID' || invoice.status === 'SETTLED') {
-          paymentStatus = PaymentStatus.PAID
+          await markPaymentPaid(payment.id)
+          changed = true
         } else if (invoice.status === 'EXPIRED') {
-          paymentStatus = PaymentStatus.EXPIRED
+          const { updated } = await markPaymentUnpaid(payment.id, PaymentStatus.EXPIRED)
+          changed = changed || updated
         }
+      } catch (error) {
+        console.error('Error checking Xendit invoice:', error)
+      }
+    }
 
-        // Update transaction if status changed
-        if (paymentStatus !== transaction.paymentStatus) {
-          const updatedTransaction = await prisma.transaction.update({
-            where: { id: transactionId },
-            data: { paymentStatus },
+    if (changed) {
+      const updatedTransaction = await prisma.transaction.findUnique({
+        where: { id: transactionId },
+        include: {
+          items: {
             include: {
-              items: {
-                include: {
-                  product: true
-                }
-              },
-              cashier: true
+              product: true,
+              promotions: true,
+              modifiers: true
             }
-          })
-
-          // If payment is successful, update stock
-          if (paymentStatus === PaymentStatus.PAID) {
-            for (const item of transaction.items) {
-              // Get product before update to track stock changes
-              const product = await prisma.product.findUnique({
-                where: { id: item.productId }
-              })
-
-              if (product) {
-                const previousStock = product.stock
-                const newStock = previousStock - item.quantity
-
-                // Update product stock
-                await prisma.product.update({
-                  where: { id: item.productId },
-                  data: {
-                    stock: newStock
-                  }
-                })
-
-                // Create inventory log
-                await prisma.inventoryLog.create({
-                  data: {
-                    productId: item.productId,
-                    type: 'SALE',
-                    quantity: item.quantity,
-                    previousStock,
-                    newStock,
-                    reason: `Sale - Transaction ${transaction.transactionNumber}`,
-                    createdBy: transaction.cashierId
-                  }
-                })
-
-                // Check for low stock and notify
-                if (newStock <= product.minStock) {
-                  await notifyLowStock(transaction.cashierId, product.name, newStock)
-                }
+          },
+          cashier: true,
+          payments: {
+            orderBy: { createdAt: 'asc' }
+          },
+          voucherRedemption: {
+            include: {
+              voucher: {
+                select: { code: true }
               }
             }
-
-            // Notify payment received
-            await notifyPaymentReceived(
-              transaction.cashierId,
-              transaction.transactionNumber,
-              parseFloat(transaction.finalAmount.toString())
-            )
           }
-
-          return NextResponse.json({
-            status: paymentStatus,
-            transaction: updatedTransaction
-          })
         }
-      } catch (error) {
-        console.error('Error checking Xendit invoice:', error)
-      }
+      })
+
+      return NextResponse.json({
+        status: updatedTransaction?.paymentStatus ?? transaction.paymentStatus,
+        transaction: updatedTransaction
+      })
     }
 
     return NextResponse.json({
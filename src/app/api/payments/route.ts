@@ -3,9 +3,15 @@ import { xendit } from '@/lib/xendit'
 import { prisma } from '@/lib/prisma'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { PaymentStatus } from '@prisma/client'
+import { extendStockReservations, STOCK_RESERVATION_TTL_HOURS } from '@/lib/stock'
+import { withIdempotency } from '@/lib/idempotency'
+import { POST as handleXenditWebhook } from '@/app/api/webhooks/xendit/route'
 
 export async function POST(request: NextRequest) {
+  return withIdempotency(request, () => createPayment(request))
+}
+
+async function createPayment(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
 
@@ -18,7 +24,8 @@ export async function POST(request: NextRequest) {
       amount,
       paymentMethod,
       customerEmail,
-      transactionId
+      transactionId,
+      paymentId
     } = body
 
     // Validate required fields
@@ -29,8 +36,84 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Charge the tender recorded on the server, not what the client sent. A
+    // transaction without an explicit tender is charged its outstanding digital one.
+    let invoiceAmount = parseFloat(amount)
+    let payment = null
+    if (paymentId || transactionId) {
+      payment = await prisma.payment.findFirst({
+        where: paymentId
+          ? { id: paymentId }
+          : { transactionId, method: { not: 'CASH' }, status: { not: 'PAID' } },
+        include: {
+          transaction: {
+            select: {
+              paymentStatus: true,
+              customer: { select: { email: true } }
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' }
+      })
+
+      if (!payment) {
+        return NextResponse.json(
+          { error: 'Payment not found' },
+          { status: 404 }
+        )
+      }
+
+      if (payment.status === 'PAID') {
+        return NextResponse.json(
+          { error: 'This payment has already been paid' },
+          { status: 400 }
+        )
+      }
+
+      if (payment.transaction.paymentStatus !== 'PENDING') {
+        return NextResponse.json(
+          { error: 'Transaction is no longer awaiting payment' },
+          { status: 400 }
+        )
+      }
+
+      // A failed or expired tender keeps its history; the retry is a new tender
+      if (payment.status !== 'PENDING') {
+        payment = await prisma.payment.create({
+          data: {
+            transactionId: payment.transactionId,
+            method: payment.method,
+            amount: payment.amount
+          },
+          include: {
+            transaction: {
+              select: {
+                paymentStatus: true,
+                customer: { select: { email: true } }
+              }
+            }
+          }
+        })
+      }
+
+      invoiceAmount = Number(payment.amount)
+    }
+
+    // The customer linked to the sale is the payer; an email typed at the till
+    // is only used for sales without one
+    const payerEmail = payment?.transaction.customer?.email || customerEmail || 'customer@example.com'
+
     const paymentResult: Record<string, unknown> | null = null
-    const externalId = `txn-${transactionId}-${Date.now()}`
+    const invoiceTransactionId = payment?.transactionId ?? transactionId
+    const externalId = `txn-${invoiceTransactionId}-${Date.now()}`
+
+    // Saved before the invoice exists so even an immediate webhook finds its tender
+    if (payment) {
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: { externalId }
+      })
+    }
 
     // Use Xendit Invoice API for all payment methods
     // Note: Comment out specific payment methods to allow all available methods
@@ -63,20 +146,20 @@ export async function POST(request: NextRequest) {
     // Create invoice using xendit-node v7 API
     console.log('Creating Xendit invoice with data:', {
       externalId,
-      amount: parseFloat(amount),
+      amount: invoiceAmount,
       paymentMethod,
-      customerEmail: customerEmail as string || 'customer@example.com'
+      customerEmail: payerEmail
     })
 
     const invoiceData = {
       externalId: externalId,
-      amount: parseFloat(amount),
+      amount: invoiceAmount,
       currency: 'IDR',
-      payerEmail: customerEmail || 'customer@example.com',
-      description: `Payment for Transaction ${transactionId}`,
-      invoiceDuration: 86400, // 24 hours in seconds
-      successRedirectUrl: `${process.env.NEXTAUTH_URL}/dashboard/pos?payment=success&transaction_id=${transactionId}`,
-      failureRedirectUrl: `${process.env.NEXTAUTH_URL}/dashboard/pos?payment=failed&transaction_id=${transactionId}`,
+      payerEmail,
+      description: `Payment for Transaction ${invoiceTransactionId}`,
+      invoiceDuration: STOCK_RESERVATION_TTL_HOURS * 60 * 60, // in seconds
+      successRedirectUrl: `${process.env.NEXTAUTH_URL}/dashboard/pos?payment=success&transaction_id=${invoiceTransactionId}`,
+      failureRedirectUrl: `${process.env.NEXTAUTH_URL}/dashboard/pos?payment=failed&transaction_id=${invoiceTransactionId}`,
       webhookUrl: `${process.env.NEXTAUTH_URL}/api/webhooks/xendit`,
       ...invoiceSpecificOptions
     }
@@ -105,9 +188,21 @@ export async function POST(request: NextRequest) {
     console.log('Invoice URL:', invoice.invoiceUrl);
     console.log('Invoice ID:', invoice.id);
 
+    if (payment) {
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          providerReference: invoice.id,
+          invoiceUrl: invoice.invoiceUrl
+        }
+      })
+      await extendStockReservations(payment.transactionId)
+    }
+
     return NextResponse.json({
       success: true,
       payment: invoice,
+      paymentId: payment?.id ?? null,
       paymentMethod
     })
 
@@ -134,72 +229,8 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Webhook endpoint for payment status updates
+// Callback URLs set up before /api/webhooks/xendit still point here; they are
+// handled the same way, tender by tender
 export async function PUT(request: NextRequest) {
-  try {
-    const body = await request.json()
-    interface XenditWebhookBody {
-      external_id: string;
-      status: string;
-      payment_method?: string | { type?: string } | null;
-      invoice_url?: string;
-      [key: string]: unknown;
-    }
-
-    const bodyData = body as XenditWebhookBody;
-    const { external_id, status, payment_method } = bodyData;
-
-    console.log('Payment webhook received:', body)
-
-    // Find transaction by external ID or metadata
-    const transaction = await prisma.transaction.findFirst({
-      where: {
-        OR: [
-          { xenditPaymentId: external_id },
-          { id: external_id.replace(/^txn-/, '') }
-        ]
-      }
-    });
-
-    if (!transaction) {
-      console.error('Transaction not found for external ID:', external_id);
-      return NextResponse.json({ received: true, message: 'Transaction not found' });
-    }
-
-    // Update transaction status based on payment status
-    let paymentStatus: PaymentStatus = PaymentStatus.PENDING;
-    let paymentMethod = 'UNKNOWN';
-    
-    if (status === 'PAID' || status === 'SETTLED') {
-      paymentStatus = PaymentStatus.PAID;
-      paymentMethod = typeof payment_method === 'string' 
-        ? payment_method 
-        : (payment_method?.type || 'UNKNOWN');
-    } else if (status === 'FAILED') {
-      paymentStatus = PaymentStatus.FAILED;
-    } else if (status === 'EXPIRED') {
-      paymentStatus = PaymentStatus.EXPIRED;
-    }
-
-    // Update transaction
-    await prisma.transaction.update({
-      where: { id: transaction.id },
-      data: {
-        paymentStatus,
-        xenditPaymentId: external_id,
-        paymentMethod: paymentMethod as 'CASH' | 'XENDIT_QRIS' | 'XENDIT_EWALLET' | 'XENDIT_VIRTUAL_ACCOUNT',
-        xenditInvoiceUrl: (typeof body === 'object' && body !== null && 'invoice_url' in body) 
-          ? body.invoice_url as string 
-          : transaction.xenditInvoiceUrl
-      }
-    });
-
-    return NextResponse.json({ received: true })
-  } catch (error) {
-    console.error('Error processing payment webhook:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
-  }
+  return handleXenditWebhook(request)
 }
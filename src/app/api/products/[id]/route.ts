@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { TaxClass } from '@prisma/client'
+import { normalizePlu, parseStock } from '@/lib/scaleBarcodes'
+import { setOutletStock } from '@/lib/stock'
+import { getActiveOutlet, getOutletStockLevels, withOutletStock, OutletError } from '@/lib/outlets'
 
 export async function GET(
   request: NextRequest,
@@ -15,11 +19,19 @@ export async function GET(
     }
 
     const { id } = await params
+    const outlet = await getActiveOutlet(session)
     const product = await prisma.product.findUnique({
       where: { id },
       include: {
         category: true,
+        parent: {
+          select: { id: true, name: true, variantAxes: true },
+        },
+        variants: {
+          orderBy: { name: 'asc' },
+        },
         inventoryLogs: {
+          where: outlet ? { outletId: outlet.id } : {},
           take: 10,
           orderBy: { createdAt: 'desc' },
         },
@@ -30,8 +42,17 @@ export async function GET(
       return NextResponse.json({ error: 'Product not found' }, { status: 404 })
     }
 
-    return NextResponse.json(product)
+    const levels = await getOutletStockLevels(outlet, [product.id, ...product.variants.map(variant => variant.id)])
+
+    return NextResponse.json({
+      ...withOutletStock(product, levels),
+      variants: product.variants.map(variant => withOutletStock(variant, levels)),
+    })
   } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error('Error fetching product:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -65,8 +86,19 @@ export async function PUT(
       image,
       barcode,
       isActive,
+      taxClass,
+      taxRateId,
+      soldByWeight,
+      plu,
     } = body
 
+    if (taxClass && !Object.values(TaxClass).includes(taxClass as TaxClass)) {
+      return NextResponse.json(
+        { error: 'Invalid tax class' },
+        { status: 400 }
+      )
+    }
+
     // Check if product exists
     const existingProduct = await prisma.product.findUnique({
       where: { id },
@@ -76,6 +108,49 @@ export async function PUT(
       return NextResponse.json({ error: 'Product not found' }, { status: 404 })
     }
 
+    // Stock and minimums are edited for the active outlet
+    const outlet = await getActiveOutlet(session)
+    const current = withOutletStock(existingProduct, await getOutletStockLevels(outlet, [id]))
+    const stockChanged = stock !== undefined && Number(stock) !== Number(current.stock)
+
+    if (existingProduct.variantAxes.length > 0 && stockChanged) {
+      return NextResponse.json(
+        { error: 'Stock for a product with variants is kept on each variant' },
+        { status: 400 }
+      )
+    }
+
+    if (stockChanged && !outlet) {
+      return NextResponse.json(
+        { error: 'Choose an outlet to change its stock' },
+        { status: 400 }
+      )
+    }
+
+    // An empty PLU takes the product off the scale
+    const productPlu = plu ? normalizePlu(String(plu).trim()) : null
+    if (productPlu && !/^\d+$/.test(productPlu)) {
+      return NextResponse.json(
+        { error: 'PLU must contain digits only' },
+        { status: 400 }
+      )
+    }
+
+    if (productPlu && productPlu !== existingProduct.plu) {
+      const pluExists = await prisma.product.findUnique({
+        where: { plu: productPlu },
+      })
+
+      if (pluExists) {
+        return NextResponse.json(
+          { error: 'PLU already exists' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const isSoldByWeight = soldByWeight !== undefined ? Boolean(soldByWeight) : existingProduct.soldByWeight
+
     // Check if SKU is being changed and if it already exists
     if (sku && sku !== existingProduct.sku) {
       const skuExists = await prisma.product.findUnique({
@@ -90,7 +165,28 @@ export async function PUT(
       }
     }
 
-    const product = await prisma.product.update({
+    if (outlet && (stockChanged || minStock !== undefined)) {
+      await prisma.$transaction(async (tx) => {
+        if (minStock !== undefined) {
+          await tx.outletStock.update({
+            where: { outletId_productId: { outletId: outlet.id, productId: id } },
+            data: { minStock: parseStock(minStock, isSoldByWeight) },
+          })
+        }
+
+        if (stockChanged) {
+          await setOutletStock(tx, {
+            productId: id,
+            outletId: outlet.id,
+            newStock: parseStock(stock, isSoldByWeight),
+            reason: 'Edited on the product form',
+            createdBy: session.user.id,
+          })
+        }
+      })
+    }
+
+    const updated = await prisma.product.update({
       where: { id },
       data: {
         ...(name && { name }),
@@ -98,20 +194,44 @@ export async function PUT(
         ...(sku && { sku }),
         ...(price && { price: parseFloat(price) }),
         ...(cost !== undefined && { cost: parseFloat(cost) }),
-        ...(stock !== undefined && { stock: parseInt(stock) }),
-        ...(minStock !== undefined && { minStock: parseInt(minStock) }),
+        // Without an outlet this is the default minimum for outlets added later
+        ...(minStock !== undefined && !outlet && { minStock: parseStock(minStock, isSoldByWeight) }),
         ...(categoryId && { categoryId }),
         ...(image !== undefined && { image: image || '/default-product.svg' }),
         ...(barcode !== undefined && { barcode }),
         ...(isActive !== undefined && { isActive }),
+        ...(soldByWeight !== undefined && { soldByWeight: isSoldByWeight }),
+        ...(plu !== undefined && { plu: productPlu }),
+        // An empty tax class means "inherit from the category"
+        ...(taxClass !== undefined && {
+          taxClass: taxClass || null,
+          taxRateId: taxClass === 'CUSTOM' ? taxRateId || null : null,
+        }),
       },
       include: {
         category: true,
       },
     })
+    const product = withOutletStock(updated, await getOutletStockLevels(outlet, [id]))
+
+    // Variants always sit in their parent's category and tax class
+    if (existingProduct.variantAxes.length > 0) {
+      await prisma.product.updateMany({
+        where: { parentId: id },
+        data: {
+          categoryId: product.categoryId,
+          taxClass: product.taxClass,
+          taxRateId: product.taxRateId,
+        },
+      })
+    }
 
     return NextResponse.json(product)
   } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error('Error updating product:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -137,6 +257,11 @@ export async function DELETE(
       where: { id },
       include: {
         transactionItems: true,
+        variants: {
+          include: {
+            transactionItems: true,
+          },
+        },
       },
     })
 
@@ -144,11 +269,17 @@ export async function DELETE(
       return NextResponse.json({ error: 'Product not found' }, { status: 404 })
     }
 
+    // A parent goes together with its variants
+    const productIds = [id, ...existingProduct.variants.map(variant => variant.id)]
+
     // Check if product has transactions
-    if (existingProduct.transactionItems.length > 0) {
+    if (
+      existingProduct.transactionItems.length > 0 ||
+      existingProduct.variants.some(variant => variant.transactionItems.length > 0)
+    ) {
       // Soft delete instead of hard delete
-      await prisma.product.update({
-        where: { id },
+      await prisma.product.updateMany({
+        where: { id: { in: productIds } },
         data: { isActive: false },
       })
 
@@ -156,9 +287,14 @@ export async function DELETE(
     }
 
     // Hard delete if no transactions
-    await prisma.product.delete({
-      where: { id },
-    })
+    await prisma.$transaction([
+      prisma.product.deleteMany({
+        where: { parentId: id },
+      }),
+      prisma.product.delete({
+        where: { id },
+      }),
+    ])
 
     return NextResponse.json({ message: 'Product deleted' })
   } catch (error) {
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { generateVariants, parseVariantAxes, VariantError } from '@/lib/variants'
+
+// Generate the variant matrix for a product from its option axes
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json() as {
+      axes?: Array<{
+        name: string;
+        values: string[];
+      }>;
+    }
+
+    const variants = await generateVariants(id, parseVariantAxes(body.axes))
+
+    return NextResponse.json(variants, { status: 201 })
+  } catch (error) {
+    if (error instanceof VariantError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error generating variants:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
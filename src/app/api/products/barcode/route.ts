@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { BarcodeRuleError, SCANNED_PRODUCT_INCLUDE, findProductByScaleBarcode } from '@/lib/barcodeRules'
+import { getActiveOutlet, getOutletStockLevels, withOutletStock, OutletError } from '@/lib/outlets'
 
 export async function GET(request: NextRequest) {
   try {
@@ -21,26 +23,54 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // Stock is what is on the shelves of the till's outlet
+    const outlet = await getActiveOutlet(session)
+
     // Find product by barcode
-    const product = await prisma.product.findFirst({
+    const found = await prisma.product.findFirst({
       where: {
         barcode: barcode,
         isActive: true
       },
-      include: {
-        category: true
-      }
+      include: SCANNED_PRODUCT_INCLUDE
     })
 
-    if (!product) {
+    if (!found) {
+      // Not a product's own barcode; it may be a label printed by the scale,
+      // which also says how much was weighed
+      const scanned = await findProductByScaleBarcode(barcode)
+
+      if (!scanned) {
+        return NextResponse.json(
+          { error: 'Product not found' },
+          { status: 404 }
+        )
+      }
+
+      const scannedProduct = withOutletStock(scanned.product, await getOutletStockLevels(outlet, [scanned.product.id]))
+
+      return NextResponse.json({
+        product: scannedProduct,
+        quantity: scanned.quantity,
+        labelPrice: scanned.labelPrice,
+        message: Number(scannedProduct.stock) < scanned.quantity
+          ? 'Product found but not enough in stock'
+          : 'Product found and in stock'
+      })
+    }
+
+    const product = withOutletStock(found, await getOutletStockLevels(outlet, [found.id]))
+
+    // A variant's barcode resolves to that variant; the parent itself can't be sold
+    if (product.variantAxes.length > 0) {
       return NextResponse.json(
-        { error: 'Product not found' },
-        { status: 404 }
+        { error: `"${product.name}" comes in variants. Scan the variant's own barcode.` },
+        { status: 400 }
       )
     }
 
     // Check if product is in stock
-    if (product.stock <= 0) {
+    if (Number(product.stock) <= 0) {
       return NextResponse.json({
         product,
         message: 'Product found but out of stock'
@@ -53,6 +83,10 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof BarcodeRuleError || error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error('Error scanning barcode:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,142 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getStoreSettings } from '@/lib/settings'
+import { resolveProductTax } from '@/lib/tax'
+import { ACTIVE_MODIFIER_GROUPS, getProductModifierGroups } from '@/lib/modifiers'
+import { getActiveBarcodeRules } from '@/lib/barcodeRules'
+import { getScheduledPromotions } from '@/lib/promotions'
+import { getAvailableStock, getReservedStock } from '@/lib/stock'
+import { getActiveOutlet, getOutletStockLevels, withOutletStock, OutletError } from '@/lib/outlets'
+
+// Everything the POS needs to keep selling while offline: the active catalog
+// with each product's resolved tax and stock available to sell at the till's
+// outlet, the settings
+// used to total a sale, the promotions that may run and the rules for reading
+// scale labels
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [products, categories, settings, promotions, barcodeRules, outlet] = await Promise.all([
+      prisma.product.findMany({
+        // Parents are only a grouping; their variants are what gets sold
+        where: { isActive: true, variantAxes: { isEmpty: true } },
+        include: {
+          taxRate: true,
+          modifierGroups: ACTIVE_MODIFIER_GROUPS,
+          category: {
+            include: {
+              taxRate: true,
+              modifierGroups: ACTIVE_MODIFIER_GROUPS
+            }
+          }
+        },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.category.findMany({
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' },
+      }),
+      getStoreSettings(),
+      getScheduledPromotions(),
+      getActiveBarcodeRules(),
+      getActiveOutlet(session),
+    ])
+
+    const productIds = products.map(product => product.id)
+    const [levels, reserved] = await Promise.all([
+      getOutletStockLevels(outlet, productIds),
+      getReservedStock(productIds, { outletId: outlet?.id }),
+    ])
+
+    return NextResponse.json({
+      products: products.map(atStore => {
+        const product = withOutletStock(atStore, levels)
+        const tax = resolveProductTax(product, settings)
+
+        return {
+          id: product.id,
+          name: product.name,
+          sku: product.sku,
+          price: Number(product.price),
+          // Stock held for pending digital payments cannot be sold again
+          stock: getAvailableStock(product.stock, reserved.get(product.id)),
+          reservedStock: reserved.get(product.id) ?? 0,
+          minStock: Number(product.minStock),
+          image: product.image,
+          barcode: product.barcode,
+          soldByWeight: product.soldByWeight,
+          plu: product.plu,
+          category: {
+            id: product.category.id,
+            name: product.category.name
+          },
+          tax: {
+            name: tax.name,
+            rate: tax.rate
+          },
+          modifierGroups: getProductModifierGroups(product).map(group => ({
+            id: group.id,
+            name: group.name,
+            minSelect: group.minSelect,
+            maxSelect: group.maxSelect,
+            options: group.options.map(option => ({
+              id: option.id,
+              name: option.name,
+              priceDelta: Number(option.priceDelta)
+            }))
+          }))
+        }
+      }),
+      categories,
+      // No outlet means an admin looking at all outlets, who cannot sell
+      outlet: outlet && { id: outlet.id, name: outlet.name, code: outlet.code },
+      settings: {
+        pricesIncludeTax: settings.pricesIncludeTax,
+        cashRounding: settings.cashRounding,
+        timeZone: settings.timeZone
+      },
+      promotions: promotions.map(promotion => ({
+        id: promotion.id,
+        name: promotion.name,
+        type: promotion.type,
+        scope: promotion.scope,
+        value: Number(promotion.value),
+        buyQuantity: promotion.buyQuantity,
+        getQuantity: promotion.getQuantity,
+        startsAt: promotion.startsAt,
+        endsAt: promotion.endsAt,
+        startTime: promotion.startTime,
+        endTime: promotion.endTime,
+        daysOfWeek: promotion.daysOfWeek,
+        isActive: promotion.isActive,
+        products: promotion.products.map(product => ({ id: product.id })),
+        categories: promotion.categories.map(category => ({ id: category.id }))
+      })),
+      barcodeRules: barcodeRules.map(rule => ({
+        prefix: rule.prefix,
+        pluLength: rule.pluLength,
+        valueType: rule.valueType,
+        valueLength: rule.valueLength,
+        valueDecimals: rule.valueDecimals
+      })),
+      cachedAt: new Date().toISOString()
+    })
+  } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error fetching catalog:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
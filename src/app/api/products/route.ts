@@ -3,6 +3,10 @@ import { prisma } from '@/lib/prisma'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { ProductWhereInput } from '@/types/prisma'
+import { TaxClass } from '@prisma/client'
+import { normalizePlu, parseStock } from '@/lib/scaleBarcodes'
+import { setOutletStock } from '@/lib/stock'
+import { createOutletStocks, getActiveOutlet, getOutletStockLevels, withOutletStock, OutletError } from '@/lib/outlets'
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,9 +21,14 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '10')
     const search = searchParams.get('search') || ''
     const category = searchParams.get('category') || ''
+    // The products page lists parents with their variants nested under them
+    const topLevel = searchParams.get('topLevel') === 'true'
 
     const skip = (page - 1) * limit
 
+    // Stock at the active outlet, or the total over all outlets for admins
+    const outlet = await getActiveOutlet(session)
+
     const where: ProductWhereInput = {
       isActive: true,
     }
@@ -29,18 +38,38 @@ export async function GET(request: NextRequest) {
         { name: { contains: search, mode: 'insensitive' } },
         { sku: { contains: search, mode: 'insensitive' } },
         { description: { contains: search, mode: 'insensitive' } },
+        ...(topLevel ? [{
+          variants: {
+            some: {
+              OR: [
+                { sku: { contains: search, mode: 'insensitive' as const } },
+                { barcode: { contains: search, mode: 'insensitive' as const } },
+              ],
+            },
+          },
+        }] : []),
       ]
     }
 
+    if (topLevel) {
+      where.parentId = null
+    }
+
     if (category) {
       where.categoryId = category
     }
 
-    const [products, total] = await Promise.all([
+    const [found, total] = await Promise.all([
       prisma.product.findMany({
         where,
         include: {
           category: true,
+          ...(topLevel && {
+            variants: {
+              where: { isActive: true },
+              orderBy: { name: 'asc' as const },
+            },
+          }),
         },
         skip,
         take: limit,
@@ -49,6 +78,15 @@ export async function GET(request: NextRequest) {
       prisma.product.count({ where }),
     ])
 
+    const levels = await getOutletStockLevels(
+      outlet,
+      found.flatMap(product => [product.id, ...('variants' in product ? product.variants.map(variant => variant.id) : [])])
+    )
+    const products = found.map(product => ({
+      ...withOutletStock(product, levels),
+      ...('variants' in product && { variants: product.variants.map(variant => withOutletStock(variant, levels)) }),
+    }))
+
     return NextResponse.json({
       products,
       pagination: {
@@ -59,6 +97,10 @@ export async function GET(request: NextRequest) {
       },
     })
   } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error('Error fetching products:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -87,6 +129,10 @@ export async function POST(request: NextRequest) {
       categoryId,
       image,
       barcode,
+      taxClass,
+      taxRateId,
+      soldByWeight,
+      plu,
     } = body
 
     // Validate required fields
@@ -97,6 +143,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (taxClass && !Object.values(TaxClass).includes(taxClass as TaxClass)) {
+      return NextResponse.json(
+        { error: 'Invalid tax class' },
+        { status: 400 }
+      )
+    }
+
     // Check if SKU already exists
     const existingProduct = await prisma.product.findUnique({
       where: { sku },
@@ -109,26 +162,80 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const product = await prisma.product.create({
+    // The PLU is what the scale prints on its labels
+    const productPlu = plu ? normalizePlu(String(plu).trim()) : null
+    if (productPlu && !/^\d+$/.test(productPlu)) {
+      return NextResponse.json(
+        { error: 'PLU must contain digits only' },
+        { status: 400 }
+      )
+    }
+
+    if (productPlu && await prisma.product.findUnique({ where: { plu: productPlu } })) {
+      return NextResponse.json(
+        { error: 'PLU already exists' },
+        { status: 400 }
+      )
+    }
+
+    // Opening stock is put on the shelves of the active outlet
+    const openingStock = parseStock(stock || 0, Boolean(soldByWeight))
+    const outlet = await getActiveOutlet(session)
+
+    if (openingStock !== 0 && !outlet) {
+      return NextResponse.json(
+        { error: 'Choose an outlet to put the opening stock in' },
+        { status: 400 }
+      )
+    }
+
+    const created = await prisma.product.create({
       data: {
         name,
         description,
         sku,
         price: parseFloat(price),
         cost: parseFloat(cost || 0),
-        stock: parseInt(stock || 0),
-        minStock: parseInt(minStock || 5),
+        minStock: parseStock(minStock || 5, Boolean(soldByWeight)),
         categoryId,
         image: image || '/default-product.svg',
         barcode,
-      },
-      include: {
-        category: true,
+        soldByWeight: Boolean(soldByWeight),
+        plu: productPlu,
+        taxClass: taxClass || null,
+        taxRateId: taxClass === 'CUSTOM' ? taxRateId || null : null,
       },
     })
 
+    const product = await prisma.$transaction(async (tx) => {
+      await createOutletStocks(tx, { productIds: [created.id] })
+
+      if (outlet && openingStock !== 0) {
+        await setOutletStock(tx, {
+          productId: created.id,
+          outletId: outlet.id,
+          newStock: openingStock,
+          reason: 'Opening stock',
+          createdBy: session.user.id
+        })
+      }
+
+      const product = await tx.product.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          category: true,
+        },
+      })
+
+      return withOutletStock(product, await getOutletStockLevels(outlet, [product.id], tx))
+    })
+
     return NextResponse.json(product, { status: 201 })
   } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error('Error creating product:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { parsePromotionInput, PromotionInputError, PROMOTION_TARGETS } from '@/lib/promotions'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const existingPromotion = await prisma.promotion.findUnique({
+      where: { id },
+    })
+
+    if (!existingPromotion) {
+      return NextResponse.json({ error: 'Promotion not found' }, { status: 404 })
+    }
+
+    const { productIds, categoryIds, ...data } = parsePromotionInput(body)
+
+    const promotion = await prisma.promotion.update({
+      where: { id },
+      data: {
+        ...data,
+        products: {
+          set: productIds.map(productId => ({ id: productId })),
+        },
+        categories: {
+          set: categoryIds.map(categoryId => ({ id: categoryId })),
+        },
+      },
+      include: PROMOTION_TARGETS,
+    })
+
+    return NextResponse.json(promotion)
+  } catch (error) {
+    if (error instanceof PromotionInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error updating promotion:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existingPromotion = await prisma.promotion.findUnique({
+      where: { id },
+    })
+
+    if (!existingPromotion) {
+      return NextResponse.json({ error: 'Promotion not found' }, { status: 404 })
+    }
+
+    // Past transactions keep the promotion name and discount they were sold with
+    await prisma.promotion.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'Promotion deleted' })
+  } catch (error) {
+    console.error('Error deleting promotion:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
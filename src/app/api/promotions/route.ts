@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { parsePromotionInput, PromotionInputError, PROMOTION_TARGETS } from '@/lib/promotions'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const promotions = await prisma.promotion.findMany({
+      include: PROMOTION_TARGETS,
+      orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }],
+    })
+
+    return NextResponse.json(promotions)
+  } catch (error) {
+    console.error('Error fetching promotions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { productIds, categoryIds, ...data } = parsePromotionInput(body)
+
+    const promotion = await prisma.promotion.create({
+      data: {
+        ...data,
+        products: {
+          connect: productIds.map(id => ({ id })),
+        },
+        categories: {
+          connect: categoryIds.map(id => ({ id })),
+        },
+      },
+      include: PROMOTION_TARGETS,
+    })
+
+    return NextResponse.json(promotion, { status: 201 })
+  } catch (error) {
+    if (error instanceof PromotionInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error creating promotion:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import {
+  assertPurchaseOrderAccess,
+  getPurchaseOrderTotal,
+  PURCHASE_ORDER_INCLUDE,
+  PurchaseOrderError,
+  cancelPurchaseOrder,
+} from '@/lib/purchaseOrders'
+
+// Stop expecting what is still outstanding on the order
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const order = await prisma.purchaseOrder.findUnique({ where: { id } })
+
+    if (!order) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    await assertPurchaseOrderAccess(session, order)
+    await cancelPurchaseOrder(id)
+
+    const updated = await prisma.purchaseOrder.findUniqueOrThrow({
+      where: { id },
+      include: PURCHASE_ORDER_INCLUDE,
+    })
+
+    return NextResponse.json({ ...updated, total: getPurchaseOrderTotal(updated.items) })
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error cancelling purchase order:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { formatQuantity } from '@/lib/scaleBarcodes'
+import {
+  assertPurchaseOrderAccess,
+  getPurchaseOrderTotal,
+  PURCHASE_ORDER_INCLUDE,
+  PurchaseOrderError,
+  PurchaseOrderWithItems,
+} from '@/lib/purchaseOrders'
+import { escapeHtml, formatCurrency } from '@/lib/printing'
+
+// Printable purchase order to send to the supplier; the browser's print dialog saves it as PDF
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const order = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: PURCHASE_ORDER_INCLUDE,
+    })
+
+    if (!order) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    await assertPurchaseOrderAccess(session, order)
+
+    return new Response(generatePurchaseOrderDocument(order), {
+      headers: { 'Content-Type': 'text/html' },
+    })
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error generating purchase order document:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+function generatePurchaseOrderDocument(order: PurchaseOrderWithItems): string {
+  const storeName = 'NextPOS Store'
+  const { supplier, outlet } = order
+  const draft = order.status === 'DRAFT'
+  const cancelled = order.status === 'CANCELLED'
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Purchase Order ${escapeHtml(order.poNumber)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; font-size: 12px; margin: 0; padding: 20px; max-width: 760px; }
+        .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 20px; }
+        .store-name { font-size: 18px; font-weight: bold; }
+        .title { font-size: 18px; font-weight: bold; text-align: right; }
+        .meta { text-align: right; margin-top: 4px; }
+        .stamp { color: #b91c1c; font-weight: bold; font-size: 14px; text-align: right; margin-top: 6px; }
+        .parties { display: flex; gap: 40px; margin-bottom: 20px; }
+        .party { flex: 1; }
+        .party-label { font-size: 10px; text-transform: uppercase; color: #555; margin-bottom: 4px; }
+        table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
+        th, td { border: 1px solid #999; padding: 6px; text-align: left; }
+        th { background: #f0f0f0; }
+        .number { text-align: right; white-space: nowrap; }
+        .total td { font-weight: bold; }
+        .notes { margin-bottom: 20px; }
+        .signatures { display: flex; justify-content: flex-end; margin-top: 50px; }
+        .signature { width: 220px; text-align: center; }
+        .signature-line { border-top: 1px solid #000; margin-top: 50px; padding-top: 4px; }
+        .footer { margin-top: 30px; font-size: 10px; color: #555; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div>
+          <div class="store-name">${storeName}</div>
+          <div>${escapeHtml(outlet.name)} (${escapeHtml(outlet.code)})</div>
+          ${outlet.address ? `<div>${escapeHtml(outlet.address)}</div>` : ''}
+        </div>
+        <div>
+          <div class="title">PURCHASE ORDER</div>
+          <div class="meta">No. ${escapeHtml(order.poNumber)}</div>
+          <div class="meta">Date: ${new Date(order.sentAt ?? order.createdAt).toLocaleDateString('id-ID')}</div>
+          ${draft ? '<div class="stamp">DRAFT</div>' : ''}
+          ${cancelled ? '<div class="stamp">CANCELLED</div>' : ''}
+        </div>
+      </div>
+
+      <div class="parties">
+        <div class="party">
+          <div class="party-label">Supplier</div>
+          <div><strong>${escapeHtml(supplier.name)}</strong></div>
+          ${supplier.contactName ? `<div>Attn: ${escapeHtml(supplier.contactName)}</div>` : ''}
+          ${supplier.address ? `<div>${escapeHtml(supplier.address)}</div>` : ''}
+          ${supplier.phone ? `<div>${escapeHtml(supplier.phone)}</div>` : ''}
+          ${supplier.email ? `<div>${escapeHtml(supplier.email)}</div>` : ''}
+        </div>
+        <div class="party">
+          <div class="party-label">Deliver To</div>
+          <div><strong>${escapeHtml(outlet.name)}</strong></div>
+          ${outlet.address ? `<div>${escapeHtml(outlet.address)}</div>` : ''}
+          ${order.expectedAt ? `<div>Expected by ${new Date(order.expectedAt).toLocaleDateString('id-ID')}</div>` : ''}
+        </div>
+      </div>
+
+      <table>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>SKU</th>
+            <th>Product</th>
+            <th class="number">Quantity</th>
+            <th class="number">Unit Cost</th>
+            <th class="number">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${order.items.map((item, index) => `
+            <tr>
+              <td>${index + 1}</td>
+              <td>${escapeHtml(item.product.sku)}</td>
+              <td>${escapeHtml(item.product.name)}</td>
+              <td class="number">${formatQuantity(item.quantity, item.product.soldByWeight)}</td>
+              <td class="number">${formatCurrency(Number(item.unitCost))}${item.product.soldByWeight ? '/kg' : ''}</td>
+              <td class="number">${formatCurrency(Number(item.quantity) * Number(item.unitCost))}</td>
+            </tr>
+          `).join('')}
+          <tr class="total">
+            <td colspan="5" class="number">TOTAL</td>
+            <td class="number">${formatCurrency(getPurchaseOrderTotal(order.items))}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      ${order.note ? `<div class="notes"><strong>Note:</strong> ${escapeHtml(order.note)}</div>` : ''}
+
+      <div class="signatures">
+        <div class="signature">
+          <div class="signature-line">Authorized by: ${escapeHtml(order.creator.name)}</div>
+        </div>
+      </div>
+
+      <div class="footer">
+        Please quote ${escapeHtml(order.poNumber)} on your delivery note and invoice.
+        Printed ${new Date().toLocaleString('id-ID')}
+      </div>
+    </body>
+    </html>
+  `
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { withIdempotency } from '@/lib/idempotency'
+import {
+  assertPurchaseOrderAccess,
+  getPurchaseOrderTotal,
+  PurchaseOrderError,
+  receivePurchaseOrder,
+} from '@/lib/purchaseOrders'
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withIdempotency(request, () => receiveGoods(request, context))
+}
+
+// Goods receipt: book in a delivery against the order
+async function receiveGoods(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json() as {
+      items?: unknown;
+      updateCost?: unknown;
+      note?: unknown;
+    }
+
+    const order = await prisma.purchaseOrder.findUnique({ where: { id } })
+
+    if (!order) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    await assertPurchaseOrderAccess(session, order)
+
+    const received = await receivePurchaseOrder(id, body, session.user.id)
+
+    return NextResponse.json({ ...received, total: getPurchaseOrderTotal(received.items) })
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error receiving purchase order:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import {
+  assertPurchaseOrderAccess,
+  getPurchaseOrderTotal,
+  PURCHASE_ORDER_INCLUDE,
+  PurchaseOrderError,
+  updatePurchaseOrder,
+} from '@/lib/purchaseOrders'
+
+// The order with its goods receipts: the RESTOCK entries booked against it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const order = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: {
+        ...PURCHASE_ORDER_INCLUDE,
+        inventoryLogs: {
+          include: {
+            product: { select: { name: true, soldByWeight: true } },
+            user: { select: { name: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+
+    if (!order) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    await assertPurchaseOrderAccess(session, order)
+
+    return NextResponse.json({ ...order, total: getPurchaseOrderTotal(order.items) })
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error fetching purchase order:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Change the supplier, note, delivery date or items of a draft
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const order = await prisma.purchaseOrder.findUnique({ where: { id } })
+
+    if (!order) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    await assertPurchaseOrderAccess(session, order)
+
+    const updated = await updatePurchaseOrder(order, {
+      supplierId: body.supplierId,
+      note: body.note,
+      expectedAt: body.expectedAt,
+      items: body.items,
+    })
+
+    return NextResponse.json({ ...updated, total: getPurchaseOrderTotal(updated.items) })
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error updating purchase order:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Drafts can be thrown away; sent orders are cancelled instead so they stay on record
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const order = await prisma.purchaseOrder.findUnique({ where: { id } })
+
+    if (!order) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    await assertPurchaseOrderAccess(session, order)
+
+    const deleted = await prisma.purchaseOrder.deleteMany({
+      where: { id, status: 'DRAFT' },
+    })
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Only a draft purchase order can be deleted' }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error deleting purchase order:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
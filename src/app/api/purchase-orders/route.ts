@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { Prisma, PurchaseOrderStatus } from '@prisma/client'
+import { withIdempotency } from '@/lib/idempotency'
+import { getActiveOutlet, requireActiveOutlet, OutletError } from '@/lib/outlets'
+import { createPurchaseOrder, getPurchaseOrderTotal, PURCHASE_ORDER_INCLUDE, PurchaseOrderError } from '@/lib/purchaseOrders'
+
+// Orders for the active outlet; admins viewing all outlets see every order
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') || ''
+    const supplierId = searchParams.get('supplierId') || ''
+
+    const outlet = await getActiveOutlet(session)
+
+    const where: Prisma.PurchaseOrderWhereInput = {}
+
+    if (outlet) {
+      where.outletId = outlet.id
+    }
+
+    if (Object.values(PurchaseOrderStatus).includes(status as PurchaseOrderStatus)) {
+      where.status = status as PurchaseOrderStatus
+    }
+
+    if (supplierId) {
+      where.supplierId = supplierId
+    }
+
+    const purchaseOrders = await prisma.purchaseOrder.findMany({
+      where,
+      include: PURCHASE_ORDER_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    })
+
+    return NextResponse.json({
+      purchaseOrders: purchaseOrders.map(order => ({ ...order, total: getPurchaseOrderTotal(order.items) })),
+      outlet,
+    })
+  } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error fetching purchase orders:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return withIdempotency(request, () => createOrder(request))
+}
+
+// Draft an order for delivery to the active outlet
+async function createOrder(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const outlet = await requireActiveOutlet(session)
+    const body = await request.json()
+
+    const order = await createPurchaseOrder({
+      outletId: outlet.id,
+      supplierId: body.supplierId,
+      note: body.note,
+      expectedAt: body.expectedAt,
+      items: body.items,
+      createdBy: session.user.id,
+    })
+
+    return NextResponse.json({ ...order, total: getPurchaseOrderTotal(order.items) }, { status: 201 })
+  } catch (error) {
+    if (error instanceof PurchaseOrderError || error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error creating purchase order:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,11 @@ import { prisma } from '@/lib/prisma'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { TransactionWithDetails } from '@/types/prisma'
+import { summarizeTax } from '@/lib/tax'
+import { getOrderLabel } from '@/lib/orderTypes'
+import { formatQuantity } from '@/lib/scaleBarcodes'
+import { transactionIdOrNumber } from '@/lib/transactionNumbers'
+import { escapeHtml, formatCurrency, wrapText } from '@/lib/printing'
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,9 +28,10 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Fetch transaction with items and cashier info
-    const transaction = await prisma.transaction.findUnique({
-      where: { id: transactionId },
+    // Fetch transaction with items and cashier info; a receipt can be looked
+    // up by its transaction number too
+    const transaction = await prisma.transaction.findFirst({
+      where: transactionIdOrNumber(transactionId),
       include: {
         items: {
           include: {
@@ -33,9 +39,12 @@ export async function GET(request: NextRequest) {
               select: {
                 name: true,
                 sku: true,
-                price: true
+                price: true,
+                soldByWeight: true
               }
-            }
+            },
+            promotions: true,
+            modifiers: true
           }
         },
         cashier: {
@@ -43,6 +52,25 @@ export async function GET(request: NextRequest) {
             name: true,
             email: true
           }
+        },
+        payments: {
+          orderBy: { createdAt: 'asc' }
+        },
+        voucherRedemption: {
+          include: {
+            voucher: {
+              select: { code: true }
+            }
+          }
+        },
+        customer: {
+          select: {
+            name: true,
+            loyaltyPoints: true
+          }
+        },
+        table: {
+          select: { name: true }
         }
       }
     })
@@ -107,23 +135,61 @@ function generateThermalReceipt(transaction: TransactionWithDetails): string {
   receipt += `Transaction: ${transaction.transactionNumber}\n`
   receipt += `Date: ${new Date(transaction.createdAt).toLocaleString('id-ID')}\n`
   receipt += `Cashier: ${transaction.cashier.name}\n`
+  receipt += `Order: ${getOrderLabel(transaction.orderType, transaction.table?.name)}\n`
+  if (transaction.note) {
+    wrapText(`Note: ${transaction.note}`, 32).forEach((line) => {
+      receipt += `${line}\n`
+    })
+  }
   receipt += '-'.repeat(32) + '\n'
 
   // Items
   receipt += '\x1B\x61\x00' // Left alignment
   transaction.items.forEach((item) => {
     receipt += `${item.product.name.substring(0, 20)}\n`
-    receipt += `  ${item.quantity} x ${formatCurrency(item.unitPrice.toNumber())} = ${formatCurrency(item.totalPrice.toNumber())}\n`
+    getModifierLabels(item).forEach((label) => {
+      receipt += `  + ${label.substring(0, 28)}\n`
+    })
+    if (item.note) {
+      wrapText(item.note, 28).forEach((line) => {
+        receipt += `  * ${line}\n`
+      })
+    }
+    receipt += `  ${formatQuantity(item.quantity, item.product.soldByWeight)} x ${formatUnitPrice(item)} = ${formatCurrency(item.totalPrice.toNumber())}\n`
+    item.promotions.forEach((promotion) => {
+      receipt += `  ${promotion.promotionName.substring(0, 18)} -${formatCurrency(promotion.discountAmount.toNumber())}\n`
+    })
   })
 
   // Totals
   receipt += '-'.repeat(32) + '\n'
   receipt += `Subtotal: ${formatCurrency(transaction.totalAmount.toNumber())}\n`
-  receipt += `Tax: ${formatCurrency(transaction.taxAmount.toNumber())}\n`
+  getTaxLines(transaction).forEach((line) => {
+    receipt += `${line.label}: ${formatCurrency(line.amount)}\n`
+  })
   receipt += `Discount: ${formatCurrency(transaction.discountAmount.toNumber())}\n`
+  if (transaction.voucherRedemption) {
+    receipt += `  Voucher ${transaction.voucherRedemption.voucher.code}: -${formatCurrency(transaction.voucherRedemption.discountAmount.toNumber())}\n`
+  }
+  if (transaction.loyaltyPointsRedeemed > 0) {
+    receipt += `  ${transaction.loyaltyPointsRedeemed} points: -${formatCurrency(transaction.loyaltyDiscount.toNumber())}\n`
+  }
+  if (!transaction.roundingAmount.isZero()) {
+    receipt += `Rounding: ${formatCurrency(transaction.roundingAmount.toNumber())}\n`
+  }
   receipt += '='.repeat(32) + '\n'
   receipt += `TOTAL: ${formatCurrency(transaction.finalAmount.toNumber())}\n`
   receipt += `Payment: ${transaction.paymentMethod}\n`
+  getTenderLines(transaction).forEach((line) => {
+    receipt += `  ${line.label}: ${formatCurrency(line.amount)}\n`
+  })
+  if (transaction.cashTendered) {
+    receipt += `Cash: ${formatCurrency(transaction.cashTendered.toNumber())}\n`
+    receipt += `Change: ${formatCurrency(transaction.changeDue?.toNumber() ?? 0)}\n`
+  }
+  getLoyaltyLines(transaction).forEach((line) => {
+    receipt += `${line.label}: ${line.value}\n`
+  })
 
   // Footer
   receipt += '\n'
@@ -155,21 +221,59 @@ function generateTextReceipt(transaction: TransactionWithDetails): string {
   receipt += `Transaction: ${transaction.transactionNumber}\n`
   receipt += `Date: ${new Date(transaction.createdAt).toLocaleString('id-ID')}\n`
   receipt += `Cashier: ${transaction.cashier.name}\n`
+  receipt += `Order: ${getOrderLabel(transaction.orderType, transaction.table?.name)}\n`
+  if (transaction.note) {
+    wrapText(`Note: ${transaction.note}`, 50).forEach((line) => {
+      receipt += `${line}\n`
+    })
+  }
   receipt += '-'.repeat(50) + '\n'
 
   // Items
   transaction.items.forEach((item) => {
-    receipt += `${item.product.name.padEnd(30)} ${item.quantity.toString().padStart(3)} x ${formatCurrency(item.unitPrice.toNumber()).padStart(10)} = ${formatCurrency(item.totalPrice.toNumber()).padStart(12)}\n`
+    receipt += `${item.product.name.padEnd(30)} ${formatQuantity(item.quantity, item.product.soldByWeight).padStart(3)} x ${formatUnitPrice(item).padStart(10)} = ${formatCurrency(item.totalPrice.toNumber()).padStart(12)}\n`
+    getModifierLabels(item).forEach((label) => {
+      receipt += `  + ${label}\n`
+    })
+    if (item.note) {
+      wrapText(item.note, 46).forEach((line) => {
+        receipt += `  * ${line}\n`
+      })
+    }
+    item.promotions.forEach((promotion) => {
+      receipt += `  ${promotion.promotionName.substring(0, 34).padEnd(35)}${`-${formatCurrency(promotion.discountAmount.toNumber())}`.padStart(13)}\n`
+    })
   })
 
   // Totals
   receipt += '-'.repeat(50) + '\n'
   receipt += `Subtotal:${' '.repeat(38)}${formatCurrency(transaction.totalAmount.toNumber())}\n`
-  receipt += `Tax:${' '.repeat(44)}${formatCurrency(transaction.taxAmount.toNumber())}\n`
+  getTaxLines(transaction).forEach((line) => {
+    receipt += `${`${line.label}:`.padEnd(36)}${formatCurrency(line.amount).padStart(14)}\n`
+  })
   receipt += `Discount:${' '.repeat(37)}${formatCurrency(transaction.discountAmount.toNumber())}\n`
+  if (transaction.voucherRedemption) {
+    receipt += `${`  Voucher ${transaction.voucherRedemption.voucher.code}:`.padEnd(36)}${`-${formatCurrency(transaction.voucherRedemption.discountAmount.toNumber())}`.padStart(14)}\n`
+  }
+  if (transaction.loyaltyPointsRedeemed > 0) {
+    receipt += `${`  ${transaction.loyaltyPointsRedeemed} points:`.padEnd(36)}${`-${formatCurrency(transaction.loyaltyDiscount.toNumber())}`.padStart(14)}\n`
+  }
+  if (!transaction.roundingAmount.isZero()) {
+    receipt += `${'Rounding:'.padEnd(36)}${formatCurrency(transaction.roundingAmount.toNumber()).padStart(14)}\n`
+  }
   receipt += '='.repeat(50) + '\n'
   receipt += `TOTAL:${' '.repeat(44)}${formatCurrency(transaction.finalAmount.toNumber())}\n`
   receipt += `Payment Method: ${transaction.paymentMethod}\n`
+  getTenderLines(transaction).forEach((line) => {
+    receipt += `${`  ${line.label}:`.padEnd(36)}${formatCurrency(line.amount).padStart(14)}\n`
+  })
+  if (transaction.cashTendered) {
+    receipt += `${'Cash Tendered:'.padEnd(36)}${formatCurrency(transaction.cashTendered.toNumber()).padStart(14)}\n`
+    receipt += `${'Change:'.padEnd(36)}${formatCurrency(transaction.changeDue?.toNumber() ?? 0).padStart(14)}\n`
+  }
+  getLoyaltyLines(transaction).forEach((line) => {
+    receipt += `${`${line.label}:`.padEnd(36)}${line.value.padStart(14)}\n`
+  })
 
   // Footer
   receipt += '\n'
@@ -200,6 +304,7 @@ function generateHTMLReceipt(transaction: TransactionWithDetails): string {
         .item { margin: 5px 0; }
         .item-name { display: inline-block; width: 200px; }
         .item-details { display: inline-block; width: 100px; text-align: right; }
+        .item-discount { font-size: 11px; }
       </style>
     </head>
     <body>
@@ -215,6 +320,8 @@ function generateHTMLReceipt(transaction: TransactionWithDetails): string {
         <div><strong>Transaction:</strong> ${transaction.transactionNumber}</div>
         <div><strong>Date:</strong> ${new Date(transaction.createdAt).toLocaleString('id-ID')}</div>
         <div><strong>Cashier:</strong> ${transaction.cashier.name}</div>
+        <div><strong>Order:</strong> ${getOrderLabel(transaction.orderType, transaction.table?.name)}</div>
+        ${transaction.note ? `<div><strong>Note:</strong> ${escapeHtml(transaction.note)}</div>` : ''}
       </div>
 
       <div class="divider"></div>
@@ -222,8 +329,19 @@ function generateHTMLReceipt(transaction: TransactionWithDetails): string {
       ${transaction.items.map((item) => `
         <div class="item">
           <span class="item-name">${item.product.name}</span>
-          <span class="item-details">${item.quantity} x ${formatCurrency(item.unitPrice.toNumber())}</span>
+          <span class="item-details">${formatQuantity(item.quantity, item.product.soldByWeight)} x ${formatUnitPrice(item)}</span>
           <span class="item-details">${formatCurrency(item.totalPrice.toNumber())}</span>
+          ${getModifierLabels(item).map((label) => `
+            <div class="item-discount">&nbsp;&nbsp;+ ${label}</div>
+          `).join('')}
+          ${item.note ? `<div class="item-discount">&nbsp;&nbsp;* ${escapeHtml(item.note)}</div>` : ''}
+          ${item.promotions.map((promotion) => `
+            <div class="item-discount">
+              <span class="item-name">&nbsp;&nbsp;${promotion.promotionName}</span>
+              <span class="item-details"></span>
+              <span class="item-details">-${formatCurrency(promotion.discountAmount.toNumber())}</span>
+            </div>
+          `).join('')}
         </div>
       `).join('')}
 
@@ -231,8 +349,19 @@ function generateHTMLReceipt(transaction: TransactionWithDetails): string {
 
       <div style="margin: 10px 0;">
         <div><span style="width: 300px; display: inline-block;">Subtotal:</span><span style="text-align: right;">${formatCurrency(transaction.totalAmount.toNumber())}</span></div>
-        <div><span style="width: 300px; display: inline-block;">Tax:</span><span style="text-align: right;">${formatCurrency(transaction.taxAmount.toNumber())}</span></div>
+        ${getTaxLines(transaction).map((line) => `
+          <div><span style="width: 300px; display: inline-block;">${line.label}:</span><span style="text-align: right;">${formatCurrency(line.amount)}</span></div>
+        `).join('')}
         <div><span style="width: 300px; display: inline-block;">Discount:</span><span style="text-align: right;">${formatCurrency(transaction.discountAmount.toNumber())}</span></div>
+        ${transaction.voucherRedemption ? `
+          <div class="item-discount"><span style="width: 300px; display: inline-block;">&nbsp;&nbsp;Voucher ${transaction.voucherRedemption.voucher.code}:</span><span style="text-align: right;">-${formatCurrency(transaction.voucherRedemption.discountAmount.toNumber())}</span></div>
+        ` : ''}
+        ${transaction.loyaltyPointsRedeemed > 0 ? `
+          <div class="item-discount"><span style="width: 300px; display: inline-block;">&nbsp;&nbsp;${transaction.loyaltyPointsRedeemed} points:</span><span style="text-align: right;">-${formatCurrency(transaction.loyaltyDiscount.toNumber())}</span></div>
+        ` : ''}
+        ${!transaction.roundingAmount.isZero() ? `
+          <div><span style="width: 300px; display: inline-block;">Rounding:</span><span style="text-align: right;">${formatCurrency(transaction.roundingAmount.toNumber())}</span></div>
+        ` : ''}
       </div>
 
       <div class="divider"></div>
@@ -242,6 +371,16 @@ function generateHTMLReceipt(transaction: TransactionWithDetails): string {
       </div>
 
       <div><strong>Payment Method:</strong> ${transaction.paymentMethod}</div>
+      ${getTenderLines(transaction).map((line) => `
+        <div><span style="width: 300px; display: inline-block;">&nbsp;&nbsp;${line.label}:</span><span style="text-align: right;">${formatCurrency(line.amount)}</span></div>
+      `).join('')}
+      ${transaction.cashTendered ? `
+        <div><span style="width: 300px; display: inline-block;">Cash Tendered:</span><span style="text-align: right;">${formatCurrency(transaction.cashTendered.toNumber())}</span></div>
+        <div><span style="width: 300px; display: inline-block;">Change:</span><span style="text-align: right;">${formatCurrency(transaction.changeDue?.toNumber() ?? 0)}</span></div>
+      ` : ''}
+      ${getLoyaltyLines(transaction).map((line) => `
+        <div><span style="width: 300px; display: inline-block;">${line.label}:</span><span style="text-align: right;">${line.value}</span></div>
+      `).join('')}
 
       <div class="divider"></div>
 
@@ -254,11 +393,65 @@ function generateHTMLReceipt(transaction: TransactionWithDetails): string {
   `
 }
 
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('id-ID', {
-    style: 'currency',
-    currency: 'IDR',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0
-  }).format(amount)
+// One line per tax rate; inclusive taxes are shown as already contained in the prices
+function getTaxLines(transaction: TransactionWithDetails): Array<{ label: string; amount: number }> {
+  const breakdown = summarizeTax(transaction.items)
+  const suffix = transaction.taxInclusive ? ' (incl.)' : ''
+
+  if (breakdown.length === 0) {
+    return [{ label: `Tax${suffix}`, amount: transaction.taxAmount.toNumber() }]
+  }
+
+  return breakdown.map((line) => ({
+    label: `${line.name} ${line.rate}%${suffix}`,
+    amount: line.taxAmount
+  }))
+}
+
+// Chosen modifiers, printed indented under their item with any price change
+function getModifierLabels(item: TransactionWithDetails['items'][number]): string[] {
+  return item.modifiers.map((modifier) => {
+    const delta = modifier.priceDelta.toNumber()
+    if (delta === 0) {
+      return modifier.optionName
+    }
+    return `${modifier.optionName} (${delta > 0 ? '+' : '-'}${formatCurrency(Math.abs(delta))})`
+  })
+}
+
+// Weighed products are priced per kilogram
+function formatUnitPrice(item: TransactionWithDetails['items'][number]): string {
+  return formatCurrency(item.unitPrice.toNumber()) + (item.product.soldByWeight ? '/kg' : '')
+}
+
+// Points earned on this sale and the customer's balance as of printing
+function getLoyaltyLines(transaction: TransactionWithDetails): Array<{ label: string; value: string }> {
+  // Nothing to print for customers who have never had points
+  if (
+    !transaction.customer ||
+    (transaction.customer.loyaltyPoints === 0 && transaction.loyaltyPointsEarned === 0 && transaction.loyaltyPointsRedeemed === 0)
+  ) {
+    return []
+  }
+
+  return [
+    ...(transaction.loyaltyPointsEarned > 0
+      ? [{ label: 'Points earned', value: `+${transaction.loyaltyPointsEarned}` }]
+      : []),
+    { label: 'Points balance', value: String(transaction.customer.loyaltyPoints) }
+  ]
+}
+
+// Split payments list each tender under the payment method
+function getTenderLines(transaction: TransactionWithDetails): Array<{ label: string; amount: number }> {
+  const tenders = transaction.payments.filter(payment => payment.status === 'PAID' || payment.status === 'PENDING')
+
+  if (tenders.length < 2) {
+    return []
+  }
+
+  return tenders.map(payment => ({
+    label: payment.status === 'PENDING' ? `${payment.method} (pending)` : payment.method,
+    amount: payment.amount.toNumber()
+  }))
 }
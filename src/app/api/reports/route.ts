@@ -3,6 +3,9 @@ import { prisma } from '@/lib/prisma'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { PaymentStatus } from '@prisma/client'
+import { roundQuantity } from '@/lib/scaleBarcodes'
+import { roundCurrency } from '@/lib/pricing'
+import { getActiveOutlet, getOutletStockLevels, withOutletStock, OutletError } from '@/lib/outlets'
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,13 +20,21 @@ export async function GET(request: NextRequest) {
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
     const categoryId = searchParams.get('categoryId')
+    // Product performance per variant (default) or rolled up to the parent product
+    const groupByParent = searchParams.get('groupBy') === 'parent'
 
-    const dateFilter = startDate && endDate ? {
-      createdAt: {
-        gte: new Date(startDate),
-        lte: new Date(new Date(endDate).getTime() + 24 * 60 * 60 * 1000 - 1) // Include the entire end date
-      }
-    } : {}
+    // Figures for the active outlet; admins looking at all outlets get the whole business
+    const outlet = await getActiveOutlet(session)
+
+    const dateFilter = {
+      ...(startDate && endDate && {
+        createdAt: {
+          gte: new Date(startDate),
+          lte: new Date(new Date(endDate).getTime() + 24 * 60 * 60 * 1000 - 1) // Include the entire end date
+        }
+      }),
+      ...(outlet && { outletId: outlet.id })
+    }
 
     // Type for transaction date filter
     type TransactionDateFilter = {
@@ -32,27 +43,30 @@ export async function GET(request: NextRequest) {
           gte: Date;
           lte: Date;
         };
+        outletId?: string;
         paymentStatus: PaymentStatus;
       };
     };
 
     // Helper function to apply date filter to transaction-related queries
-    const getTransactionDateFilter = (filter: { createdAt?: { gte: Date; lte: Date } }): TransactionDateFilter => {
-      return startDate && endDate && filter.createdAt ? {
-        transaction: {
-          createdAt: filter.createdAt,
-          paymentStatus: PaymentStatus.PAID
-        }
-      } : {
+    const getTransactionDateFilter = (filter: { createdAt?: { gte: Date; lte: Date }; outletId?: string }): TransactionDateFilter => {
+      return {
         transaction: {
+          ...filter,
           paymentStatus: PaymentStatus.PAID
         }
       }
     }
 
+    // Stock is counted as low at 5 or fewer on hand
+    const lowStockFilter = outlet
+      ? { outletStocks: { some: { outletId: outlet.id, stock: { lte: 5 } } } }
+      : { stock: { lte: 5 } }
+
     type ReportData = {
       overview?: {
         totalRevenue: number;
+        totalRefunds?: number;
         totalTransactions: number;
         totalProducts?: number;
         lowStockCount?: number;
@@ -62,6 +76,8 @@ export async function GET(request: NextRequest) {
       dailySales?: unknown;
       paymentMethods?: unknown;
       revenueTrends?: unknown;
+      taxBreakdown?: Array<{ name: string; rate: number; salesAmount: number; taxAmount: number }>;
+      orderTypes?: Array<{ orderType: string; transactions: number; grossRevenue: number; netRevenue: number }>;
       topProducts?: unknown;
       inventoryStats?: unknown;
       lowStockProducts?: unknown;
@@ -77,6 +93,7 @@ export async function GET(request: NextRequest) {
         const totalRevenue = await prisma.transaction.aggregate({
           _sum: {
             finalAmount: true,
+            refundedAmount: true,
           },
           where: {
             ...dateFilter,
@@ -99,16 +116,16 @@ export async function GET(request: NextRequest) {
 
         const lowStockCount = await prisma.product.count({
           where: {
-            stock: {
-              lte: 5
-            },
+            ...lowStockFilter,
             isActive: true
           }
         })
 
         reportData = {
           overview: {
-            totalRevenue: Number(totalRevenue._sum.finalAmount) || 0,
+            // Net revenue: refunds are deducted from the sale they belong to
+            totalRevenue: (Number(totalRevenue._sum.finalAmount) || 0) - (Number(totalRevenue._sum.refundedAmount) || 0),
+            totalRefunds: Number(totalRevenue._sum.refundedAmount) || 0,
             totalTransactions,
             totalProducts,
             lowStockCount,
@@ -127,26 +144,52 @@ export async function GET(request: NextRequest) {
           _sum: {
             totalAmount: true,
             finalAmount: true,
+            refundedAmount: true,
           },
           _count: {
             id: true,
           },
         })
 
-        const paymentMethods = await prisma.transaction.groupBy({
-          by: ['paymentMethod'],
+        // Split sales count towards every method they were paid with
+        const tenders = await prisma.payment.findMany({
           where: {
-            ...dateFilter,
-            paymentStatus: 'PAID'
-          },
-          _sum: {
-            finalAmount: true,
-          },
-          _count: {
-            id: true,
+            status: 'PAID',
+            transaction: {
+              ...dateFilter,
+              paymentStatus: 'PAID'
+            }
           },
+          select: {
+            method: true,
+            amount: true,
+            transaction: {
+              select: {
+                finalAmount: true,
+                refundedAmount: true
+              }
+            }
+          }
         })
 
+        const paymentMethods = Object.values(tenders.reduce((acc: Record<string, { paymentMethod: string; _sum: { finalAmount: number; refundedAmount: number }; _count: { id: number } }>, tender) => {
+          if (!acc[tender.method]) {
+            acc[tender.method] = {
+              paymentMethod: tender.method,
+              _sum: { finalAmount: 0, refundedAmount: 0 },
+              _count: { id: 0 }
+            }
+          }
+          // Refunds are shared out over the tenders in proportion to what each paid
+          const share = Number(tender.transaction.finalAmount) > 0
+            ? Number(tender.amount) / Number(tender.transaction.finalAmount)
+            : 0
+          acc[tender.method]._sum.finalAmount += Number(tender.amount)
+          acc[tender.method]._sum.refundedAmount += Number(tender.transaction.refundedAmount) * share
+          acc[tender.method]._count.id += 1
+          return acc
+        }, {}))
+
         // Revenue trends for sales tab
         const revenueTrends = await prisma.transaction.findMany({
           where: {
@@ -156,6 +199,7 @@ export async function GET(request: NextRequest) {
           select: {
             createdAt: true,
             finalAmount: true,
+            refundedAmount: true,
             paymentMethod: true
           },
           orderBy: {
@@ -163,19 +207,65 @@ export async function GET(request: NextRequest) {
           }
         })
 
+        // Tax collected per rate, for filing PPN. Tax is charged after discounts,
+        // and inclusive prices already carry it, so the base is net of both
+        const taxBreakdown = new Map<string, { name: string; rate: number; salesAmount: number; taxAmount: number }>()
+        for (const taxInclusive of [false, true]) {
+          const taxLines = await prisma.transactionItem.groupBy({
+            by: ['taxName', 'taxRate'],
+            where: {
+              transaction: { ...getTransactionDateFilter(dateFilter).transaction, taxInclusive },
+              taxName: { not: null }
+            },
+            _sum: {
+              totalPrice: true,
+              discountAmount: true,
+              taxAmount: true,
+            },
+          })
+
+          for (const line of taxLines) {
+            const key = `${line.taxName}:${line.taxRate}`
+            const taxAmount = Number(line._sum.taxAmount || 0)
+            const salesAmount = Number(line._sum.totalPrice || 0) - Number(line._sum.discountAmount || 0) - (taxInclusive ? taxAmount : 0)
+            const entry = taxBreakdown.get(key) ?? { name: line.taxName || 'Tax', rate: Number(line.taxRate), salesAmount: 0, taxAmount: 0 }
+            entry.salesAmount = roundCurrency(entry.salesAmount + salesAmount)
+            entry.taxAmount = roundCurrency(entry.taxAmount + taxAmount)
+            taxBreakdown.set(key, entry)
+          }
+        }
+
+        // Dine-in, takeaway and delivery side by side
+        const orderTypes = await prisma.transaction.groupBy({
+          by: ['orderType'],
+          where: {
+            ...dateFilter,
+            paymentStatus: 'PAID'
+          },
+          _sum: {
+            finalAmount: true,
+            refundedAmount: true,
+          },
+          _count: {
+            id: true,
+          },
+        })
+
         // Group by date
-        const groupedTrends = revenueTrends.reduce((acc: Record<string, { date: string; revenue: number; transactions: number; cash_transactions: number; digital_transactions: number }>, transaction) => {
+        const groupedTrends = revenueTrends.reduce((acc: Record<string, { date: string; revenue: number; refunds: number; transactions: number; cash_transactions: number; digital_transactions: number }>, transaction) => {
           const date = transaction.createdAt.toISOString().split('T')[0]
           if (!acc[date]) {
             acc[date] = {
               date,
               revenue: 0,
+              refunds: 0,
               transactions: 0,
               cash_transactions: 0,
               digital_transactions: 0
             }
           }
-          acc[date].revenue += Number(transaction.finalAmount)
+          acc[date].revenue += Number(transaction.finalAmount) - Number(transaction.refundedAmount)
+          acc[date].refunds += Number(transaction.refundedAmount)
           acc[date].transactions += 1
           if (transaction.paymentMethod === 'CASH') {
             acc[date].cash_transactions += 1
@@ -187,19 +277,30 @@ export async function GET(request: NextRequest) {
 
         reportData = {
           dailySales,
-          paymentMethods,
-          revenueTrends: Object.values(groupedTrends)
+          paymentMethods: paymentMethods.map(method => ({
+            ...method,
+            netRevenue: Number(method._sum.finalAmount || 0) - Number(method._sum.refundedAmount || 0)
+          })),
+          revenueTrends: Object.values(groupedTrends),
+          taxBreakdown: Array.from(taxBreakdown.values()),
+          orderTypes: orderTypes.map(group => ({
+            orderType: group.orderType,
+            transactions: group._count.id,
+            grossRevenue: Number(group._sum.finalAmount || 0),
+            netRevenue: Number(group._sum.finalAmount || 0) - Number(group._sum.refundedAmount || 0)
+          }))
         }
         break
 
       case 'products':
         // Product performance data
-        const topProducts = await prisma.transactionItem.groupBy({
+        const productLines = await prisma.transactionItem.groupBy({
           by: ['productId'],
           where: getTransactionDateFilter(dateFilter),
           _sum: {
             quantity: true,
             totalPrice: true,
+            refundedQuantity: true,
           },
           _count: {
             id: true,
@@ -209,17 +310,74 @@ export async function GET(request: NextRequest) {
               totalPrice: 'desc'
             }
           },
-          take: 10,
+          // Rolling up needs every variant's line before the top 10 is known
+          ...(groupByParent ? {} : { take: 10 }),
+        })
+
+        const soldProducts = groupByParent
+          ? await prisma.product.findMany({
+              where: { id: { in: productLines.map(item => item.productId) } },
+              select: { id: true, parentId: true }
+            })
+          : []
+        const reportProductId = (productId: string) =>
+          soldProducts.find(product => product.id === productId)?.parentId ?? productId
+
+        const topProducts = groupByParent
+          ? Object.values(productLines.reduce<Record<string, typeof productLines[number]>>((groups, item) => {
+              const productId = reportProductId(item.productId)
+              const group = groups[productId]
+              groups[productId] = group
+                ? {
+                    productId,
+                    _sum: {
+                      quantity: group._sum.quantity && item._sum.quantity
+                        ? group._sum.quantity.add(item._sum.quantity)
+                        : group._sum.quantity ?? item._sum.quantity,
+                      totalPrice: group._sum.totalPrice && item._sum.totalPrice
+                        ? group._sum.totalPrice.add(item._sum.totalPrice)
+                        : group._sum.totalPrice ?? item._sum.totalPrice,
+                      refundedQuantity: group._sum.refundedQuantity && item._sum.refundedQuantity
+                        ? group._sum.refundedQuantity.add(item._sum.refundedQuantity)
+                        : group._sum.refundedQuantity ?? item._sum.refundedQuantity,
+                    },
+                    _count: { id: group._count.id + item._count.id },
+                  }
+                : { ...item, productId }
+              return groups
+            }, {}))
+              .sort((a, b) => Number(b._sum.totalPrice || 0) - Number(a._sum.totalPrice || 0))
+              .slice(0, 10)
+          : productLines
+
+        const refundedItems = await prisma.refundItem.findMany({
+          where: {
+            transactionItem: {
+              productId: { in: productLines.map(item => item.productId) },
+              ...getTransactionDateFilter(dateFilter)
+            }
+          },
+          select: {
+            amount: true,
+            transactionItem: {
+              select: { productId: true }
+            }
+          }
         })
 
         const productDetails = await Promise.all(
           topProducts.map(async (item) => {
             const product = await prisma.product.findUnique({
               where: { id: item.productId },
-              select: { id: true, name: true, sku: true, category: true }
+              select: { id: true, name: true, sku: true, category: true, variantValues: true }
             })
+            const refundedRevenue = refundedItems
+              .filter(refundItem => reportProductId(refundItem.transactionItem.productId) === item.productId)
+              .reduce((sum, refundItem) => sum + Number(refundItem.amount), 0)
             return {
               ...item,
+              netQuantity: roundQuantity(Number(item._sum.quantity || 0) - Number(item._sum.refundedQuantity || 0)),
+              netRevenue: Number(item._sum.totalPrice || 0) - refundedRevenue,
               product
             }
           })
@@ -230,35 +388,47 @@ export async function GET(request: NextRequest) {
 
       case 'inventory':
         // Inventory status data
-        const inventoryStats = await prisma.product.aggregate({
-          _sum: {
-            stock: true,
-          },
-          _count: {
-            id: true,
-          },
-          where: categoryId ? { categoryId } : {}
-        })
+        const inventoryStats = outlet
+          ? await prisma.outletStock.aggregate({
+              _sum: {
+                stock: true,
+              },
+              _count: {
+                id: true,
+              },
+              where: {
+                outletId: outlet.id,
+                ...(categoryId ? { product: { categoryId } } : {})
+              }
+            })
+          : await prisma.product.aggregate({
+              _sum: {
+                stock: true,
+              },
+              _count: {
+                id: true,
+              },
+              where: categoryId ? { categoryId } : {}
+            })
 
-        const lowStockProducts = await prisma.product.findMany({
+        const lowStockFound = await prisma.product.findMany({
           where: {
-            stock: {
-              lte: 5
-            },
+            ...lowStockFilter,
             isActive: true,
+            variantAxes: { isEmpty: true },
             ... (categoryId ? { categoryId } : {})
           },
           include: {
             category: true
-          },
-          orderBy: {
-            stock: 'asc'
           }
         })
+        const lowStockLevels = await getOutletStockLevels(outlet, lowStockFound.map(product => product.id))
 
         reportData = {
           inventoryStats,
-          lowStockProducts,
+          lowStockProducts: lowStockFound
+            .map(product => withOutletStock(product, lowStockLevels))
+            .sort((a, b) => Number(a.stock) - Number(b.stock)),
         }
         break
 
@@ -276,6 +446,10 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(reportData)
   } catch (error: unknown) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error('Error fetching reports:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
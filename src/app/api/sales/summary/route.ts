@@ -14,6 +14,7 @@ export async function GET() {
     const result = await prisma.transaction.aggregate({
       _sum: {
         finalAmount: true,
+        refundedAmount: true,
       },
       where: {
         paymentStatus: 'PAID',
@@ -27,6 +28,7 @@ export async function GET() {
     const monthlyResult = await prisma.transaction.aggregate({
       _sum: {
         finalAmount: true,
+        refundedAmount: true,
       },
       where: {
         paymentStatus: 'PAID',
@@ -43,6 +45,7 @@ export async function GET() {
     const lastMonthResult = await prisma.transaction.aggregate({
       _sum: {
         finalAmount: true,
+        refundedAmount: true,
       },
       where: {
         paymentStatus: 'PAID',
@@ -53,9 +56,10 @@ export async function GET() {
       },
     })
 
-    const totalRevenue = Number(result._sum.finalAmount || 0)
-    const monthlyRevenue = Number(monthlyResult._sum.finalAmount || 0)
-    const lastMonthRevenue = Number(lastMonthResult._sum.finalAmount || 0)
+    // Net of refunds, which are booked against the month of the original sale
+    const totalRevenue = Number(result._sum.finalAmount || 0) - Number(result._sum.refundedAmount || 0)
+    const monthlyRevenue = Number(monthlyResult._sum.finalAmount || 0) - Number(monthlyResult._sum.refundedAmount || 0)
+    const lastMonthRevenue = Number(lastMonthResult._sum.finalAmount || 0) - Number(lastMonthResult._sum.refundedAmount || 0)
     
     // Calculate percentage change from last month
     const percentageChange = lastMonthRevenue > 0 
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { getStoreSettings } from '@/lib/settings'
+import { CASH_ROUNDING_OPTIONS } from '@/lib/payments'
+import { parseTransactionNumberFormat, TransactionNumberError } from '@/lib/transactionNumbers'
+import { isValidTimeZone } from '@/lib/storeTime'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const settings = await getStoreSettings()
+
+    return NextResponse.json(settings)
+  } catch (error) {
+    console.error('Error fetching settings:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const {
+      pricesIncludeTax,
+      defaultTaxRateId,
+      cashRounding,
+      loyaltyEnabled,
+      loyaltySpendPerPoint,
+      loyaltyPointValue,
+      loyaltyPointsExpireDays,
+      transactionNumberFormat,
+      timeZone
+    } = body
+
+    if (cashRounding !== undefined && !CASH_ROUNDING_OPTIONS.includes(Number(cashRounding))) {
+      return NextResponse.json(
+        { error: 'Cash rounding must be one of Rp ' + CASH_ROUNDING_OPTIONS.join(', ') },
+        { status: 400 }
+      )
+    }
+
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: 'Time zone must be an IANA time zone, e.g. Asia/Jakarta' },
+        { status: 400 }
+      )
+    }
+
+    for (const [field, value] of [
+      ['Spend per point', loyaltySpendPerPoint],
+      ['Point value', loyaltyPointValue],
+    ] as const) {
+      if (value !== undefined && (!Number.isInteger(Number(value)) || Number(value) < 1)) {
+        return NextResponse.json(
+          { error: `${field} must be a whole number of at least 1` },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Empty means points never expire
+    const expireDays = loyaltyPointsExpireDays === '' || loyaltyPointsExpireDays === null
+      ? null
+      : loyaltyPointsExpireDays
+    if (expireDays != null && (!Number.isInteger(Number(expireDays)) || Number(expireDays) < 1)) {
+      return NextResponse.json(
+        { error: 'Points expiry must be a whole number of days of at least 1' },
+        { status: 400 }
+      )
+    }
+
+    if (defaultTaxRateId) {
+      const taxRate = await prisma.taxRate.findUnique({
+        where: { id: defaultTaxRateId }
+      })
+
+      if (!taxRate) {
+        return NextResponse.json(
+          { error: 'Tax rate not found' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Make sure the settings row exists before updating it
+    await getStoreSettings()
+
+    const settings = await prisma.storeSettings.update({
+      where: { id: 'default' },
+      data: {
+        ...(pricesIncludeTax !== undefined && { pricesIncludeTax: Boolean(pricesIncludeTax) }),
+        ...(defaultTaxRateId !== undefined && { defaultTaxRateId: defaultTaxRateId || null }),
+        ...(cashRounding !== undefined && { cashRounding: Number(cashRounding) }),
+        ...(loyaltyEnabled !== undefined && { loyaltyEnabled: Boolean(loyaltyEnabled) }),
+        ...(loyaltySpendPerPoint !== undefined && { loyaltySpendPerPoint: Number(loyaltySpendPerPoint) }),
+        ...(loyaltyPointValue !== undefined && { loyaltyPointValue: Number(loyaltyPointValue) }),
+        ...(expireDays !== undefined && { loyaltyPointsExpireDays: expireDays === null ? null : Number(expireDays) }),
+        ...(transactionNumberFormat !== undefined && { transactionNumberFormat: parseTransactionNumberFormat(transactionNumberFormat) }),
+        ...(timeZone !== undefined && { timeZone }),
+      },
+      include: {
+        defaultTaxRate: true
+      }
+    })
+
+    return NextResponse.json(settings)
+  } catch (error) {
+    if (error instanceof TransactionNumberError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error updating settings:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
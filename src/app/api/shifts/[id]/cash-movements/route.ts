@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { CashMovementType } from '@prisma/client'
+import { parseCashAmount, ShiftError } from '@/lib/shifts'
+import { withIdempotency } from '@/lib/idempotency'
+
+// Record cash paid into or taken out of the drawer outside a sale (change
+// top-ups, petty cash, safe drops)
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withIdempotency(request, () => createCashMovement(request, context))
+}
+
+async function createCashMovement(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json() as {
+      type?: string;
+      amount?: number | string;
+      reason?: string;
+    }
+
+    if (!Object.values(CashMovementType).includes(body.type as CashMovementType)) {
+      return NextResponse.json({ error: 'Type must be CASH_IN or CASH_OUT' }, { status: 400 })
+    }
+
+    if (!body.reason || !body.reason.trim()) {
+      return NextResponse.json({ error: 'Reason is required' }, { status: 400 })
+    }
+
+    const amount = parseCashAmount(body.amount, 'Amount')
+
+    const shift = await prisma.shift.findUnique({ where: { id } })
+
+    if (!shift) {
+      return NextResponse.json({ error: 'Shift not found' }, { status: 404 })
+    }
+
+    if (shift.cashierId !== session.user.id && !canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (shift.status !== 'OPEN') {
+      return NextResponse.json({ error: 'Shift is already closed' }, { status: 409 })
+    }
+
+    const movement = await prisma.cashMovement.create({
+      data: {
+        shiftId: shift.id,
+        type: body.type as CashMovementType,
+        amount,
+        reason: body.reason.trim(),
+        createdBy: session.user.id,
+      },
+      include: {
+        user: { select: { name: true } },
+      },
+    })
+
+    return NextResponse.json(movement, { status: 201 })
+  } catch (error) {
+    if (error instanceof ShiftError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error recording cash movement:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
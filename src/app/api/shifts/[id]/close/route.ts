@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { countDenominations, SHIFT_INCLUDE, ShiftError, summarizeShift } from '@/lib/shifts'
+
+// Close the shift against the counted drawer; the expected cash and variance
+// are frozen so later edits to its sales don't rewrite the Z-report
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json() as {
+      denominations?: Record<string, number | string>;
+      notes?: string;
+    }
+
+    const counted = countDenominations(body.denominations)
+
+    const shift = await prisma.shift.findUnique({
+      where: { id },
+      include: SHIFT_INCLUDE,
+    })
+
+    if (!shift) {
+      return NextResponse.json({ error: 'Shift not found' }, { status: 404 })
+    }
+
+    if (shift.cashierId !== session.user.id && !canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (shift.status !== 'OPEN') {
+      return NextResponse.json({ error: 'Shift is already closed' }, { status: 409 })
+    }
+
+    const { cash } = await summarizeShift(shift)
+    const variance = Math.round((counted.total - cash.expectedCash) * 100) / 100
+
+    // Guard against the shift being closed from another register at the same time
+    const closed = await prisma.shift.updateMany({
+      where: { id: shift.id, status: 'OPEN' },
+      data: {
+        status: 'CLOSED',
+        closedAt: new Date(),
+        closedBy: session.user.id,
+        expectedCash: cash.expectedCash,
+        countedCash: counted.total,
+        variance,
+        denominationCounts: counted.counts,
+        closingNotes: body.notes?.trim() || null,
+      },
+    })
+
+    if (closed.count === 0) {
+      return NextResponse.json({ error: 'Shift is already closed' }, { status: 409 })
+    }
+
+    const updated = await prisma.shift.findUniqueOrThrow({
+      where: { id: shift.id },
+      include: SHIFT_INCLUDE,
+    })
+
+    return NextResponse.json({ ...updated, summary: await summarizeShift(updated) })
+  } catch (error) {
+    if (error instanceof ShiftError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error closing shift:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { SHIFT_INCLUDE, ShiftSummary, ShiftWithDetails, summarizeShift } from '@/lib/shifts'
+import { escapeHtml, formatCurrency } from '@/lib/printing'
+
+// Printable Z-report; an open shift prints as an X-report of the totals so far
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const shift = await prisma.shift.findUnique({
+      where: { id },
+      include: SHIFT_INCLUDE,
+    })
+
+    if (!shift) {
+      return NextResponse.json({ error: 'Shift not found' }, { status: 404 })
+    }
+
+    if (shift.cashierId !== session.user.id && !canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const summary = await summarizeShift(shift)
+
+    return new Response(generateShiftReport(shift, summary), {
+      headers: { 'Content-Type': 'text/html' },
+    })
+  } catch (error) {
+    console.error('Error generating shift report:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+function generateShiftReport(shift: ShiftWithDetails, summary: ShiftSummary): string {
+  const storeName = 'NextPOS Store'
+  const title = shift.status === 'CLOSED' ? 'Z-REPORT' : 'X-REPORT (shift open)'
+  const denominationCounts = (shift.denominationCounts ?? {}) as Record<string, number>
+
+  const row = (label: string, value: string) => `
+    <div class="row"><span class="label">${label}</span><span class="value">${value}</span></div>
+  `
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${title} - ${escapeHtml(shift.cashier.name)}</title>
+      <style>
+        body { font-family: 'Courier New', monospace; font-size: 12px; margin: 0; padding: 10px; width: 320px; }
+        .header { text-align: center; margin-bottom: 15px; }
+        .store-name { font-size: 18px; font-weight: bold; margin-bottom: 5px; }
+        .title { font-size: 14px; font-weight: bold; }
+        .divider { border-top: 1px dashed #000; margin: 10px 0; }
+        .section { font-weight: bold; margin: 8px 0 4px; }
+        .row { display: flex; justify-content: space-between; margin: 2px 0; }
+        .label { padding-right: 10px; }
+        .value { text-align: right; white-space: nowrap; }
+        .total { font-weight: bold; font-size: 14px; }
+        .footer { text-align: center; margin-top: 20px; font-size: 10px; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div class="store-name">${storeName}</div>
+        <div class="title">${title}</div>
+      </div>
+
+      ${row('Cashier:', escapeHtml(shift.cashier.name))}
+      ${row('Opened:', new Date(shift.openedAt).toLocaleString('id-ID'))}
+      ${shift.closedAt ? row('Closed:', new Date(shift.closedAt).toLocaleString('id-ID')) : ''}
+      ${shift.closer ? row('Closed by:', escapeHtml(shift.closer.name)) : ''}
+
+      <div class="divider"></div>
+
+      <div class="section">SALES</div>
+      ${row('Transactions:', String(summary.sales.count))}
+      ${row('Gross sales:', formatCurrency(summary.sales.totalAmount))}
+      ${row('Discounts:', `-${formatCurrency(summary.sales.discountAmount)}`)}
+      ${row('Tax:', formatCurrency(summary.sales.taxAmount))}
+      ${summary.sales.roundingAmount !== 0 ? row('Rounding:', formatCurrency(summary.sales.roundingAmount)) : ''}
+      <div class="total">${row('NET SALES:', formatCurrency(summary.sales.finalAmount))}</div>
+
+      <div class="section">BY PAYMENT METHOD</div>
+      ${summary.paymentMethods.length === 0 ? '<div>No payments</div>' : summary.paymentMethods.map(method =>
+        row(`${method.method} (${method.count})`, formatCurrency(method.amount))
+      ).join('')}
+
+      <div class="section">ITEMS SOLD (${summary.items.quantity})</div>
+      ${summary.items.products.map(product =>
+        row(`${product.quantity} x ${escapeHtml(product.name)}`, formatCurrency(product.amount))
+      ).join('')}
+
+      <div class="section">VOIDS &amp; REFUNDS</div>
+      ${row(`Voided sales (${summary.voids.count}):`, formatCurrency(summary.voids.amount))}
+      ${row(`Refunds (${summary.refunds.count}):`, formatCurrency(summary.refunds.amount))}
+      ${summary.pending.count > 0 ? row(`Still pending (${summary.pending.count}):`, formatCurrency(summary.pending.amount)) : ''}
+
+      <div class="divider"></div>
+
+      <div class="section">CASH DRAWER</div>
+      ${row('Opening float:', formatCurrency(summary.cash.openingFloat))}
+      ${row('Cash sales:', formatCurrency(summary.cash.cashSales))}
+      ${row('Cash in:', formatCurrency(summary.cash.cashIn))}
+      ${row('Cash out:', `-${formatCurrency(summary.cash.cashOut)}`)}
+      ${row('Cash refunds:', `-${formatCurrency(summary.cash.cashRefunds)}`)}
+      <div class="total">${row('EXPECTED:', formatCurrency(summary.cash.expectedCash))}</div>
+      ${summary.cash.countedCash !== null ? `
+        <div class="total">${row('COUNTED:', formatCurrency(summary.cash.countedCash))}</div>
+        <div class="total">${row('VARIANCE:', formatCurrency(summary.cash.variance ?? 0))}</div>
+      ` : ''}
+
+      ${shift.cashMovements.length > 0 ? `
+        <div class="section">CASH MOVEMENTS</div>
+        ${shift.cashMovements.map(movement =>
+          row(
+            `${movement.type === 'CASH_IN' ? 'IN' : 'OUT'} ${new Date(movement.createdAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })} ${escapeHtml(movement.reason)}`,
+            `${movement.type === 'CASH_IN' ? '' : '-'}${formatCurrency(Number(movement.amount))}`
+          )
+        ).join('')}
+      ` : ''}
+
+      ${Object.keys(denominationCounts).length > 0 ? `
+        <div class="section">DRAWER COUNT</div>
+        ${Object.entries(denominationCounts)
+          .sort(([a], [b]) => Number(b) - Number(a))
+          .map(([denomination, count]) =>
+            row(`${count} x ${formatCurrency(Number(denomination))}`, formatCurrency(Number(denomination) * count))
+          ).join('')}
+      ` : ''}
+
+      ${shift.closingNotes ? `
+        <div class="divider"></div>
+        <div><strong>Notes:</strong> ${escapeHtml(shift.closingNotes)}</div>
+      ` : ''}
+
+      <div class="divider"></div>
+
+      <div class="footer">
+        <div>Printed ${new Date().toLocaleString('id-ID')}</div>
+      </div>
+    </body>
+    </html>
+  `
+}
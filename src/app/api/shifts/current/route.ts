@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { SHIFT_INCLUDE, summarizeShift } from '@/lib/shifts'
+
+// The signed-in cashier's open shift with its running totals, or null
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const shift = await prisma.shift.findFirst({
+      where: { cashierId: session.user.id, status: 'OPEN' },
+      include: SHIFT_INCLUDE,
+      orderBy: { openedAt: 'desc' },
+    })
+
+    if (!shift) {
+      return NextResponse.json(null)
+    }
+
+    return NextResponse.json({ ...shift, summary: await summarizeShift(shift) })
+  } catch (error) {
+    console.error('Error fetching current shift:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
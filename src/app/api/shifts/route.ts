@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { Prisma, ShiftStatus } from '@prisma/client'
+import { getOpenShift, parseCashAmount, SHIFT_INCLUDE, ShiftError } from '@/lib/shifts'
+import { withIdempotency } from '@/lib/idempotency'
+
+// Shift history; cashiers only see their own shifts
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const status = searchParams.get('status')
+    const cashierId = searchParams.get('cashierId')
+
+    const where: Prisma.ShiftWhereInput = {}
+
+    if (!canManageStore(session.user.role)) {
+      where.cashierId = session.user.id
+    } else if (cashierId) {
+      where.cashierId = cashierId
+    }
+
+    if (status && Object.values(ShiftStatus).includes(status as ShiftStatus)) {
+      where.status = status as ShiftStatus
+    }
+
+    const [shifts, total] = await Promise.all([
+      prisma.shift.findMany({
+        where,
+        include: {
+          cashier: { select: { id: true, name: true } },
+          closer: { select: { name: true } },
+          _count: { select: { transactions: true } },
+        },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { openedAt: 'desc' },
+      }),
+      prisma.shift.count({ where }),
+    ])
+
+    return NextResponse.json({
+      shifts,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching shifts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Open a shift for the signed-in cashier with the float counted into the drawer
+export async function POST(request: NextRequest) {
+  return withIdempotency(request, () => openShift(request))
+}
+
+async function openShift(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json() as { openingFloat?: number | string }
+    const openingFloat = parseCashAmount(body.openingFloat, 'Opening float', { allowZero: true })
+
+    if (await getOpenShift(session.user.id)) {
+      return NextResponse.json(
+        { error: 'You already have an open shift. Close it before opening a new one.' },
+        { status: 409 }
+      )
+    }
+
+    const shift = await prisma.shift.create({
+      data: {
+        cashierId: session.user.id,
+        openingFloat,
+      },
+      include: SHIFT_INCLUDE,
+    })
+
+    return NextResponse.json(shift, { status: 201 })
+  } catch (error) {
+    if (error instanceof ShiftError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error opening shift:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
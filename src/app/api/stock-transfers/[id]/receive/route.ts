@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { withIdempotency } from '@/lib/idempotency'
+import { assertOutletAccess, receiveStockTransfer, StockTransferError } from '@/lib/stockTransfers'
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withIdempotency(request, () => receiveTransfer(request, context))
+}
+
+// Book in what arrived at the destination; anyone working there can receive
+async function receiveTransfer(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json() as {
+      items?: unknown;
+      receivedNote?: unknown;
+    }
+
+    const transfer = await prisma.stockTransfer.findUnique({ where: { id } })
+
+    if (!transfer) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 })
+    }
+
+    await assertOutletAccess(session, transfer.toOutletId)
+
+    const received = await receiveStockTransfer(id, body, session.user.id)
+
+    return NextResponse.json(received)
+  } catch (error) {
+    if (error instanceof StockTransferError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error receiving stock transfer:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { getAccessibleOutlets } from '@/lib/outlets'
+import { assertOutletAccess, STOCK_TRANSFER_INCLUDE, StockTransferError, updateStockTransfer } from '@/lib/stockTransfers'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id },
+      include: {
+        ...STOCK_TRANSFER_INCLUDE,
+        inventoryLogs: {
+          include: { outlet: { select: { name: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+
+    if (!transfer) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 })
+    }
+
+    // Either end of the transfer may look at it
+    const outlets = await getAccessibleOutlets(session)
+    if (!outlets.some(outlet => outlet.id === transfer.fromOutletId || outlet.id === transfer.toOutletId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    return NextResponse.json(transfer)
+  } catch (error) {
+    console.error('Error fetching stock transfer:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Change the destination, note or items of a draft
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const transfer = await prisma.stockTransfer.findUnique({ where: { id } })
+
+    if (!transfer) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 })
+    }
+
+    await assertOutletAccess(session, transfer.fromOutletId)
+
+    const updated = await updateStockTransfer(transfer, {
+      toOutletId: body.toOutletId,
+      note: body.note,
+      items: body.items,
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof StockTransferError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error updating stock transfer:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Drafts can be thrown away; once sent, a transfer has moved stock and stays on record
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const transfer = await prisma.stockTransfer.findUnique({ where: { id } })
+
+    if (!transfer) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 })
+    }
+
+    await assertOutletAccess(session, transfer.fromOutletId)
+
+    const deleted = await prisma.stockTransfer.deleteMany({
+      where: { id, status: 'DRAFT' },
+    })
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Only a draft transfer can be deleted' }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof StockTransferError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error deleting stock transfer:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
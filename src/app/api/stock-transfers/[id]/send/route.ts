@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { withIdempotency } from '@/lib/idempotency'
+import { InsufficientStockError, notifyLowStockMovements } from '@/lib/stock'
+import { assertOutletAccess, sendStockTransfer, STOCK_TRANSFER_INCLUDE, StockTransferError } from '@/lib/stockTransfers'
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withIdempotency(request, () => sendTransfer(context))
+}
+
+// Take the stock off the source outlet's shelves and put the transfer in transit
+async function sendTransfer({ params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const transfer = await prisma.stockTransfer.findUnique({ where: { id } })
+
+    if (!transfer) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 })
+    }
+
+    await assertOutletAccess(session, transfer.fromOutletId)
+
+    const movements = await sendStockTransfer(id, session.user.id)
+    await notifyLowStockMovements(session.user.id, movements)
+
+    const sent = await prisma.stockTransfer.findUniqueOrThrow({
+      where: { id },
+      include: STOCK_TRANSFER_INCLUDE,
+    })
+
+    return NextResponse.json(sent)
+  } catch (error) {
+    if (error instanceof StockTransferError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof InsufficientStockError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error sending stock transfer:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
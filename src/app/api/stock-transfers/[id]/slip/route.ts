@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getAccessibleOutlets } from '@/lib/outlets'
+import { formatQuantity } from '@/lib/scaleBarcodes'
+import { STOCK_TRANSFER_INCLUDE, StockTransferWithItems } from '@/lib/stockTransfers'
+import { escapeHtml } from '@/lib/printing'
+
+// Printable transfer slip that travels with the goods and is signed at both ends
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id },
+      include: STOCK_TRANSFER_INCLUDE,
+    })
+
+    if (!transfer) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 })
+    }
+
+    const outlets = await getAccessibleOutlets(session)
+    if (!outlets.some(outlet => outlet.id === transfer.fromOutletId || outlet.id === transfer.toOutletId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    return new Response(generateTransferSlip(transfer), {
+      headers: { 'Content-Type': 'text/html' },
+    })
+  } catch (error) {
+    console.error('Error generating transfer slip:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+function generateTransferSlip(transfer: StockTransferWithItems): string {
+  const storeName = 'NextPOS Store'
+  const received = transfer.status === 'RECEIVED'
+  const statusLabel = {
+    DRAFT: 'DRAFT',
+    IN_TRANSIT: 'IN TRANSIT',
+    RECEIVED: 'RECEIVED',
+  }[transfer.status]
+
+  const outlet = (outlet: StockTransferWithItems['fromOutlet']) => `
+    <div><strong>${escapeHtml(outlet.name)}</strong> (${escapeHtml(outlet.code)})</div>
+    ${outlet.address ? `<div>${escapeHtml(outlet.address)}</div>` : ''}
+  `
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Transfer ${escapeHtml(transfer.transferNumber)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; font-size: 12px; margin: 0; padding: 20px; max-width: 720px; }
+        .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 20px; }
+        .store-name { font-size: 18px; font-weight: bold; }
+        .title { font-size: 16px; font-weight: bold; text-align: right; }
+        .status { text-align: right; margin-top: 4px; }
+        .parties { display: flex; gap: 40px; margin-bottom: 20px; }
+        .party { flex: 1; }
+        .party-label { font-size: 10px; text-transform: uppercase; color: #555; margin-bottom: 4px; }
+        table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
+        th, td { border: 1px solid #999; padding: 6px; text-align: left; }
+        th { background: #f0f0f0; }
+        .number { text-align: right; white-space: nowrap; }
+        .diff { font-weight: bold; }
+        .notes { margin-bottom: 20px; }
+        .signatures { display: flex; gap: 40px; margin-top: 50px; }
+        .signature { flex: 1; text-align: center; }
+        .signature-line { border-top: 1px solid #000; margin-top: 50px; padding-top: 4px; }
+        .footer { margin-top: 30px; font-size: 10px; color: #555; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div class="store-name">${storeName}</div>
+        <div>
+          <div class="title">STOCK TRANSFER ${escapeHtml(transfer.transferNumber)}</div>
+          <div class="status">${statusLabel}</div>
+        </div>
+      </div>
+
+      <div class="parties">
+        <div class="party">
+          <div class="party-label">From</div>
+          ${outlet(transfer.fromOutlet)}
+          ${transfer.sentAt ? `<div>Sent ${new Date(transfer.sentAt).toLocaleString('id-ID')}${transfer.sender ? ` by ${escapeHtml(transfer.sender.name)}` : ''}</div>` : ''}
+        </div>
+        <div class="party">
+          <div class="party-label">To</div>
+          ${outlet(transfer.toOutlet)}
+          ${transfer.receivedAt ? `<div>Received ${new Date(transfer.receivedAt).toLocaleString('id-ID')}${transfer.receiver ? ` by ${escapeHtml(transfer.receiver.name)}` : ''}</div>` : ''}
+        </div>
+      </div>
+
+      <table>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>SKU</th>
+            <th>Product</th>
+            <th class="number">Sent</th>
+            <th class="number">Received</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${transfer.items.map((item, index) => {
+            const differs = item.receivedQuantity !== null && Number(item.receivedQuantity) !== Number(item.quantity)
+            return `
+              <tr>
+                <td>${index + 1}</td>
+                <td>${escapeHtml(item.product.sku)}</td>
+                <td>${escapeHtml(item.product.name)}</td>
+                <td class="number">${formatQuantity(item.quantity, item.product.soldByWeight)}</td>
+                <td class="number${differs ? ' diff' : ''}">${item.receivedQuantity !== null ? formatQuantity(item.receivedQuantity, item.product.soldByWeight) : ''}</td>
+              </tr>
+            `
+          }).join('')}
+        </tbody>
+      </table>
+
+      ${transfer.note ? `<div class="notes"><strong>Note:</strong> ${escapeHtml(transfer.note)}</div>` : ''}
+      ${transfer.receivedNote ? `<div class="notes"><strong>Received note:</strong> ${escapeHtml(transfer.receivedNote)}</div>` : ''}
+
+      <div class="signatures">
+        <div class="signature">
+          <div class="signature-line">Sent by${transfer.sender ? `: ${escapeHtml(transfer.sender.name)}` : ''}</div>
+        </div>
+        <div class="signature">
+          <div class="signature-line">Carried by</div>
+        </div>
+        <div class="signature">
+          <div class="signature-line">Received by${received && transfer.receiver ? `: ${escapeHtml(transfer.receiver.name)}` : ''}</div>
+        </div>
+      </div>
+
+      <div class="footer">
+        Created ${new Date(transfer.createdAt).toLocaleString('id-ID')} by ${escapeHtml(transfer.creator.name)}.
+        Printed ${new Date().toLocaleString('id-ID')}
+      </div>
+    </body>
+    </html>
+  `
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { Prisma, StockTransferStatus } from '@prisma/client'
+import { withIdempotency } from '@/lib/idempotency'
+import { getActiveOutlet, requireActiveOutlet, OutletError } from '@/lib/outlets'
+import { createStockTransfer, STOCK_TRANSFER_INCLUDE, StockTransferError } from '@/lib/stockTransfers'
+
+// Transfers leaving or arriving at the active outlet; admins viewing all outlets see every transfer
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') || ''
+
+    const outlet = await getActiveOutlet(session)
+
+    const where: Prisma.StockTransferWhereInput = {}
+
+    if (outlet) {
+      where.OR = [{ fromOutletId: outlet.id }, { toOutletId: outlet.id }]
+    }
+
+    if (Object.values(StockTransferStatus).includes(status as StockTransferStatus)) {
+      where.status = status as StockTransferStatus
+    }
+
+    const [transfers, destinations] = await Promise.all([
+      prisma.stockTransfer.findMany({
+        where,
+        include: STOCK_TRANSFER_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        take: 100,
+      }),
+      prisma.outlet.findMany({
+        where: { isActive: true, ...(outlet && { id: { not: outlet.id } }) },
+        select: { id: true, name: true, code: true },
+        orderBy: { name: 'asc' },
+      }),
+    ])
+
+    return NextResponse.json({ transfers, outlet, destinations })
+  } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error fetching stock transfers:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return withIdempotency(request, () => createTransfer(request))
+}
+
+// Draft a transfer out of the active outlet
+async function createTransfer(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const outlet = await requireActiveOutlet(session)
+    const body = await request.json()
+
+    const transfer = await createStockTransfer({
+      fromOutletId: outlet.id,
+      toOutletId: body.toOutletId,
+      note: body.note,
+      items: body.items,
+      createdBy: session.user.id,
+    })
+
+    return NextResponse.json(transfer, { status: 201 })
+  } catch (error) {
+    if (error instanceof StockTransferError || error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error creating stock transfer:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
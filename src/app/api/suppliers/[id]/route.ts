@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { parseSupplierInput, SupplierError } from '@/lib/suppliers'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const input = parseSupplierInput(body)
+
+    const existingSupplier = await prisma.supplier.findUnique({
+      where: { id },
+    })
+
+    if (!existingSupplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 })
+    }
+
+    const supplier = await prisma.supplier.update({
+      where: { id },
+      data: {
+        ...input,
+        ...(typeof body.isActive === 'boolean' && { isActive: body.isActive }),
+      },
+    })
+
+    return NextResponse.json(supplier)
+  } catch (error) {
+    if (error instanceof SupplierError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error updating supplier:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existingSupplier = await prisma.supplier.findUnique({
+      where: { id },
+      include: { _count: { select: { purchaseOrders: true } } },
+    })
+
+    if (!existingSupplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 })
+    }
+
+    // Purchase orders keep their supplier; deactivate it instead
+    if (existingSupplier._count.purchaseOrders > 0) {
+      return NextResponse.json(
+        { error: 'This supplier has purchase orders. Deactivate it instead.' },
+        { status: 409 }
+      )
+    }
+
+    await prisma.supplier.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'Supplier deleted' })
+  } catch (error) {
+    console.error('Error deleting supplier:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
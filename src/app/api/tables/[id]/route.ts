@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { assertTableAvailable, DiningTableError, parseDiningTableInput } from '@/lib/diningTables'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const existingTable = await prisma.diningTable.findUnique({
+      where: { id },
+    })
+
+    if (!existingTable) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 })
+    }
+
+    // Moving a table on the floor plan only sends its new position
+    const input = parseDiningTableInput({ ...existingTable, ...body })
+    const isActive = body.isActive ?? existingTable.isActive
+    if (isActive) {
+      await assertTableAvailable(input, existingTable.outletId, id)
+    }
+
+    const table = await prisma.diningTable.update({
+      where: { id },
+      data: {
+        ...input,
+        isActive,
+      },
+    })
+
+    return NextResponse.json(table)
+  } catch (error) {
+    if (error instanceof DiningTableError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error updating table:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existingTable = await prisma.diningTable.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { transactions: true, tabs: true },
+        },
+      },
+    })
+
+    if (!existingTable) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 404 })
+    }
+
+    if (await prisma.openTab.count({ where: { tableId: id, closedAt: null } }) > 0) {
+      return NextResponse.json(
+        { error: 'Close the open tab on this table first' },
+        { status: 400 }
+      )
+    }
+
+    // Tables that have been served keep their name on past sales, so they are
+    // taken out of service rather than deleted
+    if (existingTable._count.transactions > 0 || existingTable._count.tabs > 0) {
+      await prisma.diningTable.update({
+        where: { id },
+        data: { isActive: false },
+      })
+
+      return NextResponse.json({ message: 'Table deactivated' })
+    }
+
+    await prisma.diningTable.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'Table deleted' })
+  } catch (error) {
+    console.error('Error deleting table:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { assertTableAvailable, DiningTableError, parseDiningTableInput } from '@/lib/diningTables'
+import { getActiveOutlet, OutletError, requireActiveOutlet } from '@/lib/outlets'
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // The POS only sees tables in service; the floor editor asks for all of them
+    const { searchParams } = new URL(request.url)
+    const includeInactive = searchParams.get('all') === 'true'
+
+    // Each outlet has its own floor plan
+    const outlet = await getActiveOutlet(session)
+
+    const tables = await prisma.diningTable.findMany({
+      where: {
+        ...(outlet && { outletId: outlet.id }),
+        ...(!includeInactive && { isActive: true })
+      },
+      include: {
+        tabs: {
+          where: { closedAt: null },
+          select: { id: true, label: true, openedAt: true }
+        }
+      },
+      orderBy: [{ posY: 'asc' }, { posX: 'asc' }],
+    })
+
+    return NextResponse.json(tables)
+  } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error fetching tables:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const outlet = await requireActiveOutlet(session)
+    const input = parseDiningTableInput(await request.json())
+    await assertTableAvailable(input, outlet.id)
+
+    const table = await prisma.diningTable.create({
+      data: { ...input, outletId: outlet.id },
+    })
+
+    return NextResponse.json(table, { status: 201 })
+  } catch (error) {
+    if (error instanceof DiningTableError || error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error creating table:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { PricingError } from '@/lib/pricing'
+import { addTabRound, parseTabItems, TabError } from '@/lib/tabs'
+import { withIdempotency } from '@/lib/idempotency'
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withIdempotency(request, () => createRound(request, context))
+}
+
+async function createRound(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const tab = await addTabRound(id, parseTabItems(body.items))
+
+    return NextResponse.json(tab, { status: 201 })
+  } catch (error) {
+    if (error instanceof TabError || error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error adding round to tab:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { OPEN_TAB_INCLUDE } from '@/lib/tabs'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const tab = await prisma.openTab.findUnique({
+      where: { id },
+      include: OPEN_TAB_INCLUDE,
+    })
+
+    if (!tab) {
+      return NextResponse.json({ error: 'Tab not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(tab)
+  } catch (error) {
+    console.error('Error fetching tab:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Voiding throws away food that has already been sent to the kitchen
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const deleted = await prisma.openTab.deleteMany({
+      where: { id, closedAt: null },
+    })
+
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Open tab not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Tab voided' })
+  } catch (error) {
+    console.error('Error voiding tab:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { PricingError } from '@/lib/pricing'
+import { isOrderType } from '@/lib/orderTypes'
+import { OPEN_TAB_INCLUDE, openTab, parseTabItems, TabConflictError, TabError } from '@/lib/tabs'
+import { withIdempotency } from '@/lib/idempotency'
+import { getActiveOutlet, OutletError, requireActiveOutlet } from '@/lib/outlets'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Tabs open at the till's outlet; admins looking at all outlets see every one
+    const outlet = await getActiveOutlet(session)
+
+    const tabs = await prisma.openTab.findMany({
+      where: { closedAt: null, ...(outlet && { outletId: outlet.id }) },
+      include: OPEN_TAB_INCLUDE,
+      orderBy: { openedAt: 'asc' },
+    })
+
+    return NextResponse.json(tabs)
+  } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error fetching open tabs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return withIdempotency(request, () => createTab(request))
+}
+
+async function createTab(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { label, orderType = 'DINE_IN', tableId, customerId } = body
+
+    if (!isOrderType(orderType)) {
+      return NextResponse.json({ error: 'Invalid order type' }, { status: 400 })
+    }
+
+    const outlet = await requireActiveOutlet(session)
+
+    if (customerId && !await prisma.customer.findUnique({ where: { id: customerId } })) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 400 })
+    }
+
+    const tab = await openTab({
+      label,
+      orderType,
+      tableId: orderType === 'DINE_IN' ? tableId : null,
+      customerId,
+      cashierId: session.user.id,
+      outletId: outlet.id,
+      items: parseTabItems(body.items),
+    })
+
+    return NextResponse.json(tab, { status: 201 })
+  } catch (error) {
+    if (error instanceof TabConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    if (error instanceof TabError || error instanceof PricingError || error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error opening tab:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
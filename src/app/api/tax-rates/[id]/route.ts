@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { name, rate, isActive } = body
+
+    const existingTaxRate = await prisma.taxRate.findUnique({
+      where: { id },
+    })
+
+    if (!existingTaxRate) {
+      return NextResponse.json({ error: 'Tax rate not found' }, { status: 404 })
+    }
+
+    if (rate !== undefined) {
+      const rateNum = parseFloat(rate)
+      if (isNaN(rateNum) || rateNum < 0 || rateNum > 100) {
+        return NextResponse.json(
+          { error: 'Rate must be a percentage between 0 and 100' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const taxRate = await prisma.taxRate.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(rate !== undefined && { rate: parseFloat(rate) }),
+        ...(isActive !== undefined && { isActive }),
+      },
+    })
+
+    return NextResponse.json(taxRate)
+  } catch (error) {
+    console.error('Error updating tax rate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existingTaxRate = await prisma.taxRate.findUnique({
+      where: { id },
+    })
+
+    if (!existingTaxRate) {
+      return NextResponse.json({ error: 'Tax rate not found' }, { status: 404 })
+    }
+
+    // Products, categories and the store default fall back to their parent tax
+    // setting once the rate is gone; past transactions keep their own copy
+    await prisma.taxRate.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'Tax rate deleted' })
+  } catch (error) {
+    console.error('Error deleting tax rate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
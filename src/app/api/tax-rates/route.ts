@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const taxRates = await prisma.taxRate.findMany({
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json(taxRates)
+  } catch (error) {
+    console.error('Error fetching tax rates:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { name, rate } = body
+
+    // Validate required fields
+    if (!name || rate === undefined || rate === '') {
+      return NextResponse.json(
+        { error: 'Name and rate are required' },
+        { status: 400 }
+      )
+    }
+
+    const rateNum = parseFloat(rate)
+    if (isNaN(rateNum) || rateNum < 0 || rateNum > 100) {
+      return NextResponse.json(
+        { error: 'Rate must be a percentage between 0 and 100' },
+        { status: 400 }
+      )
+    }
+
+    const taxRate = await prisma.taxRate.create({
+      data: {
+        name,
+        rate: rateNum,
+      },
+    })
+
+    return NextResponse.json(taxRate, { status: 201 })
+  } catch (error) {
+    console.error('Error creating tax rate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,307 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { notifyRefundIssued } from '@/lib/notifications'
+import { recordStockMovement } from '@/lib/stock'
+import { getRefundShift } from '@/lib/shifts'
+import { settleLoyaltyForRefund } from '@/lib/loyalty'
+import { isValidQuantity, roundQuantity } from '@/lib/scaleBarcodes'
+import { withIdempotency } from '@/lib/idempotency'
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  return withIdempotency(request, () => createRefund(request, context))
+}
+
+async function createRefund(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Money goes back out of the till, so only managers can refund
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json() as {
+      reason?: string;
+      items?: Array<{
+        transactionItemId: string;
+        quantity: number | string;
+      }>;
+    };
+    const { reason, items } = body
+
+    if (!reason || !reason.trim()) {
+      return NextResponse.json(
+        { error: 'Refund reason is required' },
+        { status: 400 }
+      )
+    }
+
+    const transaction = await prisma.transaction.findUnique({
+      where: { id },
+      include: {
+        items: {
+          include: {
+            product: true,
+            modifiers: true
+          }
+        }
+      }
+    })
+
+    if (!transaction) {
+      return NextResponse.json({ error: 'Transaction not found' }, { status: 404 })
+    }
+
+    if (transaction.paymentStatus !== 'PAID') {
+      return NextResponse.json(
+        { error: 'Only paid transactions can be refunded' },
+        { status: 400 }
+      )
+    }
+
+    const refundableQuantity = (item: typeof transaction.items[number]) =>
+      roundQuantity(Number(item.quantity) - Number(item.refundedQuantity))
+
+    // Without an explicit item list, refund everything that hasn't been refunded yet
+    const requestedItems = items && items.length > 0
+      ? items.map(item => ({ transactionItemId: item.transactionItemId, quantity: Number(item.quantity) }))
+      : transaction.items
+          .filter(item => refundableQuantity(item) > 0)
+          .map(item => ({ transactionItemId: item.id, quantity: refundableQuantity(item) }))
+
+    if (requestedItems.length === 0) {
+      return NextResponse.json(
+        { error: 'Transaction has already been fully refunded' },
+        { status: 400 }
+      )
+    }
+
+    const seen = new Set<string>()
+    for (const requested of requestedItems) {
+      const item = transaction.items.find(i => i.id === requested.transactionItemId)
+
+      if (!item) {
+        return NextResponse.json(
+          { error: `Item ${requested.transactionItemId} does not belong to this transaction` },
+          { status: 400 }
+        )
+      }
+
+      if (seen.has(item.id)) {
+        return NextResponse.json(
+          { error: `${item.product.name} is on the refund more than once` },
+          { status: 400 }
+        )
+      }
+      seen.add(item.id)
+
+      // Weighed lines can be refunded in part, to the gram
+      if (!isValidQuantity(requested.quantity, item.product.soldByWeight)) {
+        return NextResponse.json(
+          { error: `Invalid refund quantity for ${item.product.name}` },
+          { status: 400 }
+        )
+      }
+
+      if (requested.quantity > refundableQuantity(item)) {
+        return NextResponse.json(
+          { error: `Cannot refund more than ${refundableQuantity(item)} of ${item.product.name}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const finalAmount = Number(transaction.finalAmount)
+
+    // Refund what the customer actually paid for each line: after its discounts,
+    // plus its tax when that was charged on top of the price
+    const refundLines = requestedItems.map(requested => {
+      const item = transaction.items.find(i => i.id === requested.transactionItemId)!
+      const paidForLine = Number(item.totalPrice) - Number(item.discountAmount) +
+        (transaction.taxInclusive ? 0 : Number(item.taxAmount))
+      const amount = paidForLine / Number(item.quantity) * requested.quantity
+      return {
+        item,
+        quantity: requested.quantity,
+        amount: Math.round(amount * 100) / 100
+      }
+    })
+
+    const isFullRefund = transaction.items.every(item => {
+      const line = refundLines.find(l => l.item.id === item.id)
+      return (line?.quantity ?? 0) >= refundableQuantity(item)
+    })
+
+    // The last refund takes whatever is left so rounding never leaves a few rupiah behind
+    const refundAmount = isFullRefund
+      ? finalAmount - Number(transaction.refundedAmount)
+      : refundLines.reduce((sum, line) => sum + line.amount, 0)
+
+    // Cash refunds come out of the drawer the sale was paid into
+    const shift = await getRefundShift(transaction, session.user.id)
+
+    const refund = await prisma.$transaction(async (tx) => {
+      for (const line of refundLines) {
+        // Guard against a concurrent refund of the same line
+        const updated = await tx.transactionItem.updateMany({
+          where: {
+            id: line.item.id,
+            refundedQuantity: { lte: roundQuantity(Number(line.item.quantity) - line.quantity) }
+          },
+          data: {
+            refundedQuantity: { increment: line.quantity }
+          }
+        })
+
+        if (updated.count === 0) {
+          throw new RefundConflictError(`${line.item.product.name} was refunded by another request`)
+        }
+
+        await recordStockMovement(tx, {
+          productId: line.item.productId,
+          // Returned goods go back on the shelves of the outlet that sold them
+          outletId: transaction.outletId,
+          type: 'RETURN',
+          delta: line.quantity,
+          reason: `Refund - Transaction ${transaction.transactionNumber}: ${reason}`,
+          createdBy: session.user.id
+        })
+
+        // Ingredients used by the line's modifiers go back with it
+        for (const modifier of line.item.modifiers) {
+          if (!modifier.ingredientId || modifier.ingredientQuantity <= 0) continue
+
+          await recordStockMovement(tx, {
+            productId: modifier.ingredientId,
+            outletId: transaction.outletId,
+            type: 'RETURN',
+            delta: modifier.ingredientQuantity * line.quantity,
+            reason: `Refund - Transaction ${transaction.transactionNumber} (${modifier.optionName}): ${reason}`,
+            createdBy: session.user.id
+          })
+        }
+      }
+
+      await tx.transaction.update({
+        where: { id: transaction.id },
+        data: {
+          refundedAmount: {
+            increment: refundAmount
+          }
+        }
+      })
+
+      // Take back the points this sale earned, and return any it spent, pro rata
+      await settleLoyaltyForRefund(tx, transaction.id)
+
+      return tx.refund.create({
+        data: {
+          transactionId: transaction.id,
+          amount: refundAmount,
+          reason: reason.trim(),
+          createdBy: session.user.id,
+          shiftId: shift?.id ?? null,
+          items: {
+            create: refundLines.map(line => ({
+              transactionItemId: line.item.id,
+              quantity: line.quantity,
+              amount: line.amount
+            }))
+          }
+        },
+        include: {
+          items: true,
+          user: {
+            select: {
+              name: true
+            }
+          }
+        }
+      })
+    })
+
+    await notifyRefundIssued(session.user.id, transaction.transactionNumber, refundAmount, reason.trim())
+
+    return NextResponse.json(refund, { status: 201 })
+  } catch (error: unknown) {
+    if (error instanceof RefundConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error processing refund:', error)
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json(
+      { error: 'Internal server error', details: errorMessage },
+      { status: 500 }
+    )
+  }
+}
+
+// A concurrent refund got to the same line first
+class RefundConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RefundConflictError'
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const refunds = await prisma.refund.findMany({
+      where: { transactionId: id },
+      include: {
+        items: {
+          include: {
+            transactionItem: {
+              include: {
+                product: {
+                  select: {
+                    name: true,
+                    sku: true
+                  }
+                }
+              }
+            }
+          }
+        },
+        user: {
+          select: {
+            name: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json(refunds)
+  } catch (error) {
+    console.error('Error fetching refunds:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { markTransactionPaid, markTransactionUnpaid } from '@/lib/transactions'
+import { transactionIdOrNumber } from '@/lib/transactionNumbers'
 
 export async function PATCH(
   request: NextRequest,
@@ -18,20 +20,41 @@ export async function PATCH(
     const { xenditPaymentId, xenditInvoiceUrl, paymentStatus } = body
     const { id } = await params
 
+    const data = {
+      ...(xenditPaymentId && { xenditPaymentId }),
+      ...(xenditInvoiceUrl && { xenditInvoiceUrl })
+    }
+
+    // Marking as paid must also deduct stock, exactly once
+    if (paymentStatus === 'PAID') {
+      await markTransactionPaid(id, data)
+    } else if (paymentStatus) {
+      await markTransactionUnpaid(id, paymentStatus, data)
+    }
+
     const transaction = await prisma.transaction.update({
       where: { id },
-      data: {
-        ...(xenditPaymentId && { xenditPaymentId }),
-        ...(xenditInvoiceUrl && { xenditInvoiceUrl }),
-        ...(paymentStatus && { paymentStatus })
-      },
+      data,
       include: {
         items: {
           include: {
-            product: true
+            product: true,
+            promotions: true,
+            modifiers: true
           }
         },
-        cashier: true
+        cashier: true,
+        customer: true,
+        payments: {
+          orderBy: { createdAt: 'asc' }
+        },
+        voucherRedemption: {
+          include: {
+            voucher: {
+              select: { code: true }
+            }
+          }
+        }
       }
     })
 
@@ -57,15 +80,39 @@ export async function GET(
     }
 
     const { id } = await params
-    const transaction = await prisma.transaction.findUnique({
-      where: { id },
+    const transaction = await prisma.transaction.findFirst({
+      where: transactionIdOrNumber(id),
       include: {
         items: {
           include: {
-            product: true
+            product: true,
+            promotions: true,
+            modifiers: true
+          }
+        },
+        cashier: true,
+        customer: true,
+        payments: {
+          orderBy: { createdAt: 'asc' }
+        },
+        voucherRedemption: {
+          include: {
+            voucher: {
+              select: { code: true }
+            }
           }
         },
-        cashier: true
+        refunds: {
+          include: {
+            items: true,
+            user: {
+              select: {
+                name: true
+              }
+            }
+          },
+          orderBy: { createdAt: 'desc' }
+        }
       }
     })
 
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { priceCart, PricingError, CartItemInput } from '@/lib/pricing'
+import { VoucherError } from '@/lib/vouchers'
+import { applyCashRounding } from '@/lib/payments'
+import { getStoreSettings } from '@/lib/settings'
+import { calculateEarnedPoints, LoyaltyError } from '@/lib/loyalty'
+
+// Price a cart without creating a transaction, so the POS can show the same
+// totals the server will charge
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json() as {
+      items?: CartItemInput[];
+      voucherCode?: string;
+      customerEmail?: string;
+      customerId?: string;
+      loyaltyPoints?: number | string;
+      soldAt?: string;
+    }
+    const { items, voucherCode, customerEmail, customerId, loyaltyPoints, soldAt } = body
+
+    if (!items || items.length === 0) {
+      return NextResponse.json(
+        { error: 'Items are required' },
+        { status: 400 }
+      )
+    }
+
+    // A queued sale is quoted with the promotions that ran when it was rung up
+    const soldAtDate = soldAt ? new Date(soldAt) : null
+    if (soldAtDate && (isNaN(soldAtDate.getTime()) || soldAtDate > new Date())) {
+      return NextResponse.json({ error: 'Invalid sale time' }, { status: 400 })
+    }
+
+    // Vouchers are checked against the same email the sale will use
+    const customer = customerId
+      ? await prisma.customer.findUnique({ where: { id: customerId }, select: { email: true } })
+      : null
+    const voucherEmail = customer ? customer.email ?? undefined : customerEmail
+
+    const cart = await priceCart(items, {
+      voucherCode,
+      customerEmail: voucherEmail,
+      customerId,
+      loyaltyPoints,
+      pricedAt: soldAtDate ?? undefined
+    })
+    const settings = await getStoreSettings()
+    const cash = applyCashRounding(cart.finalAmount, settings.cashRounding)
+    const pointsToEarn = customerId
+      ? calculateEarnedPoints(
+          cart.lines.map(line => ({ ...line, multiplier: Number(line.product.category.loyaltyMultiplier) })),
+          cart.taxInclusive,
+          settings
+        )
+      : 0
+
+    return NextResponse.json({
+      items: cart.lines.map(line => ({
+        productId: line.productId,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        totalPrice: line.totalPrice,
+        modifierOptionIds: line.modifiers.map(modifier => modifier.modifierOptionId),
+        modifiers: line.modifiers.map(modifier => ({
+          groupName: modifier.groupName,
+          optionName: modifier.optionName,
+          priceDelta: modifier.priceDelta
+        })),
+        discountAmount: line.discountAmount,
+        promotions: line.promotions,
+        taxName: line.taxName,
+        taxRate: line.taxRate,
+        taxAmount: line.taxAmount
+      })),
+      taxInclusive: cart.taxInclusive,
+      totalAmount: cart.totalAmount,
+      taxAmount: cart.taxAmount,
+      discountAmount: cart.discountAmount,
+      finalAmount: cart.finalAmount,
+      // What an all-cash sale will charge after rounding
+      cashAmount: cash.amount,
+      cashRoundingAmount: cash.roundingAmount,
+      voucher: cart.voucher && {
+        code: cart.voucher.code,
+        discountAmount: cart.voucher.discountAmount
+      },
+      loyalty: cart.loyalty && {
+        points: cart.loyalty.points,
+        discountAmount: cart.loyalty.discountAmount
+      },
+      pointsToEarn
+    })
+  } catch (error: unknown) {
+    // Flagged separately so the POS can drop a voucher that no longer applies
+    if (error instanceof VoucherError) {
+      return NextResponse.json({ error: error.message, voucherError: true }, { status: 400 })
+    }
+
+    if (error instanceof LoyaltyError) {
+      return NextResponse.json({ error: error.message, loyaltyError: true }, { status: 400 })
+    }
+
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error pricing cart:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
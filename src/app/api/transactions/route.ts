@@ -3,9 +3,67 @@ import { prisma } from '@/lib/prisma'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { Prisma } from '@prisma/client'
-import { notifyNewOrder, notifyLowStock } from '@/lib/notifications'
+import { notifyNewOrder } from '@/lib/notifications'
+import { priceCart, assertClientTotals, normalizeNote, ORDER_NOTE_MAX_LENGTH, PricingError } from '@/lib/pricing'
+import { deductStockForTransaction, notifyLowStockMovements, reserveStockForTransaction, InsufficientStockError } from '@/lib/stock'
+import { redeemVoucher, VoucherError } from '@/lib/vouchers'
+import {
+  applyCashRounding,
+  calculateChange,
+  getTransactionPaymentMethod,
+  isSettledAtTill,
+  parseTenders,
+  PaymentError
+} from '@/lib/payments'
+import { getStoreSettings } from '@/lib/settings'
+import { getOpenShift } from '@/lib/shifts'
+import { earnLoyaltyPoints, redeemLoyaltyPoints, LoyaltyError } from '@/lib/loyalty'
+import { sendToKitchen } from '@/lib/kitchen'
+import { isOrderType } from '@/lib/orderTypes'
+import { assertTabItems, linkTabToTransaction, TabError } from '@/lib/tabs'
+import { allocateTransactionNumber } from '@/lib/transactionNumbers'
+import { withIdempotency } from '@/lib/idempotency'
+import { getActiveOutlet, requireActiveOutlet, OutletError } from '@/lib/outlets'
+
+const transactionInclude = {
+  items: {
+    include: {
+      product: true,
+      promotions: true,
+      modifiers: true
+    }
+  },
+  cashier: true,
+  customer: true,
+  table: true,
+  payments: {
+    orderBy: { createdAt: 'asc' }
+  },
+  voucherRedemption: {
+    include: {
+      voucher: {
+        select: { code: true }
+      }
+    }
+  }
+} satisfies Prisma.TransactionInclude
+
+// Sales queued offline are replayed until the POS sees a response, so a
+// repeated clientId returns the sale that was already recorded
+async function findByClientId(clientId: string) {
+  return prisma.transaction.findUnique({
+    where: { clientId },
+    include: transactionInclude
+  })
+}
 
 export async function POST(request: NextRequest) {
+  return withIdempotency(request, () => createTransaction(request))
+}
+
+async function createTransaction(request: NextRequest) {
+  let clientId: string | undefined
+
   try {
     const session = await getServerSession(authOptions)
 
@@ -18,16 +76,34 @@ export async function POST(request: NextRequest) {
       taxAmount?: number | string;
       discountAmount?: number | string;
       finalAmount: number | string;
-      paymentMethod: string;
+      paymentMethod?: string;
       paymentStatus?: string;
+      payments?: Array<{
+        method: string;
+        amount: number | string;
+      }>;
+      cashTendered?: number | string;
       cashierId: string;
       xenditPaymentId?: string;
       xenditInvoiceUrl?: string;
+      voucherCode?: string;
+      customerEmail?: string;
+      customerId?: string;
+      loyaltyPoints?: number | string;
+      clientId?: string;
+      soldAt?: string;
+      orderType?: string;
+      tableId?: string;
+      tabId?: string;
+      note?: string;
       items: Array<{
         productId: string;
         quantity: number | string;
         unitPrice: number | string;
         totalPrice: number | string;
+        modifierOptionIds?: string[];
+        note?: string;
+        labelBarcode?: string;
       }>;
     };
     
@@ -37,21 +113,48 @@ export async function POST(request: NextRequest) {
       discountAmount,
       finalAmount,
       paymentMethod,
-      paymentStatus,
+      payments,
+      cashTendered,
       cashierId,
       xenditPaymentId,
       xenditInvoiceUrl,
+      voucherCode,
+      customerId,
+      loyaltyPoints,
+      soldAt,
+      tabId,
       items
     } = body;
+    clientId = body.clientId
 
-    // Validate required fields
-    if (!totalAmount || !finalAmount || !paymentMethod || !cashierId || !items || items.length === 0) {
+    // Validate required fields; a fully discounted sale totals 0, so only a
+    // missing amount is rejected
+    const isMissing = (amount: number | string | null | undefined) =>
+      amount === undefined || amount === null || amount === ''
+    if (isMissing(totalAmount) || isMissing(finalAmount) || (!paymentMethod && !payments) || !cashierId || !items || items.length === 0) {
       return NextResponse.json(
         { error: 'Total amount, final amount, payment method, cashier ID, and items are required' },
         { status: 400 }
       )
     }
 
+    if (clientId !== undefined && (typeof clientId !== 'string' || !/^[A-Za-z0-9-]{8,64}$/.test(clientId))) {
+      return NextResponse.json({ error: 'Invalid client ID' }, { status: 400 })
+    }
+
+    if (clientId) {
+      const existing = await findByClientId(clientId)
+      if (existing) {
+        return NextResponse.json(existing)
+      }
+    }
+
+    // A queued sale keeps the time it was rung up, never a time in the future
+    const soldAtDate = soldAt ? new Date(soldAt) : null
+    if (soldAtDate && (isNaN(soldAtDate.getTime()) || soldAtDate > new Date())) {
+      return NextResponse.json({ error: 'Invalid sale time' }, { status: 400 })
+    }
+
     // Verify cashier exists in database
     const cashierExists = await prisma.user.findUnique({
       where: { id: cashierId }
@@ -65,113 +168,212 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate item quantities
-    for (const item of items) {
-      if (!item.quantity || isNaN(Number(item.quantity)) || Number(item.quantity) <= 0) {
-        return NextResponse.json(
-          { error: `Invalid quantity for product ${item.productId}` },
-          { status: 400 }
-        )
-      }
+    // Stock comes off the shelves of the outlet the till is at
+    const outlet = await requireActiveOutlet(session)
+
+    // Paying a tab charges what was ordered on it, at its table, for its customer
+    const tab = tabId
+      ? await prisma.openTab.findUnique({ where: { id: tabId }, include: { items: true } })
+      : null
+
+    if (tabId && (!tab || tab.closedAt || tab.outletId !== outlet.id)) {
+      return NextResponse.json({ error: 'Tab is not open' }, { status: 400 })
     }
 
-    // Generate transaction number
-    const transactionNumber = `TXN-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`
-
-    // Ensure all numeric values are properly converted
-    const totalAmountNum = typeof totalAmount === 'string' ? parseFloat(totalAmount) : Number(totalAmount);
-    const taxAmountNum = taxAmount ? (typeof taxAmount === 'string' ? parseFloat(taxAmount) : Number(taxAmount)) : 0;
-    const discountAmountNum = discountAmount ? (typeof discountAmount === 'string' ? parseFloat(discountAmount) : Number(discountAmount)) : 0;
-    const finalAmountNum = typeof finalAmount === 'string' ? parseFloat(finalAmount) : Number(finalAmount);
-
-    // Create transaction with items
-    const transaction = await prisma.transaction.create({
-      data: {
-        transactionNumber,
-        totalAmount: totalAmountNum,
-        taxAmount: taxAmountNum,
-        discountAmount: discountAmountNum,
-        finalAmount: finalAmountNum,
-        paymentMethod: paymentMethod as 'CASH' | 'XENDIT_QRIS' | 'XENDIT_EWALLET' | 'XENDIT_VIRTUAL_ACCOUNT',
-        paymentStatus: paymentMethod === 'CASH' ? 'PAID' : 'PENDING',
-        xenditPaymentId: xenditPaymentId || null,
-        xenditInvoiceUrl: xenditInvoiceUrl || null,
-        cashierId,
-        items: {
-          create: items.map(item => ({
-            productId: item.productId,
-            quantity: Number(item.quantity),
-            unitPrice: Number(item.unitPrice),
-            totalPrice: Number(item.totalPrice)
-          }))
-        }
-      },
-      include: {
-        items: {
-          include: {
-            product: true
-          }
-        },
-        cashier: true
-      }
+    if (tab) {
+      assertTabItems(tab.items, items)
+    }
+
+    const orderType = body.orderType ?? tab?.orderType ?? 'TAKEAWAY'
+    if (!isOrderType(orderType)) {
+      return NextResponse.json({ error: 'Invalid order type' }, { status: 400 })
+    }
+
+    // Only dine-in orders are seated
+    const tableId = orderType === 'DINE_IN' ? body.tableId || tab?.tableId : null
+    if (tableId && !await prisma.diningTable.findFirst({ where: { id: tableId, outletId: outlet.id } })) {
+      return NextResponse.json({ error: 'Table not found' }, { status: 400 })
+    }
+
+    const saleCustomerId = customerId || tab?.customerId
+    const customer = saleCustomerId
+      ? await prisma.customer.findUnique({ where: { id: saleCustomerId } })
+      : null
+
+    if (saleCustomerId && !customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 400 })
+    }
+
+    // A linked customer's own email identifies them for per-customer voucher
+    // limits; a typed-in email only counts for walk-ins
+    const customerEmail = customer ? customer.email ?? undefined : body.customerEmail || undefined
+
+    const note = normalizeNote(body.note, ORDER_NOTE_MAX_LENGTH)
+
+    // Price the cart from the catalog; client amounts are only used as a cross-check
+    const cart = await priceCart(items, {
+      voucherCode,
+      customerEmail,
+      customerId: customer?.id,
+      loyaltyPoints,
+      pricedAt: soldAtDate ?? undefined
     })
+    assertClientTotals(cart, items, { totalAmount, taxAmount, discountAmount, finalAmount })
 
-    // Only update stock if payment is immediate (cash) or if it's a Xendit payment that's already paid
-    type XenditPaymentMethod = 'XENDIT_QRIS' | 'XENDIT_EWALLET' | 'XENDIT_VIRTUAL_ACCOUNT';
-    const isXenditPayment: XenditPaymentMethod[] = ['XENDIT_QRIS', 'XENDIT_EWALLET', 'XENDIT_VIRTUAL_ACCOUNT'];
-    const currentPaymentMethod = paymentMethod as 'CASH' | XenditPaymentMethod;
-    
-    if (currentPaymentMethod === 'CASH' || 
-        (isXenditPayment.includes(currentPaymentMethod as XenditPaymentMethod) && paymentStatus === 'PAID')) {
-      // Update product stock levels and create inventory logs
-      for (const item of items) {
-        const product = await prisma.product.findUnique({
-          where: { id: item.productId }
-        });
-
-        if (!product) {
-          throw new Error(`Product ${item.productId} not found`);
-        }
+    // All-cash sales are rounded to what the till can give change in; a split
+    // sale's cash part is whatever the cashier chose, so it is left alone
+    const cashOnly = payments
+      ? payments.every(payment => payment.method === 'CASH')
+      : paymentMethod === 'CASH'
+    const settings = await getStoreSettings()
+    const { amount: amountDue, roundingAmount } = cashOnly
+      ? applyCashRounding(cart.finalAmount, settings.cashRounding)
+      : { amount: cart.finalAmount, roundingAmount: 0 }
 
-        const quantity = Number(item.quantity);
-        const previousStock = product.stock;
-        const newStock = previousStock - quantity;
+    // Tenders must cover the amount due exactly; overpaid cash becomes change
+    const tenders = parseTenders(payments, amountDue, paymentMethod)
+    const change = calculateChange(cashTendered, tenders)
+    const paidAtTill = tenders.every(tender => isSettledAtTill(tender.method))
 
-        // Update product stock
-        await prisma.product.update({
-          where: { id: item.productId },
-          data: {
-            stock: {
-              decrement: quantity
-            }
-          }
-        });
-
-        // Create inventory log
-        await prisma.inventoryLog.create({
-          data: {
-            productId: item.productId,
-            type: 'SALE',
-            quantity: Number(item.quantity),
-            previousStock,
-            newStock,
-            reason: `Sale - Transaction ${transactionNumber}`,
-            createdBy: cashierId
-          }
-        });
+    // Sales are counted against the cashier's open register session, if any
+    const shift = await getOpenShift(cashierId)
+
+    // Create the transaction and, for cash sales, deduct its stock atomically
+    const { transaction, movements } = await prisma.$transaction(async (tx) => {
+      // A queued sale is numbered in the day it was rung up
+      const transactionNumber = await allocateTransactionNumber(
+        tx,
+        { storeCode: outlet.code, transactionNumberFormat: settings.transactionNumberFormat, timeZone: settings.timeZone },
+        soldAtDate ?? new Date()
+      )
 
-        // Check for low stock and notify
-        if (newStock <= product.minStock) {
-          await notifyLowStock(cashierId, product.name, newStock)
+      const created = await tx.transaction.create({
+        data: {
+          transactionNumber,
+          clientId: clientId || null,
+          ...(soldAtDate && { createdAt: soldAtDate }),
+          totalAmount: cart.totalAmount,
+          taxAmount: cart.taxAmount,
+          discountAmount: cart.discountAmount,
+          finalAmount: amountDue,
+          roundingAmount,
+          cashTendered: change.cashTendered,
+          changeDue: change.changeDue,
+          taxInclusive: cart.taxInclusive,
+          paymentMethod: getTransactionPaymentMethod(tenders),
+          paymentStatus: paidAtTill ? 'PAID' : 'PENDING',
+          xenditPaymentId: xenditPaymentId || null,
+          xenditInvoiceUrl: xenditInvoiceUrl || null,
+          cashierId,
+          outletId: outlet.id,
+          shiftId: shift?.id ?? null,
+          customerId: customer?.id ?? null,
+          orderType,
+          tableId: tableId || null,
+          note,
+          loyaltyPointsRedeemed: cart.loyalty?.points ?? 0,
+          loyaltyDiscount: cart.loyalty?.discountAmount ?? 0,
+          payments: {
+            create: tenders.map(tender => ({
+              method: tender.method,
+              amount: tender.amount,
+              status: isSettledAtTill(tender.method) ? 'PAID' : 'PENDING',
+              paidAt: isSettledAtTill(tender.method) ? new Date() : null
+            }))
+          },
+          items: {
+            create: cart.lines.map(line => ({
+              productId: line.productId,
+              quantity: line.quantity,
+              unitPrice: line.unitPrice,
+              totalPrice: line.totalPrice,
+              discountAmount: line.discountAmount,
+              taxName: line.taxName,
+              taxRate: line.taxRate,
+              taxAmount: line.taxAmount,
+              note: line.note,
+              promotions: {
+                create: line.promotions
+              },
+              modifiers: {
+                create: line.modifiers
+              }
+            }))
+          }
         }
+      })
+
+      // Closes the tab straight away, so it cannot be paid twice; a failed
+      // digital payment opens it again (see markTransactionUnpaid)
+      if (tab) {
+        await linkTabToTransaction(tx, tab.id, created.id)
       }
-    }
+
+      if (cart.voucher) {
+        await redeemVoucher(tx, cart.voucher, created.id, customerEmail)
+      }
+
+      if (cart.loyalty) {
+        await redeemLoyaltyPoints(tx, cart.loyalty, created.id, transactionNumber)
+      }
+
+      // Sales with a digital tender only hold their stock; it is deducted and
+      // points earned once Xendit confirms them (see markTransactionPaid)
+      const movements = created.paymentStatus === 'PAID'
+        ? await deductStockForTransaction(tx, created.id)
+        : []
+
+      if (created.paymentStatus === 'PENDING') {
+        await reserveStockForTransaction(tx, created.id)
+      }
+
+      if (created.paymentStatus === 'PAID') {
+        await earnLoyaltyPoints(tx, created.id)
+        await sendToKitchen(tx, created.id)
+      }
+
+      const transaction = await tx.transaction.findUniqueOrThrow({
+        where: { id: created.id },
+        include: transactionInclude
+      })
+
+      return { transaction, movements }
+    })
+
+    await notifyLowStockMovements(cashierId, movements)
 
     // Notify about new order
-    await notifyNewOrder(cashierId, transactionNumber, finalAmountNum)
+    await notifyNewOrder(cashierId, transaction.transactionNumber, amountDue)
 
     return NextResponse.json(transaction, { status: 201 })
   } catch (error: unknown) {
+    // Two deliveries of the same queued sale raced; the first one won
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002' &&
+      clientId
+    ) {
+      const existing = await findByClientId(clientId)
+      if (existing) {
+        return NextResponse.json(existing)
+      }
+    }
+
+    if (
+      error instanceof PricingError ||
+      error instanceof VoucherError ||
+      error instanceof PaymentError ||
+      error instanceof LoyaltyError ||
+      error instanceof TabError ||
+      error instanceof OutletError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (error instanceof InsufficientStockError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
     console.error('Error in transactions API:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
     return NextResponse.json(
@@ -198,13 +400,17 @@ export async function GET(request: NextRequest) {
 
     const skip = (page - 1) * limit
 
-    const where: Prisma.TransactionWhereInput = {}
+    // Admins looking at all outlets see every sale
+    const outlet = await getActiveOutlet(session)
+    const where: Prisma.TransactionWhereInput = outlet ? { outletId: outlet.id } : {}
 
+    // Special instructions are searchable along with the transaction number
     if (search) {
-      where.transactionNumber = {
-        contains: search,
-        mode: 'insensitive'
-      }
+      where.OR = [
+        { transactionNumber: { contains: search, mode: 'insensitive' } },
+        { note: { contains: search, mode: 'insensitive' } },
+        { items: { some: { note: { contains: search, mode: 'insensitive' } } } }
+      ]
     }
 
     if (startDate && endDate) {
@@ -220,10 +426,35 @@ export async function GET(request: NextRequest) {
         include: {
           items: {
             include: {
-              product: true
+              product: true,
+              promotions: true,
+              modifiers: true
+            }
+          },
+          cashier: true,
+          customer: true,
+          table: true,
+          payments: {
+            orderBy: { createdAt: 'asc' }
+          },
+          voucherRedemption: {
+            include: {
+              voucher: {
+                select: { code: true }
+              }
             }
           },
-          cashier: true
+          refunds: {
+            include: {
+              items: true,
+              user: {
+                select: {
+                  name: true
+                }
+              }
+            },
+            orderBy: { createdAt: 'desc' }
+          }
         },
         skip,
         take: limit,
@@ -242,6 +473,10 @@ export async function GET(request: NextRequest) {
       },
     })
   } catch (error) {
+    if (error instanceof OutletError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error('Error fetching transactions:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
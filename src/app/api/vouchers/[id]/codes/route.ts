@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { generateUniqueVoucherCodes, MAX_VOUCHER_CODES_PER_REQUEST } from '@/lib/vouchers'
+
+// Top up an existing batch with more generated codes
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const { prefix, codeCount } = await request.json()
+
+    const existingBatch = await prisma.voucherBatch.findUnique({
+      where: { id },
+    })
+
+    if (!existingBatch) {
+      return NextResponse.json({ error: 'Voucher batch not found' }, { status: 404 })
+    }
+
+    const count = Number(codeCount)
+    if (!Number.isInteger(count) || count < 1 || count > MAX_VOUCHER_CODES_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `Number of codes must be between 1 and ${MAX_VOUCHER_CODES_PER_REQUEST}` },
+        { status: 400 }
+      )
+    }
+
+    const codes = await generateUniqueVoucherCodes(String(prefix || ''), count)
+
+    await prisma.voucher.createMany({
+      data: codes.map(code => ({ code, batchId: id })),
+    })
+
+    return NextResponse.json({ codes }, { status: 201 })
+  } catch (error) {
+    console.error('Error generating voucher codes:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
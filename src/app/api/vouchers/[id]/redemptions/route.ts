@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'json'
+
+    const batch = await prisma.voucherBatch.findUnique({
+      where: { id },
+    })
+
+    if (!batch) {
+      return NextResponse.json({ error: 'Voucher batch not found' }, { status: 404 })
+    }
+
+    const redemptions = await prisma.voucherRedemption.findMany({
+      where: { voucher: { batchId: id } },
+      include: {
+        voucher: { select: { code: true } },
+        transaction: {
+          select: {
+            transactionNumber: true,
+            paymentStatus: true,
+            paymentMethod: true,
+            finalAmount: true,
+            createdAt: true,
+            cashier: { select: { name: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (format === 'csv') {
+      const csvData = [
+        'Code,Redeemed At,Customer Email,Discount,Transaction #,Payment Status,Payment Method,Final Amount,Cashier',
+        ...redemptions.map(r =>
+          `${r.voucher.code},${r.createdAt.toISOString()},${r.customerEmail ?? ''},${r.discountAmount},${r.transaction.transactionNumber},${r.transaction.paymentStatus},${r.transaction.paymentMethod},${r.transaction.finalAmount},${r.transaction.cashier.name}`
+        )
+      ].join('\n')
+
+      return new Response(csvData, {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="voucher_redemptions_${new Date().toISOString().split('T')[0]}.csv"`
+        }
+      })
+    }
+
+    return NextResponse.json(redemptions)
+  } catch (error) {
+    console.error('Error fetching voucher redemptions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import { parseVoucherBatchInput, VoucherError } from '@/lib/vouchers'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const batch = await prisma.voucherBatch.findUnique({
+      where: { id },
+      include: {
+        user: { select: { name: true } },
+        vouchers: {
+          include: {
+            _count: { select: { redemptions: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+
+    if (!batch) {
+      return NextResponse.json({ error: 'Voucher batch not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(batch)
+  } catch (error) {
+    console.error('Error fetching voucher batch:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const existingBatch = await prisma.voucherBatch.findUnique({
+      where: { id },
+    })
+
+    if (!existingBatch) {
+      return NextResponse.json({ error: 'Voucher batch not found' }, { status: 404 })
+    }
+
+    const batch = await prisma.voucherBatch.update({
+      where: { id },
+      data: parseVoucherBatchInput(body),
+      include: {
+        _count: { select: { vouchers: true } },
+      },
+    })
+
+    return NextResponse.json(batch)
+  } catch (error) {
+    if (error instanceof VoucherError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error updating voucher batch:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const existingBatch = await prisma.voucherBatch.findUnique({
+      where: { id },
+    })
+
+    if (!existingBatch) {
+      return NextResponse.json({ error: 'Voucher batch not found' }, { status: 404 })
+    }
+
+    // Redemption history is kept for reporting, so used batches can only be paused
+    const redemptionCount = await prisma.voucherRedemption.count({
+      where: { voucher: { batchId: id } },
+    })
+
+    if (redemptionCount > 0) {
+      return NextResponse.json(
+        { error: 'This batch has been redeemed and cannot be deleted. Deactivate it instead.' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.voucherBatch.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'Voucher batch deleted' })
+  } catch (error) {
+    console.error('Error deleting voucher batch:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions, canManageStore } from '@/lib/auth'
+import {
+  generateUniqueVoucherCodes,
+  MAX_VOUCHER_CODES_PER_REQUEST,
+  normalizeVoucherCode,
+  parseVoucherBatchInput,
+  VoucherError,
+} from '@/lib/vouchers'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const batches = await prisma.voucherBatch.findMany({
+      include: {
+        user: { select: { name: true } },
+        _count: { select: { vouchers: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const redemptionCounts = await prisma.voucherRedemption.groupBy({
+      by: ['voucherId'],
+      _count: { _all: true },
+      _sum: { discountAmount: true },
+    })
+
+    const vouchers = await prisma.voucher.findMany({
+      where: { id: { in: redemptionCounts.map(r => r.voucherId) } },
+      select: { id: true, batchId: true },
+    })
+    const batchByVoucher = new Map(vouchers.map(v => [v.id, v.batchId]))
+
+    const totals = new Map<string, { redemptions: number; discountAmount: number }>()
+    for (const row of redemptionCounts) {
+      const batchId = batchByVoucher.get(row.voucherId)
+      if (!batchId) continue
+      const current = totals.get(batchId) ?? { redemptions: 0, discountAmount: 0 }
+      current.redemptions += row._count._all
+      current.discountAmount += Number(row._sum.discountAmount ?? 0)
+      totals.set(batchId, current)
+    }
+
+    return NextResponse.json(batches.map(batch => ({
+      ...batch,
+      redemptionCount: totals.get(batch.id)?.redemptions ?? 0,
+      totalDiscount: totals.get(batch.id)?.discountAmount ?? 0,
+    })))
+  } catch (error) {
+    console.error('Error fetching vouchers:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!canManageStore(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const data = parseVoucherBatchInput(body)
+
+    // Either one custom code (e.g. WELCOME10) or a run of generated ones
+    let codes: string[]
+    if (body.code) {
+      const code = normalizeVoucherCode(String(body.code))
+      if (!/^[A-Z0-9-]{3,32}$/.test(code)) {
+        return NextResponse.json(
+          { error: 'Code must be 3-32 letters, numbers or dashes' },
+          { status: 400 }
+        )
+      }
+
+      const existingVoucher = await prisma.voucher.findUnique({
+        where: { code },
+      })
+
+      if (existingVoucher) {
+        return NextResponse.json(
+          { error: 'Voucher code already exists' },
+          { status: 400 }
+        )
+      }
+
+      codes = [code]
+    } else {
+      const codeCount = Number(body.codeCount)
+      if (!Number.isInteger(codeCount) || codeCount < 1 || codeCount > MAX_VOUCHER_CODES_PER_REQUEST) {
+        return NextResponse.json(
+          { error: `Number of codes must be between 1 and ${MAX_VOUCHER_CODES_PER_REQUEST}` },
+          { status: 400 }
+        )
+      }
+
+      codes = await generateUniqueVoucherCodes(String(body.prefix || ''), codeCount)
+    }
+
+    const batch = await prisma.voucherBatch.create({
+      data: {
+        ...data,
+        createdBy: session.user.id,
+        vouchers: {
+          createMany: {
+            data: codes.map(code => ({ code })),
+          },
+        },
+      },
+      include: {
+        _count: { select: { vouchers: true } },
+      },
+    })
+
+    return NextResponse.json(batch, { status: 201 })
+  } catch (error) {
+    if (error instanceof VoucherError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error creating voucher batch:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { PaymentStatus } from '@prisma/client'
-import { notifyPaymentReceived, notifyPaymentFailed, notifyLowStock } from '@/lib/notifications'
+import { notifyPaymentFailed } from '@/lib/notifications'
+import { markTransactionPaid, markTransactionUnpaid } from '@/lib/transactions'
+import { markPaymentPaid, markPaymentUnpaid } from '@/lib/payments'
 
 export async function POST(request: NextRequest) {
   try {
@@ -26,7 +28,63 @@ export async function POST(request: NextRequest) {
 
     console.log('Extracted transaction ID:', transactionId)
 
-    // Find transaction by ID or xenditPaymentId
+    // Map Xendit status to our payment status
+    let paymentStatus: PaymentStatus = PaymentStatus.PENDING
+    
+    if (status === 'PAID' || status === 'SETTLED' || status === 'SUCCEEDED') {
+      paymentStatus = PaymentStatus.PAID
+    } else if (status === 'FAILED') {
+      paymentStatus = PaymentStatus.FAILED
+    } else if (status === 'EXPIRED') {
+      paymentStatus = PaymentStatus.EXPIRED
+    }
+
+    // Invoices belong to a single tender of the transaction
+    const payment = await prisma.payment.findFirst({
+      where: {
+        OR: [
+          { externalId },
+          ...(id ? [{ providerReference: id }] : [])
+        ]
+      },
+      include: { transaction: true }
+    })
+
+    if (payment) {
+      console.log('Found payment:', payment.id, 'for transaction:', payment.transactionId, 'Current status:', payment.status)
+
+      if (paymentStatus === PaymentStatus.PAID) {
+        const { covered, transitioned } = await markPaymentPaid(payment.id, {
+          providerReference: id || externalId
+        })
+
+        console.log(!covered
+          ? `Payment ${payment.id} confirmed, transaction ${payment.transactionId} still has a balance due`
+          : transitioned
+            ? `Payment confirmed, stock updated for transaction: ${payment.transactionId}`
+            : `Transaction ${payment.transactionId} was already marked as paid`)
+      } else {
+        const { updated } = await markPaymentUnpaid(payment.id, paymentStatus, {
+          providerReference: id || externalId
+        })
+
+        console.log(updated
+          ? `Payment ${payment.id} updated to status: ${paymentStatus}`
+          : `Payment ${payment.id} is no longer pending, ignoring status ${paymentStatus}`)
+
+        if (updated && paymentStatus === PaymentStatus.FAILED) {
+          await notifyPaymentFailed(
+            payment.transaction.cashierId,
+            payment.transaction.transactionNumber,
+            status
+          )
+        }
+      }
+
+      return NextResponse.json({ received: true })
+    }
+
+    // Invoices created before tenders were tracked only point at the transaction
     const transaction = await prisma.transaction.findFirst({
       where: {
         OR: [
@@ -44,93 +102,36 @@ export async function POST(request: NextRequest) {
 
     console.log('Found transaction:', transaction.id, 'Current status:', transaction.paymentStatus)
 
-    // Map Xendit status to our payment status
-    let paymentStatus: PaymentStatus = PaymentStatus.PENDING
-    
-    if (status === 'PAID' || status === 'SETTLED' || status === 'SUCCEEDED') {
-      paymentStatus = PaymentStatus.PAID
-    } else if (status === 'FAILED') {
-      paymentStatus = PaymentStatus.FAILED
-    } else if (status === 'EXPIRED') {
-      paymentStatus = PaymentStatus.EXPIRED
-    }
-
     console.log('Updating transaction to status:', paymentStatus)
 
-    // Update transaction status
-    const updatedTransaction = await prisma.transaction.update({
-      where: { id: transaction.id },
-      data: {
-        paymentStatus,
+    if (paymentStatus === PaymentStatus.PAID) {
+      // Status change and stock deduction commit together; a concurrent
+      // /api/payments/check for the same transaction becomes a no-op
+      const { transitioned } = await markTransactionPaid(transaction.id, {
         xenditPaymentId: id || externalId
-      }
-    })
-
-    console.log('Transaction updated successfully:', updatedTransaction.id, 'New status:', updatedTransaction.paymentStatus)
+      })
 
-    // If payment is successful, update product stock
-    if (paymentStatus === PaymentStatus.PAID && transaction.paymentStatus !== PaymentStatus.PAID) {
-      console.log('Payment confirmed, updating stock for transaction:', transaction.id)
-      
-      const transactionWithItems = await prisma.transaction.findUnique({
-        where: { id: transaction.id },
-        include: { items: true }
+      console.log(transitioned
+        ? `Payment confirmed, stock updated for transaction: ${transaction.id}`
+        : `Transaction ${transaction.id} was already marked as paid`)
+    } else {
+      // Never downgrades a paid transaction because of a late or duplicate webhook
+      const { updated } = await markTransactionUnpaid(transaction.id, paymentStatus, {
+        xenditPaymentId: id || externalId
       })
 
-      if (transactionWithItems) {
-        for (const item of transactionWithItems.items) {
-          // Get product before update to track stock changes
-          const product = await prisma.product.findUnique({
-            where: { id: item.productId }
-          })
-
-          if (product) {
-            // Update product stock
-            await prisma.product.update({
-              where: { id: item.productId },
-              data: {
-                stock: {
-                  decrement: item.quantity
-                }
-              }
-            })
-
-            // Create inventory log
-            await prisma.inventoryLog.create({
-              data: {
-                productId: item.productId,
-                type: 'SALE',
-                quantity: item.quantity,
-                previousStock: product.stock,
-                newStock: product.stock - item.quantity,
-                reason: `Sale - Transaction ${transaction.transactionNumber}`,
-                createdBy: transaction.cashierId
-              }
-            })
-
-            // Check for low stock and notify
-            const newStock = product.stock - item.quantity
-            if (newStock <= product.minStock) {
-              await notifyLowStock(transaction.cashierId, product.name, newStock)
-            }
-          }
-        }
-        console.log('Stock updated for', transactionWithItems.items.length, 'items')
+      console.log(updated
+        ? `Transaction ${transaction.id} updated to status: ${paymentStatus}`
+        : `Transaction ${transaction.id} is already paid, ignoring status ${paymentStatus}`)
 
-        // Notify payment received
-        await notifyPaymentReceived(
+      if (updated && paymentStatus === PaymentStatus.FAILED) {
+        // Notify payment failed
+        await notifyPaymentFailed(
           transaction.cashierId,
           transaction.transactionNumber,
-          parseFloat(transaction.finalAmount.toString())
+          status
         )
       }
-    } else if (paymentStatus === PaymentStatus.FAILED) {
-      // Notify payment failed
-      await notifyPaymentFailed(
-        transaction.cashierId,
-        transaction.transactionNumber,
-        status
-      )
     }
 
     return NextResponse.json({ received: true })
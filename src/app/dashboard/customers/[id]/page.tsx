@@ -0,0 +1,285 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams } from 'next/navigation'
+import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+
+interface CustomerDetail {
+  id: string
+  name: string
+  phone: string | null
+  email: string | null
+  notes: string | null
+  createdAt: string
+  loyaltyPoints: number
+  lifetimeSpend: number
+  visitCount: number
+  averageSpend: number
+  lastVisitAt: string | null
+  transactions: Array<{
+    id: string
+    transactionNumber: string
+    finalAmount: number
+    refundedAmount: number
+    paymentMethod: string
+    paymentStatus: string
+    createdAt: string
+    cashier: {
+      name: string
+    }
+    items: Array<{
+      id: string
+      quantity: number
+      product: {
+        name: string
+      }
+    }>
+  }>
+  loyaltyEntries: Array<{
+    id: string
+    type: string
+    points: number
+    remaining: number
+    expiresAt: string | null
+    description: string
+    createdAt: string
+    transaction: {
+      transactionNumber: string
+    } | null
+    user: {
+      name: string
+    } | null
+  }>
+}
+
+export default function CustomerDetailPage() {
+  const { id } = useParams<{ id: string }>()
+  const { data: session } = useSession()
+  const [customer, setCustomer] = useState<CustomerDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchCustomer = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/customers/${id}`)
+      if (response.ok) {
+        setCustomer(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching customer:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [id])
+
+  useEffect(() => {
+    fetchCustomer()
+  }, [fetchCustomer])
+
+  const canManage = session?.user?.role === 'ADMIN' || session?.user?.role === 'MANAGER'
+
+  const adjustPoints = async () => {
+    const points = prompt('Points to add (use a negative number to remove):')
+    if (!points) return
+    const reason = prompt('Reason for the adjustment:')
+    if (!reason) return
+
+    try {
+      const response = await fetch(`/api/customers/${id}/loyalty`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ points, reason }),
+      })
+
+      if (response.ok) {
+        fetchCustomer()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error adjusting points:', error)
+      alert('Error adjusting points')
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(amount)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  if (!customer) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500">Customer not found.</p>
+        <Link href="/dashboard/customers" className="text-indigo-600 hover:text-indigo-800 text-sm">
+          Back to customers
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/dashboard/customers" className="text-sm text-indigo-600 hover:text-indigo-800">
+          ← Customers
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900 mt-1">{customer.name}</h1>
+        <p className="text-sm text-gray-500">
+          {[customer.phone, customer.email].filter(Boolean).join(' · ') || 'No contact details'} · customer since {new Date(customer.createdAt).toLocaleDateString('id-ID')}
+        </p>
+        {customer.notes && (
+          <p className="mt-2 text-sm text-gray-700 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2">{customer.notes}</p>
+        )}
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="bg-white shadow rounded-lg p-4">
+          <p className="text-xs text-gray-500">Lifetime Spend</p>
+          <p className="text-xl font-semibold text-gray-900">{formatCurrency(customer.lifetimeSpend)}</p>
+        </div>
+        <div className="bg-white shadow rounded-lg p-4">
+          <p className="text-xs text-gray-500">Visits</p>
+          <p className="text-xl font-semibold text-gray-900">{customer.visitCount}</p>
+        </div>
+        <div className="bg-white shadow rounded-lg p-4">
+          <p className="text-xs text-gray-500">Average Spend</p>
+          <p className="text-xl font-semibold text-gray-900">{formatCurrency(customer.averageSpend)}</p>
+        </div>
+        <div className="bg-white shadow rounded-lg p-4">
+          <p className="text-xs text-gray-500">Last Visit</p>
+          <p className="text-xl font-semibold text-gray-900">
+            {customer.lastVisitAt ? new Date(customer.lastVisitAt).toLocaleDateString('id-ID') : '-'}
+          </p>
+        </div>
+        <div className="bg-white shadow rounded-lg p-4">
+          <p className="text-xs text-gray-500">Points</p>
+          <p className="text-xl font-semibold text-gray-900">{customer.loyaltyPoints}</p>
+        </div>
+      </div>
+
+      {/* Purchase History */}
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        <h2 className="text-lg font-medium text-gray-900 px-4 py-3 border-b">Purchase History</h2>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transaction</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {customer.transactions.map((transaction) => (
+              <tr key={transaction.id} className="hover:bg-gray-50">
+                <td className="px-3 py-2">
+                  <div className="text-sm font-medium text-gray-900">{transaction.transactionNumber}</div>
+                  <div className="text-xs text-gray-500">by {transaction.cashier.name}</div>
+                </td>
+                <td className="px-3 py-2 text-sm text-gray-900">{new Date(transaction.createdAt).toLocaleString('id-ID')}</td>
+                <td className="px-3 py-2 text-sm text-gray-600">
+                  {transaction.items.map(item => `${item.quantity}x ${item.product.name}`).join(', ')}
+                </td>
+                <td className="px-3 py-2">
+                  <div className="text-sm text-gray-900">{transaction.paymentMethod}</div>
+                  <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                    transaction.paymentStatus === 'PAID'
+                      ? 'bg-green-100 text-green-800'
+                      : transaction.paymentStatus === 'PENDING'
+                        ? 'bg-yellow-100 text-yellow-800'
+                        : 'bg-red-100 text-red-800'
+                  }`}>
+                    {transaction.paymentStatus}
+                  </span>
+                </td>
+                <td className="px-3 py-2 text-right text-sm">
+                  <div className="font-medium text-gray-900">{formatCurrency(Number(transaction.finalAmount))}</div>
+                  {Number(transaction.refundedAmount) > 0 && (
+                    <div className="text-xs text-red-600">Refunded {formatCurrency(Number(transaction.refundedAmount))}</div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {customer.transactions.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No purchases yet.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Points Ledger */}
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        <div className="flex justify-between items-center px-4 py-3 border-b">
+          <h2 className="text-lg font-medium text-gray-900">Points History</h2>
+          {canManage && (
+            <button
+              onClick={adjustPoints}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Adjust Points
+            </button>
+          )}
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Points</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {customer.loyaltyEntries.map((entry) => (
+              <tr key={entry.id} className="hover:bg-gray-50">
+                <td className="px-3 py-2 text-sm text-gray-900">{new Date(entry.createdAt).toLocaleString('id-ID')}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">{entry.type}</td>
+                <td className="px-3 py-2 text-sm text-gray-600">
+                  {entry.description}
+                  {entry.user && <span className="text-xs text-gray-500"> · by {entry.user.name}</span>}
+                </td>
+                <td className="px-3 py-2 text-sm text-gray-600">
+                  {entry.expiresAt && entry.remaining > 0
+                    ? `${entry.remaining} on ${new Date(entry.expiresAt).toLocaleDateString('id-ID')}`
+                    : '-'}
+                </td>
+                <td className={`px-3 py-2 text-right text-sm font-medium ${entry.points < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {entry.points > 0 ? `+${entry.points}` : entry.points}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {customer.loyaltyEntries.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No points activity yet.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,314 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+
+interface Customer {
+  id: string
+  name: string
+  phone: string | null
+  email: string | null
+  notes: string | null
+  loyaltyPoints: number
+  lifetimeSpend: number
+  visitCount: number
+  lastVisitAt: string | null
+}
+
+const emptyForm = {
+  name: '',
+  phone: '',
+  email: '',
+  notes: '',
+}
+
+export default function CustomersPage() {
+  const { data: session } = useSession()
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(1)
+  const [pages, setPages] = useState(1)
+  const [showModal, setShowModal] = useState(false)
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+
+  const canManage = session?.user?.role === 'ADMIN' || session?.user?.role === 'MANAGER'
+
+  const fetchCustomers = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: '20' })
+      if (search.trim()) params.set('search', search.trim())
+
+      const response = await fetch(`/api/customers?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setCustomers(data.customers)
+        setPages(Math.max(data.pagination.pages, 1))
+      }
+    } catch (error) {
+      console.error('Error fetching customers:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [page, search])
+
+  useEffect(() => {
+    const timeout = setTimeout(fetchCustomers, 300)
+    return () => clearTimeout(timeout)
+  }, [fetchCustomers])
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(amount)
+  }
+
+  const openCreate = () => {
+    setEditingCustomer(null)
+    setFormData(emptyForm)
+    setShowModal(true)
+  }
+
+  const openEdit = (customer: Customer) => {
+    setEditingCustomer(customer)
+    setFormData({
+      name: customer.name,
+      phone: customer.phone || '',
+      email: customer.email || '',
+      notes: customer.notes || '',
+    })
+    setShowModal(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const response = await fetch(editingCustomer ? `/api/customers/${editingCustomer.id}` : '/api/customers', {
+        method: editingCustomer ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(formData),
+      })
+
+      if (response.ok) {
+        setShowModal(false)
+        fetchCustomers()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error saving customer:', error)
+      alert('Error saving customer')
+    }
+  }
+
+  const handleDelete = async (customer: Customer) => {
+    if (!confirm(`Delete ${customer.name}? Their past sales are kept but no longer linked to them.`)) return
+
+    try {
+      const response = await fetch(`/api/customers/${customer.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        fetchCustomers()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error deleting customer:', error)
+      alert('Error deleting customer')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Customers</h1>
+        <button
+          onClick={openCreate}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium"
+        >
+          Add Customer
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={search}
+        onChange={(e) => {
+          setSearch(e.target.value)
+          setPage(1)
+        }}
+        placeholder="Search by name, phone or email..."
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+
+      {/* Customers Table */}
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Visits</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lifetime Spend</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Points</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Visit</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {customers.map((customer) => (
+              <tr key={customer.id} className="hover:bg-gray-50">
+                <td className="px-3 py-2">
+                  <Link href={`/dashboard/customers/${customer.id}`} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                    {customer.name}
+                  </Link>
+                </td>
+                <td className="px-3 py-2 text-sm text-gray-900">
+                  {customer.phone && <div>{customer.phone}</div>}
+                  {customer.email && <div className="text-xs text-gray-500">{customer.email}</div>}
+                </td>
+                <td className="px-3 py-2 text-sm text-gray-900">{customer.visitCount}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">{formatCurrency(customer.lifetimeSpend)}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">{customer.loyaltyPoints}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">
+                  {customer.lastVisitAt ? new Date(customer.lastVisitAt).toLocaleDateString('id-ID') : '-'}
+                </td>
+                <td className="px-3 py-2 text-right text-sm font-medium">
+                  <div className="flex justify-end gap-1">
+                    <button
+                      onClick={() => openEdit(customer)}
+                      className="px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700"
+                    >
+                      Edit
+                    </button>
+                    {canManage && (
+                      <button
+                        onClick={() => handleDelete(customer)}
+                        className="px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-red-600 hover:bg-red-700"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {customers.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No customers found.</p>
+          </div>
+        )}
+
+        {pages > 1 && (
+          <div className="flex justify-between items-center px-4 py-3 border-t">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">Page {page} of {pages}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pages}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Create/Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-md shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {editingCustomer ? 'Edit Customer' : 'Add Customer'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Phone</label>
+                <input
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  placeholder="08xx..."
+                  className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Email</label>
+                <input
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Notes</label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={3}
+                  className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2"
+                />
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setShowModal(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-indigo-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-indigo-700"
+                >
+                  {editingCustomer ? 'Save' : 'Add'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,9 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, Fragment } from 'react'
 import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+import { formatQuantity } from '@/lib/scaleBarcodes'
 
 interface Product {
   id: string
@@ -9,10 +11,19 @@ interface Product {
   sku: string
   stock: number
   minStock: number
+  soldByWeight: boolean
+  // Held for pending digital payments, and what is left to sell
+  reservedStock: number
+  availableStock: number
   category: {
     id: string
     name: string
   }
+  variantAxes: string[]
+  variantValues: string[]
+  variants?: Product[]
+  // Set on parents, whose stock is the total of their variants
+  lowStockVariants?: number
 }
 
 interface InventoryLog {
@@ -33,6 +44,9 @@ interface InventoryLog {
   createdByUser?: {
     name: string
   }
+  outlet: {
+    name: string
+  }
 }
 
 interface AdjustmentItem {
@@ -40,6 +54,7 @@ interface AdjustmentItem {
   productName: string
   currentStock: number
   newStock: number
+  soldByWeight: boolean
   reason: string
 }
 
@@ -58,6 +73,8 @@ export default function InventoryPage() {
   const [totalPages, setTotalPages] = useState(1)
   const [logCurrentPage, setLogCurrentPage] = useState(1)
   const [logTotalPages, setLogTotalPages] = useState(1)
+  // Null while an admin looks at the total over all outlets
+  const [outlet, setOutlet] = useState<{ name: string } | null>(null)
 
   const fetchProducts = async () => {
     try {
@@ -72,6 +89,7 @@ export default function InventoryPage() {
       if (response.ok) {
         const data = await response.json()
         setProducts(data.products)
+        setOutlet(data.outlet)
         setTotalPages(data.pagination.pages)
       }
     } catch (error) {
@@ -120,12 +138,18 @@ export default function InventoryPage() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentPage, searchTerm, selectedCategory, activeTab, logCurrentPage])
 
+  // Stock is adjusted per variant; parents only hold the total
+  const adjustableProducts = products.flatMap(product =>
+    product.variantAxes.length > 0 ? product.variants || [] : [product]
+  )
+
   const handleStockAdjustment = (product: Product) => {
     const adjustment: AdjustmentItem = {
       productId: product.id,
       productName: product.name,
-      currentStock: product.stock,
-      newStock: product.stock,
+      currentStock: Number(product.stock),
+      newStock: Number(product.stock),
+      soldByWeight: product.soldByWeight,
       reason: ''
     }
     setAdjustments([adjustment])
@@ -138,6 +162,7 @@ export default function InventoryPage() {
       productName: '',
       currentStock: 0,
       newStock: 0,
+      soldByWeight: false,
       reason: ''
     }
     setAdjustments([...adjustments, newAdjustment])
@@ -149,11 +174,12 @@ export default function InventoryPage() {
 
     // If productId changed, find product and update name and current stock
     if (field === 'productId' && value) {
-      const product = products.find(p => p.id === value)
+      const product = adjustableProducts.find(p => p.id === value)
       if (product) {
         updatedAdjustments[index].productName = product.name
-        updatedAdjustments[index].currentStock = product.stock
-        updatedAdjustments[index].newStock = product.stock
+        updatedAdjustments[index].currentStock = Number(product.stock)
+        updatedAdjustments[index].newStock = Number(product.stock)
+        updatedAdjustments[index].soldByWeight = product.soldByWeight
       }
     }
 
@@ -202,8 +228,9 @@ export default function InventoryPage() {
   }
 
   const getStockStatus = (product: Product) => {
-    if (product.stock <= 0) return { status: 'Out of Stock', color: 'bg-red-100 text-red-800' }
-    if (product.stock <= product.minStock) return { status: 'Low Stock', color: 'bg-yellow-100 text-yellow-800' }
+    if (product.lowStockVariants) return { status: `${product.lowStockVariants} Low Variant${product.lowStockVariants > 1 ? 's' : ''}`, color: 'bg-yellow-100 text-yellow-800' }
+    if (Number(product.stock) <= 0) return { status: 'Out of Stock', color: 'bg-red-100 text-red-800' }
+    if (Number(product.stock) <= Number(product.minStock)) return { status: 'Low Stock', color: 'bg-yellow-100 text-yellow-800' }
     return { status: 'In Stock', color: 'bg-green-100 text-green-800' }
   }
 
@@ -223,11 +250,24 @@ export default function InventoryPage() {
     <div className="space-y-6">
       {/* Header */}
       <div className="flex justify-between items-center">
-        <h1 className="text-2xl font-bold text-gray-900">Inventory Management</h1>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Inventory Management</h1>
+          <p className="text-sm text-gray-500">
+            {outlet ? `Stock at ${outlet.name}` : 'Total stock across all outlets'}
+          </p>
+        </div>
         <div className="flex gap-4">
+          <Link
+            href="/dashboard/inventory/transfers"
+            className="border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-md font-medium"
+          >
+            Transfers
+          </Link>
           <button
             onClick={() => setShowAdjustmentModal(true)}
-            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium"
+            disabled={!outlet}
+            title={outlet ? undefined : 'Pick an outlet to adjust its stock'}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium disabled:opacity-50"
           >
             Stock Adjustment
           </button>
@@ -326,37 +366,85 @@ export default function InventoryPage() {
               <tbody className="bg-white divide-y divide-gray-200">
                 {products.map((product) => {
                   const stockStatus = getStockStatus(product)
+                  const isParent = product.variantAxes.length > 0
                   return (
-                    <tr key={product.id}>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div>
-                          <div className="text-sm font-medium text-gray-900">{product.name}</div>
-                          <div className="text-sm text-gray-500">{product.sku}</div>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {product.category.name}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {product.stock}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {product.minStock}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${stockStatus.color}`}>
-                          {stockStatus.status}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                        <button
-                          onClick={() => handleStockAdjustment(product)}
-                          className="text-indigo-600 hover:text-indigo-900"
-                        >
-                          Adjust Stock
-                        </button>
-                      </td>
-                    </tr>
+                    <Fragment key={product.id}>
+                      <tr>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">{product.name}</div>
+                            <div className="text-sm text-gray-500">{product.sku}</div>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {product.category.name}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatQuantity(product.stock, product.soldByWeight)}
+                          {product.reservedStock > 0 && (
+                            <div className="text-xs text-gray-500">
+                              {formatQuantity(product.availableStock, product.soldByWeight)} available · {formatQuantity(product.reservedStock, product.soldByWeight)} held
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatQuantity(product.minStock, product.soldByWeight)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${stockStatus.color}`}>
+                            {stockStatus.status}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          {!isParent && (
+                            <button
+                              onClick={() => handleStockAdjustment(product)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                            >
+                              Adjust Stock
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {isParent && product.variants?.map((variant) => {
+                        const variantStatus = getStockStatus(variant)
+                        return (
+                          <tr key={variant.id} className="bg-gray-50">
+                            <td className="px-6 py-2 pl-12 whitespace-nowrap">
+                              <div>
+                                <div className="text-sm text-gray-900">{variant.variantValues.join(' / ')}</div>
+                                <div className="text-xs text-gray-500">{variant.sku}</div>
+                              </div>
+                            </td>
+                            <td className="px-6 py-2"></td>
+                            <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-900">
+                              {formatQuantity(variant.stock, variant.soldByWeight)}
+                              {variant.reservedStock > 0 && (
+                                <div className="text-xs text-gray-500">
+                                  {formatQuantity(variant.availableStock, variant.soldByWeight)} available · {formatQuantity(variant.reservedStock, variant.soldByWeight)} held
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-900">
+                              {formatQuantity(variant.minStock, variant.soldByWeight)}
+                            </td>
+                            <td className="px-6 py-2 whitespace-nowrap">
+                              <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${variantStatus.color}`}>
+                                {variantStatus.status}
+                              </span>
+                            </td>
+                            <td className="px-6 py-2 whitespace-nowrap text-right text-sm font-medium">
+                              <button
+                                onClick={() => handleStockAdjustment(variant)}
+                                className="text-indigo-600 hover:text-indigo-900"
+                              >
+                                Adjust Stock
+                              </button>
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </Fragment>
                   )
                 })}
               </tbody>
@@ -436,12 +524,14 @@ export default function InventoryPage() {
                       <div>
                         <div className="text-sm font-medium text-gray-900">{log.product.name}</div>
                         <div className="text-sm text-gray-500">{log.product.sku}</div>
+                        <div className="text-xs text-gray-400">{log.outlet.name}</div>
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
                         log.type === 'SALE' ? 'bg-red-100 text-red-800' :
                         log.type.includes('ADJUSTMENT_IN') ? 'bg-green-100 text-green-800' :
+                        log.type === 'TRANSFER' ? 'bg-purple-100 text-purple-800' :
                         'bg-blue-100 text-blue-800'
                       }`}>
                         {log.type.replace('_', ' ')}
@@ -527,19 +617,20 @@ export default function InventoryPage() {
                           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                         >
                           <option value="">Select Product</option>
-                          {products.map((product) => (
+                          {adjustableProducts.map((product) => (
                             <option key={product.id} value={product.id}>
-                              {product.name} ({product.stock} in stock)
+                              {product.name} ({formatQuantity(product.stock, product.soldByWeight)} in stock)
                             </option>
                           ))}
                         </select>
                       </div>
                       <div>
-                        <label className="block text-sm font-medium text-gray-700">New Stock</label>
+                        <label className="block text-sm font-medium text-gray-700">New Stock{adjustment.soldByWeight && ' (kg)'}</label>
                         <input
                           type="number"
+                          step={adjustment.soldByWeight ? '0.001' : '1'}
                           value={adjustment.newStock}
-                          onChange={(e) => updateAdjustment(index, 'newStock', parseInt(e.target.value) || 0)}
+                          onChange={(e) => updateAdjustment(index, 'newStock', (adjustment.soldByWeight ? parseFloat(e.target.value) : parseInt(e.target.value)) || 0)}
                           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                         />
                       </div>
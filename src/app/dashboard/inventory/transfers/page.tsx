@@ -0,0 +1,611 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+import { formatQuantity } from '@/lib/scaleBarcodes'
+
+type TransferStatus = 'DRAFT' | 'IN_TRANSIT' | 'RECEIVED'
+
+interface OutletRef {
+  id: string
+  name: string
+  code: string
+}
+
+interface TransferItem {
+  id: string
+  productId: string
+  quantity: number
+  receivedQuantity: number | null
+  product: {
+    id: string
+    name: string
+    sku: string
+    soldByWeight: boolean
+  }
+}
+
+interface Transfer {
+  id: string
+  transferNumber: string
+  status: TransferStatus
+  note: string | null
+  receivedNote: string | null
+  createdAt: string
+  sentAt: string | null
+  receivedAt: string | null
+  fromOutlet: OutletRef
+  toOutlet: OutletRef
+  creator: { name: string }
+  sender: { name: string } | null
+  receiver: { name: string } | null
+  items: TransferItem[]
+}
+
+interface CatalogProduct {
+  id: string
+  name: string
+  sku: string
+  stock: number
+  soldByWeight: boolean
+}
+
+interface DraftLine {
+  productId: string
+  quantity: number
+}
+
+const STATUS_STYLES: Record<TransferStatus, { label: string; color: string }> = {
+  DRAFT: { label: 'Draft', color: 'bg-gray-100 text-gray-800' },
+  IN_TRANSIT: { label: 'In Transit', color: 'bg-yellow-100 text-yellow-800' },
+  RECEIVED: { label: 'Received', color: 'bg-green-100 text-green-800' },
+}
+
+export default function StockTransfersPage() {
+  const { data: session } = useSession()
+  const [transfers, setTransfers] = useState<Transfer[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState('')
+  // Null while an admin looks at all outlets together
+  const [outlet, setOutlet] = useState<OutletRef | null>(null)
+  const [destinations, setDestinations] = useState<OutletRef[]>([])
+  const [products, setProducts] = useState<CatalogProduct[]>([])
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [draft, setDraft] = useState<{ id?: string; toOutletId: string; note: string; items: DraftLine[] }>({ toOutletId: '', note: '', items: [] })
+  const [selected, setSelected] = useState<Transfer | null>(null)
+  // Counted on arrival, by transfer item id
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<string, number>>({})
+  const [receivedNote, setReceivedNote] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const canManage = session?.user?.role === 'ADMIN' || session?.user?.role === 'MANAGER'
+
+  const fetchTransfers = async () => {
+    try {
+      const params = new URLSearchParams(statusFilter ? { status: statusFilter } : {})
+      const response = await fetch(`/api/stock-transfers?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setTransfers(data.transfers)
+        setOutlet(data.outlet)
+        setDestinations(data.destinations)
+      }
+    } catch (error) {
+      console.error('Error fetching transfers:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchProducts = async () => {
+    try {
+      const response = await fetch('/api/products/catalog')
+      if (response.ok) {
+        const data = await response.json()
+        setProducts(data.products)
+      }
+    } catch (error) {
+      console.error('Error fetching products:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchTransfers()
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter])
+
+  const openCreateModal = (transfer?: Transfer) => {
+    fetchProducts()
+    setDraft(transfer
+      ? {
+          id: transfer.id,
+          toOutletId: transfer.toOutlet.id,
+          note: transfer.note || '',
+          items: transfer.items.map(item => ({ productId: item.productId, quantity: Number(item.quantity) })),
+        }
+      : { toOutletId: '', note: '', items: [{ productId: '', quantity: 1 }] })
+    setSelected(null)
+    setShowCreateModal(true)
+  }
+
+  const updateLine = (index: number, field: keyof DraftLine, value: string | number) => {
+    const items = [...draft.items]
+    items[index] = { ...items[index], [field]: value }
+    setDraft({ ...draft, items })
+  }
+
+  const saveDraft = async () => {
+    const items = draft.items.filter(line => line.productId)
+    if (!draft.toOutletId || items.length === 0) {
+      alert('Choose a destination and at least one product')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch(draft.id ? `/api/stock-transfers/${draft.id}` : '/api/stock-transfers', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ toOutletId: draft.toOutletId, note: draft.note, items }),
+      })
+
+      if (response.ok) {
+        setShowCreateModal(false)
+        fetchTransfers()
+        openTransfer(await response.json())
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error saving transfer:', error)
+      alert('Error saving transfer')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const openTransfer = (transfer: Transfer) => {
+    setSelected(transfer)
+    setReceivedQuantities(Object.fromEntries(transfer.items.map(item => [item.id, Number(item.quantity)])))
+    setReceivedNote('')
+  }
+
+  // Sends, receives and deletes share the same handling of the response
+  const runAction = async (path: string, init: RequestInit, success: string) => {
+    if (!selected) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/stock-transfers/${selected.id}${path}`, init)
+
+      if (response.ok) {
+        alert(success)
+        const data = await response.json()
+        setSelected(init.method === 'DELETE' ? null : data)
+        fetchTransfers()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating transfer:', error)
+      alert('Error updating transfer')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const sendTransfer = () => {
+    if (!selected || !confirm(`Send ${selected.transferNumber} to ${selected.toOutlet.name}? The stock leaves ${selected.fromOutlet.name} now.`)) return
+
+    runAction('/send', { method: 'POST' }, 'Transfer sent')
+  }
+
+  const receiveTransfer = () => {
+    if (!selected) return
+
+    runAction('/receive', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        items: selected.items.map(item => ({ itemId: item.id, receivedQuantity: receivedQuantities[item.id] ?? 0 })),
+        receivedNote,
+      }),
+    }, 'Transfer received')
+  }
+
+  const deleteTransfer = () => {
+    if (!selected || !confirm(`Delete draft ${selected.transferNumber}?`)) return
+
+    runAction('', { method: 'DELETE' }, 'Draft deleted')
+  }
+
+  const hasDiscrepancy = selected?.items.some(item => (receivedQuantities[item.id] ?? 0) !== Number(item.quantity)) ?? false
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString()
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Stock Transfers</h1>
+          <p className="text-sm text-gray-500">
+            {outlet ? `Transfers to and from ${outlet.name}` : 'Transfers between all outlets'}
+            {' · '}
+            <Link href="/dashboard/inventory" className="text-indigo-600 hover:text-indigo-900">Back to inventory</Link>
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => openCreateModal()}
+            disabled={!outlet}
+            title={outlet ? undefined : 'Pick the outlet to send stock from'}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium disabled:opacity-50"
+          >
+            New Transfer
+          </button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-lg shadow">
+        <label className="block text-sm font-medium text-gray-700">Status</label>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="mt-1 block w-full md:w-64 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          <option value="">All Statuses</option>
+          {Object.entries(STATUS_STYLES).map(([status, style]) => (
+            <option key={status} value={status}>{style.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Transfers Table */}
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Transfer
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                From
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                To
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Items
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {transfers.map((transfer) => (
+              <tr key={transfer.id}>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm font-medium text-gray-900">{transfer.transferNumber}</div>
+                  <div className="text-sm text-gray-500">{formatDate(transfer.createdAt)}</div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {transfer.fromOutlet.name}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {transfer.toOutlet.name}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {transfer.items.length}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[transfer.status].color}`}>
+                    {STATUS_STYLES[transfer.status].label}
+                  </span>
+                  {transfer.receivedNote && (
+                    <div className="text-xs text-red-600 mt-1">Discrepancy noted</div>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <button
+                    onClick={() => openTransfer(transfer)}
+                    className="text-indigo-600 hover:text-indigo-900"
+                  >
+                    View
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {transfers.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No transfers found.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Create / Edit Draft Modal */}
+      {showCreateModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-gray-900">
+                {draft.id ? 'Edit Draft Transfer' : `New Transfer from ${outlet?.name}`}
+              </h3>
+              <button
+                onClick={() => setShowCreateModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Send To</label>
+                <select
+                  value={draft.toOutletId}
+                  onChange={(e) => setDraft({ ...draft, toOutletId: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="">Select Outlet</option>
+                  {destinations.map((destination) => (
+                    <option key={destination.id} value={destination.id}>
+                      {destination.name} ({destination.code})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {draft.items.map((line, index) => {
+                  const product = products.find(p => p.id === line.productId)
+                  return (
+                    <div key={index} className="flex gap-2 items-end">
+                      <div className="flex-1">
+                        <label className="block text-sm font-medium text-gray-700">Product</label>
+                        <select
+                          value={line.productId}
+                          onChange={(e) => updateLine(index, 'productId', e.target.value)}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        >
+                          <option value="">Select Product</option>
+                          {products.map((p) => (
+                            <option key={p.id} value={p.id}>
+                              {p.name} ({formatQuantity(p.stock, p.soldByWeight)} in stock)
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="w-32">
+                        <label className="block text-sm font-medium text-gray-700">Quantity{product?.soldByWeight && ' (kg)'}</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step={product?.soldByWeight ? '0.001' : '1'}
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, 'quantity', (product?.soldByWeight ? parseFloat(e.target.value) : parseInt(e.target.value)) || 0)}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                      </div>
+                      {draft.items.length > 1 && (
+                        <button
+                          onClick={() => setDraft({ ...draft, items: draft.items.filter((_, i) => i !== index) })}
+                          className="text-red-600 hover:text-red-900 text-sm pb-2"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  )
+                })}
+
+                <button
+                  onClick={() => setDraft({ ...draft, items: [...draft.items, { productId: '', quantity: 1 }] })}
+                  className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-4 rounded-md font-medium"
+                >
+                  Add Product
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Note</label>
+                <textarea
+                  value={draft.note}
+                  onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                  rows={2}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 mt-4 border-t">
+              <button
+                onClick={() => setShowCreateModal(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveDraft}
+                disabled={saving}
+                className="px-4 py-2 bg-indigo-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Save Draft
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Transfer Detail Modal */}
+      {selected && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">{selected.transferNumber}</h3>
+                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[selected.status].color}`}>
+                  {STATUS_STYLES[selected.status].label}
+                </span>
+              </div>
+              <button
+                onClick={() => setSelected(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+              <div>
+                <div className="text-gray-500">From</div>
+                <div className="font-medium text-gray-900">{selected.fromOutlet.name}</div>
+                {selected.sentAt && (
+                  <div className="text-xs text-gray-500">Sent {formatDate(selected.sentAt)} by {selected.sender?.name}</div>
+                )}
+              </div>
+              <div>
+                <div className="text-gray-500">To</div>
+                <div className="font-medium text-gray-900">{selected.toOutlet.name}</div>
+                {selected.receivedAt && (
+                  <div className="text-xs text-gray-500">Received {formatDate(selected.receivedAt)} by {selected.receiver?.name}</div>
+                )}
+              </div>
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200 mb-4">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Sent</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {selected.items.map((item) => (
+                  <tr key={item.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {item.product.name}
+                      <div className="text-xs text-gray-500">{item.product.sku}</div>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-900 text-right">
+                      {formatQuantity(item.quantity, item.product.soldByWeight)}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      {selected.status === 'IN_TRANSIT' && (!outlet || outlet.id === selected.toOutlet.id) ? (
+                        <input
+                          type="number"
+                          min="0"
+                          step={item.product.soldByWeight ? '0.001' : '1'}
+                          value={receivedQuantities[item.id] ?? 0}
+                          onChange={(e) => setReceivedQuantities({
+                            ...receivedQuantities,
+                            [item.id]: (item.product.soldByWeight ? parseFloat(e.target.value) : parseInt(e.target.value)) || 0,
+                          })}
+                          className="w-28 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm text-right"
+                        />
+                      ) : item.receivedQuantity !== null ? (
+                        <span className={Number(item.receivedQuantity) !== Number(item.quantity) ? 'font-semibold text-red-600' : 'text-gray-900'}>
+                          {formatQuantity(item.receivedQuantity, item.product.soldByWeight)}
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {selected.note && (
+              <p className="text-sm text-gray-700 mb-2"><span className="font-medium">Note:</span> {selected.note}</p>
+            )}
+            {selected.receivedNote && (
+              <p className="text-sm text-gray-700 mb-2"><span className="font-medium">Received note:</span> {selected.receivedNote}</p>
+            )}
+
+            {selected.status === 'IN_TRANSIT' && hasDiscrepancy && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700">What arrived differs from what was sent. Why?</label>
+                <textarea
+                  value={receivedNote}
+                  onChange={(e) => setReceivedNote(e.target.value)}
+                  rows={2}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4 border-t">
+              <button
+                onClick={() => window.open(`/api/stock-transfers/${selected.id}/slip`, '_blank')}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Print Slip
+              </button>
+              {selected.status === 'DRAFT' && canManage && (!outlet || outlet.id === selected.fromOutlet.id) && (
+                <>
+                  <button
+                    onClick={deleteTransfer}
+                    disabled={saving}
+                    className="px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => openCreateModal(selected)}
+                    disabled={saving}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={sendTransfer}
+                    disabled={saving}
+                    className="px-4 py-2 bg-indigo-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    Send
+                  </button>
+                </>
+              )}
+              {selected.status === 'IN_TRANSIT' && (!outlet || outlet.id === selected.toOutlet.id) && (
+                <button
+                  onClick={receiveTransfer}
+                  disabled={saving || (hasDiscrepancy && !receivedNote.trim())}
+                  className="px-4 py-2 bg-green-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                >
+                  Receive
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
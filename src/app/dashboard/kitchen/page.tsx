@@ -0,0 +1,303 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { getOrderLabel } from '@/lib/orderTypes'
+
+type KitchenItemStatus = 'NEW' | 'IN_PROGRESS' | 'READY' | 'SERVED'
+
+interface KitchenTicketItem {
+  id: string
+  status: KitchenItemStatus
+  name: string
+  quantity: number
+  modifiers: string[]
+  note: string | null
+}
+
+interface KitchenOrder {
+  orderType: 'DINE_IN' | 'TAKEAWAY' | 'DELIVERY'
+  table: {
+    name: string
+  } | null
+  cashier: {
+    name: string
+  }
+}
+
+interface KitchenTicket {
+  id: string
+  station: 'KITCHEN' | 'BAR'
+  round: number | null
+  createdAt: string
+  transaction: (KitchenOrder & { transactionNumber: string; note: string | null }) | null
+  tab: (KitchenOrder & { label: string }) | null
+  items: KitchenTicketItem[]
+}
+
+const STATUS_FLOW: KitchenItemStatus[] = ['NEW', 'IN_PROGRESS', 'READY', 'SERVED']
+
+const STATUS_LABELS: Record<KitchenItemStatus, string> = {
+  NEW: 'New',
+  IN_PROGRESS: 'In Progress',
+  READY: 'Ready',
+  SERVED: 'Served',
+}
+
+const STATUS_COLORS: Record<KitchenItemStatus, string> = {
+  NEW: 'bg-blue-100 text-blue-800',
+  IN_PROGRESS: 'bg-yellow-100 text-yellow-800',
+  READY: 'bg-green-100 text-green-800',
+  SERVED: 'bg-gray-100 text-gray-600',
+}
+
+// Tickets turn yellow, then red, the longer they wait
+const WARN_AFTER_MINUTES = 5
+const LATE_AFTER_MINUTES = 10
+
+export default function KitchenPage() {
+  useSession()
+  const [tickets, setTickets] = useState<KitchenTicket[]>([])
+  const [loading, setLoading] = useState(true)
+  const [station, setStation] = useState('')
+  const [now, setNow] = useState(Date.now())
+
+  const fetchTickets = async () => {
+    try {
+      const params = new URLSearchParams(station ? { station } : {})
+      const response = await fetch(`/api/kitchen/tickets?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setTickets(data.tickets)
+      }
+    } catch (error) {
+      console.error('Error fetching kitchen tickets:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // New orders and item moves are pushed by the server; the slow poll only
+  // covers a dropped connection
+  useEffect(() => {
+    fetchTickets()
+
+    const params = new URLSearchParams(station ? { station } : {})
+    const events = new EventSource(`/api/kitchen/stream?${params}`)
+    events.addEventListener('tickets', fetchTickets)
+    const interval = setInterval(fetchTickets, 30000)
+
+    return () => {
+      events.close()
+      clearInterval(interval)
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [station])
+
+  // Keep the elapsed times moving
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 15000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const moveItems = async (ticket: KitchenTicket, status: KitchenItemStatus, itemId?: string) => {
+    try {
+      const response = await fetch(`/api/kitchen/tickets/${ticket.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status, itemId }),
+      })
+
+      if (response.ok) {
+        fetchTickets()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating kitchen ticket:', error)
+      alert('Error updating kitchen ticket')
+    }
+  }
+
+  const printTicket = async (ticket: KitchenTicket) => {
+    try {
+      const response = await fetch(`/api/kitchen/tickets/${ticket.id}?format=text`)
+      if (!response.ok) {
+        alert('Error printing ticket')
+        return
+      }
+
+      const text = await response.text()
+      const printWindow = window.open('', '_blank')
+      if (printWindow) {
+        const pre = printWindow.document.createElement('pre')
+        pre.style.fontFamily = 'monospace'
+        pre.style.fontSize = '14px'
+        pre.textContent = text
+        printWindow.document.title = `Ticket - ${getTicketTitle(ticket)}`
+        printWindow.document.body.appendChild(pre)
+        setTimeout(() => {
+          printWindow.print()
+        }, 250)
+      }
+    } catch (error) {
+      console.error('Error printing ticket:', error)
+      alert('Error printing ticket')
+    }
+  }
+
+  const getTicketTitle = (ticket: KitchenTicket) => ticket.transaction
+    ? ticket.transaction.transactionNumber
+    : `${ticket.tab?.label} · Round ${ticket.round}`
+
+  const getNextStatus = (status: KitchenItemStatus) => STATUS_FLOW[STATUS_FLOW.indexOf(status) + 1]
+
+  // The whole ticket moves on from where its slowest item is
+  const getTicketNextStatus = (ticket: KitchenTicket) => {
+    const slowest = Math.min(...ticket.items.map(item => STATUS_FLOW.indexOf(item.status)))
+    return STATUS_FLOW[slowest + 1]
+  }
+
+  const getElapsedMinutes = (ticket: KitchenTicket) =>
+    Math.max(0, Math.floor((now - new Date(ticket.createdAt).getTime()) / 60000))
+
+  const getElapsedColor = (minutes: number) => {
+    if (minutes >= LATE_AFTER_MINUTES) return 'border-red-500 bg-red-50'
+    if (minutes >= WARN_AFTER_MINUTES) return 'border-yellow-500 bg-yellow-50'
+    return 'border-green-500 bg-white'
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Kitchen Display</h1>
+        <span className="text-sm text-gray-500">
+          {tickets.length} open ticket{tickets.length === 1 ? '' : 's'}
+        </span>
+      </div>
+
+      {/* Stations */}
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {[
+            { id: '', name: 'All Stations' },
+            { id: 'KITCHEN', name: 'Kitchen' },
+            { id: 'BAR', name: 'Bar' },
+          ].map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setStation(tab.id)}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                station === tab.id
+                  ? 'border-indigo-500 text-indigo-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {tab.name}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {/* Tickets */}
+      {tickets.length === 0 ? (
+        <div className="bg-white rounded-lg shadow text-center py-12">
+          <p className="text-gray-500">No open orders.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+          {tickets.map((ticket) => {
+            const minutes = getElapsedMinutes(ticket)
+            const nextStatus = getTicketNextStatus(ticket)
+            const order = ticket.transaction ?? ticket.tab
+
+            return (
+              <div key={ticket.id} className={`rounded-lg shadow border-t-4 p-4 flex flex-col ${getElapsedColor(minutes)}`}>
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <div className="text-sm font-bold text-gray-900">{getTicketTitle(ticket)}</div>
+                    {order && (
+                      <div className="text-sm font-medium text-indigo-700">{getOrderLabel(order.orderType, order.table?.name)}</div>
+                    )}
+                    <div className="text-xs text-gray-500">
+                      {ticket.station === 'BAR' ? 'Bar' : 'Kitchen'}{order && ` · ${order.cashier.name}`}
+                    </div>
+                  </div>
+                  <span className="text-lg font-bold text-gray-900">{minutes}m</span>
+                </div>
+
+                {ticket.transaction?.note && (
+                  <div className="mb-3 bg-yellow-100 border border-yellow-300 rounded px-2 py-1 text-sm text-yellow-900">
+                    📝 {ticket.transaction.note}
+                  </div>
+                )}
+
+                <ul className="space-y-2 flex-1">
+                  {ticket.items.map((item) => {
+                    const next = getNextStatus(item.status)
+
+                    return (
+                      <li key={item.id} className={item.status === 'SERVED' ? 'opacity-50' : ''}>
+                        <div className="flex justify-between items-start gap-2">
+                          <div className="text-sm text-gray-900">
+                            <span className="font-semibold">{Number(item.quantity)} ×</span>{' '}
+                            {item.name}
+                            {item.modifiers.map((modifier) => (
+                              <div key={modifier} className="pl-5 text-xs text-gray-600">
+                                + {modifier}
+                              </div>
+                            ))}
+                            {item.note && (
+                              <div className="pl-5 text-xs font-semibold text-red-700">* {item.note}</div>
+                            )}
+                          </div>
+                          <button
+                            onClick={() => next && moveItems(ticket, next, item.id)}
+                            disabled={!next}
+                            title={next ? `Mark ${STATUS_LABELS[next].toLowerCase()}` : undefined}
+                            className={`flex-shrink-0 px-2 py-1 text-xs font-semibold rounded-full ${STATUS_COLORS[item.status]} disabled:cursor-default`}
+                          >
+                            {STATUS_LABELS[item.status]}
+                          </button>
+                        </div>
+                      </li>
+                    )
+                  })}
+                </ul>
+
+                <div className="flex gap-2 mt-4">
+                  {nextStatus && (
+                    <button
+                      onClick={() => moveItems(ticket, nextStatus)}
+                      className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-2 rounded-md text-sm font-medium"
+                    >
+                      {nextStatus === 'IN_PROGRESS' ? 'Start All' : `All ${STATUS_LABELS[nextStatus]}`}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => printTicket(ticket)}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    Print
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
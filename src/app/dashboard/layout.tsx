@@ -10,11 +10,27 @@ const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: '📊' },
   { name: 'Products', href: '/dashboard/products', icon: '📦' },
   { name: 'POS', href: '/dashboard/pos', icon: '💰' },
+  { name: 'Kitchen', href: '/dashboard/kitchen', icon: '🍳' },
+  { name: 'Tables', href: '/dashboard/tables', icon: '🍽️' },
   { name: 'Transactions', href: '/dashboard/transactions', icon: '🧾' },
+  { name: 'Shifts', href: '/dashboard/shifts', icon: '🕒' },
+  { name: 'Customers', href: '/dashboard/customers', icon: '👥' },
   { name: 'Reports', href: '/dashboard/reports', icon: '📈' },
   { name: 'Inventory', href: '/dashboard/inventory', icon: '📋' },
+  { name: 'Transfers', href: '/dashboard/inventory/transfers', icon: '🚚' },
+  { name: 'Purchasing', href: '/dashboard/purchase-orders', icon: '🛒' },
+  { name: 'Modifiers', href: '/dashboard/modifiers', icon: '🧩' },
+  { name: 'Promotions', href: '/dashboard/promotions', icon: '🏷️' },
+  { name: 'Vouchers', href: '/dashboard/vouchers', icon: '🎟️' },
+  { name: 'Settings', href: '/dashboard/settings', icon: '⚙️' },
 ]
 
+interface Outlet {
+  id: string
+  name: string
+  code: string
+}
+
 export default function DashboardLayout({
   children,
 }: {
@@ -24,11 +40,45 @@ export default function DashboardLayout({
   const pathname = usePathname()
   const [sidebarOpen, setSidebarOpen] = useState(true)
   const [currentDate, setCurrentDate] = useState('')
+  const [outlets, setOutlets] = useState<Outlet[]>([])
+  const [activeOutletId, setActiveOutletId] = useState<string | null>(null)
+
+  const isAdmin = session?.user?.role === 'ADMIN'
 
   useEffect(() => {
     setCurrentDate(new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }))
   }, [])
 
+  useEffect(() => {
+    if (!session) return
+
+    fetch('/api/outlets')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data) {
+          setOutlets(data.outlets)
+          setActiveOutletId(data.activeOutletId)
+        }
+      })
+      .catch(error => console.error('Error fetching outlets:', error))
+  }, [session])
+
+  // Every page reads the active outlet on the server, so reload to pick it up
+  const switchOutlet = async (outletId: string | null) => {
+    const response = await fetch('/api/outlets/active', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ outletId }),
+    })
+
+    if (response.ok) {
+      window.location.reload()
+    } else {
+      const error = await response.json()
+      alert(`Error: ${error.error}`)
+    }
+  }
+
   return (
     <div className="min-h-screen bg-[#F1F5F9]">
       {/* Sidebar */}
@@ -122,6 +172,28 @@ export default function DashboardLayout({
             </div>
             
             <div className="flex items-center space-x-4">
+              {/* Outlet */}
+              {(outlets.length > 1 || isAdmin) && (
+                <select
+                  value={activeOutletId ?? ''}
+                  onChange={(e) => switchOutlet(e.target.value || null)}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="Outlet"
+                >
+                  {isAdmin && <option value="">All outlets</option>}
+                  {outlets.map((outlet) => (
+                    <option key={outlet.id} value={outlet.id}>
+                      {outlet.name} ({outlet.code})
+                    </option>
+                  ))}
+                </select>
+              )}
+              {outlets.length === 1 && !isAdmin && (
+                <span className="px-3 py-2 text-sm text-gray-600 bg-gray-100 rounded-lg">
+                  {outlets[0].name}
+                </span>
+              )}
+
               {/* Search */}
               <div className="relative hidden md:block">
                 <input
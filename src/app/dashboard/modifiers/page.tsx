@@ -0,0 +1,555 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+
+interface ModifierOption {
+  id: string
+  name: string
+  priceDelta: number
+  ingredientId: string | null
+  ingredientQuantity: number
+  isActive: boolean
+  ingredient: { id: string; name: string } | null
+}
+
+interface ModifierGroup {
+  id: string
+  name: string
+  minSelect: number
+  maxSelect: number | null
+  sortOrder: number
+  isActive: boolean
+  options: ModifierOption[]
+  products: Array<{ id: string; name: string }>
+  categories: Array<{ id: string; name: string }>
+}
+
+interface OptionForm {
+  id: string | null
+  name: string
+  priceDelta: string
+  ingredientId: string
+  ingredientQuantity: string
+  isActive: boolean
+}
+
+const emptyOption: OptionForm = {
+  id: null,
+  name: '',
+  priceDelta: '0',
+  ingredientId: '',
+  ingredientQuantity: '1',
+  isActive: true,
+}
+
+const emptyForm = {
+  name: '',
+  minSelect: '0',
+  maxSelect: '1',
+  sortOrder: '0',
+  isActive: true,
+  options: [{ ...emptyOption }] as OptionForm[],
+  productIds: [] as string[],
+  categoryIds: [] as string[],
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount)
+
+const describeSelection = (group: ModifierGroup) => {
+  const required = group.minSelect > 0 ? `Pick at least ${group.minSelect}` : 'Optional'
+  if (group.maxSelect === null) return `${required}, no limit`
+  return `${required}, up to ${group.maxSelect}`
+}
+
+const describeOption = (option: ModifierOption) => {
+  const delta = Number(option.priceDelta)
+  const price = delta === 0 ? '' : ` (${delta > 0 ? '+' : '-'}${formatCurrency(Math.abs(delta))})`
+  return `${option.name}${price}${option.isActive ? '' : ' [off]'}`
+}
+
+const describeTargets = (group: ModifierGroup) => {
+  const targets = [
+    ...group.categories.map(c => `${c.name} (category)`),
+    ...group.products.map(p => p.name),
+  ]
+  return targets.length > 0 ? targets.join(', ') : 'Not attached'
+}
+
+export default function ModifiersPage() {
+  const { data: session } = useSession()
+  const [groups, setGroups] = useState<ModifierGroup[]>([])
+  const [products, setProducts] = useState<{ id: string; name: string }[]>([])
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showModal, setShowModal] = useState(false)
+  const [editingGroup, setEditingGroup] = useState<ModifierGroup | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+
+  const canManage = session?.user?.role === 'ADMIN' || session?.user?.role === 'MANAGER'
+
+  const fetchGroups = async () => {
+    try {
+      const response = await fetch('/api/modifier-groups')
+      if (response.ok) {
+        const data = await response.json()
+        setGroups(data)
+      }
+    } catch (error) {
+      console.error('Error fetching modifier groups:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchProducts = async () => {
+    try {
+      const response = await fetch('/api/products?limit=100')
+      if (response.ok) {
+        const data = await response.json()
+        setProducts(data.products)
+      }
+    } catch (error) {
+      console.error('Error fetching products:', error)
+    }
+  }
+
+  const fetchCategories = async () => {
+    try {
+      const response = await fetch('/api/categories')
+      if (response.ok) {
+        const data = await response.json()
+        setCategories(data)
+      }
+    } catch (error) {
+      console.error('Error fetching categories:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchGroups()
+    fetchProducts()
+    fetchCategories()
+  }, [])
+
+  const toRequestBody = (form: typeof emptyForm) => ({
+    ...form,
+    maxSelect: form.maxSelect === '' ? null : form.maxSelect,
+  })
+
+  const toForm = (group: ModifierGroup): typeof emptyForm => ({
+    name: group.name,
+    minSelect: group.minSelect.toString(),
+    maxSelect: group.maxSelect?.toString() ?? '',
+    sortOrder: group.sortOrder.toString(),
+    isActive: group.isActive,
+    options: group.options.map(option => ({
+      id: option.id,
+      name: option.name,
+      priceDelta: Number(option.priceDelta).toString(),
+      ingredientId: option.ingredientId || '',
+      ingredientQuantity: option.ingredientQuantity.toString(),
+      isActive: option.isActive,
+    })),
+    productIds: group.products.map(p => p.id),
+    categoryIds: group.categories.map(c => c.id),
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const url = editingGroup ? `/api/modifier-groups/${editingGroup.id}` : '/api/modifier-groups'
+      const method = editingGroup ? 'PUT' : 'POST'
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toRequestBody(formData)),
+      })
+
+      if (response.ok) {
+        closeModal()
+        fetchGroups()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error saving modifier group:', error)
+      alert('Error saving modifier group')
+    }
+  }
+
+  const handleEdit = (group: ModifierGroup) => {
+    setEditingGroup(group)
+    setFormData(toForm(group))
+    setShowModal(true)
+  }
+
+  const toggleActive = async (group: ModifierGroup) => {
+    try {
+      const response = await fetch(`/api/modifier-groups/${group.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toRequestBody({ ...toForm(group), isActive: !group.isActive })),
+      })
+
+      if (response.ok) {
+        fetchGroups()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error updating modifier group:', error)
+      alert('Error updating modifier group')
+    }
+  }
+
+  const handleDelete = async (group: ModifierGroup) => {
+    if (!confirm(`Are you sure you want to delete "${group.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/modifier-groups/${group.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        fetchGroups()
+      } else {
+        alert('Error deleting modifier group')
+      }
+    } catch (error) {
+      console.error('Error deleting modifier group:', error)
+      alert('Error deleting modifier group')
+    }
+  }
+
+  const closeModal = () => {
+    setShowModal(false)
+    setEditingGroup(null)
+    setFormData(emptyForm)
+  }
+
+  const toggleSelection = (field: 'productIds' | 'categoryIds', id: string) => {
+    const selected = formData[field]
+    setFormData({
+      ...formData,
+      [field]: selected.includes(id) ? selected.filter(item => item !== id) : [...selected, id],
+    })
+  }
+
+  const updateOption = (index: number, changes: Partial<OptionForm>) => {
+    setFormData({
+      ...formData,
+      options: formData.options.map((option, i) => i === index ? { ...option, ...changes } : option),
+    })
+  }
+
+  const removeOption = (index: number) => {
+    setFormData({
+      ...formData,
+      options: formData.options.filter((_, i) => i !== index),
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  const inputClass = 'mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-3 py-2'
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Modifiers</h1>
+        {canManage && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium"
+          >
+            Add Modifier Group
+          </button>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Modifier groups (sizes, extra shots, sugar level...) are offered at the POS when an item is added. Attach a group to a category to offer it with every product in it.
+      </p>
+
+      {/* Modifier Groups Table */}
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Group</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Options</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              {canManage && (
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {groups.map((group) => (
+              <tr key={group.id} className="hover:bg-gray-50">
+                <td className="px-3 py-2">
+                  <div className="text-sm font-medium text-gray-900">{group.name}</div>
+                  <div className="text-xs text-gray-500">{describeSelection(group)}</div>
+                </td>
+                <td className="px-3 py-2 text-sm text-gray-900">
+                  {group.options.map(describeOption).join(', ')}
+                </td>
+                <td className="px-3 py-2 text-sm text-gray-900">{describeTargets(group)}</td>
+                <td className="px-3 py-2">
+                  <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                    group.isActive
+                      ? 'bg-green-100 text-green-800'
+                      : 'bg-red-100 text-red-800'
+                  }`}>
+                    {group.isActive ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                {canManage && (
+                  <td className="px-3 py-2 text-right text-sm font-medium">
+                    <div className="flex justify-end gap-1">
+                      <button
+                        onClick={() => toggleActive(group)}
+                        className="inline-flex items-center px-2 py-1 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        {group.isActive ? 'Pause' : 'Resume'}
+                      </button>
+                      <button
+                        onClick={() => handleEdit(group)}
+                        className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(group)}
+                        className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-red-600 hover:bg-red-700"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {groups.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No modifier groups yet.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Add/Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-md bg-white mb-10">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {editingGroup ? 'Edit Modifier Group' : 'Add Modifier Group'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. Size"
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Minimum picks</label>
+                  <input
+                    type="number"
+                    min="0"
+                    required
+                    value={formData.minSelect}
+                    onChange={(e) => setFormData({ ...formData, minSelect: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Maximum picks</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.maxSelect}
+                    onChange={(e) => setFormData({ ...formData, maxSelect: e.target.value })}
+                    placeholder="No limit"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Sort order</label>
+                  <input
+                    type="number"
+                    value={formData.sortOrder}
+                    onChange={(e) => setFormData({ ...formData, sortOrder: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center">
+                  <label className="block text-sm font-medium text-gray-700">Options</label>
+                  <button
+                    type="button"
+                    onClick={() => setFormData({ ...formData, options: [...formData.options, { ...emptyOption }] })}
+                    className="text-sm text-indigo-600 hover:text-indigo-800"
+                  >
+                    + Add option
+                  </button>
+                </div>
+                <div className="mt-1 space-y-2">
+                  {formData.options.map((option, index) => (
+                    <div key={option.id ?? `new-${index}`} className="grid grid-cols-12 gap-2 items-center">
+                      <input
+                        type="text"
+                        required
+                        value={option.name}
+                        onChange={(e) => updateOption(index, { name: e.target.value })}
+                        placeholder="Name"
+                        className={`${inputClass} col-span-3`}
+                      />
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={option.priceDelta}
+                        onChange={(e) => updateOption(index, { priceDelta: e.target.value })}
+                        title="Price change"
+                        className={`${inputClass} col-span-2`}
+                      />
+                      <select
+                        value={option.ingredientId}
+                        onChange={(e) => updateOption(index, { ingredientId: e.target.value })}
+                        title="Ingredient to deduct from stock"
+                        className={`${inputClass} col-span-3`}
+                      >
+                        <option value="">No ingredient</option>
+                        {products.map((product) => (
+                          <option key={product.id} value={product.id}>{product.name}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="1"
+                        value={option.ingredientQuantity}
+                        disabled={!option.ingredientId}
+                        onChange={(e) => updateOption(index, { ingredientQuantity: e.target.value })}
+                        title="Ingredient quantity per item"
+                        className={`${inputClass} col-span-2 disabled:bg-gray-100`}
+                      />
+                      <label className="col-span-1 flex items-center gap-1 text-xs text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={option.isActive}
+                          onChange={(e) => updateOption(index, { isActive: e.target.checked })}
+                        />
+                        On
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => removeOption(index)}
+                        className="col-span-1 text-red-500 hover:text-red-700"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Price change is added to the item price (negative for cheaper). An ingredient is deducted from stock for every item sold with the option.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Categories</label>
+                  <div className="mt-1 max-h-40 overflow-y-auto border border-gray-300 rounded-md p-2 space-y-1">
+                    {categories.map((category) => (
+                      <label key={category.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={formData.categoryIds.includes(category.id)}
+                          onChange={() => toggleSelection('categoryIds', category.id)}
+                        />
+                        {category.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Products</label>
+                  <div className="mt-1 max-h-40 overflow-y-auto border border-gray-300 rounded-md p-2 space-y-1">
+                    {products.map((product) => (
+                      <label key={product.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={formData.productIds.includes(product.id)}
+                          onChange={() => toggleSelection('productIds', product.id)}
+                        />
+                        {product.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                />
+                Active
+              </label>
+
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-indigo-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-indigo-700"
+                >
+                  {editingGroup ? 'Update' : 'Add'} Modifier Group
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
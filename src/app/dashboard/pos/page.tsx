@@ -1,17 +1,45 @@
 'use client'
 
-import { useState, useEffect, useCallback, Suspense } from 'react'
+import { useState, useEffect, useCallback, useRef, Suspense } from 'react'
 import { useSession } from 'next-auth/react'
 import { useSearchParams, useRouter } from 'next/navigation'
 import Image from 'next/image'
+import Link from 'next/link'
 import ReceiptPreview from '@/components/ReceiptPreview'
+import CashTenderModal from '@/components/CashTenderModal'
+import { FLOOR_COLUMNS, FLOOR_ROWS, getOrderLabel, ORDER_TYPE_LABELS, ORDER_TYPES } from '@/lib/orderTypes'
+import {
+  formatQuantity,
+  getLabelPrice,
+  getLabelWeight,
+  isValidQuantity,
+  parseScaleBarcode,
+  roundQuantity,
+  ScaleBarcodeRule
+} from '@/lib/scaleBarcodes'
+import {
+  deleteQueuedSale,
+  estimateOfflineTotals,
+  listQueuedSales,
+  loadCatalog,
+  OfflineCatalog,
+  OfflinePromotion,
+  OfflineModifierGroup,
+  QueuedSale,
+  repriceQueuedSale,
+  saveCatalog,
+  saveQueuedSale,
+  syncQueuedSales
+} from '@/lib/offlineSales'
 
 interface Product {
   id: string
   name: string
   sku: string
   price: number
+  // Available to sell: on hand less what pending digital payments hold
   stock: number
+  reservedStock?: number
   minStock?: number
   category: {
     id: string
@@ -19,6 +47,138 @@ interface Product {
   }
   image?: string
   barcode?: string
+  // Price is per kilogram and stock is in kilograms
+  soldByWeight?: boolean
+  plu?: string | null
+  tax?: {
+    name: string | null
+    rate: number
+  }
+  modifierGroups?: OfflineModifierGroup[]
+}
+
+interface CartModifier {
+  id: string
+  groupName: string
+  name: string
+  priceDelta: number
+}
+
+interface CartItem {
+  // Product plus chosen options and note, so the same product can sit on several lines
+  key: string
+  product: Product
+  modifiers: CartModifier[]
+  note: string
+  quantity: number
+  unitPrice: number
+  totalPrice: number
+  // Scanned from a scale's price label, whose printed price is the line total
+  labelBarcode?: string
+}
+
+interface ScaleLabelPrice {
+  barcode: string
+  price: number
+}
+
+interface Customer {
+  id: string
+  name: string
+  phone: string | null
+  email: string | null
+  loyaltyPoints: number
+}
+
+interface HeldCart {
+  id: string
+  label: string
+  voucherCode: string | null
+  customerEmail: string | null
+  customer: Customer | null
+  note: string | null
+  createdAt: string
+  expiresAt: string
+  cashier: {
+    name: string
+  }
+  items: Array<{
+    id: string
+    quantity: number
+    modifierOptionIds: string[]
+    note: string | null
+    labelBarcode: string | null
+    product: Product
+  }>
+  warnings: string[]
+}
+
+type OrderType = 'DINE_IN' | 'TAKEAWAY' | 'DELIVERY'
+
+interface DiningTable {
+  id: string
+  name: string
+  area: string | null
+  seats: number
+  posX: number
+  posY: number
+  // The table's open tab, if it is occupied
+  tabs: Array<{
+    id: string
+    label: string
+    openedAt: string
+  }>
+}
+
+interface OpenTab {
+  id: string
+  label: string
+  orderType: OrderType
+  openedAt: string
+  table: {
+    id: string
+    name: string
+  } | null
+  customer: Customer | null
+  cashier: {
+    name: string
+  }
+  items: Array<{
+    id: string
+    quantity: number
+    modifierOptionIds: string[]
+    note: string | null
+    round: number
+    product: Product
+  }>
+}
+
+interface CartQuote {
+  taxInclusive: boolean
+  totalAmount: number
+  taxAmount: number
+  discountAmount: number
+  finalAmount: number
+  cashAmount: number
+  cashRoundingAmount: number
+  voucher: {
+    code: string
+    discountAmount: number
+  } | null
+  loyalty: {
+    points: number
+    discountAmount: number
+  } | null
+  pointsToEarn?: number
+  items: Array<{
+    productId: string
+    discountAmount: number
+    promotions: Array<{
+      promotionId: string
+      promotionName: string
+      discountAmount: number
+    }>
+  }>
 }
 
 interface CompletedTransaction {
@@ -28,14 +188,45 @@ interface CompletedTransaction {
   taxAmount: number
   discountAmount: number
   finalAmount: number
+  taxInclusive: boolean
+  roundingAmount: number
+  cashTendered: number | null
+  changeDue: number | null
+  voucherRedemption: {
+    discountAmount: number
+    voucher: {
+      code: string
+    }
+  } | null
+  note: string | null
   paymentMethod: string
   paymentStatus: string
+  payments: Array<{
+    id: string
+    method: string
+    amount: number
+    status: string
+  }>
   createdAt: string
   items: Array<{
     id: string
     quantity: number
     unitPrice: number
     totalPrice: number
+    taxName: string | null
+    taxRate: number
+    taxAmount: number
+    promotions: Array<{
+      id: string
+      promotionName: string
+      discountAmount: number
+    }>
+    modifiers: Array<{
+      id: string
+      optionName: string
+      priceDelta: number
+    }>
+    note: string | null
     product: {
       id: string
       name: string
@@ -52,6 +243,19 @@ interface CompletedTransaction {
   }
 }
 
+function cartLineKey(productId: string, modifiers: CartModifier[], note = '', labelBarcode = ''): string {
+  return [productId, ...modifiers.map(modifier => modifier.id).sort(), note, labelBarcode].join(':')
+}
+
+// Map held option IDs back to the catalog's options; ones since removed are dropped
+function resolveCartModifiers(product: Product, optionIds: string[]): CartModifier[] {
+  return (product.modifierGroups ?? []).flatMap(group =>
+    group.options
+      .filter(option => optionIds.includes(option.id))
+      .map(option => ({ id: option.id, groupName: group.name, name: option.name, priceDelta: option.priceDelta }))
+  )
+}
+
 function POSPageContent() {
   const { data: session } = useSession()
   const searchParams = useSearchParams()
@@ -60,7 +264,7 @@ function POSPageContent() {
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
   const [showCart, setShowCart] = useState(false)
-  const [cart, setCart] = useState<{ product: Product; quantity: number; unitPrice: number; totalPrice: number }[]>([])
+  const [cart, setCart] = useState<CartItem[]>([])
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedCategory, setSelectedCategory] = useState('')
   const [categories, setCategories] = useState<{ id: string; name: string }[]>([])
@@ -69,30 +273,141 @@ function POSPageContent() {
   const [clickedProductId, setClickedProductId] = useState<string | null>(null)
   const [showReceiptPreview, setShowReceiptPreview] = useState(false)
   const [completedTransaction, setCompletedTransaction] = useState<CompletedTransaction | null>(null)
-
+  const [quote, setQuote] = useState<CartQuote | null>(null)
+  const [quoteLoading, setQuoteLoading] = useState(false)
+  const [voucherInput, setVoucherInput] = useState('')
+  const [voucherCode, setVoucherCode] = useState('')
+  const [customerEmail, setCustomerEmail] = useState('')
+  const [orderNote, setOrderNote] = useState('')
+  const [showCashTender, setShowCashTender] = useState(false)
+  const [modifierProduct, setModifierProduct] = useState<Product | null>(null)
+  const [modifierSelection, setModifierSelection] = useState<string[]>([])
+  const [heldCarts, setHeldCarts] = useState<HeldCart[]>([])
+  const [showHeldCarts, setShowHeldCarts] = useState(false)
+  const [isOnline, setIsOnline] = useState(true)
+  const [catalogSettings, setCatalogSettings] = useState<OfflineCatalog['settings'] | null>(null)
+  const [catalogOutlet, setCatalogOutlet] = useState<OfflineCatalog['outlet']>(undefined)
+  const [barcodeRules, setBarcodeRules] = useState<ScaleBarcodeRule[]>([])
+  const [catalogPromotions, setCatalogPromotions] = useState<OfflinePromotion[]>([])
+  const [queuedSales, setQueuedSales] = useState<QueuedSale[]>([])
+  const [showQueue, setShowQueue] = useState(false)
+  const [syncing, setSyncing] = useState(false)
+  const [hasOpenShift, setHasOpenShift] = useState<boolean | null>(null)
+  const [customer, setCustomer] = useState<Customer | null>(null)
+  const [customerSearch, setCustomerSearch] = useState('')
+  const [customerResults, setCustomerResults] = useState<Customer[]>([])
+  const [redeemPoints, setRedeemPoints] = useState(0)
+  const [orderType, setOrderType] = useState<OrderType>('TAKEAWAY')
+  const [selectedTable, setSelectedTable] = useState<{ id: string; name: string } | null>(null)
+  const [tables, setTables] = useState<DiningTable[]>([])
+  const [showTablePicker, setShowTablePicker] = useState(false)
+  const [openTabs, setOpenTabs] = useState<OpenTab[]>([])
+  const [showTabs, setShowTabs] = useState(false)
+  // Set while the cart holds an open tab that is being paid
+  const [activeTab, setActiveTab] = useState<OpenTab | null>(null)
+
+  // The catalog is cached on every successful load so the POS can keep selling
+  // from the last known prices and stock when the network drops
   const fetchProducts = useCallback(async () => {
     try {
-      const response = await fetch('/api/products?limit=100')
-      if (response.ok) {
-        const data = await response.json()
-        setProducts(data.products)
+      const response = await fetch('/api/products/catalog')
+      if (!response.ok) {
+        throw new Error(`Catalog request failed with status ${response.status}`)
       }
+
+      const catalog: OfflineCatalog = await response.json()
+      setProducts(catalog.products)
+      setCategories(catalog.categories)
+      setCatalogSettings(catalog.settings)
+      setCatalogOutlet(catalog.outlet)
+      setBarcodeRules(catalog.barcodeRules ?? [])
+      setCatalogPromotions(catalog.promotions ?? [])
+      saveCatalog(catalog).catch(error => console.error('Error caching catalog:', error))
     } catch (error) {
       console.error('Error fetching products:', error)
+
+      const cached = await loadCatalog().catch(() => null)
+      if (cached) {
+        setProducts(cached.products)
+        setCategories(cached.categories)
+        setCatalogSettings(cached.settings)
+        setCatalogOutlet(cached.outlet)
+        setBarcodeRules(cached.barcodeRules ?? [])
+        setCatalogPromotions(cached.promotions ?? [])
+      }
     } finally {
       setLoading(false)
     }
   }, [])
 
-  const fetchCategories = useCallback(async () => {
+  const refreshQueue = useCallback(async () => {
+    try {
+      setQueuedSales(await listQueuedSales())
+    } catch (error) {
+      console.error('Error reading offline queue:', error)
+    }
+  }, [])
+
+  const syncQueue = useCallback(async () => {
+    setSyncing(true)
     try {
-      const response = await fetch('/api/categories')
+      const result = await syncQueuedSales()
+      if (result.synced > 0) {
+        fetchProducts() // Refresh products to update stock
+      }
+      if (result.conflicts > 0) {
+        alert(`${result.conflicts} offline sale(s) could not be recorded. Open the offline queue to resolve them.`)
+      }
+    } catch (error) {
+      console.error('Error syncing offline sales:', error)
+    } finally {
+      setSyncing(false)
+      refreshQueue()
+    }
+  }, [fetchProducts, refreshQueue])
+
+  const fetchHeldCarts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/held-carts')
       if (response.ok) {
         const data = await response.json()
-        setCategories(data)
+        setHeldCarts(data)
+      }
+    } catch (error) {
+      console.error('Error fetching held carts:', error)
+    }
+  }, [])
+
+  const fetchTables = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tables')
+      if (response.ok) {
+        setTables(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching tables:', error)
+    }
+  }, [])
+
+  const fetchOpenTabs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tabs')
+      if (response.ok) {
+        setOpenTabs(await response.json())
       }
     } catch (error) {
-      console.error('Error fetching categories:', error)
+      console.error('Error fetching open tabs:', error)
+    }
+  }, [])
+
+  const fetchCurrentShift = useCallback(async () => {
+    try {
+      const response = await fetch('/api/shifts/current')
+      if (response.ok) {
+        setHasOpenShift((await response.json()) !== null)
+      }
+    } catch (error) {
+      console.error('Error fetching current shift:', error)
     }
   }, [])
 
@@ -135,9 +450,33 @@ function POSPageContent() {
     }
   }, [])
 
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true)
+      syncQueue()
+    }
+    const goOffline = () => setIsOnline(false)
+
+    setIsOnline(navigator.onLine)
+    if (navigator.onLine) {
+      syncQueue()
+    } else {
+      refreshQueue()
+    }
+
+    window.addEventListener('online', goOnline)
+    window.addEventListener('offline', goOffline)
+    return () => {
+      window.removeEventListener('online', goOnline)
+      window.removeEventListener('offline', goOffline)
+    }
+  }, [syncQueue, refreshQueue])
+
   useEffect(() => {
     fetchProducts()
-    fetchCategories()
+    fetchHeldCarts()
+    fetchOpenTabs()
+    fetchCurrentShift()
     
     // Check for payment success/failure from Xendit redirect
     const paymentStatus = searchParams.get('payment')
@@ -152,7 +491,7 @@ function POSPageContent() {
       alert('Payment failed or was cancelled')
       router.replace('/dashboard/pos')
     }
-  }, [fetchProducts, fetchCategories, searchParams, router, fetchTransactionAndShowReceipt])
+  }, [fetchProducts, fetchHeldCarts, fetchOpenTabs, fetchCurrentShift, searchParams, router, fetchTransactionAndShowReceipt])
 
   useEffect(() => {
     // Filter products based on search and category
@@ -193,85 +532,676 @@ function POSPageContent() {
   }, [products, searchTerm, selectedCategory])
 
 
-  const addToCart = (product: Product) => {
+  // Re-price the cart on the server whenever it changes so tax is shown exactly as it will be charged
+  useEffect(() => {
+    if (cart.length === 0) {
+      setQuote(null)
+      return
+    }
+
+    // Offline the cart is totalled from the cached catalog and promotions,
+    // without vouchers; the server re-checks it when the sale syncs
+    const offlineQuote = (): CartQuote | null => catalogSettings && {
+      ...estimateOfflineTotals(
+        cart.map(item => ({
+          productId: item.product.id,
+          categoryId: item.product.category.id,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          totalPrice: item.totalPrice,
+          taxRate: item.product.tax?.rate ?? 0
+        })),
+        catalogSettings,
+        catalogPromotions
+      ),
+      voucher: null,
+      loyalty: null
+    }
+
+    if (!isOnline) {
+      setQuote(offlineQuote())
+      setQuoteLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setQuoteLoading(true)
+
+    fetch('/api/transactions/quote', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        items: cart.map(item => ({
+          productId: item.product.id,
+          quantity: Number(item.quantity),
+          modifierOptionIds: item.modifiers.map(modifier => modifier.id),
+          note: item.note || undefined,
+          labelBarcode: item.labelBarcode
+        })),
+        voucherCode: voucherCode || undefined,
+        customerEmail: customerEmail.trim() || undefined,
+        customerId: customer?.id,
+        loyaltyPoints: redeemPoints || undefined
+      }),
+    })
+      .then(async (response) => {
+        const data = await response.json()
+        if (cancelled) return
+        if (response.ok) {
+          setQuote(data)
+        } else if (data.voucherError) {
+          // Drop the voucher; clearing it re-prices the cart without it
+          alert(data.error)
+          setVoucherCode('')
+        } else if (data.loyaltyError) {
+          alert(data.error)
+          setRedeemPoints(0)
+        } else {
+          setQuote(null)
+          console.error('Error pricing cart:', data.error)
+        }
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          // The browser may not have noticed the connection is gone yet
+          setQuote(offlineQuote())
+          console.error('Error pricing cart:', error)
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setQuoteLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [cart, voucherCode, customerEmail, customer, redeemPoints, isOnline, catalogSettings, catalogPromotions])
+
+  // Look customers up as the cashier types a name, phone or email
+  useEffect(() => {
+    if (customerSearch.trim().length < 2 || !isOnline) {
+      setCustomerResults([])
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/customers?limit=5&search=${encodeURIComponent(customerSearch.trim())}`)
+        if (response.ok) {
+          const data = await response.json()
+          setCustomerResults(data.customers)
+        }
+      } catch (error) {
+        console.error('Error searching customers:', error)
+      }
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [customerSearch, isOnline])
+
+  // Stock is shared by every line of a product, whatever its modifiers
+  const cartQuantity = (productId: string, items: CartItem[] = cart) => {
+    return items
+      .filter(item => item.product.id === productId)
+      .reduce((sum, item) => roundQuantity(sum + item.quantity), 0)
+  }
+
+  // A weight comes with a scanned scale label; otherwise a weighed product asks for one
+  const addToCart = (product: Product, weight?: number, labelPrice?: ScaleLabelPrice) => {
     if (product.stock <= 0) {
       alert('Product is out of stock')
       return
     }
 
+    if (product.soldByWeight) {
+      const quantity = weight ?? Number(prompt(`Weight of ${product.name} in kg (e.g. 0.25):`) || 0)
+      if (!isValidQuantity(quantity, true)) {
+        if (weight !== undefined || quantity !== 0) {
+          alert('Please enter a weight in kg, to the gram')
+        }
+        return
+      }
+
+      addLineToCart(product, [], quantity, labelPrice)
+      return
+    }
+
+    // Products with options are added from the modifier picker
+    if (product.modifierGroups && product.modifierGroups.length > 0) {
+      setModifierProduct(product)
+      setModifierSelection([])
+      return
+    }
+
+    addLineToCart(product, [])
+  }
+
+  const addLineToCart = (product: Product, modifiers: CartModifier[], quantity = 1, labelPrice?: ScaleLabelPrice) => {
     // Trigger animation
     setClickedProductId(product.id)
     setTimeout(() => setClickedProductId(null), 600)
 
-    setCart(prevCart => {
-      const existingItem = prevCart.find(item => item.product.id === product.id)
+    const key = cartLineKey(product.id, modifiers, '', labelPrice?.barcode)
+    const unitPrice = Number(product.price) + modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0)
+
+    setCart(prevCart => {
+      if (cartQuantity(product.id, prevCart) + quantity > product.stock) {
+        alert('Not enough stock available')
+        return prevCart
+      }
+
+      const existingItem = prevCart.find(item => item.key === key)
+
+      // Each price label is one package; the same one scanned again is a mistake
+      if (existingItem && labelPrice) {
+        alert('This label is already in the cart')
+        return prevCart
+      }
+
+      if (existingItem) {
+        const newQuantity = roundQuantity(existingItem.quantity + quantity)
+        return prevCart.map(item =>
+          item.key === key
+            ? {
+                ...item,
+                quantity: newQuantity,
+                totalPrice: newQuantity * item.unitPrice
+              }
+            : item
+        )
+      } else {
+        return [...prevCart, {
+          key,
+          product,
+          modifiers,
+          note: '',
+          quantity,
+          unitPrice,
+          totalPrice: labelPrice?.price ?? quantity * unitPrice,
+          labelBarcode: labelPrice?.barcode
+        }]
+      }
+    })
+  }
+
+  const toggleModifierOption = (group: OfflineModifierGroup, optionId: string) => {
+    setModifierSelection(prevSelection => {
+      if (prevSelection.includes(optionId)) {
+        return prevSelection.filter(id => id !== optionId)
+      }
+
+      // A pick-one group swaps its choice instead of refusing the tap
+      if (group.maxSelect === 1) {
+        const groupOptionIds = group.options.map(option => option.id)
+        return [...prevSelection.filter(id => !groupOptionIds.includes(id)), optionId]
+      }
+
+      const chosenInGroup = group.options.filter(option => prevSelection.includes(option.id)).length
+      if (group.maxSelect !== null && chosenInGroup >= group.maxSelect) {
+        return prevSelection
+      }
+
+      return [...prevSelection, optionId]
+    })
+  }
+
+  const confirmModifiers = () => {
+    if (!modifierProduct) return
+
+    const groups = modifierProduct.modifierGroups ?? []
+    for (const group of groups) {
+      const chosen = group.options.filter(option => modifierSelection.includes(option.id)).length
+      if (chosen < group.minSelect) {
+        alert(`Choose at least ${group.minSelect} ${group.name}`)
+        return
+      }
+    }
+
+    addLineToCart(modifierProduct, resolveCartModifiers(modifierProduct, modifierSelection))
+    setModifierProduct(null)
+    setModifierSelection([])
+  }
+
+  const updateQuantity = (key: string, newQuantity: number) => {
+    if (newQuantity <= 0) {
+      removeFromCart(key)
+      return
+    }
+
+    const item = cart.find(i => i.key === key)
+    const product = item && products.find(p => p.id === item.product.id)
+    if (!item || !product || cartQuantity(product.id) - item.quantity + newQuantity > product.stock) {
+      alert('Not enough stock available')
+      return
+    }
+
+    setCart(prevCart =>
+      prevCart.map(item =>
+        item.key === key
+          ? {
+              ...item,
+              quantity: newQuantity,
+              totalPrice: newQuantity * item.unitPrice
+            }
+          : item
+      )
+    )
+  }
+
+  // A changed note may make the line identical to another one, which it then joins
+  const editNote = (key: string) => {
+    const item = cart.find(i => i.key === key)
+    if (!item) return
+
+    const input = prompt(`Note for ${item.product.name} (e.g. no chili):`, item.note)
+    if (input === null) return
+
+    const note = input.trim()
+    const newKey = cartLineKey(item.product.id, item.modifiers, note, item.labelBarcode)
+
+    setCart(prevCart => {
+      const target = prevCart.find(i => i.key === newKey && i.key !== key)
+      if (!target) {
+        return prevCart.map(i => i.key === key ? { ...i, key: newKey, note } : i)
+      }
+
+      const quantity = target.quantity + item.quantity
+      return prevCart
+        .filter(i => i.key !== key)
+        .map(i => i.key === newKey ? { ...i, quantity, totalPrice: quantity * i.unitPrice } : i)
+    })
+  }
+
+  const removeFromCart = (key: string) => {
+    setCart(prevCart => prevCart.filter(item => item.key !== key))
+  }
+
+  // One key per checkout attempt, so a double-click or a retry after a dropped
+  // request is recorded once. A fresh key is taken once the server has
+  // answered or the cart changes.
+  const checkoutKey = useRef<string | null>(null)
+  const getCheckoutKey = () => (checkoutKey.current ??= crypto.randomUUID())
+  // Digital payments that failed for this checkout. Retrying keeps the checkout
+  // key, so the sale already created is replayed, and only the payment is tried anew
+  const paymentAttempts = useRef(0)
+
+  useEffect(() => {
+    checkoutKey.current = null
+    paymentAttempts.current = 0
+  }, [cart, quote])
+
+  const resetCheckout = () => {
+    setCart([])
+    setOrderNote('')
+    setVoucherInput('')
+    setVoucherCode('')
+    setCustomerEmail('')
+    setCustomer(null)
+    setCustomerSearch('')
+    setRedeemPoints(0)
+    setSelectedTable(null)
+    setActiveTab(null)
+  }
+
+  const clearCart = () => {
+    if (confirm('Are you sure you want to clear the cart?')) {
+      resetCheckout()
+    }
+  }
+
+  // Park the cart on the server so another customer can be served
+  const holdCart = async () => {
+    if (cart.length === 0) {
+      alert('Cart is empty')
+      return
+    }
+
+    if (activeTab) {
+      alert('This cart is an open tab. Send new items to the tab instead of holding it.')
+      return
+    }
+
+    const label = prompt('Label for this held cart (e.g. customer name or table):', `Cart ${new Date().toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}`)
+    if (label === null) return
+    if (!label.trim()) {
+      alert('Please enter a label')
+      return
+    }
+
+    try {
+      const response = await fetch('/api/held-carts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          label,
+          voucherCode: voucherCode || undefined,
+          customerEmail: customerEmail.trim() || undefined,
+          customerId: customer?.id,
+          note: orderNote.trim() || undefined,
+          items: cart.map(item => ({
+            productId: item.product.id,
+            quantity: Number(item.quantity),
+            modifierOptionIds: item.modifiers.map(modifier => modifier.id),
+            note: item.note || undefined,
+            labelBarcode: item.labelBarcode
+          }))
+        }),
+      })
+
+      if (response.ok) {
+        resetCheckout()
+        fetchHeldCarts()
+      } else {
+        const error = await response.json()
+        alert(`Error holding cart: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error holding cart:', error)
+      alert('Error holding cart')
+    }
+  }
+
+  const resumeHeldCart = async (heldCart: HeldCart) => {
+    if (cart.length > 0 && !confirm('Replace the current cart? Hold it first if you want to keep it.')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/held-carts/${heldCart.id}/resume`, {
+        method: 'POST',
+      })
+
+      if (response.ok) {
+        const resumed: HeldCart = await response.json()
+        setCart(resumed.items.map(item => {
+          // Held items don't carry their options, so they are read from the catalog
+          const product = products.find(p => p.id === item.product.id) ?? item.product
+          const modifiers = resolveCartModifiers(product, item.modifierOptionIds)
+          const note = item.note ?? ''
+          const unitPrice = Number(item.product.price) + modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0)
+
+          const quantity = Number(item.quantity)
+          const label = item.labelBarcode ? parseScaleBarcode(item.labelBarcode, barcodeRules) : null
+          const labelBarcode = item.labelBarcode ?? undefined
+
+          return {
+            key: cartLineKey(product.id, modifiers, note, labelBarcode),
+            product,
+            modifiers,
+            note,
+            quantity,
+            unitPrice,
+            totalPrice: (label && getLabelPrice(label)) ?? quantity * unitPrice,
+            labelBarcode
+          }
+        }))
+        setVoucherInput(resumed.voucherCode || '')
+        setVoucherCode(resumed.voucherCode || '')
+        setCustomerEmail(resumed.customerEmail || '')
+        setCustomer(resumed.customer)
+        setOrderNote(resumed.note || '')
+        setShowHeldCarts(false)
+        setShowCart(true)
+
+        if (resumed.warnings.length > 0) {
+          alert(`Stock has changed since this cart was held:\n\n${resumed.warnings.join('\n')}`)
+        }
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error resuming held cart:', error)
+      alert('Error resuming held cart')
+    } finally {
+      fetchHeldCarts()
+    }
+  }
+
+  const discardHeldCart = async (heldCart: HeldCart) => {
+    if (!confirm(`Discard held cart "${heldCart.label}"?`)) return
+
+    try {
+      const response = await fetch(`/api/held-carts/${heldCart.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error discarding held cart:', error)
+      alert('Error discarding held cart')
+    } finally {
+      fetchHeldCarts()
+    }
+  }
+
+  const chooseOrderType = (type: OrderType) => {
+    setOrderType(type)
+    if (type !== 'DINE_IN') {
+      setSelectedTable(null)
+    }
+  }
+
+  const openTablePicker = () => {
+    fetchTables()
+    setShowTablePicker(true)
+  }
+
+  const chooseTable = (table: DiningTable) => {
+    setSelectedTable({ id: table.id, name: table.name })
+    setOrderType('DINE_IN')
+    setShowTablePicker(false)
+  }
+
+  // The open tab on the chosen table, as of the last time the floor was loaded
+  const selectedTableTab = selectedTable
+    ? tables.find(table => table.id === selectedTable.id)?.tabs[0]
+    : undefined
+
+  // Send the cart to the kitchen as a round on a tab: the given one, the
+  // chosen table's, or a new tab
+  const sendToTab = async (tab?: OpenTab) => {
+    if (cart.length === 0) {
+      alert('Cart is empty')
+      return
+    }
+
+    const tabId = tab?.id ?? selectedTableTab?.id
+    let label: string | null = null
+    if (!tabId && !selectedTable) {
+      label = prompt('Name for this tab (e.g. customer name):')
+      if (label === null) return
+      if (!label.trim()) {
+        alert('Please enter a name')
+        return
+      }
+    }
+
+    const items = cart.map(item => ({
+      productId: item.product.id,
+      quantity: Number(item.quantity),
+      modifierOptionIds: item.modifiers.map(modifier => modifier.id),
+      note: item.note || undefined
+    }))
+
+    try {
+      const response = tabId
+        ? await fetch(`/api/tabs/${tabId}/rounds`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ items }),
+          })
+        : await fetch('/api/tabs', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              label,
+              orderType,
+              tableId: selectedTable?.id,
+              customerId: customer?.id,
+              items
+            }),
+          })
+
+      if (response.ok) {
+        const saved: OpenTab = await response.json()
+        resetCheckout()
+        setShowTabs(false)
+        fetchOpenTabs()
+        alert(`Sent to the kitchen on ${saved.label}`)
+      } else {
+        const error = await response.json()
+        alert(`Error sending to tab: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error sending to tab:', error)
+      alert('Error sending to tab')
+    }
+  }
+
+  // Bring every round of a tab into the cart so it can be paid in one go
+  const loadTab = (tab: OpenTab) => {
+    if (cart.length > 0 && !confirm('Replace the current cart? Hold it first if you want to keep it.')) {
+      return
+    }
+
+    const lines = new Map<string, CartItem>()
+    for (const item of tab.items) {
+      const product = products.find(p => p.id === item.product.id) ?? item.product
+      const modifiers = resolveCartModifiers(product, item.modifierOptionIds)
+      const note = item.note ?? ''
+      const key = cartLineKey(product.id, modifiers, note)
+      const unitPrice = Number(item.product.price) + modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0)
+      const quantity = (lines.get(key)?.quantity ?? 0) + item.quantity
+
+      lines.set(key, { key, product, modifiers, note, quantity, unitPrice, totalPrice: quantity * unitPrice })
+    }
+
+    resetCheckout()
+    setCart([...lines.values()])
+    setOrderType(tab.orderType)
+    setSelectedTable(tab.table)
+    setCustomer(tab.customer)
+    setCustomerEmail(tab.customer?.email || '')
+    setActiveTab(tab)
+    setShowTabs(false)
+    setShowCart(true)
+  }
+
+  const voidTab = async (tab: OpenTab) => {
+    if (!confirm(`Void tab "${tab.label}"? Its orders are removed from the kitchen.`)) return
+
+    try {
+      const response = await fetch(`/api/tabs/${tab.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        alert(error.error)
+      } else if (activeTab?.id === tab.id) {
+        resetCheckout()
+      }
+    } catch (error) {
+      console.error('Error voiding tab:', error)
+      alert('Error voiding tab')
+    } finally {
+      fetchOpenTabs()
+    }
+  }
+
+  const selectCustomer = (selected: Customer) => {
+    setCustomer(selected)
+    setRedeemPoints(0)
+    setCustomerSearch('')
+    setCustomerResults([])
+    if (selected.email) {
+      setCustomerEmail(selected.email)
+    }
+  }
+
+  const quickCreateCustomer = async () => {
+    const name = prompt('Customer name:', /\d/.test(customerSearch) || customerSearch.includes('@') ? '' : customerSearch.trim())
+    if (name === null) return
+    if (!name.trim()) {
+      alert('Please enter a name')
+      return
+    }
+    const phone = prompt('Phone number (optional):', /^[\d+\s-]+$/.test(customerSearch.trim()) ? customerSearch.trim() : '')
+    if (phone === null) return
+    const email = prompt('Email (optional):', customerSearch.includes('@') ? customerSearch.trim() : customerEmail.trim())
+    if (email === null) return
 
-      if (existingItem) {
-        if (existingItem.quantity >= product.stock) {
-          alert('Not enough stock available')
-          return prevCart
-        }
+    try {
+      const response = await fetch('/api/customers', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, phone, email }),
+      })
 
-        return prevCart.map(item =>
-          item.product.id === product.id
-            ? {
-                ...item,
-                quantity: item.quantity + 1,
-                totalPrice: (item.quantity + 1) * item.unitPrice
-              }
-            : item
-        )
+      if (response.ok) {
+        selectCustomer(await response.json())
       } else {
-        return [...prevCart, {
-          product,
-          quantity: 1,
-          unitPrice: Number(product.price),
-          totalPrice: Number(product.price)
-        }]
+        const error = await response.json()
+        alert(`Error creating customer: ${error.error}`)
       }
-    })
-  }
-
-  const updateQuantity = (productId: string, newQuantity: number) => {
-    if (newQuantity <= 0) {
-      removeFromCart(productId)
-      return
+    } catch (error) {
+      console.error('Error creating customer:', error)
+      alert('Error creating customer')
     }
+  }
 
-    const product = products.find(p => p.id === productId)
-    if (!product || newQuantity > product.stock) {
-      alert('Not enough stock available')
+  const applyVoucher = () => {
+    if (!voucherInput.trim()) {
+      alert('Please enter a voucher code')
       return
     }
+    setVoucherCode(voucherInput.trim().toUpperCase())
+  }
 
-    setCart(prevCart =>
-      prevCart.map(item =>
-        item.product.id === productId
-          ? {
-              ...item,
-              quantity: newQuantity,
-              totalPrice: newQuantity * item.unitPrice
-            }
-          : item
-      )
-    )
+  const removeVoucher = () => {
+    setVoucherInput('')
+    setVoucherCode('')
   }
 
-  const removeFromCart = (productId: string) => {
-    setCart(prevCart => prevCart.filter(item => item.product.id !== productId))
+  const removeCustomer = () => {
+    setCustomer(null)
+    setRedeemPoints(0)
   }
 
-  const clearCart = () => {
-    if (confirm('Are you sure you want to clear the cart?')) {
-      setCart([])
+  // The server caps the redemption at the customer's balance and the bill
+  const applyPoints = () => {
+    if (!customer) return
+
+    const input = prompt(`Points to redeem (balance ${customer.loyaltyPoints}):`, String(customer.loyaltyPoints))
+    if (input === null) return
+
+    const points = Number(input)
+    if (!Number.isInteger(points) || points <= 0) {
+      alert('Please enter a whole number of points')
+      return
     }
+    setRedeemPoints(points)
   }
 
   const calculateTotal = () => {
     return cart.reduce((total, item) => total + item.totalPrice, 0)
   }
 
-  const processSale = async (selectedPaymentMethod?: string) => {
+  const processSale = async (selectedPaymentMethod?: string, cashTendered?: number) => {
     if (cart.length === 0) {
       alert('Cart is empty')
       return
@@ -282,42 +1212,94 @@ function POSPageContent() {
       return
     }
 
+    if (!quote) {
+      alert('Cart total is still being calculated. Please try again.')
+      return
+    }
+
+    if (activeTab && !isOnline) {
+      alert('Tabs can only be paid online.')
+      return
+    }
+
     const method = selectedPaymentMethod || 'CASH'
 
     if (method === 'CASH') {
+      if (!isOnline && voucherCode) {
+        alert('Vouchers can only be redeemed online. Remove the voucher to complete this sale offline.')
+        return
+      }
+
+      if (!isOnline && redeemPoints) {
+        alert('Points can only be redeemed online. Remove them to complete this sale offline.')
+        return
+      }
+
+      // Generated before the first attempt so a sale that is queued after a
+      // dropped request can never be recorded twice
+      const clientId = getCheckoutKey()
+      const transactionData: QueuedSale['request'] = {
+        totalAmount: quote.totalAmount,
+        taxAmount: quote.taxAmount,
+        discountAmount: quote.discountAmount,
+        finalAmount: quote.finalAmount,
+        paymentMethod: 'CASH',
+        cashTendered,
+        cashierId: session.user.id,
+        voucherCode: voucherCode || undefined,
+        customerEmail: customerEmail.trim() || undefined,
+        customerId: customer?.id,
+        loyaltyPoints: redeemPoints || undefined,
+        orderType,
+        tableId: selectedTable?.id,
+        tabId: activeTab?.id,
+        note: orderNote.trim() || undefined,
+        items: cart.map(item => ({
+          productId: item.product.id,
+          name: item.product.name,
+          quantity: Number(item.quantity),
+          unitPrice: Number(item.unitPrice),
+          totalPrice: Number(item.totalPrice),
+          modifierOptionIds: item.modifiers.map(modifier => modifier.id),
+          note: item.note || undefined,
+          labelBarcode: item.labelBarcode
+        }))
+      }
+
+      if (!isOnline) {
+        await queueSale(clientId, transactionData, quote.cashAmount)
+        return
+      }
+
       // Process cash payment immediately
       try {
-        const transactionData = {
-          totalAmount: calculateTotal(),
-          taxAmount: 0,
-          discountAmount: 0,
-          finalAmount: calculateTotal(),
-          paymentMethod: method,
-          paymentStatus: 'PAID',
-          cashierId: session.user.id,
-          items: cart.map(item => ({
-            productId: item.product.id,
-            quantity: Number(item.quantity),
-            unitPrice: Number(item.unitPrice),
-            totalPrice: Number(item.totalPrice)
-          }))
+        let response: Response
+        try {
+          response = await fetch('/api/transactions', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Idempotency-Key': clientId,
+            },
+            body: JSON.stringify({ ...transactionData, clientId }),
+          })
+        } catch (error) {
+          // The connection dropped mid-sale; the cash is already in the drawer
+          console.error('Error processing sale, queueing it offline:', error)
+          await queueSale(clientId, transactionData, quote.cashAmount)
+          return
         }
 
-        const response = await fetch('/api/transactions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(transactionData),
-        })
-
         if (response.ok) {
           const transaction = await response.json()
-          setCart([])
+          setShowCashTender(false)
+          resetCheckout()
           setCompletedTransaction(transaction)
           setShowReceiptPreview(true)
           fetchProducts() // Refresh products to update stock
+          fetchOpenTabs()
         } else {
+          checkoutKey.current = null
           const error = await response.json()
           const errorMessage = error.error || 'Unknown error occurred'
           alert(`Error processing sale: ${errorMessage}`)
@@ -334,6 +1316,69 @@ function POSPageContent() {
     }
   }
 
+  // Keep a cash sale on this device until it can be sent to the server
+  const queueSale = async (clientId: string, request: QueuedSale['request'], amountDue: number) => {
+    try {
+      await saveQueuedSale({
+        clientId,
+        soldAt: new Date().toISOString(),
+        status: 'pending',
+        request
+      })
+    } catch (error) {
+      console.error('Error queueing sale:', error)
+      alert('Error saving the sale offline. The sale was not recorded.')
+      return
+    }
+
+    // Keep the shown stock close to reality until the catalog can be reloaded
+    setProducts(prevProducts =>
+      prevProducts.map(product => {
+        const sold = request.items
+          .filter(i => i.productId === product.id)
+          .reduce((sum, i) => sum + i.quantity, 0)
+        return sold > 0 ? { ...product, stock: roundQuantity(product.stock - sold) } : product
+      })
+    )
+    setShowCashTender(false)
+    resetCheckout()
+    refreshQueue()
+
+    const change = request.cashTendered !== undefined
+      ? `\nChange: ${new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(request.cashTendered - amountDue)}`
+      : ''
+    alert(`Sale saved offline and will be recorded when the connection returns.${change}`)
+  }
+
+  const retryQueuedSale = async (sale: QueuedSale) => {
+    await saveQueuedSale({ ...sale, status: 'pending', error: undefined })
+    syncQueue()
+  }
+
+  const repriceAndRetryQueuedSale = async (sale: QueuedSale) => {
+    if (!confirm('Record this sale at the current prices? Any difference must be settled with the customer.')) return
+
+    try {
+      await saveQueuedSale(await repriceQueuedSale(sale))
+      syncQueue()
+    } catch (error) {
+      console.error('Error re-pricing offline sale:', error)
+      alert(error instanceof Error ? error.message : 'Error re-pricing offline sale')
+    }
+  }
+
+  const discardQueuedSale = async (sale: QueuedSale) => {
+    if (!confirm('Discard this offline sale? It will not be recorded.')) return
+
+    try {
+      await deleteQueuedSale(sale.clientId)
+    } catch (error) {
+      console.error('Error discarding offline sale:', error)
+    } finally {
+      refreshQueue()
+    }
+  }
+
   const scanBarcode = async (barcode?: string) => {
     const barcodeToScan = barcode || barcodeInput
 
@@ -342,19 +1387,46 @@ function POSPageContent() {
       return
     }
 
+    if (!isOnline) {
+      const product = products.find(p => p.barcode === barcodeToScan.trim())
+      if (product) {
+        addToCart(product)
+        setBarcodeInput('')
+        return
+      }
+
+      // Scale labels are read from the cached rules
+      const label = parseScaleBarcode(barcodeToScan, barcodeRules)
+      const weighed = label && products.find(p => p.soldByWeight && p.plu === label.plu)
+      if (label && weighed) {
+        const price = getLabelPrice(label)
+        addToCart(weighed, getLabelWeight(label, Number(weighed.price)), price !== null ? { barcode: barcodeToScan.trim(), price } : undefined)
+        setBarcodeInput('')
+      } else {
+        alert('Product not found')
+      }
+      return
+    }
+
     try {
       const response = await fetch(`/api/products/barcode?barcode=${encodeURIComponent(barcodeToScan)}`)
 
+      const data = await response.json()
       if (response.ok) {
-        const data = await response.json()
         if (data.product) {
-          addToCart(data.product)
+          // The catalog copy carries the resolved tax and modifier groups; a
+          // scale label also carries the weight, and a price label its price
+          addToCart(
+            products.find(p => p.id === data.product.id) ?? data.product,
+            data.quantity,
+            data.labelPrice != null ? { barcode: barcodeToScan.trim(), price: data.labelPrice } : undefined
+          )
           setBarcodeInput('')
         } else {
           alert(data.message || 'Product not found')
         }
       } else {
-        alert('Error scanning barcode')
+        alert(data.error || 'Error scanning barcode')
       }
     } catch (error) {
       console.error('Error scanning barcode:', error)
@@ -392,7 +1464,30 @@ function POSPageContent() {
   //   }
   // }
 
-  const processDigitalPayment = async (selectedMethod: string) => {
+  // Part of the total in cash, the rest through Xendit
+  const processSplitPayment = () => {
+    if (!quote) {
+      alert('Cart total is still being calculated. Please try again.')
+      return
+    }
+
+    const input = prompt(`Cash amount received (total ${new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(quote.finalAmount)}). The rest is paid with Xendit:`)
+    if (input === null) return
+
+    const cashAmount = Number(input.replace(/[^\d.]/g, ''))
+    if (!(cashAmount > 0)) {
+      alert('Please enter a valid cash amount')
+      return
+    }
+    if (cashAmount >= quote.finalAmount) {
+      alert('Cash covers the whole total. Use Cash Payment instead.')
+      return
+    }
+
+    processDigitalPayment('XENDIT_QRIS', cashAmount)
+  }
+
+  const processDigitalPayment = async (selectedMethod: string, cashAmount = 0) => {
     if (cart.length === 0) {
       alert('Cart is empty')
       return
@@ -403,29 +1498,51 @@ function POSPageContent() {
       return
     }
 
+    if (!quote) {
+      alert('Cart total is still being calculated. Please try again.')
+      return
+    }
+
     setPaymentLoading(true)
+    const idempotencyKey = getCheckoutKey()
 
     try {
-      // Use default customer info
-      const defaultCustomerName = session.user.name || 'Customer'
-      const defaultCustomerEmail = session.user.email || 'customer@example.com'
+      // The server bills the linked customer; a typed email covers walk-ins
+      const defaultCustomerName = customer?.name || 'Customer'
+      const defaultCustomerEmail = customerEmail.trim() || customer?.email || undefined
 
       // Step 1: Create transaction
       const transactionData = {
-        totalAmount: calculateTotal(),
-        taxAmount: 0,
-        discountAmount: 0,
-        finalAmount: calculateTotal(),
+        totalAmount: quote.totalAmount,
+        taxAmount: quote.taxAmount,
+        discountAmount: quote.discountAmount,
+        finalAmount: quote.finalAmount,
         paymentMethod: selectedMethod,
         paymentStatus: 'PENDING',
+        payments: cashAmount > 0
+          ? [
+              { method: 'CASH', amount: cashAmount },
+              { method: selectedMethod, amount: Math.round((quote.finalAmount - cashAmount) * 100) / 100 }
+            ]
+          : [{ method: selectedMethod, amount: quote.finalAmount }],
         cashierId: session.user.id,
         customerName: defaultCustomerName,
         customerEmail: defaultCustomerEmail,
+        customerId: customer?.id,
+        voucherCode: voucherCode || undefined,
+        loyaltyPoints: redeemPoints || undefined,
+        orderType,
+        tableId: selectedTable?.id,
+        tabId: activeTab?.id,
+        note: orderNote.trim() || undefined,
         items: cart.map(item => ({
           productId: item.product.id,
           quantity: Number(item.quantity),
           unitPrice: Number(item.unitPrice),
-          totalPrice: Number(item.totalPrice)
+          totalPrice: Number(item.totalPrice),
+          modifierOptionIds: item.modifiers.map(modifier => modifier.id),
+          note: item.note || undefined,
+          labelBarcode: item.labelBarcode
         }))
       }
 
@@ -433,36 +1550,43 @@ function POSPageContent() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey,
         },
         body: JSON.stringify(transactionData),
       })
 
       if (!transactionResponse.ok) {
+        checkoutKey.current = null
         const error = await transactionResponse.json()
         alert(`Error creating transaction: ${error.error}`)
         return
       }
 
-      const transaction = await transactionResponse.json()
+      const transaction = await transactionResponse.json() as CompletedTransaction
+      const digitalPayment = transaction.payments.find(payment => payment.method === selectedMethod)
 
-      // Step 2: Create Xendit payment
+      // Step 2: Create Xendit payment for the digital tender
       const paymentData = {
-        amount: calculateTotal(),
+        amount: Number(digitalPayment?.amount ?? transaction.finalAmount),
         paymentMethod: selectedMethod,
         customerName: defaultCustomerName,
         customerEmail: defaultCustomerEmail,
-        transactionId: transaction.id
+        transactionId: transaction.id,
+        paymentId: digitalPayment?.id
       }
 
       const paymentResponse = await fetch('/api/payments', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': `${idempotencyKey}-payment-${paymentAttempts.current}`,
         },
         body: JSON.stringify(paymentData),
       })
 
       if (!paymentResponse.ok) {
+        // The sale exists now; keep its key so a retry does not create another
+        paymentAttempts.current += 1
         const error = await paymentResponse.json()
         alert(`Error creating payment: ${error.error}`)
         return
@@ -495,7 +1619,7 @@ function POSPageContent() {
       }
 
       // Step 4: Redirect to Xendit payment page
-      setCart([])
+      resetCheckout()
       
       // Redirect to Xendit payment page if available (check both camelCase and snake_case)
       const redirectUrl = paymentResult.payment?.invoiceUrl || 
@@ -576,12 +1700,67 @@ function POSPageContent() {
                 Scan
               </button>
             </div>
+            <button
+              onClick={() => {
+                fetchHeldCarts()
+                setShowHeldCarts(true)
+              }}
+              className="bg-amber-500 hover:bg-amber-600 text-white px-3 py-2 rounded-md text-sm font-medium whitespace-nowrap"
+            >
+              Held ({heldCarts.length})
+            </button>
+            <button
+              onClick={() => {
+                fetchOpenTabs()
+                setShowTabs(true)
+              }}
+              disabled={!isOnline}
+              className="bg-teal-600 hover:bg-teal-700 text-white px-3 py-2 rounded-md text-sm font-medium whitespace-nowrap disabled:opacity-50"
+            >
+              Tabs ({openTabs.length})
+            </button>
+            {queuedSales.length > 0 && (
+              <button
+                onClick={() => {
+                  refreshQueue()
+                  setShowQueue(true)
+                }}
+                className={`${
+                  queuedSales.some(sale => sale.status === 'conflict')
+                    ? 'bg-red-600 hover:bg-red-700'
+                    : 'bg-gray-600 hover:bg-gray-700'
+                } text-white px-3 py-2 rounded-md text-sm font-medium whitespace-nowrap`}
+              >
+                Queue ({queuedSales.length})
+              </button>
+            )}
+            <span
+              className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${
+                isOnline ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+              }`}
+            >
+              <span className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-500' : 'bg-red-500'}`}></span>
+              {isOnline ? 'Online' : 'Offline'}
+            </span>
             <div className="text-sm text-gray-600">
               {filteredProducts.length} products
             </div>
           </div>
         </div>
 
+        {catalogOutlet === null && (
+          <div className="bg-red-50 border-b border-red-200 text-red-800 px-4 py-2 text-sm">
+            You are looking at all outlets, so stock shown is the total. Pick an outlet in the header to sell.
+          </div>
+        )}
+
+        {hasOpenShift === false && (
+          <div className="bg-yellow-50 border-b border-yellow-200 text-yellow-800 px-4 py-2 text-sm">
+            No open shift: sales are not counted against a cash drawer.{' '}
+            <Link href="/dashboard/shifts" className="font-medium underline">Open a shift</Link>
+          </div>
+        )}
+
         {/* Products Grid */}
         <div className="flex-1 p-4 overflow-y-auto">
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
@@ -609,15 +1788,23 @@ function POSPageContent() {
                 <h3 className="font-medium text-sm mb-1 truncate">{product.name}</h3>
                 <p className="text-xs text-gray-500 mb-2">{product.category.name}</p>
                 <div className="flex justify-between items-center">
-                  <span className="font-bold text-indigo-600">{new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(Number(product.price))}</span>
+                  <span className="font-bold text-indigo-600">
+                    {new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(Number(product.price))}
+                    {product.soldByWeight && <span className="text-xs font-normal">/kg</span>}
+                  </span>
                   <span className={`text-xs px-2 py-1 rounded-full ${
                     product.stock <= (product.minStock || 5)
                       ? 'bg-red-100 text-red-800'
                       : 'bg-green-100 text-green-800'
                   }`}>
-                    {product.stock} left
+                    {formatQuantity(product.stock, product.soldByWeight)} left
                   </span>
                 </div>
+                {!!product.reservedStock && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    {formatQuantity(product.reservedStock, product.soldByWeight)} held for pending payments
+                  </div>
+                )}
                 {product.stock <= 0 && (
                   <div className="text-xs text-red-600 font-medium mt-1">Out of Stock</div>
                 )}
@@ -657,29 +1844,59 @@ function POSPageContent() {
             <p className="text-gray-500 text-center py-8">Cart is empty</p>
           ) : (
             <div className="space-y-3">
-              {cart.map((item) => (
-                <div key={item.product.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
+              {cart.map((item, index) => (
+                <div key={item.key} className="flex items-center justify-between p-3 bg-gray-50 rounded-md">
                   <div className="flex-1">
                     <h4 className="font-medium text-sm">{item.product.name}</h4>
-                    <p className="text-xs text-gray-500">{new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(item.unitPrice)} each</p>
+                    {item.modifiers.map((modifier) => (
+                      <p key={modifier.id} className="text-xs text-gray-600 pl-2">
+                        + {modifier.name}
+                        {modifier.priceDelta !== 0 && ` (${modifier.priceDelta > 0 ? '+' : '-'}${new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(Math.abs(modifier.priceDelta))})`}
+                      </p>
+                    ))}
+                    {item.note && (
+                      <p className="text-xs text-orange-700 pl-2">* {item.note}</p>
+                    )}
+                    <p className="text-xs text-gray-500">{new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(item.unitPrice)} {item.product.soldByWeight ? 'per kg' : 'each'}</p>
+                    {/* Quote lines come back in cart order */}
+                    {quote?.items[index]?.productId === item.product.id && quote.items[index].promotions.map((promotion) => (
+                      <p key={promotion.promotionId} className="text-xs text-red-600">
+                        {promotion.promotionName}: -{new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(promotion.discountAmount)}
+                      </p>
+                    ))}
                   </div>
                   <div className="flex items-center gap-2">
+                    {/* A weight comes off the scale, so it is not stepped up or down */}
+                    {item.product.soldByWeight ? (
+                      <span className="text-sm text-center whitespace-nowrap">{formatQuantity(item.quantity, true)}</span>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => updateQuantity(item.key, item.quantity - 1)}
+                          className="w-8 h-8 rounded-full bg-gray-200 hover:bg-gray-300 flex items-center justify-center"
+                        >
+                          -
+                        </button>
+                        <span className="w-8 text-center">{item.quantity}</span>
+                        <button
+                          onClick={() => updateQuantity(item.key, item.quantity + 1)}
+                          className="w-8 h-8 rounded-full bg-gray-200 hover:bg-gray-300 flex items-center justify-center"
+                        >
+                          +
+                        </button>
+                      </>
+                    )}
                     <button
-                      onClick={() => updateQuantity(item.product.id, item.quantity - 1)}
-                      className="w-8 h-8 rounded-full bg-gray-200 hover:bg-gray-300 flex items-center justify-center"
+                      onClick={() => editNote(item.key)}
+                      disabled={!!activeTab}
+                      title={item.note ? 'Edit note' : 'Add note'}
+                      className="ml-2 text-gray-500 hover:text-gray-700 disabled:opacity-50"
                     >
-                      -
+                      📝
                     </button>
-                    <span className="w-8 text-center">{item.quantity}</span>
                     <button
-                      onClick={() => updateQuantity(item.product.id, item.quantity + 1)}
-                      className="w-8 h-8 rounded-full bg-gray-200 hover:bg-gray-300 flex items-center justify-center"
-                    >
-                      +
-                    </button>
-                    <button
-                      onClick={() => removeFromCart(item.product.id)}
-                      className="ml-2 text-red-500 hover:text-red-700"
+                      onClick={() => removeFromCart(item.key)}
+                      className="text-red-500 hover:text-red-700"
                     >
                       ✕
                     </button>
@@ -695,33 +1912,261 @@ function POSPageContent() {
 
         {cart.length > 0 && (
           <div className="p-4 border-t">
+            <div className="space-y-2 mb-3">
+              {!isOnline && (
+                <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-md px-3 py-2 text-xs">
+                  Offline: cash sales only, at cached prices. Promotions and vouchers are checked when the sale syncs.
+                </div>
+              )}
+              {activeTab && (
+                <div className="flex justify-between items-center bg-teal-50 border border-teal-200 rounded-md px-3 py-2 text-sm">
+                  <span className="text-teal-800 truncate">🧾 Paying tab {activeTab.label}</span>
+                  <button
+                    onClick={resetCheckout}
+                    className="text-red-500 hover:text-red-700 ml-2"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+              <div className="grid grid-cols-3 gap-1">
+                {ORDER_TYPES.map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => chooseOrderType(type)}
+                    disabled={!!activeTab}
+                    className={`px-2 py-1.5 rounded-md border text-sm font-medium disabled:opacity-50 ${
+                      orderType === type
+                        ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {ORDER_TYPE_LABELS[type]}
+                  </button>
+                ))}
+              </div>
+              {orderType === 'DINE_IN' && (
+                <button
+                  onClick={openTablePicker}
+                  disabled={!isOnline || !!activeTab}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm text-left text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {selectedTable ? `🍽️ Table ${selectedTable.name}` : '🍽️ Choose table'}
+                </button>
+              )}
+              <textarea
+                value={orderNote}
+                onChange={(e) => setOrderNote(e.target.value)}
+                placeholder="Order note (e.g. allergies, delivery instructions)"
+                maxLength={500}
+                rows={2}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              {voucherCode ? (
+                <div className="flex justify-between items-center bg-green-50 border border-green-200 rounded-md px-3 py-2 text-sm">
+                  <span className="font-mono text-green-800">🎟️ {voucherCode}</span>
+                  <button
+                    onClick={removeVoucher}
+                    className="text-red-500 hover:text-red-700"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={voucherInput}
+                    onChange={(e) => setVoucherInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && applyVoucher()}
+                    placeholder="Voucher code"
+                    className="flex-1 min-w-0 border border-gray-300 rounded-md px-3 py-2 text-sm font-mono uppercase focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <button
+                    onClick={applyVoucher}
+                    disabled={!isOnline}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+                  >
+                    Apply
+                  </button>
+                </div>
+              )}
+              {customer ? (
+                <div className="flex justify-between items-center bg-indigo-50 border border-indigo-200 rounded-md px-3 py-2 text-sm">
+                  <span className="text-indigo-800 truncate">
+                    👤 {customer.name}{customer.phone ? ` · ${customer.phone}` : ''}
+                  </span>
+                  <button
+                    onClick={removeCustomer}
+                    className="text-red-500 hover:text-red-700 ml-2"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ) : (
+                <div className="relative">
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={customerSearch}
+                      onChange={(e) => setCustomerSearch(e.target.value)}
+                      placeholder="Find customer (name, phone, email)"
+                      disabled={!isOnline}
+                      className="flex-1 min-w-0 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-gray-100"
+                    />
+                    <button
+                      onClick={quickCreateCustomer}
+                      disabled={!isOnline}
+                      className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+                    >
+                      + New
+                    </button>
+                  </div>
+                  {customerResults.length > 0 && (
+                    <div className="absolute left-0 right-0 mt-1 bg-white border border-gray-200 rounded-md shadow-lg z-10 max-h-48 overflow-y-auto">
+                      {customerResults.map((result) => (
+                        <button
+                          key={result.id}
+                          onClick={() => selectCustomer(result)}
+                          className="block w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+                        >
+                          <span className="font-medium text-gray-900">{result.name}</span>
+                          <span className="text-xs text-gray-500 ml-2">{result.phone || result.email}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              {customer && customer.loyaltyPoints > 0 && (
+                redeemPoints > 0 ? (
+                  <div className="flex justify-between items-center bg-amber-50 border border-amber-200 rounded-md px-3 py-2 text-sm">
+                    <span className="text-amber-800">⭐ Redeeming {redeemPoints} of {customer.loyaltyPoints} points</span>
+                    <button
+                      onClick={() => setRedeemPoints(0)}
+                      className="text-red-500 hover:text-red-700 ml-2"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex justify-between items-center text-sm px-1">
+                    <span className="text-gray-600">⭐ {customer.loyaltyPoints} points</span>
+                    <button
+                      onClick={applyPoints}
+                      disabled={!isOnline}
+                      className="text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50"
+                    >
+                      Redeem points
+                    </button>
+                  </div>
+                )
+              )}
+              <input
+                type="email"
+                value={customerEmail}
+                onChange={(e) => setCustomerEmail(e.target.value)}
+                placeholder="Customer email (optional)"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <div className="space-y-1 mb-2 text-sm text-gray-600">
+              <div className="flex justify-between">
+                <span>Subtotal:</span>
+                <span>{new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(quote?.totalAmount ?? calculateTotal())}</span>
+              </div>
+              {quote && quote.discountAmount > 0 && (
+                <div className="flex justify-between text-red-600">
+                  <span>Discount:</span>
+                  <span>-{new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(quote.discountAmount)}</span>
+                </div>
+              )}
+              {quote?.voucher && (
+                <div className="flex justify-between text-xs text-green-600 pl-2">
+                  <span>Voucher {quote.voucher.code}</span>
+                  <span>-{new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(quote.voucher.discountAmount)}</span>
+                </div>
+              )}
+              {quote?.loyalty && (
+                <div className="flex justify-between text-xs text-green-600 pl-2">
+                  <span>{quote.loyalty.points} points</span>
+                  <span>-{new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(quote.loyalty.discountAmount)}</span>
+                </div>
+              )}
+              {quote && quote.taxAmount > 0 && (
+                <div className="flex justify-between">
+                  <span>Tax{quote.taxInclusive ? ' (included)' : ''}:</span>
+                  <span>{new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(quote.taxAmount)}</span>
+                </div>
+              )}
+            </div>
             <div className="flex justify-between items-center mb-4">
               <span className="text-lg font-semibold">Total:</span>
               <span className="text-xl font-bold text-indigo-600">
-                {new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(calculateTotal())}
+                {quoteLoading || !quote
+                  ? 'Calculating...'
+                  : new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(quote.finalAmount)}
               </span>
             </div>
+            {quote && !quoteLoading && !!quote.pointsToEarn && (
+              <div className="flex justify-between text-sm text-amber-700 -mt-3 mb-4">
+                <span>Points to earn:</span>
+                <span>+{quote.pointsToEarn}</span>
+              </div>
+            )}
+            {quote && !quoteLoading && quote.cashRoundingAmount !== 0 && (
+              <div className="flex justify-between text-sm text-gray-500 -mt-3 mb-4">
+                <span>Cash (rounded):</span>
+                <span>{new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(quote.cashAmount)}</span>
+              </div>
+            )}
 
             <div className="space-y-2">
               <button
-                onClick={() => processSale('CASH')}
-                className="w-full bg-green-600 hover:bg-green-700 text-white py-3 rounded-md font-medium"
+                onClick={() => setShowCashTender(true)}
+                disabled={quoteLoading || !quote}
+                className="w-full bg-green-600 hover:bg-green-700 text-white py-3 rounded-md font-medium disabled:opacity-50"
               >
-                Cash Payment - Complete Sale
+                Cash Payment
               </button>
               <button
                 onClick={() => processDigitalPayment('XENDIT_QRIS')}
-                disabled={paymentLoading}
+                disabled={!isOnline || paymentLoading || quoteLoading || !quote}
                 className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-md font-medium disabled:opacity-50"
               >
                 {paymentLoading ? 'Processing...' : 'Pay with Xendit'}
               </button>
               <button
-                onClick={clearCart}
-                className="w-full bg-red-600 hover:bg-red-700 text-white py-3 rounded-md font-medium"
+                onClick={processSplitPayment}
+                disabled={!isOnline || paymentLoading || quoteLoading || !quote}
+                className="w-full bg-purple-600 hover:bg-purple-700 text-white py-3 rounded-md font-medium disabled:opacity-50"
               >
-                Clear Cart
+                Split: Cash + Xendit
               </button>
+              {!activeTab && (
+                <button
+                  onClick={() => sendToTab()}
+                  disabled={!isOnline}
+                  className="w-full bg-teal-600 hover:bg-teal-700 text-white py-3 rounded-md font-medium disabled:opacity-50"
+                >
+                  {selectedTableTab ? `Add Round to Table ${selectedTable?.name}` : 'Send to Tab'}
+                </button>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={holdCart}
+                  disabled={!isOnline}
+                  className="w-full bg-amber-500 hover:bg-amber-600 text-white py-3 rounded-md font-medium disabled:opacity-50"
+                >
+                  Hold Cart
+                </button>
+                <button
+                  onClick={clearCart}
+                  className="w-full bg-red-600 hover:bg-red-700 text-white py-3 rounded-md font-medium"
+                >
+                  Clear Cart
+                </button>
+              </div>
             </div>
           </div>
         )}
@@ -737,6 +2182,352 @@ function POSPageContent() {
         🛒 ({cart.length})
       </button>
 
+      {/* Modifier Picker Modal */}
+      {modifierProduct && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-full max-w-md shadow-lg rounded-md bg-white mb-10">
+            <h3 className="text-lg font-medium text-gray-900">{modifierProduct.name}</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              {new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(
+                Number(modifierProduct.price) + resolveCartModifiers(modifierProduct, modifierSelection).reduce((sum, modifier) => sum + modifier.priceDelta, 0)
+              )}
+            </p>
+
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+              {(modifierProduct.modifierGroups ?? []).map((group) => (
+                <div key={group.id}>
+                  <div className="flex justify-between items-baseline mb-1">
+                    <p className="text-sm font-medium text-gray-900">{group.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {group.minSelect > 0 ? 'Required' : 'Optional'}
+                      {group.maxSelect === null
+                        ? ''
+                        : group.maxSelect === 1 ? ' · choose 1' : ` · up to ${group.maxSelect}`}
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {group.options.map((option) => (
+                      <button
+                        key={option.id}
+                        onClick={() => toggleModifierOption(group, option.id)}
+                        className={`px-3 py-2 rounded-md border text-sm text-left ${
+                          modifierSelection.includes(option.id)
+                            ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                            : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        <span className="block">{option.name}</span>
+                        {option.priceDelta !== 0 && (
+                          <span className="block text-xs text-gray-500">
+                            {option.priceDelta > 0 ? '+' : '-'}{new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(Math.abs(option.priceDelta))}
+                          </span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                onClick={() => setModifierProduct(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmModifiers}
+                className="px-4 py-2 bg-indigo-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-indigo-700"
+              >
+                Add to Cart
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Held Carts Modal */}
+      {showHeldCarts && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white mb-10">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Held Carts</h3>
+
+            {heldCarts.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">No held carts</p>
+            ) : (
+              <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+                {heldCarts.map((heldCart) => (
+                  <div key={heldCart.id} className="border border-gray-200 rounded-md p-3">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <p className="font-medium text-gray-900">{heldCart.label}</p>
+                        <p className="text-xs text-gray-500">
+                          {heldCart.items.reduce((sum, item) => sum + (item.product.soldByWeight ? 1 : Number(item.quantity)), 0)} items · {heldCart.cashier.name} · {new Date(heldCart.createdAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => resumeHeldCart(heldCart)}
+                          className="px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700"
+                        >
+                          Resume
+                        </button>
+                        <button
+                          onClick={() => discardHeldCart(heldCart)}
+                          className="px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-red-600 hover:bg-red-700"
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {heldCart.items.map(item => `${formatQuantity(item.quantity, item.product.soldByWeight)}x ${item.product.name}`).join(', ')}
+                    </p>
+                    {heldCart.warnings.length > 0 && (
+                      <div className="mt-2 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded px-2 py-1 text-xs space-y-0.5">
+                        {heldCart.warnings.map((warning) => (
+                          <p key={warning}>⚠️ {warning}</p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end pt-4">
+              <button
+                onClick={() => setShowHeldCarts(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Table Picker Modal */}
+      {showTablePicker && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-full max-w-3xl shadow-lg rounded-md bg-white mb-10">
+            <h3 className="text-lg font-medium text-gray-900">Choose Table</h3>
+            <p className="text-sm text-gray-500 mb-4">Occupied tables have an open tab; new items are added to it as another round.</p>
+
+            {tables.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">No tables set up yet</p>
+            ) : (
+              <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${FLOOR_COLUMNS}, minmax(0, 1fr))` }}>
+                {Array.from({ length: FLOOR_COLUMNS * FLOOR_ROWS }, (_, cell) => {
+                  const table = tables.find(t => t.posY * FLOOR_COLUMNS + t.posX === cell)
+                  if (!table) {
+                    return <div key={cell} className="aspect-square" />
+                  }
+
+                  const occupied = table.tabs.length > 0
+                  return (
+                    <button
+                      key={cell}
+                      onClick={() => chooseTable(table)}
+                      className={`aspect-square rounded-md border-2 text-sm font-medium flex flex-col items-center justify-center ${
+                        occupied
+                          ? 'border-red-400 bg-red-50 text-red-800'
+                          : 'border-green-400 bg-green-50 text-green-800'
+                      } ${selectedTable?.id === table.id ? 'ring-2 ring-indigo-500' : ''}`}
+                    >
+                      <span>{table.name}</span>
+                      <span className="text-xs truncate max-w-full px-1">
+                        {occupied ? table.tabs[0].label : `${table.seats} seats`}
+                      </span>
+                    </button>
+                  )
+                })}
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              {selectedTable && (
+                <button
+                  onClick={() => {
+                    setSelectedTable(null)
+                    setShowTablePicker(false)
+                  }}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  No Table
+                </button>
+              )}
+              <button
+                onClick={() => setShowTablePicker(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Open Tabs Modal */}
+      {showTabs && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white mb-10">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Open Tabs</h3>
+
+            {openTabs.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">No open tabs</p>
+            ) : (
+              <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+                {openTabs.map((tab) => (
+                  <div key={tab.id} className="border border-gray-200 rounded-md p-3">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <p className="font-medium text-gray-900">{tab.label}</p>
+                        <p className="text-xs text-gray-500">
+                          {getOrderLabel(tab.orderType, tab.table?.name)} · {Math.max(...tab.items.map(item => item.round))} round(s) · {tab.cashier.name} · {new Date(tab.openedAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => sendToTab(tab)}
+                          disabled={cart.length === 0 || !!activeTab}
+                          className="px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-teal-600 hover:bg-teal-700 disabled:opacity-50"
+                        >
+                          Add Cart
+                        </button>
+                        <button
+                          onClick={() => loadTab(tab)}
+                          className="px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700"
+                        >
+                          Pay
+                        </button>
+                        <button
+                          onClick={() => voidTab(tab)}
+                          className="px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-red-600 hover:bg-red-700"
+                        >
+                          Void
+                        </button>
+                      </div>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {tab.items.map(item => `${item.quantity}x ${item.product.name}`).join(', ')}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end pt-4">
+              <button
+                onClick={() => setShowTabs(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Offline Queue Modal */}
+      {showQueue && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white mb-10">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-gray-900">Offline Sales</h3>
+              <button
+                onClick={syncQueue}
+                disabled={!isOnline || syncing}
+                className="px-3 py-1 border border-transparent text-sm font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {syncing ? 'Syncing...' : 'Sync Now'}
+              </button>
+            </div>
+
+            {queuedSales.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">All sales are synced</p>
+            ) : (
+              <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+                {queuedSales.map((sale) => (
+                  <div key={sale.clientId} className="border border-gray-200 rounded-md p-3">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(sale.request.finalAmount)}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {new Date(sale.soldAt).toLocaleString('id-ID')} · {sale.status === 'conflict' ? 'Needs attention' : 'Waiting to sync'}
+                        </p>
+                      </div>
+                      {sale.status === 'conflict' && (
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => retryQueuedSale(sale)}
+                            disabled={!isOnline}
+                            className="px-2 py-1 border border-gray-300 text-xs font-medium rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            Retry
+                          </button>
+                          <button
+                            onClick={() => repriceAndRetryQueuedSale(sale)}
+                            disabled={!isOnline}
+                            className="px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                          >
+                            Use Current Prices
+                          </button>
+                          <button
+                            onClick={() => discardQueuedSale(sale)}
+                            className="px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-red-600 hover:bg-red-700"
+                          >
+                            Discard
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {sale.request.items.map(item => `${item.quantity}x ${item.name}`).join(', ')}
+                    </p>
+                    {sale.error && (
+                      <div className="mt-2 bg-red-50 border border-red-200 text-red-800 rounded px-2 py-1 text-xs">
+                        ⚠️ {sale.error}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end pt-4">
+              <button
+                onClick={() => setShowQueue(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Cash Tender Modal */}
+      {showCashTender && quote && (
+        <CashTenderModal
+          amountDue={quote.cashAmount}
+          roundingAmount={quote.cashRoundingAmount}
+          processing={paymentLoading}
+          onConfirm={async (cashTendered) => {
+            setPaymentLoading(true)
+            try {
+              await processSale('CASH', cashTendered)
+            } finally {
+              setPaymentLoading(false)
+            }
+          }}
+          onCancel={() => setShowCashTender(false)}
+        />
+      )}
+
       {/* Receipt Preview Modal */}
       {showReceiptPreview && completedTransaction && (
         <ReceiptPreview
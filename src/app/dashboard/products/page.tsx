@@ -1,8 +1,9 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, Fragment } from 'react'
 import { useSession } from 'next-auth/react'
 import Image from 'next/image'
+import { formatQuantity } from '@/lib/scaleBarcodes'
 
 interface Product {
   id: string
@@ -19,21 +20,41 @@ interface Product {
   description?: string
   image?: string
   barcode?: string
+  soldByWeight: boolean
+  plu?: string | null
+  taxClass?: string | null
+  taxRateId?: string | null
   isActive: boolean
+  variantAxes: string[]
+  variantValues: string[]
+  variants?: Product[]
   createdAt: string
   updatedAt: string
 }
 
+interface VariantAxisForm {
+  name: string
+  values: string
+}
+
 interface Category {
   id: string
   name: string
   description?: string
 }
 
+interface TaxRate {
+  id: string
+  name: string
+  rate: number
+  isActive: boolean
+}
+
 export default function ProductsPage() {
   useSession()
   const [products, setProducts] = useState<Product[]>([])
   const [categories, setCategories] = useState<Category[]>([])
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedCategory, setSelectedCategory] = useState('')
@@ -41,6 +62,9 @@ export default function ProductsPage() {
   const [editingProduct, setEditingProduct] = useState<Product | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
+  const [expandedProducts, setExpandedProducts] = useState<string[]>([])
+  const [variantProduct, setVariantProduct] = useState<Product | null>(null)
+  const [variantAxes, setVariantAxes] = useState<VariantAxisForm[]>([])
 
   // Form state
   const [formData, setFormData] = useState({
@@ -53,6 +77,10 @@ export default function ProductsPage() {
     categoryId: '',
     image: '',
     barcode: '',
+    soldByWeight: false,
+    plu: '',
+    taxClass: '',
+    taxRateId: '',
   })
 
   const fetchProducts = async () => {
@@ -60,6 +88,7 @@ export default function ProductsPage() {
       const params = new URLSearchParams({
         page: currentPage.toString(),
         limit: '10',
+        topLevel: 'true',
         ...(searchTerm && { search: searchTerm }),
         ...(selectedCategory && { category: selectedCategory }),
       })
@@ -89,12 +118,28 @@ export default function ProductsPage() {
     }
   }
 
+  const fetchTaxRates = async () => {
+    try {
+      const response = await fetch('/api/tax-rates')
+      if (response.ok) {
+        const data = await response.json()
+        setTaxRates(data)
+      }
+    } catch (error) {
+      console.error('Error fetching tax rates:', error)
+    }
+  }
+
   useEffect(() => {
     fetchProducts()
     fetchCategories()
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentPage, searchTerm, selectedCategory])
 
+  useEffect(() => {
+    fetchTaxRates()
+  }, [])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -132,11 +177,15 @@ export default function ProductsPage() {
       description: product.description || '',
       sku: product.sku,
       price: Number(product.price).toString(),
-      stock: product.stock.toString(),
-      minStock: product.minStock.toString(),
+      stock: Number(product.stock).toString(),
+      minStock: Number(product.minStock).toString(),
       categoryId: product.category.id,
       image: product.image || '',
       barcode: product.barcode || '',
+      soldByWeight: product.soldByWeight,
+      plu: product.plu || '',
+      taxClass: product.taxClass || '',
+      taxRateId: product.taxRateId || '',
     })
     setShowAddModal(true)
   }
@@ -160,6 +209,68 @@ export default function ProductsPage() {
     }
   }
 
+  const toggleExpanded = (productId: string) => {
+    setExpandedProducts(expandedProducts.includes(productId)
+      ? expandedProducts.filter(id => id !== productId)
+      : [...expandedProducts, productId])
+  }
+
+  // Pre-fill the matrix with the axes and values the variants already use
+  const openVariants = (product: Product) => {
+    const variants = product.variants || []
+    setVariantProduct(product)
+    setVariantAxes(product.variantAxes.length > 0
+      ? product.variantAxes.map((name, index) => ({
+          name,
+          values: Array.from(new Set(variants.map(variant => variant.variantValues[index]))).join(', '),
+        }))
+      : [{ name: '', values: '' }])
+  }
+
+  const updateVariantAxis = (index: number, field: keyof VariantAxisForm, value: string) => {
+    setVariantAxes(variantAxes.map((axis, i) => i === index ? { ...axis, [field]: value } : axis))
+  }
+
+  const generateVariants = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!variantProduct) return
+
+    try {
+      const response = await fetch(`/api/products/${variantProduct.id}/variants`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          axes: variantAxes.map(axis => ({
+            name: axis.name,
+            values: axis.values.split(','),
+          })),
+        }),
+      })
+
+      if (response.ok) {
+        setExpandedProducts([...expandedProducts, variantProduct.id])
+        setVariantProduct(null)
+        fetchProducts()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error generating variants:', error)
+      alert('Error generating variants')
+    }
+  }
+
+  const getTotalStock = (product: Product) => product.variantAxes.length > 0
+    ? (product.variants || []).reduce((sum, variant) => sum + Number(variant.stock), 0)
+    : Number(product.stock)
+
+  const getTotalMinStock = (product: Product) => product.variantAxes.length > 0
+    ? (product.variants || []).reduce((sum, variant) => sum + Number(variant.minStock), 0)
+    : Number(product.minStock)
+
   const resetForm = () => {
     setFormData({
       name: '',
@@ -171,6 +282,10 @@ export default function ProductsPage() {
       categoryId: '',
       image: '',
       barcode: '',
+      soldByWeight: false,
+      plu: '',
+      taxClass: '',
+      taxRateId: '',
     })
   }
 
@@ -263,73 +378,136 @@ export default function ProductsPage() {
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
-            {products.map((product) => (
-              <tr key={product.id} className="hover:bg-gray-50">
-                <td className="px-3 py-2">
-                  <div className="flex items-center">
-                    <Image
-                      className="h-8 w-8 rounded object-cover mr-2 flex-shrink-0"
-                      src={product.image || '/default-product.svg'}
-                      alt={product.name}
-                      width={32}
-                      height={32}
-                      onError={(e) => {
-                        const target = e.target as HTMLImageElement;
-                        target.src = '/default-product.svg';
-                      }}
-                    />
-                    <div className="min-w-0 flex-1">
-                      <div className="text-sm font-medium text-gray-900 truncate">
-                        {product.name}
+            {products.map((product) => {
+              const isParent = product.variantAxes.length > 0
+              const expanded = expandedProducts.includes(product.id)
+
+              return (
+                <Fragment key={product.id}>
+                  <tr className="hover:bg-gray-50">
+                    <td className="px-3 py-2">
+                      <div className="flex items-center">
+                        <Image
+                          className="h-8 w-8 rounded object-cover mr-2 flex-shrink-0"
+                          src={product.image || '/default-product.svg'}
+                          alt={product.name}
+                          width={32}
+                          height={32}
+                          onError={(e) => {
+                            const target = e.target as HTMLImageElement;
+                            target.src = '/default-product.svg';
+                          }}
+                        />
+                        <div className="min-w-0 flex-1">
+                          <div className="text-sm font-medium text-gray-900 truncate">
+                            {product.name}
+                          </div>
+                          {isParent && (
+                            <button
+                              onClick={() => toggleExpanded(product.id)}
+                              className="text-xs text-indigo-600 hover:text-indigo-900"
+                            >
+                              {expanded ? '▾' : '▸'} {product.variants?.length || 0} variants ({product.variantAxes.join(' / ')})
+                            </button>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  </div>
-                </td>
-                <td className="px-3 py-2 text-sm text-gray-900 truncate">
-                  {product.sku}
-                </td>
-                <td className="px-3 py-2 text-sm text-gray-900 truncate">
-                  {product.category.name}
-                </td>
-                <td className="px-3 py-2 text-sm text-gray-900">
-                  Rp {Number(product.price).toLocaleString('id-ID', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
-                </td>
-                <td className="px-3 py-2 text-sm text-gray-900">
-                  <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
-                    product.stock <= product.minStock
-                      ? 'bg-red-100 text-red-800'
-                      : 'bg-green-100 text-green-800'
-                  }`}>
-                    {product.stock}
-                  </span>
-                </td>
-                <td className="px-3 py-2">
-                  <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
-                    product.isActive
-                      ? 'bg-green-100 text-green-800'
-                      : 'bg-red-100 text-red-800'
-                  }`}>
-                    {product.isActive ? 'Active' : 'Inactive'}
-                  </span>
-                </td>
-                <td className="px-3 py-2 text-right text-sm font-medium">
-                  <div className="flex justify-end gap-1">
-                    <button
-                      onClick={() => handleEdit(product)}
-                      className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700"
-                    >
-                      Edit
-                    </button>
-                    <button
-                      onClick={() => handleDelete(product.id)}
-                      className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-red-600 hover:bg-red-700"
-                    >
-                      Delete
-                    </button>
-                  </div>
-                </td>
-              </tr>
-            ))}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900 truncate">
+                      {product.sku}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900 truncate">
+                      {product.category.name}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      Rp {Number(product.price).toLocaleString('id-ID', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                        getTotalStock(product) <= getTotalMinStock(product)
+                          ? 'bg-red-100 text-red-800'
+                          : 'bg-green-100 text-green-800'
+                      }`}>
+                        {formatQuantity(getTotalStock(product), product.soldByWeight)}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                        product.isActive
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-red-100 text-red-800'
+                      }`}>
+                        {product.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 text-right text-sm font-medium">
+                      <div className="flex justify-end gap-1">
+                        <button
+                          onClick={() => openVariants(product)}
+                          className="inline-flex items-center px-2 py-1 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                          Variants
+                        </button>
+                        <button
+                          onClick={() => handleEdit(product)}
+                          className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(product.id)}
+                          className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-red-600 hover:bg-red-700"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {expanded && product.variants?.map((variant) => (
+                    <tr key={variant.id} className="bg-gray-50">
+                      <td className="px-3 py-2 pl-14 text-sm text-gray-700 truncate">
+                        {variant.variantValues.join(' / ')}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-gray-700 truncate">
+                        {variant.sku}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-gray-500 truncate">
+                        {product.category.name}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-gray-700">
+                        Rp {Number(variant.price).toLocaleString('id-ID', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-gray-700">
+                        <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                          Number(variant.stock) <= Number(variant.minStock)
+                            ? 'bg-red-100 text-red-800'
+                            : 'bg-green-100 text-green-800'
+                        }`}>
+                          {formatQuantity(variant.stock, variant.soldByWeight)}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2"></td>
+                      <td className="px-3 py-2 text-right text-sm font-medium">
+                        <div className="flex justify-end gap-1">
+                          <button
+                            onClick={() => handleEdit({ ...variant, category: product.category })}
+                            className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDelete(variant.id)}
+                            className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-red-600 hover:bg-red-700"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </Fragment>
+              )
+            })}
           </tbody>
         </table>
 
@@ -422,6 +600,36 @@ export default function ProductsPage() {
                     className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-3 py-2"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Tax Class</label>
+                  <select
+                    value={formData.taxClass}
+                    onChange={(e) => setFormData({ ...formData, taxClass: e.target.value })}
+                    className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-3 py-2"
+                  >
+                    <option value="">Same as category</option>
+                    <option value="TAXABLE">Taxable</option>
+                    <option value="EXEMPT">Exempt</option>
+                    <option value="CUSTOM">Custom rate</option>
+                  </select>
+                </div>
+                {formData.taxClass === 'CUSTOM' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Tax Rate</label>
+                    <select
+                      value={formData.taxRateId}
+                      onChange={(e) => setFormData({ ...formData, taxRateId: e.target.value })}
+                      className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-3 py-2"
+                    >
+                      <option value="">Store default</option>
+                      {taxRates.filter(rate => rate.isActive).map((rate) => (
+                        <option key={rate.id} value={rate.id}>
+                          {rate.name} ({Number(rate.rate)}%)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Barcode</label>
                   <input
@@ -432,20 +640,51 @@ export default function ProductsPage() {
                     className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-3 py-2"
                   />
                 </div>
+                <div className="flex items-center">
+                  <input
+                    id="soldByWeight"
+                    type="checkbox"
+                    checked={formData.soldByWeight}
+                    onChange={(e) => setFormData({ ...formData, soldByWeight: e.target.checked })}
+                    className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="soldByWeight" className="ml-2 block text-sm text-gray-700">
+                    Sold by weight (price per kg, stock in kg)
+                  </label>
+                </div>
+                {formData.soldByWeight && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">PLU</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={formData.plu}
+                      onChange={(e) => setFormData({ ...formData, plu: e.target.value })}
+                      placeholder="Code printed on scale labels"
+                      className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-3 py-2"
+                    />
+                  </div>
+                )}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700">Stock</label>
+                  <label className="block text-sm font-medium text-gray-700">Stock{formData.soldByWeight && ' (kg)'}</label>
                   <input
                     type="number"
+                    step={formData.soldByWeight ? '0.001' : '1'}
                     required
+                    disabled={!!editingProduct && editingProduct.variantAxes.length > 0}
                     value={formData.stock}
                     onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
-                    className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-3 py-2"
+                    className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-3 py-2 disabled:bg-gray-100"
                   />
+                  {editingProduct && editingProduct.variantAxes.length > 0 && (
+                    <p className="mt-1 text-xs text-gray-500">Stock is kept on each variant.</p>
+                  )}
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700">Min Stock</label>
+                  <label className="block text-sm font-medium text-gray-700">Min Stock{formData.soldByWeight && ' (kg)'}</label>
                   <input
                     type="number"
+                    step={formData.soldByWeight ? '0.001' : '1'}
                     required
                     value={formData.minStock}
                     onChange={(e) => setFormData({ ...formData, minStock: e.target.value })}
@@ -492,6 +731,87 @@ export default function ProductsPage() {
           </div>
         </div>
       )}
+
+      {/* Variant Matrix Modal */}
+      {variantProduct && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+            <div className="mt-3">
+              <h3 className="text-lg font-medium text-gray-900 mb-1">
+                Variants of {variantProduct.name}
+              </h3>
+              <p className="text-sm text-gray-500 mb-4">
+                One variant is created for every combination of values, each with its own SKU and stock.
+                {variantProduct.variantAxes.length > 0 && ' Existing variants are kept; add values to create more.'}
+              </p>
+              <form onSubmit={generateVariants} className="space-y-4">
+                {variantAxes.map((axis, index) => (
+                  <div key={index} className="grid grid-cols-3 gap-2 items-end">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Option</label>
+                      <input
+                        type="text"
+                        required
+                        value={axis.name}
+                        disabled={variantProduct.variantAxes.length > 0}
+                        onChange={(e) => updateVariantAxis(index, 'name', e.target.value)}
+                        placeholder="Size"
+                        className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-3 py-2 disabled:bg-gray-100"
+                      />
+                    </div>
+                    <div className="col-span-2 flex gap-2 items-end">
+                      <div className="flex-1">
+                        <label className="block text-sm font-medium text-gray-700">Values</label>
+                        <input
+                          type="text"
+                          required
+                          value={axis.values}
+                          onChange={(e) => updateVariantAxis(index, 'values', e.target.value)}
+                          placeholder="S, M, L"
+                          className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-3 py-2"
+                        />
+                      </div>
+                      {variantProduct.variantAxes.length === 0 && variantAxes.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => setVariantAxes(variantAxes.filter((_, i) => i !== index))}
+                          className="text-red-600 hover:text-red-900 text-sm pb-2"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {variantProduct.variantAxes.length === 0 && variantAxes.length < 3 && (
+                  <button
+                    type="button"
+                    onClick={() => setVariantAxes([...variantAxes, { name: '', values: '' }])}
+                    className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-4 rounded-md text-sm font-medium"
+                  >
+                    Add Option
+                  </button>
+                )}
+                <div className="flex justify-end space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setVariantProduct(null)}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-indigo-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-indigo-700"
+                  >
+                    Generate Variants
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,625 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+
+type PromotionType = 'PERCENTAGE' | 'FIXED_AMOUNT' | 'BUY_X_GET_Y' | 'BUNDLE'
+type PromotionScope = 'PRODUCT' | 'CATEGORY' | 'CART'
+
+interface Promotion {
+  id: string
+  name: string
+  description?: string | null
+  type: PromotionType
+  scope: PromotionScope
+  value: number
+  buyQuantity: number | null
+  getQuantity: number | null
+  priority: number
+  startsAt: string | null
+  endsAt: string | null
+  startTime: string | null
+  endTime: string | null
+  daysOfWeek: number[]
+  isActive: boolean
+  products: Array<{ id: string; name: string }>
+  categories: Array<{ id: string; name: string }>
+}
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const TYPE_LABELS: Record<PromotionType, string> = {
+  PERCENTAGE: 'Percentage off',
+  FIXED_AMOUNT: 'Amount off',
+  BUY_X_GET_Y: 'Buy X get Y free',
+  BUNDLE: 'Bundle price',
+}
+
+const emptyForm = {
+  name: '',
+  description: '',
+  type: 'PERCENTAGE' as PromotionType,
+  scope: 'CART' as PromotionScope,
+  value: '',
+  buyQuantity: '',
+  getQuantity: '',
+  priority: '0',
+  startsAt: '',
+  endsAt: '',
+  startTime: '',
+  endTime: '',
+  daysOfWeek: [] as number[],
+  isActive: true,
+  productIds: [] as string[],
+  categoryIds: [] as string[],
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount)
+
+// datetime-local inputs want local time without a timezone suffix
+const toDateTimeInput = (value: string | null) => {
+  if (!value) return ''
+  const date = new Date(value)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+const describeRule = (promotion: Promotion) => {
+  const value = Number(promotion.value)
+  switch (promotion.type) {
+    case 'PERCENTAGE':
+      return `${value}% off`
+    case 'FIXED_AMOUNT':
+      return promotion.scope === 'CART' ? `${formatCurrency(value)} off the cart` : `${formatCurrency(value)} off each item`
+    case 'BUY_X_GET_Y':
+      return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free`
+    case 'BUNDLE':
+      return `${promotion.buyQuantity} for ${formatCurrency(value)}`
+  }
+}
+
+const describeScope = (promotion: Promotion) => {
+  if (promotion.scope === 'PRODUCT') return promotion.products.map(p => p.name).join(', ')
+  if (promotion.scope === 'CATEGORY') return promotion.categories.map(c => c.name).join(', ')
+  return 'Whole cart'
+}
+
+const describeSchedule = (promotion: Promotion) => {
+  const parts: string[] = []
+  if (promotion.startsAt || promotion.endsAt) {
+    const from = promotion.startsAt ? new Date(promotion.startsAt).toLocaleDateString('id-ID') : '...'
+    const to = promotion.endsAt ? new Date(promotion.endsAt).toLocaleDateString('id-ID') : '...'
+    parts.push(`${from} - ${to}`)
+  }
+  if (promotion.daysOfWeek.length > 0) {
+    parts.push(promotion.daysOfWeek.map(day => DAYS[day]).join(', '))
+  }
+  if (promotion.startTime && promotion.endTime) {
+    parts.push(`${promotion.startTime}-${promotion.endTime}`)
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'Always'
+}
+
+export default function PromotionsPage() {
+  const { data: session } = useSession()
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [products, setProducts] = useState<{ id: string; name: string }[]>([])
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showModal, setShowModal] = useState(false)
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+
+  const canManage = session?.user?.role === 'ADMIN' || session?.user?.role === 'MANAGER'
+
+  const fetchPromotions = async () => {
+    try {
+      const response = await fetch('/api/promotions')
+      if (response.ok) {
+        const data = await response.json()
+        setPromotions(data)
+      }
+    } catch (error) {
+      console.error('Error fetching promotions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchProducts = async () => {
+    try {
+      const response = await fetch('/api/products?limit=100')
+      if (response.ok) {
+        const data = await response.json()
+        setProducts(data.products)
+      }
+    } catch (error) {
+      console.error('Error fetching products:', error)
+    }
+  }
+
+  const fetchCategories = async () => {
+    try {
+      const response = await fetch('/api/categories')
+      if (response.ok) {
+        const data = await response.json()
+        setCategories(data)
+      }
+    } catch (error) {
+      console.error('Error fetching categories:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchPromotions()
+    fetchProducts()
+    fetchCategories()
+  }, [])
+
+  const toRequestBody = (form: typeof emptyForm) => ({
+    ...form,
+    startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+    endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : null,
+  })
+
+  const toForm = (promotion: Promotion): typeof emptyForm => ({
+    name: promotion.name,
+    description: promotion.description || '',
+    type: promotion.type,
+    scope: promotion.scope,
+    value: Number(promotion.value).toString(),
+    buyQuantity: promotion.buyQuantity?.toString() || '',
+    getQuantity: promotion.getQuantity?.toString() || '',
+    priority: promotion.priority.toString(),
+    startsAt: toDateTimeInput(promotion.startsAt),
+    endsAt: toDateTimeInput(promotion.endsAt),
+    startTime: promotion.startTime || '',
+    endTime: promotion.endTime || '',
+    daysOfWeek: promotion.daysOfWeek,
+    isActive: promotion.isActive,
+    productIds: promotion.products.map(p => p.id),
+    categoryIds: promotion.categories.map(c => c.id),
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const url = editingPromotion ? `/api/promotions/${editingPromotion.id}` : '/api/promotions'
+      const method = editingPromotion ? 'PUT' : 'POST'
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toRequestBody(formData)),
+      })
+
+      if (response.ok) {
+        closeModal()
+        fetchPromotions()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error saving promotion:', error)
+      alert('Error saving promotion')
+    }
+  }
+
+  const handleEdit = (promotion: Promotion) => {
+    setEditingPromotion(promotion)
+    setFormData(toForm(promotion))
+    setShowModal(true)
+  }
+
+  const toggleActive = async (promotion: Promotion) => {
+    try {
+      const response = await fetch(`/api/promotions/${promotion.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toRequestBody({ ...toForm(promotion), isActive: !promotion.isActive })),
+      })
+
+      if (response.ok) {
+        fetchPromotions()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error updating promotion:', error)
+      alert('Error updating promotion')
+    }
+  }
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!confirm(`Are you sure you want to delete "${promotion.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/promotions/${promotion.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        fetchPromotions()
+      } else {
+        alert('Error deleting promotion')
+      }
+    } catch (error) {
+      console.error('Error deleting promotion:', error)
+      alert('Error deleting promotion')
+    }
+  }
+
+  const closeModal = () => {
+    setShowModal(false)
+    setEditingPromotion(null)
+    setFormData(emptyForm)
+  }
+
+  const toggleSelection = (field: 'productIds' | 'categoryIds', id: string) => {
+    const selected = formData[field]
+    setFormData({
+      ...formData,
+      [field]: selected.includes(id) ? selected.filter(item => item !== id) : [...selected, id],
+    })
+  }
+
+  const toggleDay = (day: number) => {
+    setFormData({
+      ...formData,
+      daysOfWeek: formData.daysOfWeek.includes(day)
+        ? formData.daysOfWeek.filter(d => d !== day)
+        : [...formData.daysOfWeek, day].sort(),
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  const inputClass = 'mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-3 py-2'
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Promotions</h1>
+        {canManage && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium"
+          >
+            Add Promotion
+          </button>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Active promotions are applied automatically at checkout, highest priority first. Stacked promotions never discount an item below zero.
+      </p>
+
+      {/* Promotions Table */}
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Promotion</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Schedule</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              {canManage && (
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {promotions.map((promotion) => (
+              <tr key={promotion.id} className="hover:bg-gray-50">
+                <td className="px-3 py-2">
+                  <div className="text-sm font-medium text-gray-900">{promotion.name}</div>
+                  {promotion.description && (
+                    <div className="text-xs text-gray-500">{promotion.description}</div>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-sm text-gray-900">{describeRule(promotion)}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">{describeScope(promotion)}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">{describeSchedule(promotion)}</td>
+                <td className="px-3 py-2">
+                  <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                    promotion.isActive
+                      ? 'bg-green-100 text-green-800'
+                      : 'bg-red-100 text-red-800'
+                  }`}>
+                    {promotion.isActive ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                {canManage && (
+                  <td className="px-3 py-2 text-right text-sm font-medium">
+                    <div className="flex justify-end gap-1">
+                      <button
+                        onClick={() => toggleActive(promotion)}
+                        className="inline-flex items-center px-2 py-1 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+                      >
+                        {promotion.isActive ? 'Pause' : 'Resume'}
+                      </button>
+                      <button
+                        onClick={() => handleEdit(promotion)}
+                        className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(promotion)}
+                        className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-red-600 hover:bg-red-700"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {promotions.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No promotions yet.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Add/Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white mb-10">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {editingPromotion ? 'Edit Promotion' : 'Add Promotion'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. Happy Hour"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Description</label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Type</label>
+                  <select
+                    value={formData.type}
+                    onChange={(e) => setFormData({ ...formData, type: e.target.value as PromotionType })}
+                    className={inputClass}
+                  >
+                    {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                      <option key={type} value={type}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Applies To</label>
+                  <select
+                    value={formData.scope}
+                    onChange={(e) => setFormData({ ...formData, scope: e.target.value as PromotionScope })}
+                    className={inputClass}
+                  >
+                    <option value="CART">Whole cart</option>
+                    <option value="CATEGORY">Categories</option>
+                    <option value="PRODUCT">Products</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {(formData.type === 'BUY_X_GET_Y' || formData.type === 'BUNDLE') && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      {formData.type === 'BUNDLE' ? 'Items in bundle' : 'Buy quantity'}
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      required
+                      value={formData.buyQuantity}
+                      onChange={(e) => setFormData({ ...formData, buyQuantity: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                {formData.type === 'BUY_X_GET_Y' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Free quantity</label>
+                    <input
+                      type="number"
+                      min="1"
+                      required
+                      value={formData.getQuantity}
+                      onChange={(e) => setFormData({ ...formData, getQuantity: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                {formData.type !== 'BUY_X_GET_Y' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      {formData.type === 'PERCENTAGE' ? 'Discount (%)' : formData.type === 'BUNDLE' ? 'Bundle price' : 'Discount amount'}
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      required
+                      value={formData.value}
+                      onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Priority</label>
+                  <input
+                    type="number"
+                    value={formData.priority}
+                    onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {formData.scope === 'PRODUCT' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Products</label>
+                  <div className="mt-1 max-h-40 overflow-y-auto border border-gray-300 rounded-md p-2 space-y-1">
+                    {products.map((product) => (
+                      <label key={product.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={formData.productIds.includes(product.id)}
+                          onChange={() => toggleSelection('productIds', product.id)}
+                        />
+                        {product.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {formData.scope === 'CATEGORY' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Categories</label>
+                  <div className="mt-1 max-h-40 overflow-y-auto border border-gray-300 rounded-md p-2 space-y-1">
+                    {categories.map((category) => (
+                      <label key={category.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={formData.categoryIds.includes(category.id)}
+                          onChange={() => toggleSelection('categoryIds', category.id)}
+                        />
+                        {category.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Starts</label>
+                  <input
+                    type="datetime-local"
+                    value={formData.startsAt}
+                    onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Ends</label>
+                  <input
+                    type="datetime-local"
+                    value={formData.endsAt}
+                    onChange={(e) => setFormData({ ...formData, endsAt: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Daily from</label>
+                  <input
+                    type="time"
+                    value={formData.startTime}
+                    onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Daily until</label>
+                  <input
+                    type="time"
+                    value={formData.endTime}
+                    onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Days</label>
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {DAYS.map((day, index) => (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => toggleDay(index)}
+                      className={`px-2 py-1 text-xs rounded-md border ${
+                        formData.daysOfWeek.includes(index)
+                          ? 'bg-indigo-600 text-white border-indigo-600'
+                          : 'bg-white text-gray-700 border-gray-300'
+                      }`}
+                    >
+                      {day}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">Leave empty to run every day.</p>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                />
+                Active
+              </label>
+
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-indigo-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-indigo-700"
+                >
+                  {editingPromotion ? 'Update' : 'Add'} Promotion
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
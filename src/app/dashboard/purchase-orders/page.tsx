@@ -0,0 +1,993 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { formatQuantity } from '@/lib/scaleBarcodes'
+
+type PurchaseOrderStatus = 'DRAFT' | 'SENT' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED'
+
+interface Supplier {
+  id: string
+  name: string
+  contactName: string | null
+  phone: string | null
+  email: string | null
+  address: string | null
+  notes: string | null
+  isActive: boolean
+  _count?: {
+    purchaseOrders: number
+  }
+}
+
+interface PurchaseOrderItem {
+  id: string
+  productId: string
+  quantity: number
+  receivedQuantity: number
+  unitCost: number
+  product: {
+    id: string
+    name: string
+    sku: string
+    soldByWeight: boolean
+    cost: number
+  }
+}
+
+interface PurchaseOrder {
+  id: string
+  poNumber: string
+  status: PurchaseOrderStatus
+  note: string | null
+  expectedAt: string | null
+  sentAt: string | null
+  receivedAt: string | null
+  createdAt: string
+  total: number
+  supplier: Supplier
+  outlet: {
+    id: string
+    name: string
+    code: string
+  }
+  creator: { name: string }
+  items: PurchaseOrderItem[]
+}
+
+interface CatalogProduct {
+  id: string
+  name: string
+  sku: string
+  soldByWeight: boolean
+}
+
+interface DraftLine {
+  productId: string
+  quantity: number
+  // Blank uses the product's current cost
+  unitCost: string
+}
+
+interface ReceiptLine {
+  quantity: number
+  unitCost: string
+}
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, { label: string; color: string }> = {
+  DRAFT: { label: 'Draft', color: 'bg-gray-100 text-gray-800' },
+  SENT: { label: 'Sent', color: 'bg-blue-100 text-blue-800' },
+  PARTIALLY_RECEIVED: { label: 'Partially Received', color: 'bg-yellow-100 text-yellow-800' },
+  RECEIVED: { label: 'Received', color: 'bg-green-100 text-green-800' },
+  CANCELLED: { label: 'Cancelled', color: 'bg-red-100 text-red-800' },
+}
+
+const EMPTY_SUPPLIER = { name: '', contactName: '', phone: '', email: '', address: '', notes: '' }
+
+export default function PurchaseOrdersPage() {
+  const { data: session } = useSession()
+  const [activeTab, setActiveTab] = useState('orders')
+  const [orders, setOrders] = useState<PurchaseOrder[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [products, setProducts] = useState<CatalogProduct[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState('')
+  // Null while an admin looks at all outlets together
+  const [outlet, setOutlet] = useState<{ id: string; name: string } | null>(null)
+  const [showOrderModal, setShowOrderModal] = useState(false)
+  const [draft, setDraft] = useState<{ id?: string; supplierId: string; expectedAt: string; note: string; items: DraftLine[] }>({ supplierId: '', expectedAt: '', note: '', items: [] })
+  const [selected, setSelected] = useState<PurchaseOrder | null>(null)
+  // What arrived in this delivery, by order item id
+  const [receipt, setReceipt] = useState<Record<string, ReceiptLine>>({})
+  const [receiptNote, setReceiptNote] = useState('')
+  const [updateCost, setUpdateCost] = useState(true)
+  const [showSupplierModal, setShowSupplierModal] = useState(false)
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null)
+  const [supplierForm, setSupplierForm] = useState(EMPTY_SUPPLIER)
+  const [saving, setSaving] = useState(false)
+
+  const canManage = session?.user?.role === 'ADMIN' || session?.user?.role === 'MANAGER'
+
+  const fetchOrders = async () => {
+    try {
+      const params = new URLSearchParams(statusFilter ? { status: statusFilter } : {})
+      const response = await fetch(`/api/purchase-orders?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setOrders(data.purchaseOrders)
+        setOutlet(data.outlet)
+      }
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchSuppliers = async () => {
+    try {
+      const response = await fetch('/api/suppliers?includeInactive=true')
+      if (response.ok) {
+        setSuppliers(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching suppliers:', error)
+    }
+  }
+
+  const fetchProducts = async () => {
+    try {
+      const response = await fetch('/api/products/catalog')
+      if (response.ok) {
+        const data = await response.json()
+        setProducts(data.products)
+      }
+    } catch (error) {
+      console.error('Error fetching products:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (!canManage) return
+    fetchOrders()
+    fetchSuppliers()
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter, canManage])
+
+  const openOrderModal = (order?: PurchaseOrder) => {
+    fetchProducts()
+    setDraft(order
+      ? {
+          id: order.id,
+          supplierId: order.supplier.id,
+          expectedAt: order.expectedAt ? order.expectedAt.slice(0, 10) : '',
+          note: order.note || '',
+          items: order.items.map(item => ({ productId: item.productId, quantity: Number(item.quantity), unitCost: String(Number(item.unitCost)) })),
+        }
+      : { supplierId: '', expectedAt: '', note: '', items: [{ productId: '', quantity: 1, unitCost: '' }] })
+    setSelected(null)
+    setShowOrderModal(true)
+  }
+
+  const updateLine = (index: number, field: keyof DraftLine, value: string | number) => {
+    const items = [...draft.items]
+    items[index] = { ...items[index], [field]: value }
+    setDraft({ ...draft, items })
+  }
+
+  const saveOrder = async () => {
+    const items = draft.items.filter(line => line.productId)
+    if (!draft.supplierId || items.length === 0) {
+      alert('Choose a supplier and at least one product')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch(draft.id ? `/api/purchase-orders/${draft.id}` : '/api/purchase-orders', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          supplierId: draft.supplierId,
+          expectedAt: draft.expectedAt || null,
+          note: draft.note,
+          items: items.map(line => ({ productId: line.productId, quantity: line.quantity, unitCost: line.unitCost })),
+        }),
+      })
+
+      if (response.ok) {
+        setShowOrderModal(false)
+        fetchOrders()
+        openOrder(await response.json())
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error saving purchase order:', error)
+      alert('Error saving purchase order')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // The receipt starts out as everything still outstanding at the agreed cost
+  const openOrder = (order: PurchaseOrder) => {
+    setSelected(order)
+    setReceipt(Object.fromEntries(order.items.map(item => [item.id, {
+      quantity: Math.max(0, Number(item.quantity) - Number(item.receivedQuantity)),
+      unitCost: String(Number(item.unitCost)),
+    }])))
+    setReceiptNote('')
+    setUpdateCost(true)
+  }
+
+  // Sending, cancelling, receiving and deleting share the same handling of the response
+  const runAction = async (path: string, init: RequestInit, success: string) => {
+    if (!selected) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/purchase-orders/${selected.id}${path}`, init)
+
+      if (response.ok) {
+        alert(success)
+        const data = await response.json()
+        if (init.method === 'DELETE') {
+          setSelected(null)
+        } else {
+          openOrder(data)
+        }
+        fetchOrders()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating purchase order:', error)
+      alert('Error updating purchase order')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const sendOrder = () => {
+    if (!selected || !confirm(`Mark ${selected.poNumber} as sent to ${selected.supplier.name}?`)) return
+
+    runAction('/send', { method: 'POST' }, 'Purchase order marked as sent')
+  }
+
+  const cancelOrder = () => {
+    if (!selected || !confirm(`Cancel ${selected.poNumber}? Anything not yet received will no longer be expected.`)) return
+
+    runAction('/cancel', { method: 'POST' }, 'Purchase order cancelled')
+  }
+
+  const deleteOrder = () => {
+    if (!selected || !confirm(`Delete draft ${selected.poNumber}?`)) return
+
+    runAction('', { method: 'DELETE' }, 'Draft deleted')
+  }
+
+  const receiveGoods = () => {
+    if (!selected) return
+
+    const items = selected.items
+      .filter(item => (receipt[item.id]?.quantity ?? 0) > 0)
+      .map(item => ({ itemId: item.id, quantity: receipt[item.id].quantity, unitCost: receipt[item.id].unitCost }))
+
+    if (items.length === 0) {
+      alert('Enter what arrived')
+      return
+    }
+
+    runAction('/receive', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ items, updateCost, note: receiptNote }),
+    }, 'Goods received')
+  }
+
+  const openSupplierModal = (supplier?: Supplier) => {
+    setEditingSupplier(supplier ?? null)
+    setSupplierForm(supplier
+      ? {
+          name: supplier.name,
+          contactName: supplier.contactName || '',
+          phone: supplier.phone || '',
+          email: supplier.email || '',
+          address: supplier.address || '',
+          notes: supplier.notes || '',
+        }
+      : EMPTY_SUPPLIER)
+    setShowSupplierModal(true)
+  }
+
+  const saveSupplier = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(editingSupplier ? `/api/suppliers/${editingSupplier.id}` : '/api/suppliers', {
+        method: editingSupplier ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(supplierForm),
+      })
+
+      if (response.ok) {
+        setShowSupplierModal(false)
+        fetchSuppliers()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error saving supplier:', error)
+      alert('Error saving supplier')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleSupplier = async (supplier: Supplier) => {
+    try {
+      const response = await fetch(`/api/suppliers/${supplier.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...supplier, isActive: !supplier.isActive }),
+      })
+
+      if (response.ok) {
+        fetchSuppliers()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating supplier:', error)
+    }
+  }
+
+  const deleteSupplier = async (supplier: Supplier) => {
+    if (!confirm(`Delete supplier ${supplier.name}?`)) return
+
+    try {
+      const response = await fetch(`/api/suppliers/${supplier.id}`, { method: 'DELETE' })
+
+      if (response.ok) {
+        fetchSuppliers()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error deleting supplier:', error)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString()
+  }
+
+  if (!canManage) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500">Only managers can manage purchasing.</p>
+      </div>
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  const receivable = selected?.status === 'SENT' || selected?.status === 'PARTIALLY_RECEIVED'
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Purchasing</h1>
+          <p className="text-sm text-gray-500">
+            {outlet ? `Orders for ${outlet.name}` : 'Orders for all outlets'}
+          </p>
+        </div>
+        {activeTab === 'orders' ? (
+          <button
+            onClick={() => openOrderModal()}
+            disabled={!outlet}
+            title={outlet ? undefined : 'Pick the outlet the goods are for'}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium disabled:opacity-50"
+          >
+            New Purchase Order
+          </button>
+        ) : (
+          <button
+            onClick={() => openSupplierModal()}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium"
+          >
+            Add Supplier
+          </button>
+        )}
+      </div>
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-8">
+          {[
+            { id: 'orders', name: 'Purchase Orders' },
+            { id: 'suppliers', name: 'Suppliers' },
+          ].map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === tab.id
+                  ? 'border-indigo-500 text-indigo-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {tab.name}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {/* Purchase Orders Tab */}
+      {activeTab === 'orders' && (
+        <>
+          <div className="bg-white p-4 rounded-lg shadow">
+            <label className="block text-sm font-medium text-gray-700">Status</label>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="mt-1 block w-full md:w-64 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              <option value="">All Statuses</option>
+              {Object.entries(STATUS_STYLES).map(([status, style]) => (
+                <option key={status} value={status}>{style.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Order
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Supplier
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Outlet
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Total
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {orders.map((order) => (
+                  <tr key={order.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{order.poNumber}</div>
+                      <div className="text-sm text-gray-500">
+                        {formatDate(order.createdAt)}
+                        {order.expectedAt && ` · expected ${formatDate(order.expectedAt)}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {order.supplier.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {order.outlet.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(order.total)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[order.status].color}`}>
+                        {STATUS_STYLES[order.status].label}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => openOrder(order)}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        View
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {orders.length === 0 && (
+              <div className="text-center py-8">
+                <p className="text-gray-500">No purchase orders found.</p>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Suppliers Tab */}
+      {activeTab === 'suppliers' && (
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Supplier
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Contact
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Orders
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {suppliers.map((supplier) => (
+                <tr key={supplier.id}>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{supplier.name}</div>
+                    {supplier.address && <div className="text-sm text-gray-500">{supplier.address}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {supplier.contactName && <div>{supplier.contactName}</div>}
+                    {supplier.phone && <div className="text-gray-500">{supplier.phone}</div>}
+                    {supplier.email && <div className="text-gray-500">{supplier.email}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {supplier._count?.purchaseOrders ?? 0}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${supplier.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                      {supplier.isActive ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                    <button
+                      onClick={() => openSupplierModal(supplier)}
+                      className="text-indigo-600 hover:text-indigo-900"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => toggleSupplier(supplier)}
+                      className="text-gray-600 hover:text-gray-900"
+                    >
+                      {supplier.isActive ? 'Deactivate' : 'Activate'}
+                    </button>
+                    {!supplier._count?.purchaseOrders && (
+                      <button
+                        onClick={() => deleteSupplier(supplier)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {suppliers.length === 0 && (
+            <div className="text-center py-8">
+              <p className="text-gray-500">No suppliers yet.</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Create / Edit Draft Modal */}
+      {showOrderModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-3xl shadow-lg rounded-md bg-white">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-gray-900">
+                {draft.id ? 'Edit Draft Purchase Order' : `New Purchase Order for ${outlet?.name}`}
+              </h3>
+              <button
+                onClick={() => setShowOrderModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Supplier</label>
+                  <select
+                    value={draft.supplierId}
+                    onChange={(e) => setDraft({ ...draft, supplierId: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  >
+                    <option value="">Select Supplier</option>
+                    {suppliers.filter(supplier => supplier.isActive).map((supplier) => (
+                      <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Expected Delivery</label>
+                  <input
+                    type="date"
+                    value={draft.expectedAt}
+                    onChange={(e) => setDraft({ ...draft, expectedAt: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {draft.items.map((line, index) => {
+                  const product = products.find(p => p.id === line.productId)
+                  return (
+                    <div key={index} className="flex gap-2 items-end">
+                      <div className="flex-1">
+                        <label className="block text-sm font-medium text-gray-700">Product</label>
+                        <select
+                          value={line.productId}
+                          onChange={(e) => updateLine(index, 'productId', e.target.value)}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        >
+                          <option value="">Select Product</option>
+                          {products.map((p) => (
+                            <option key={p.id} value={p.id}>{p.name} ({p.sku})</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="w-28">
+                        <label className="block text-sm font-medium text-gray-700">Quantity{product?.soldByWeight && ' (kg)'}</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step={product?.soldByWeight ? '0.001' : '1'}
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, 'quantity', (product?.soldByWeight ? parseFloat(e.target.value) : parseInt(e.target.value)) || 0)}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                      </div>
+                      <div className="w-36">
+                        <label className="block text-sm font-medium text-gray-700">Unit Cost{product?.soldByWeight && ' (per kg)'}</label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={line.unitCost}
+                          placeholder="Current cost"
+                          onChange={(e) => updateLine(index, 'unitCost', e.target.value)}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                      </div>
+                      {draft.items.length > 1 && (
+                        <button
+                          onClick={() => setDraft({ ...draft, items: draft.items.filter((_, i) => i !== index) })}
+                          className="text-red-600 hover:text-red-900 text-sm pb-2"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  )
+                })}
+
+                <button
+                  onClick={() => setDraft({ ...draft, items: [...draft.items, { productId: '', quantity: 1, unitCost: '' }] })}
+                  className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-4 rounded-md font-medium"
+                >
+                  Add Product
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Note to Supplier</label>
+                <textarea
+                  value={draft.note}
+                  onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                  rows={2}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 mt-4 border-t">
+              <button
+                onClick={() => setShowOrderModal(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveOrder}
+                disabled={saving}
+                className="px-4 py-2 bg-indigo-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Save Draft
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Purchase Order Detail Modal */}
+      {selected && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-3xl shadow-lg rounded-md bg-white">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">{selected.poNumber}</h3>
+                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[selected.status].color}`}>
+                  {STATUS_STYLES[selected.status].label}
+                </span>
+              </div>
+              <button
+                onClick={() => setSelected(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+              <div>
+                <div className="text-gray-500">Supplier</div>
+                <div className="font-medium text-gray-900">{selected.supplier.name}</div>
+                {selected.sentAt && <div className="text-xs text-gray-500">Sent {formatDate(selected.sentAt)}</div>}
+              </div>
+              <div>
+                <div className="text-gray-500">Deliver to</div>
+                <div className="font-medium text-gray-900">{selected.outlet.name}</div>
+                {selected.expectedAt && <div className="text-xs text-gray-500">Expected {formatDate(selected.expectedAt)}</div>}
+              </div>
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200 mb-4">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Ordered</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                  {receivable && (
+                    <>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Arrived Now</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Cost Paid</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {selected.items.map((item) => (
+                  <tr key={item.id}>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      {item.product.name}
+                      <div className="text-xs text-gray-500">{item.product.sku}</div>
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900 text-right">
+                      {formatQuantity(item.quantity, item.product.soldByWeight)}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900 text-right">
+                      {formatQuantity(item.receivedQuantity, item.product.soldByWeight)}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900 text-right">
+                      {formatCurrency(Number(item.unitCost))}
+                    </td>
+                    {receivable && (
+                      <>
+                        <td className="px-3 py-2 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            step={item.product.soldByWeight ? '0.001' : '1'}
+                            value={receipt[item.id]?.quantity ?? 0}
+                            onChange={(e) => setReceipt({
+                              ...receipt,
+                              [item.id]: { ...receipt[item.id], quantity: (item.product.soldByWeight ? parseFloat(e.target.value) : parseInt(e.target.value)) || 0 },
+                            })}
+                            className="w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm text-right"
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            value={receipt[item.id]?.unitCost ?? ''}
+                            onChange={(e) => setReceipt({
+                              ...receipt,
+                              [item.id]: { ...receipt[item.id], unitCost: e.target.value },
+                            })}
+                            className="w-28 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm text-right"
+                          />
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="text-right text-sm font-medium text-gray-900 mb-4">
+              Order total: {formatCurrency(selected.total)}
+            </div>
+
+            {selected.note && (
+              <p className="text-sm text-gray-700 mb-4"><span className="font-medium">Note:</span> {selected.note}</p>
+            )}
+
+            {receivable && (
+              <div className="space-y-2 mb-4 border-t pt-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Delivery Note</label>
+                  <input
+                    type="text"
+                    value={receiptNote}
+                    onChange={(e) => setReceiptNote(e.target.value)}
+                    placeholder="e.g. supplier's delivery note number"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={updateCost}
+                    onChange={(e) => setUpdateCost(e.target.checked)}
+                    className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Update each product&apos;s cost to the cost paid
+                </label>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4 border-t">
+              <button
+                onClick={() => window.open(`/api/purchase-orders/${selected.id}/document`, '_blank')}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Print / PDF
+              </button>
+              {selected.status === 'DRAFT' && (
+                <>
+                  <button
+                    onClick={deleteOrder}
+                    disabled={saving}
+                    className="px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => openOrderModal(selected)}
+                    disabled={saving}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={sendOrder}
+                    disabled={saving}
+                    className="px-4 py-2 bg-indigo-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    Mark as Sent
+                  </button>
+                </>
+              )}
+              {receivable && (
+                <>
+                  <button
+                    onClick={cancelOrder}
+                    disabled={saving}
+                    className="px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Cancel Order
+                  </button>
+                  <button
+                    onClick={receiveGoods}
+                    disabled={saving}
+                    className="px-4 py-2 bg-green-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                  >
+                    Receive Goods
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Supplier Modal */}
+      {showSupplierModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-gray-900">
+                {editingSupplier ? 'Edit Supplier' : 'Add Supplier'}
+              </h3>
+              <button
+                onClick={() => setShowSupplierModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              {([
+                { field: 'name', label: 'Name' },
+                { field: 'contactName', label: 'Contact Person' },
+                { field: 'phone', label: 'Phone' },
+                { field: 'email', label: 'Email' },
+                { field: 'address', label: 'Address' },
+                { field: 'notes', label: 'Notes' },
+              ] as const).map(({ field, label }) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700">{label}</label>
+                  <input
+                    type={field === 'email' ? 'email' : 'text'}
+                    value={supplierForm[field]}
+                    onChange={(e) => setSupplierForm({ ...supplierForm, [field]: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 mt-4 border-t">
+              <button
+                onClick={() => setShowSupplierModal(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveSupplier}
+                disabled={saving}
+                className="px-4 py-2 bg-indigo-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
+import { ORDER_TYPE_LABELS } from '@/lib/orderTypes'
 import {
   LineChart,
   Line,
@@ -19,6 +20,7 @@ import {
 interface ReportData {
   overview?: {
     totalRevenue: number
+    totalRefunds?: number
     totalTransactions: number
     totalProducts: number
     lowStockCount: number
@@ -28,6 +30,7 @@ interface ReportData {
     _sum: {
       totalAmount: number | null
       finalAmount: number | null
+      refundedAmount: number | null
     }
     _count: {
       id: number
@@ -37,20 +40,37 @@ interface ReportData {
     paymentMethod: string
     _sum: {
       finalAmount: number | null
+      refundedAmount: number | null
     }
     _count: {
       id: number
     }
+    netRevenue: number
+  }>
+  taxBreakdown?: Array<{
+    name: string
+    rate: number
+    salesAmount: number
+    taxAmount: number
+  }>
+  orderTypes?: Array<{
+    orderType: keyof typeof ORDER_TYPE_LABELS
+    transactions: number
+    grossRevenue: number
+    netRevenue: number
   }>
   topProducts?: Array<{
     productId: string
     _sum: {
       quantity: number | null
       totalPrice: number | null
+      refundedQuantity: number | null
     }
     _count: {
       id: number
     }
+    netQuantity: number
+    netRevenue: number
     product?: {
       id: string
       name: string
@@ -81,6 +101,7 @@ interface ReportData {
   revenueTrends?: Array<{
     date: string
     revenue: number
+    refunds: number
     transactions: number
     cash_transactions: number
     digital_transactions: number
@@ -94,6 +115,7 @@ export default function ReportsPage() {
   const [reportData, setReportData] = useState<ReportData>({})
   const [loading, setLoading] = useState(true)
   const [activeTab, setActiveTab] = useState('overview')
+  const [productGrouping, setProductGrouping] = useState<'variant' | 'parent'>('variant')
   const [dateRange, setDateRange] = useState({
     startDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
     endDate: new Date().toISOString().split('T')[0]
@@ -107,6 +129,9 @@ export default function ReportsPage() {
         startDate: dateRange.startDate,
         endDate: dateRange.endDate,
       })
+      if (activeTab === 'products' && productGrouping === 'parent') {
+        params.set('groupBy', 'parent')
+      }
 
       const response = await fetch(`/api/reports?${params}`)
       if (response.ok) {
@@ -123,7 +148,7 @@ export default function ReportsPage() {
   useEffect(() => {
     fetchReportData()
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [activeTab, dateRange])
+  }, [activeTab, dateRange, productGrouping])
 
   const handleExport = async (type: string, format: string) => {
     try {
@@ -240,6 +265,11 @@ export default function ReportsPage() {
                     <dd className="text-lg font-medium text-gray-900">
                       {formatCurrency(reportData.overview.totalRevenue)}
                     </dd>
+                    {!!reportData.overview.totalRefunds && (
+                      <dd className="text-xs text-red-600">
+                        after {formatCurrency(reportData.overview.totalRefunds)} refunds
+                      </dd>
+                    )}
                   </dl>
                 </div>
               </div>
@@ -365,7 +395,7 @@ export default function ReportsPage() {
                     <Pie
                       data={reportData.paymentMethods.map((method) => ({
                         name: method.paymentMethod,
-                        value: Number(method._sum.finalAmount) || 0,
+                        value: Number(method.netRevenue) || 0,
                         count: method._count.id
                       }))}
                       cx="50%"
@@ -388,6 +418,112 @@ export default function ReportsPage() {
               )}
             </div>
           </div>
+
+          {/* Sales by Order Type */}
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Sales by Order Type</h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Order Type
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Transactions
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Gross Revenue
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Net Revenue
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {reportData.orderTypes && reportData.orderTypes.length > 0 ? (
+                    reportData.orderTypes.map((line) => (
+                      <tr key={line.orderType}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {ORDER_TYPE_LABELS[line.orderType]}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {line.transactions}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatCurrency(line.grossRevenue)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {formatCurrency(line.netRevenue)}
+                        </td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={4} className="px-6 py-4 text-center text-gray-500">
+                        No sales in selected period
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Tax Collected */}
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Tax Collected</h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Tax
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Rate
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Sales
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Tax Amount
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {reportData.taxBreakdown && reportData.taxBreakdown.length > 0 ? (
+                    reportData.taxBreakdown.map((line) => (
+                      <tr key={`${line.name}-${line.rate}`}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {line.name}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {line.rate}%
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatCurrency(line.salesAmount)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {formatCurrency(line.taxAmount)}
+                        </td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={4} className="px-6 py-4 text-center text-gray-500">
+                        No tax collected in selected period
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
         </div>
       )}
 
@@ -395,8 +531,16 @@ export default function ReportsPage() {
       {activeTab === 'products' && (
         <div className="space-y-6">
           <div className="bg-white rounded-lg shadow overflow-hidden">
-            <div className="px-6 py-4 border-b border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
               <h3 className="text-lg font-medium text-gray-900">Top Selling Products</h3>
+              <select
+                value={productGrouping}
+                onChange={(e) => setProductGrouping(e.target.value as 'variant' | 'parent')}
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-900"
+              >
+                <option value="variant">Each variant</option>
+                <option value="parent">Group variants by product</option>
+              </select>
             </div>
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
@@ -434,10 +578,10 @@ export default function ReportsPage() {
                           {product.product?.category?.name}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {product._sum.quantity || 0}
+                          {product.netQuantity}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                          {formatCurrency(Number(product._sum.totalPrice) || 0)}
+                          {formatCurrency(Number(product.netRevenue) || 0)}
                         </td>
                       </tr>
                     ))
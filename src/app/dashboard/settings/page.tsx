@@ -0,0 +1,1184 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { formatSequenceDate, formatTransactionNumber } from '@/lib/transactionNumbers'
+import { STORE_TIME_ZONES } from '@/lib/storeTime'
+
+interface TaxRate {
+  id: string
+  name: string
+  rate: number
+  isActive: boolean
+}
+
+interface BarcodeRule {
+  id: string
+  name: string
+  prefix: string
+  pluLength: number
+  valueType: 'WEIGHT' | 'PRICE'
+  valueLength: number
+  valueDecimals: number
+  isActive: boolean
+}
+
+interface Outlet {
+  id: string
+  name: string
+  code: string
+  address: string | null
+  isActive: boolean
+  users?: Array<{ id: string; name: string }>
+}
+
+interface StaffMember {
+  id: string
+  name: string
+  role: string
+}
+
+const EMPTY_OUTLET = { name: '', code: '', address: '' }
+
+const EMPTY_BARCODE_RULE = {
+  name: '',
+  prefix: '',
+  pluLength: '5',
+  valueType: 'WEIGHT',
+  valueLength: '5',
+  valueDecimals: '3'
+}
+
+interface StoreSettings {
+  id: string
+  pricesIncludeTax: boolean
+  defaultTaxRateId: string | null
+  cashRounding: number
+  loyaltyEnabled: boolean
+  loyaltySpendPerPoint: number
+  loyaltyPointValue: number
+  loyaltyPointsExpireDays: number | null
+  transactionNumberFormat: string
+  timeZone: string
+}
+
+interface Category {
+  id: string
+  name: string
+  taxClass: string | null
+  taxRateId: string | null
+  loyaltyMultiplier: number
+  kitchenStation: string | null
+}
+
+export default function SettingsPage() {
+  const { data: session } = useSession()
+  const [settings, setSettings] = useState<StoreSettings | null>(null)
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [newTaxRate, setNewTaxRate] = useState({ name: '', rate: '' })
+  const [barcodeRules, setBarcodeRules] = useState<BarcodeRule[]>([])
+  const [newBarcodeRule, setNewBarcodeRule] = useState(EMPTY_BARCODE_RULE)
+  const [outlets, setOutlets] = useState<Outlet[]>([])
+  const [staff, setStaff] = useState<StaffMember[]>([])
+  const [newOutlet, setNewOutlet] = useState(EMPTY_OUTLET)
+
+  const canManage = session?.user?.role === 'ADMIN' || session?.user?.role === 'MANAGER'
+  const isAdmin = session?.user?.role === 'ADMIN'
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/settings')
+      if (response.ok) {
+        const data = await response.json()
+        setSettings(data)
+      }
+    } catch (error) {
+      console.error('Error fetching settings:', error)
+    }
+  }
+
+  const fetchTaxRates = async () => {
+    try {
+      const response = await fetch('/api/tax-rates')
+      if (response.ok) {
+        const data = await response.json()
+        setTaxRates(data)
+      }
+    } catch (error) {
+      console.error('Error fetching tax rates:', error)
+    }
+  }
+
+  const fetchBarcodeRules = async () => {
+    try {
+      const response = await fetch('/api/barcode-rules')
+      if (response.ok) {
+        const data = await response.json()
+        setBarcodeRules(data)
+      }
+    } catch (error) {
+      console.error('Error fetching barcode rules:', error)
+    }
+  }
+
+  // Admins get every outlet with its staff; everyone else the outlets they work at
+  const fetchOutlets = async () => {
+    try {
+      const response = await fetch('/api/outlets')
+      if (response.ok) {
+        const data = await response.json()
+        setOutlets(data.allOutlets ?? data.outlets)
+      }
+    } catch (error) {
+      console.error('Error fetching outlets:', error)
+    }
+  }
+
+  const fetchCategories = async () => {
+    try {
+      const response = await fetch('/api/categories')
+      if (response.ok) {
+        const data = await response.json()
+        setCategories(data)
+      }
+    } catch (error) {
+      console.error('Error fetching categories:', error)
+    }
+  }
+
+  useEffect(() => {
+    Promise.all([fetchSettings(), fetchTaxRates(), fetchCategories(), fetchBarcodeRules(), fetchOutlets()])
+      .finally(() => setLoading(false))
+  }, [])
+
+  useEffect(() => {
+    if (!isAdmin) return
+
+    fetch('/api/users')
+      .then(response => response.ok ? response.json() : [])
+      .then(setStaff)
+      .catch(error => console.error('Error fetching users:', error))
+  }, [isAdmin])
+
+  const saveSettings = async () => {
+    if (!settings) return
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          pricesIncludeTax: settings.pricesIncludeTax,
+          defaultTaxRateId: settings.defaultTaxRateId,
+          cashRounding: settings.cashRounding,
+          loyaltyEnabled: settings.loyaltyEnabled,
+          loyaltySpendPerPoint: settings.loyaltySpendPerPoint,
+          loyaltyPointValue: settings.loyaltyPointValue,
+          loyaltyPointsExpireDays: settings.loyaltyPointsExpireDays,
+          transactionNumberFormat: settings.transactionNumberFormat,
+          timeZone: settings.timeZone,
+        }),
+      })
+
+      if (response.ok) {
+        setSettings(await response.json())
+        alert('Settings saved successfully!')
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error saving settings:', error)
+      alert('Error saving settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addTaxRate = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const response = await fetch('/api/tax-rates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newTaxRate),
+      })
+
+      if (response.ok) {
+        setNewTaxRate({ name: '', rate: '' })
+        fetchTaxRates()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error creating tax rate:', error)
+      alert('Error creating tax rate')
+    }
+  }
+
+  const toggleTaxRate = async (taxRate: TaxRate) => {
+    try {
+      const response = await fetch(`/api/tax-rates/${taxRate.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive: !taxRate.isActive }),
+      })
+
+      if (response.ok) {
+        fetchTaxRates()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating tax rate:', error)
+      alert('Error updating tax rate')
+    }
+  }
+
+  const deleteTaxRate = async (taxRate: TaxRate) => {
+    if (!confirm(`Are you sure you want to delete ${taxRate.name}? Products and categories using it will fall back to the default rate.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/tax-rates/${taxRate.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        fetchTaxRates()
+        fetchSettings()
+        fetchCategories()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error deleting tax rate:', error)
+      alert('Error deleting tax rate')
+    }
+  }
+
+  const addBarcodeRule = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const response = await fetch('/api/barcode-rules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newBarcodeRule),
+      })
+
+      if (response.ok) {
+        setNewBarcodeRule(EMPTY_BARCODE_RULE)
+        fetchBarcodeRules()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error creating barcode rule:', error)
+      alert('Error creating barcode rule')
+    }
+  }
+
+  const toggleBarcodeRule = async (rule: BarcodeRule) => {
+    try {
+      const response = await fetch(`/api/barcode-rules/${rule.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive: !rule.isActive }),
+      })
+
+      if (response.ok) {
+        fetchBarcodeRules()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating barcode rule:', error)
+      alert('Error updating barcode rule')
+    }
+  }
+
+  const deleteBarcodeRule = async (rule: BarcodeRule) => {
+    if (!confirm(`Are you sure you want to delete ${rule.name}? Labels starting with ${rule.prefix} will no longer scan.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/barcode-rules/${rule.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        fetchBarcodeRules()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error deleting barcode rule:', error)
+      alert('Error deleting barcode rule')
+    }
+  }
+
+  const addOutlet = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const response = await fetch('/api/outlets', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newOutlet),
+      })
+
+      if (response.ok) {
+        setNewOutlet(EMPTY_OUTLET)
+        fetchOutlets()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error creating outlet:', error)
+      alert('Error creating outlet')
+    }
+  }
+
+  const updateOutlet = async (outlet: Outlet, changes: { isActive?: boolean; userIds?: string[] }) => {
+    try {
+      const response = await fetch(`/api/outlets/${outlet.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      })
+
+      if (response.ok) {
+        fetchOutlets()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating outlet:', error)
+      alert('Error updating outlet')
+    }
+  }
+
+  const toggleOutletStaff = (outlet: Outlet, userId: string) => {
+    const userIds = (outlet.users ?? []).map(user => user.id)
+    updateOutlet(outlet, {
+      userIds: userIds.includes(userId) ? userIds.filter(id => id !== userId) : [...userIds, userId]
+    })
+  }
+
+  const updateCategoryTax = async (category: Category, taxClass: string, taxRateId: string | null) => {
+    try {
+      const response = await fetch(`/api/categories/${category.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          taxClass: taxClass || null,
+          taxRateId: taxClass === 'CUSTOM' ? taxRateId : null,
+        }),
+      })
+
+      if (response.ok) {
+        fetchCategories()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating category:', error)
+      alert('Error updating category')
+    }
+  }
+
+  const updateCategoryMultiplier = async (category: Category, value: string) => {
+    if (Number(value) === Number(category.loyaltyMultiplier)) return
+
+    try {
+      const response = await fetch(`/api/categories/${category.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ loyaltyMultiplier: value }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+      fetchCategories()
+    } catch (error) {
+      console.error('Error updating category:', error)
+      alert('Error updating category')
+    }
+  }
+
+  const updateCategoryStation = async (category: Category, kitchenStation: string) => {
+    try {
+      const response = await fetch(`/api/categories/${category.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ kitchenStation: kitchenStation || null }),
+      })
+
+      if (response.ok) {
+        fetchCategories()
+      } else {
+        const error = await response.json()
+        alert(`Error: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating category:', error)
+      alert('Error updating category')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+      </div>
+
+      {!canManage && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm">
+          Only managers and administrators can change store settings.
+        </div>
+      )}
+
+      {/* Tax Settings */}
+      {settings && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Tax</h2>
+          <div className="space-y-4">
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={settings.pricesIncludeTax}
+                disabled={!canManage}
+                onChange={(e) => setSettings({ ...settings, pricesIncludeTax: e.target.checked })}
+                className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700">
+                Product prices include tax
+                <span className="block text-xs text-gray-500">
+                  When enabled, tax is extracted from the shelf price instead of being added on top.
+                </span>
+              </span>
+            </label>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Default tax rate</label>
+              <select
+                value={settings.defaultTaxRateId || ''}
+                disabled={!canManage}
+                onChange={(e) => setSettings({ ...settings, defaultTaxRateId: e.target.value || null })}
+                className="mt-1 block w-full md:w-1/2 border border-gray-300 rounded-md px-3 py-2"
+              >
+                <option value="">No tax</option>
+                {taxRates.filter(rate => rate.isActive).map((rate) => (
+                  <option key={rate.id} value={rate.id}>
+                    {rate.name} ({Number(rate.rate)}%)
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Applied to taxable products that don&apos;t have a custom rate.
+              </p>
+            </div>
+
+            {canManage && (
+              <button
+                onClick={saveSettings}
+                disabled={saving}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Settings'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Cash Handling */}
+      {settings && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Cash Handling</h2>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Cash rounding</label>
+              <select
+                value={settings.cashRounding}
+                disabled={!canManage}
+                onChange={(e) => setSettings({ ...settings, cashRounding: Number(e.target.value) })}
+                className="mt-1 block w-full md:w-1/2 border border-gray-300 rounded-md px-3 py-2"
+              >
+                <option value={0}>No rounding</option>
+                <option value={100}>Nearest Rp 100</option>
+                <option value={500}>Nearest Rp 500</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                All-cash sales are rounded so the till never needs smaller change. The rounding is shown on the receipt.
+              </p>
+            </div>
+
+            {canManage && (
+              <button
+                onClick={saveSettings}
+                disabled={saving}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Settings'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Transaction Numbers */}
+      {settings && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Transaction Numbers</h2>
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Format</label>
+                <input
+                  type="text"
+                  maxLength={40}
+                  value={settings.transactionNumberFormat}
+                  disabled={!canManage}
+                  onChange={(e) => setSettings({ ...settings, transactionNumberFormat: e.target.value })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 font-mono"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Time zone</label>
+                <select
+                  value={settings.timeZone}
+                  disabled={!canManage}
+                  onChange={(e) => setSettings({ ...settings, timeZone: e.target.value })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                >
+                  {!STORE_TIME_ZONES.some(zone => zone.value === settings.timeZone) && (
+                    <option value={settings.timeZone}>{settings.timeZone}</option>
+                  )}
+                  {STORE_TIME_ZONES.map(zone => (
+                    <option key={zone.value} value={zone.value}>{zone.label}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Promotion days and hours are read on this clock too.
+                </p>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Use {'{store}'} (the outlet&apos;s code), {'{date}'} and {'{seq}'}; each outlet starts again at 0001 every day, from midnight in the store&apos;s time zone. Next sale today looks like{' '}
+              <span className="font-mono text-gray-700">
+                {formatTransactionNumber(settings.transactionNumberFormat, outlets[0]?.code ?? 'TK01', formatSequenceDate(new Date(), settings.timeZone), 1)}
+              </span>
+              . Sales already recorded keep their numbers.
+            </p>
+
+            {canManage && (
+              <button
+                onClick={saveSettings}
+                disabled={saving}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Settings'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Loyalty */}
+      {settings && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Loyalty Points</h2>
+          <div className="space-y-4">
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={settings.loyaltyEnabled}
+                disabled={!canManage}
+                onChange={(e) => setSettings({ ...settings, loyaltyEnabled: e.target.checked })}
+                className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700">
+                Customers earn and redeem points
+                <span className="block text-xs text-gray-500">
+                  Points are credited once a sale is paid and taken back when it is refunded.
+                </span>
+              </span>
+            </label>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Spend per point (Rp)</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={settings.loyaltySpendPerPoint}
+                  disabled={!canManage}
+                  onChange={(e) => setSettings({ ...settings, loyaltySpendPerPoint: Number(e.target.value) })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Value of one point (Rp)</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={settings.loyaltyPointValue}
+                  disabled={!canManage}
+                  onChange={(e) => setSettings({ ...settings, loyaltyPointValue: Number(e.target.value) })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Points expire after (days)</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  placeholder="Never"
+                  value={settings.loyaltyPointsExpireDays ?? ''}
+                  disabled={!canManage}
+                  onChange={(e) => setSettings({ ...settings, loyaltyPointsExpireDays: e.target.value ? Number(e.target.value) : null })}
+                  className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Points Multiplier</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {categories.map((category) => (
+                    <tr key={category.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{category.name}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <input
+                          key={String(category.loyaltyMultiplier)}
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.5"
+                          defaultValue={Number(category.loyaltyMultiplier)}
+                          disabled={!canManage}
+                          onBlur={(e) => updateCategoryMultiplier(category, e.target.value)}
+                          className="w-24 border border-gray-300 rounded-md px-3 py-1"
+                        />
+                        <span className="ml-2 text-xs text-gray-500">× points (0 = earns nothing)</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {canManage && (
+              <button
+                onClick={saveSettings}
+                disabled={saving}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Settings'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Tax Rates */}
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Tax Rates</h2>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                {canManage && (
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {taxRates.map((rate) => (
+                <tr key={rate.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{rate.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{Number(rate.rate)}%</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      rate.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {rate.isActive ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  {canManage && (
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => toggleTaxRate(rate)}
+                        className="text-indigo-600 hover:text-indigo-900 mr-4"
+                      >
+                        {rate.isActive ? 'Deactivate' : 'Activate'}
+                      </button>
+                      <button
+                        onClick={() => deleteTaxRate(rate)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+              {taxRates.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No tax rates configured.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {canManage && (
+          <form onSubmit={addTaxRate} className="mt-4 flex flex-wrap gap-3 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                required
+                placeholder="PPN"
+                value={newTaxRate.name}
+                onChange={(e) => setNewTaxRate({ ...newTaxRate, name: e.target.value })}
+                className="mt-1 block border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Rate (%)</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                required
+                placeholder="11"
+                value={newTaxRate.rate}
+                onChange={(e) => setNewTaxRate({ ...newTaxRate, rate: e.target.value })}
+                className="mt-1 block w-28 border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <button
+              type="submit"
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium"
+            >
+              Add Tax Rate
+            </button>
+          </form>
+        )}
+      </div>
+
+      {/* Outlets */}
+      {isAdmin && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Outlets</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Each outlet keeps its own stock. Staff only see and sell at the outlets they are assigned to.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Staff</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {outlets.map((outlet) => (
+                  <tr key={outlet.id}>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-gray-900">{outlet.name}</div>
+                      {outlet.address && <div className="text-gray-500">{outlet.address}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">{outlet.code}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      <div className="flex flex-wrap gap-x-4 gap-y-1">
+                        {staff.filter(member => member.role !== 'ADMIN').map((member) => (
+                          <label key={member.id} className="inline-flex items-center">
+                            <input
+                              type="checkbox"
+                              checked={(outlet.users ?? []).some(user => user.id === member.id)}
+                              onChange={() => toggleOutletStaff(outlet, member.id)}
+                              className="mr-1"
+                            />
+                            {member.name}
+                          </label>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        outlet.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {outlet.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => updateOutlet(outlet, { isActive: !outlet.isActive })}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        {outlet.isActive ? 'Deactivate' : 'Activate'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <form onSubmit={addOutlet} className="mt-4 flex flex-wrap gap-3 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                required
+                placeholder="Branch Store"
+                value={newOutlet.name}
+                onChange={(e) => setNewOutlet({ ...newOutlet, name: e.target.value })}
+                className="mt-1 block border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Code</label>
+              <input
+                type="text"
+                required
+                maxLength={10}
+                placeholder="TK02"
+                value={newOutlet.code}
+                onChange={(e) => setNewOutlet({ ...newOutlet, code: e.target.value.toUpperCase() })}
+                className="mt-1 block w-28 border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Address</label>
+              <input
+                type="text"
+                value={newOutlet.address}
+                onChange={(e) => setNewOutlet({ ...newOutlet, address: e.target.value })}
+                className="mt-1 block w-64 border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <button
+              type="submit"
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium"
+            >
+              Add Outlet
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Scale Barcodes */}
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Scale Barcodes</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Labels printed by the scale start with a prefix, followed by the product&apos;s PLU and its weight or price.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Prefix</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">PLU Digits</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                {canManage && (
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {barcodeRules.map((rule) => (
+                <tr key={rule.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{rule.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">{rule.prefix}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{rule.pluLength}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {rule.valueType === 'WEIGHT' ? 'Weight (kg)' : 'Price (Rp)'}, {rule.valueLength} digits, {rule.valueDecimals} decimals
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      rule.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}>
+                      {rule.isActive ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  {canManage && (
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => toggleBarcodeRule(rule)}
+                        className="text-indigo-600 hover:text-indigo-900 mr-4"
+                      >
+                        {rule.isActive ? 'Deactivate' : 'Activate'}
+                      </button>
+                      <button
+                        onClick={() => deleteBarcodeRule(rule)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+              {barcodeRules.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No scale barcodes configured.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {canManage && (
+          <form onSubmit={addBarcodeRule} className="mt-4 flex flex-wrap gap-3 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                required
+                placeholder="Deli scale"
+                value={newBarcodeRule.name}
+                onChange={(e) => setNewBarcodeRule({ ...newBarcodeRule, name: e.target.value })}
+                className="mt-1 block border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Prefix</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                required
+                maxLength={3}
+                placeholder="20"
+                value={newBarcodeRule.prefix}
+                onChange={(e) => setNewBarcodeRule({ ...newBarcodeRule, prefix: e.target.value })}
+                className="mt-1 block w-20 border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">PLU Digits</label>
+              <input
+                type="number"
+                min="1"
+                required
+                value={newBarcodeRule.pluLength}
+                onChange={(e) => setNewBarcodeRule({ ...newBarcodeRule, pluLength: e.target.value })}
+                className="mt-1 block w-20 border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Value</label>
+              <select
+                value={newBarcodeRule.valueType}
+                onChange={(e) => setNewBarcodeRule({
+                  ...newBarcodeRule,
+                  valueType: e.target.value,
+                  valueDecimals: e.target.value === 'WEIGHT' ? '3' : '0'
+                })}
+                className="mt-1 block border border-gray-300 rounded-md px-3 py-2"
+              >
+                <option value="WEIGHT">Weight (kg)</option>
+                <option value="PRICE">Price (Rp)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Value Digits</label>
+              <input
+                type="number"
+                min="1"
+                required
+                value={newBarcodeRule.valueLength}
+                onChange={(e) => setNewBarcodeRule({ ...newBarcodeRule, valueLength: e.target.value })}
+                className="mt-1 block w-20 border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Decimals</label>
+              <input
+                type="number"
+                min="0"
+                required
+                value={newBarcodeRule.valueDecimals}
+                onChange={(e) => setNewBarcodeRule({ ...newBarcodeRule, valueDecimals: e.target.value })}
+                className="mt-1 block w-20 border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+            <button
+              type="submit"
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium"
+            >
+              Add Scale Barcode
+            </button>
+          </form>
+        )}
+      </div>
+
+      {/* Category Tax Classes */}
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Category Tax</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Products inherit their category&apos;s tax class unless they set their own.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tax Class</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Custom Rate</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {categories.map((category) => (
+                <tr key={category.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{category.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <select
+                      value={category.taxClass || ''}
+                      disabled={!canManage}
+                      onChange={(e) => updateCategoryTax(category, e.target.value, category.taxRateId)}
+                      className="border border-gray-300 rounded-md px-3 py-1"
+                    >
+                      <option value="">Taxable (default)</option>
+                      <option value="TAXABLE">Taxable</option>
+                      <option value="EXEMPT">Exempt</option>
+                      <option value="CUSTOM">Custom rate</option>
+                    </select>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {category.taxClass === 'CUSTOM' ? (
+                      <select
+                        value={category.taxRateId || ''}
+                        disabled={!canManage}
+                        onChange={(e) => updateCategoryTax(category, 'CUSTOM', e.target.value || null)}
+                        className="border border-gray-300 rounded-md px-3 py-1"
+                      >
+                        <option value="">Store default</option>
+                        {taxRates.filter(rate => rate.isActive).map((rate) => (
+                          <option key={rate.id} value={rate.id}>
+                            {rate.name} ({Number(rate.rate)}%)
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-gray-400">-</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Kitchen Stations */}
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Kitchen Stations</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Paid orders are sent to the kitchen display by category. Items from categories without a station are handed over at the till.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Station</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {categories.map((category) => (
+                <tr key={category.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{category.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <select
+                      value={category.kitchenStation || ''}
+                      disabled={!canManage}
+                      onChange={(e) => updateCategoryStation(category, e.target.value)}
+                      className="border border-gray-300 rounded-md px-3 py-1"
+                    >
+                      <option value="">None (handed over at the till)</option>
+                      <option value="KITCHEN">Kitchen</option>
+                      <option value="BAR">Bar</option>
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,608 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+
+// Rupiah notes and coins, largest first (matches CASH_DENOMINATIONS in lib/shifts)
+const DENOMINATIONS = [100000, 50000, 20000, 10000, 5000, 2000, 1000, 500, 200, 100]
+
+interface CashMovement {
+  id: string
+  type: 'CASH_IN' | 'CASH_OUT'
+  amount: number
+  reason: string
+  createdAt: string
+  user: {
+    name: string
+  }
+}
+
+interface ShiftSummary {
+  sales: {
+    count: number
+    finalAmount: number
+  }
+  paymentMethods: Array<{
+    method: string
+    count: number
+    amount: number
+  }>
+  items: {
+    quantity: number
+  }
+  voids: {
+    count: number
+    amount: number
+  }
+  refunds: {
+    count: number
+    amount: number
+  }
+  cash: {
+    openingFloat: number
+    cashSales: number
+    cashIn: number
+    cashOut: number
+    cashRefunds: number
+    expectedCash: number
+    countedCash: number | null
+    variance: number | null
+  }
+}
+
+interface ShiftDetail {
+  id: string
+  status: 'OPEN' | 'CLOSED'
+  openedAt: string
+  cashier: {
+    id: string
+    name: string
+  }
+  cashMovements: CashMovement[]
+  summary: ShiftSummary
+}
+
+interface ShiftListItem {
+  id: string
+  status: 'OPEN' | 'CLOSED'
+  openingFloat: number
+  openedAt: string
+  closedAt: string | null
+  expectedCash: number | null
+  countedCash: number | null
+  variance: number | null
+  cashier: {
+    id: string
+    name: string
+  }
+  closer: {
+    name: string
+  } | null
+  _count: {
+    transactions: number
+  }
+}
+
+export default function ShiftsPage() {
+  const { data: session } = useSession()
+  const [currentShift, setCurrentShift] = useState<ShiftDetail | null>(null)
+  const [shifts, setShifts] = useState<ShiftListItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [page, setPage] = useState(1)
+  const [pages, setPages] = useState(1)
+  const [statusFilter, setStatusFilter] = useState('')
+  const [openingFloat, setOpeningFloat] = useState('')
+  const [movementForm, setMovementForm] = useState({ type: 'CASH_IN', amount: '', reason: '' })
+  const [closingShift, setClosingShift] = useState<ShiftDetail | null>(null)
+  const [counts, setCounts] = useState<Record<number, string>>({})
+  const [closingNotes, setClosingNotes] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const canManage = session?.user?.role === 'ADMIN' || session?.user?.role === 'MANAGER'
+
+  const fetchCurrentShift = useCallback(async () => {
+    try {
+      const response = await fetch('/api/shifts/current')
+      if (response.ok) {
+        setCurrentShift(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching current shift:', error)
+    }
+  }, [])
+
+  const fetchShifts = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: '20' })
+      if (statusFilter) params.set('status', statusFilter)
+
+      const response = await fetch(`/api/shifts?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setShifts(data.shifts)
+        setPages(Math.max(data.pagination.pages, 1))
+      }
+    } catch (error) {
+      console.error('Error fetching shifts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [page, statusFilter])
+
+  useEffect(() => {
+    fetchCurrentShift()
+  }, [fetchCurrentShift])
+
+  useEffect(() => {
+    fetchShifts()
+  }, [fetchShifts])
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(amount)
+  }
+
+  const refresh = () => {
+    fetchCurrentShift()
+    fetchShifts()
+  }
+
+  const openShift = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const response = await fetch('/api/shifts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ openingFloat: Number(openingFloat) || 0 }),
+      })
+
+      if (response.ok) {
+        setOpeningFloat('')
+        refresh()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error opening shift:', error)
+      alert('Error opening shift')
+    }
+  }
+
+  const recordMovement = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!currentShift) return
+
+    try {
+      const response = await fetch(`/api/shifts/${currentShift.id}/cash-movements`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          type: movementForm.type,
+          amount: Number(movementForm.amount),
+          reason: movementForm.reason,
+        }),
+      })
+
+      if (response.ok) {
+        setMovementForm({ type: movementForm.type, amount: '', reason: '' })
+        fetchCurrentShift()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error recording cash movement:', error)
+      alert('Error recording cash movement')
+    }
+  }
+
+  const startClosing = async (shiftId: string) => {
+    try {
+      const response = await fetch(`/api/shifts/${shiftId}`)
+      if (response.ok) {
+        setClosingShift(await response.json())
+        setCounts({})
+        setClosingNotes('')
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error fetching shift:', error)
+      alert('Error fetching shift')
+    }
+  }
+
+  const countedTotal = DENOMINATIONS.reduce(
+    (sum, denomination) => sum + denomination * (Number(counts[denomination]) || 0),
+    0
+  )
+
+  const closeShift = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!closingShift) return
+
+    const variance = countedTotal - closingShift.summary.cash.expectedCash
+    if (variance !== 0 && !confirm(`The drawer is ${variance > 0 ? 'over' : 'short'} by ${formatCurrency(Math.abs(variance))}. Close the shift anyway?`)) {
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const response = await fetch(`/api/shifts/${closingShift.id}/close`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          denominations: Object.fromEntries(
+            DENOMINATIONS.map(denomination => [denomination, Number(counts[denomination]) || 0])
+          ),
+          notes: closingNotes,
+        }),
+      })
+
+      if (response.ok) {
+        const closed = await response.json()
+        setClosingShift(null)
+        refresh()
+        window.open(`/api/shifts/${closed.id}/report`, '_blank')
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error closing shift:', error)
+      alert('Error closing shift')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Shifts</h1>
+      </div>
+
+      {/* Current Shift */}
+      <div className="bg-white shadow rounded-lg p-6">
+        {!currentShift ? (
+          <form onSubmit={openShift} className="flex flex-wrap items-end gap-4">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">No open shift</h2>
+              <p className="text-sm text-gray-500">Count the float into the drawer, then open your shift.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Opening Float</label>
+              <input
+                type="number"
+                min="0"
+                step="100"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                placeholder="0"
+                className="mt-1 block w-48 rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2"
+              />
+            </div>
+            <button
+              type="submit"
+              className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md font-medium"
+            >
+              Open Shift
+            </button>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-between items-start">
+              <div>
+                <h2 className="text-lg font-medium text-gray-900">Current Shift</h2>
+                <p className="text-sm text-gray-500">Opened {new Date(currentShift.openedAt).toLocaleString('id-ID')}</p>
+              </div>
+              <div className="flex gap-2">
+                <a
+                  href={`/api/shifts/${currentShift.id}/report`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  X-Report
+                </a>
+                <button
+                  onClick={() => startClosing(currentShift.id)}
+                  className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+                >
+                  Close Shift
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-gray-50 rounded-md p-3">
+                <p className="text-xs text-gray-500">Sales</p>
+                <p className="text-lg font-semibold">{formatCurrency(currentShift.summary.sales.finalAmount)}</p>
+                <p className="text-xs text-gray-500">{currentShift.summary.sales.count} transactions · {currentShift.summary.items.quantity} items</p>
+              </div>
+              <div className="bg-gray-50 rounded-md p-3">
+                <p className="text-xs text-gray-500">Opening Float</p>
+                <p className="text-lg font-semibold">{formatCurrency(currentShift.summary.cash.openingFloat)}</p>
+              </div>
+              <div className="bg-gray-50 rounded-md p-3">
+                <p className="text-xs text-gray-500">Cash Sales</p>
+                <p className="text-lg font-semibold">{formatCurrency(currentShift.summary.cash.cashSales)}</p>
+                {currentShift.summary.cash.cashRefunds > 0 && (
+                  <p className="text-xs text-red-600">Refunded {formatCurrency(currentShift.summary.cash.cashRefunds)}</p>
+                )}
+              </div>
+              <div className="bg-indigo-50 rounded-md p-3">
+                <p className="text-xs text-indigo-700">Expected in Drawer</p>
+                <p className="text-lg font-semibold text-indigo-700">{formatCurrency(currentShift.summary.cash.expectedCash)}</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <form onSubmit={recordMovement} className="space-y-3">
+                <h3 className="text-sm font-medium text-gray-900">Cash In / Out</h3>
+                <div className="flex gap-2">
+                  <select
+                    value={movementForm.type}
+                    onChange={(e) => setMovementForm({ ...movementForm, type: e.target.value })}
+                    className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  >
+                    <option value="CASH_IN">Cash In</option>
+                    <option value="CASH_OUT">Cash Out</option>
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    step="100"
+                    required
+                    value={movementForm.amount}
+                    onChange={(e) => setMovementForm({ ...movementForm, amount: e.target.value })}
+                    placeholder="Amount"
+                    className="w-36 rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  />
+                </div>
+                <input
+                  type="text"
+                  required
+                  value={movementForm.reason}
+                  onChange={(e) => setMovementForm({ ...movementForm, reason: e.target.value })}
+                  placeholder="Reason (e.g. change top-up, petty cash)"
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                />
+                <button
+                  type="submit"
+                  className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+                >
+                  Record
+                </button>
+              </form>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">Movements</h3>
+                {currentShift.cashMovements.length === 0 ? (
+                  <p className="text-sm text-gray-500">No cash movements yet</p>
+                ) : (
+                  <div className="space-y-1 max-h-48 overflow-y-auto">
+                    {currentShift.cashMovements.map((movement) => (
+                      <div key={movement.id} className="flex justify-between text-sm">
+                        <span className="text-gray-700">
+                          {new Date(movement.createdAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })} · {movement.reason}
+                        </span>
+                        <span className={movement.type === 'CASH_IN' ? 'text-green-600' : 'text-red-600'}>
+                          {movement.type === 'CASH_IN' ? '+' : '-'}{formatCurrency(Number(movement.amount))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Shift History */}
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        <div className="flex justify-between items-center px-4 py-3 border-b">
+          <h2 className="text-lg font-medium text-gray-900">{canManage ? 'Shift History' : 'My Shifts'}</h2>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value)
+              setPage(1)
+            }}
+            className="rounded-md border border-gray-300 px-3 py-1 text-sm"
+          >
+            <option value="">All</option>
+            <option value="OPEN">Open</option>
+            <option value="CLOSED">Closed</option>
+          </select>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cashier</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Opened</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Closed</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sales</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {shifts.map((shift) => (
+              <tr key={shift.id} className="hover:bg-gray-50">
+                <td className="px-3 py-2 text-sm text-gray-900">{shift.cashier.name}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">{new Date(shift.openedAt).toLocaleString('id-ID')}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">
+                  {shift.closedAt ? (
+                    <>
+                      <div>{new Date(shift.closedAt).toLocaleString('id-ID')}</div>
+                      {shift.closer && <div className="text-xs text-gray-500">by {shift.closer.name}</div>}
+                    </>
+                  ) : (
+                    <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">Open</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-sm text-gray-900">{shift._count.transactions}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">{shift.expectedCash !== null ? formatCurrency(Number(shift.expectedCash)) : '-'}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">{shift.countedCash !== null ? formatCurrency(Number(shift.countedCash)) : '-'}</td>
+                <td className={`px-3 py-2 text-sm font-medium ${
+                  shift.variance === null || Number(shift.variance) === 0
+                    ? 'text-gray-900'
+                    : Number(shift.variance) > 0 ? 'text-green-600' : 'text-red-600'
+                }`}>
+                  {shift.variance !== null ? formatCurrency(Number(shift.variance)) : '-'}
+                </td>
+                <td className="px-3 py-2 text-right text-sm font-medium">
+                  <div className="flex justify-end gap-1">
+                    <a
+                      href={`/api/shifts/${shift.id}/report`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="px-2 py-1 border border-gray-300 text-xs font-medium rounded text-gray-700 hover:bg-gray-50"
+                    >
+                      {shift.status === 'CLOSED' ? 'Z-Report' : 'X-Report'}
+                    </a>
+                    {shift.status === 'OPEN' && canManage && shift.cashier.id !== session?.user?.id && (
+                      <button
+                        onClick={() => startClosing(shift.id)}
+                        className="px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-red-600 hover:bg-red-700"
+                      >
+                        Close
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {shifts.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No shifts found.</p>
+          </div>
+        )}
+
+        {pages > 1 && (
+          <div className="flex justify-between items-center px-4 py-3 border-t">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">Page {page} of {pages}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pages}
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Close Shift Modal */}
+      {closingShift && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-full max-w-md shadow-lg rounded-md bg-white mb-10">
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Close Shift</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              {closingShift.cashier.name} · opened {new Date(closingShift.openedAt).toLocaleString('id-ID')}
+            </p>
+
+            <form onSubmit={closeShift} className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                {DENOMINATIONS.map((denomination) => (
+                  <label key={denomination} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="text-gray-700">{formatCurrency(denomination)}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={counts[denomination] ?? ''}
+                      onChange={(e) => setCounts({ ...counts, [denomination]: e.target.value })}
+                      placeholder="0"
+                      className="w-20 rounded-md border border-gray-300 px-2 py-1 text-right"
+                    />
+                  </label>
+                ))}
+              </div>
+
+              <div className="bg-gray-50 rounded-md px-3 py-2 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Expected:</span>
+                  <span>{formatCurrency(closingShift.summary.cash.expectedCash)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Counted:</span>
+                  <span>{formatCurrency(countedTotal)}</span>
+                </div>
+                <div className={`flex justify-between font-semibold ${
+                  countedTotal === closingShift.summary.cash.expectedCash
+                    ? 'text-gray-900'
+                    : countedTotal > closingShift.summary.cash.expectedCash ? 'text-green-600' : 'text-red-600'
+                }`}>
+                  <span>Variance:</span>
+                  <span>{formatCurrency(countedTotal - closingShift.summary.cash.expectedCash)}</span>
+                </div>
+              </div>
+
+              <textarea
+                value={closingNotes}
+                onChange={(e) => setClosingNotes(e.target.value)}
+                placeholder="Notes (optional, e.g. reason for a variance)"
+                rows={2}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setClosingShift(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="px-4 py-2 bg-red-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+                >
+                  {submitting ? 'Closing...' : 'Close Shift'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
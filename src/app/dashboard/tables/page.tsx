@@ -0,0 +1,306 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { FLOOR_COLUMNS, FLOOR_ROWS } from '@/lib/orderTypes'
+
+interface DiningTable {
+  id: string
+  name: string
+  area: string | null
+  seats: number
+  posX: number
+  posY: number
+  isActive: boolean
+  tabs: Array<{
+    id: string
+    label: string
+  }>
+}
+
+const emptyForm = {
+  name: '',
+  area: '',
+  seats: '4',
+  posX: 0,
+  posY: 0,
+}
+
+export default function TablesPage() {
+  const { data: session } = useSession()
+  const [tables, setTables] = useState<DiningTable[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedTable, setSelectedTable] = useState<DiningTable | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [showForm, setShowForm] = useState(false)
+
+  const canManage = session?.user?.role === 'ADMIN' || session?.user?.role === 'MANAGER'
+
+  const fetchTables = async () => {
+    try {
+      const response = await fetch('/api/tables?all=true')
+      if (response.ok) {
+        const data = await response.json()
+        setTables(data)
+      }
+    } catch (error) {
+      console.error('Error fetching tables:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchTables()
+  }, [])
+
+  const activeTables = tables.filter(table => table.isActive)
+  const inactiveTables = tables.filter(table => !table.isActive)
+
+  const saveTable = async (id: string | null, data: Record<string, unknown>) => {
+    try {
+      const response = await fetch(id ? `/api/tables/${id}` : '/api/tables', {
+        method: id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(data),
+      })
+
+      if (response.ok) {
+        fetchTables()
+        return true
+      }
+
+      const error = await response.json()
+      alert(error.error)
+    } catch (error) {
+      console.error('Error saving table:', error)
+      alert('Error saving table')
+    }
+    return false
+  }
+
+  const selectTable = (table: DiningTable) => {
+    setSelectedTable(table)
+    setFormData({
+      name: table.name,
+      area: table.area || '',
+      seats: table.seats.toString(),
+      posX: table.posX,
+      posY: table.posY,
+    })
+    setShowForm(true)
+  }
+
+  // An empty cell moves the selected table there, or starts a new table in it
+  const clickEmptyCell = async (posX: number, posY: number) => {
+    if (!canManage) return
+
+    if (selectedTable) {
+      if (await saveTable(selectedTable.id, { posX, posY })) {
+        setSelectedTable({ ...selectedTable, posX, posY })
+        setFormData({ ...formData, posX, posY })
+      }
+      return
+    }
+
+    setFormData({ ...emptyForm, posX, posY })
+    setShowForm(true)
+  }
+
+  const closeForm = () => {
+    setShowForm(false)
+    setSelectedTable(null)
+    setFormData(emptyForm)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (await saveTable(selectedTable?.id ?? null, formData)) {
+      closeForm()
+    }
+  }
+
+  const handleDelete = async (table: DiningTable) => {
+    if (!confirm(`Remove table ${table.name}? Tables with past orders are deactivated instead.`)) return
+
+    try {
+      const response = await fetch(`/api/tables/${table.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        closeForm()
+        fetchTables()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error deleting table:', error)
+      alert('Error deleting table')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  const inputClass = 'mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-3 py-2'
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Tables</h1>
+        <span className="text-sm text-gray-500">
+          {activeTables.length} tables · {activeTables.filter(table => table.tabs.length > 0).length} occupied
+        </span>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        {canManage
+          ? 'Click an empty spot to add a table there. Select a table to edit it, then click an empty spot to move it.'
+          : 'Tables with an open tab are shown in red.'}
+      </p>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Floor Plan */}
+        <div className="flex-1 bg-white rounded-lg shadow p-4">
+          <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${FLOOR_COLUMNS}, minmax(0, 1fr))` }}>
+            {Array.from({ length: FLOOR_COLUMNS * FLOOR_ROWS }, (_, cell) => {
+              const posX = cell % FLOOR_COLUMNS
+              const posY = Math.floor(cell / FLOOR_COLUMNS)
+              const table = activeTables.find(t => t.posX === posX && t.posY === posY)
+
+              if (!table) {
+                return (
+                  <button
+                    key={cell}
+                    onClick={() => clickEmptyCell(posX, posY)}
+                    disabled={!canManage}
+                    className="aspect-square rounded-md border-2 border-dashed border-gray-200 hover:border-indigo-300 disabled:hover:border-gray-200"
+                  />
+                )
+              }
+
+              const occupied = table.tabs.length > 0
+              return (
+                <button
+                  key={cell}
+                  onClick={() => canManage && selectTable(table)}
+                  className={`aspect-square rounded-md border-2 text-sm font-medium flex flex-col items-center justify-center ${
+                    occupied
+                      ? 'border-red-400 bg-red-50 text-red-800'
+                      : 'border-green-400 bg-green-50 text-green-800'
+                  } ${selectedTable?.id === table.id ? 'ring-2 ring-indigo-500' : ''}`}
+                >
+                  <span>{table.name}</span>
+                  <span className="text-xs truncate max-w-full px-1">
+                    {occupied ? table.tabs[0].label : `${table.seats} seats`}
+                  </span>
+                </button>
+              )
+            })}
+          </div>
+        </div>
+
+        {/* Table Form */}
+        {showForm && canManage && (
+          <form onSubmit={handleSubmit} className="w-full lg:w-80 bg-white rounded-lg shadow p-4 space-y-4 self-start">
+            <h3 className="text-lg font-medium text-gray-900">
+              {selectedTable ? `Table ${selectedTable.name}` : 'Add Table'}
+            </h3>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. 12"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Area</label>
+              <input
+                type="text"
+                value={formData.area}
+                onChange={(e) => setFormData({ ...formData, area: e.target.value })}
+                placeholder="e.g. Terrace"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Seats</label>
+              <input
+                type="number"
+                min="1"
+                required
+                value={formData.seats}
+                onChange={(e) => setFormData({ ...formData, seats: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              Position: column {formData.posX + 1}, row {formData.posY + 1}
+            </p>
+
+            <div className="flex justify-between pt-2">
+              {selectedTable ? (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(selectedTable)}
+                  className="px-4 py-2 text-sm font-medium text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              ) : <span />}
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-indigo-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-indigo-700"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </form>
+        )}
+      </div>
+
+      {/* Inactive Tables */}
+      {canManage && inactiveTables.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-4">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Out of Service</h3>
+          <div className="flex flex-wrap gap-2">
+            {inactiveTables.map((table) => (
+              <button
+                key={table.id}
+                onClick={() => saveTable(table.id, { isActive: true })}
+                title="Put back on the floor plan"
+                className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+              >
+                {table.name} ↺
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,7 +2,9 @@
 
 import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
+import Link from 'next/link'
 import ReceiptPreview from '@/components/ReceiptPreview'
+import { formatQuantity, roundQuantity } from '@/lib/scaleBarcodes'
 
 interface Transaction {
   id: string
@@ -11,28 +13,79 @@ interface Transaction {
   taxAmount: number
   discountAmount: number
   finalAmount: number
+  refundedAmount: number
+  loyaltyPointsEarned: number
+  loyaltyPointsRedeemed: number
+  loyaltyDiscount: number
+  note: string | null
   paymentMethod: string
   paymentStatus: string
+  payments: Array<{
+    id: string
+    method: string
+    amount: number
+    status: string
+  }>
   createdAt: string
   cashier: {
     id: string
     name: string
   }
+  customer: {
+    id: string
+    name: string
+    loyaltyPoints: number
+  } | null
   items: Array<{
     id: string
     quantity: number
     unitPrice: number
     totalPrice: number
+    refundedQuantity: number
+    promotions?: Array<{
+      id: string
+      promotionName: string
+      discountAmount: number
+    }>
+    modifiers?: Array<{
+      id: string
+      optionName: string
+      priceDelta: number
+    }>
+    note: string | null
     product: {
       id: string
       name: string
       sku: string
+      soldByWeight: boolean
     }
   }>
+  refunds: Array<{
+    id: string
+    amount: number
+    reason: string
+    createdAt: string
+    user: {
+      name: string
+    }
+    items: Array<{
+      id: string
+      transactionItemId: string
+      quantity: number
+      amount: number
+    }>
+  }>
 }
 
+type TransactionItem = Transaction['items'][number]
+
+// Quantities arrive as decimal strings
+const refundableQuantity = (item: TransactionItem) =>
+  roundQuantity(Number(item.quantity) - Number(item.refundedQuantity))
+
 export default function TransactionsPage() {
-  useSession()
+  const { data: session } = useSession()
+  const canManage = session?.user?.role === 'ADMIN' || session?.user?.role === 'MANAGER'
   const [transactions, setTransactions] = useState<Transaction[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
@@ -42,6 +95,10 @@ export default function TransactionsPage() {
   const [isExporting, setIsExporting] = useState(false)
   const [showReceiptPreview, setShowReceiptPreview] = useState(false)
   const [receiptTransaction, setReceiptTransaction] = useState<Transaction | null>(null)
+  const [showRefundForm, setShowRefundForm] = useState(false)
+  const [refundQuantities, setRefundQuantities] = useState<Record<string, number>>({})
+  const [refundReason, setRefundReason] = useState('')
+  const [refundLoading, setRefundLoading] = useState(false)
 
   const fetchTransactions = async () => {
     try {
@@ -101,6 +158,70 @@ export default function TransactionsPage() {
     }
   }
 
+  const openRefundForm = (transaction: Transaction) => {
+    setRefundQuantities(
+      Object.fromEntries(transaction.items.map(item => [item.id, refundableQuantity(item)]))
+    )
+    setRefundReason('')
+    setShowRefundForm(true)
+  }
+
+  const closeTransactionDetails = () => {
+    setSelectedTransaction(null)
+    setShowRefundForm(false)
+  }
+
+  const processRefund = async () => {
+    if (!selectedTransaction) return
+
+    if (!refundReason.trim()) {
+      alert('Please enter a reason for the refund')
+      return
+    }
+
+    const items = Object.entries(refundQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([transactionItemId, quantity]) => ({ transactionItemId, quantity }))
+
+    if (items.length === 0) {
+      alert('Select at least one item to refund')
+      return
+    }
+
+    if (!confirm(`Refund ${items.length} item(s) from ${selectedTransaction.transactionNumber}?`)) {
+      return
+    }
+
+    try {
+      setRefundLoading(true)
+      const response = await fetch(`/api/transactions/${selectedTransaction.id}/refund`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason: refundReason, items }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        alert(`Error processing refund: ${error.details || error.error}`)
+        return
+      }
+
+      const updatedResponse = await fetch(`/api/transactions/${selectedTransaction.id}`)
+      if (updatedResponse.ok) {
+        setSelectedTransaction(await updatedResponse.json())
+      }
+      setShowRefundForm(false)
+      fetchTransactions()
+    } catch (error) {
+      console.error('Error processing refund:', error)
+      alert('Error processing refund')
+    } finally {
+      setRefundLoading(false)
+    }
+  }
+
   const handleExport = async () => {
     try {
       setIsExporting(true)
@@ -143,6 +264,7 @@ export default function TransactionsPage() {
       'Tax Amount',
       'Discount Amount',
       'Final Amount',
+      'Refunded Amount',
       'Items'
     ]
 
@@ -156,6 +278,7 @@ export default function TransactionsPage() {
       transaction.taxAmount.toString(),
       transaction.discountAmount.toString(),
       transaction.finalAmount.toString(),
+      transaction.refundedAmount.toString(),
       transaction.items.map(item => `${item.product.name} (${item.quantity}x)`).join('; ')
     ])
 
@@ -200,7 +323,7 @@ export default function TransactionsPage() {
             <div className="relative">
               <input
                 type="text"
-                placeholder="Search transactions..."
+                placeholder="Search by number or note..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full md:w-80 px-4 py-2.5 pl-10 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -268,9 +391,14 @@ export default function TransactionsPage() {
                       <div className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center mr-3">
                         <span className="text-blue-600 text-xs font-bold">#</span>
                       </div>
-                      <span className="text-sm font-semibold text-gray-900">
-                        {transaction.transactionNumber}
-                      </span>
+                      <div>
+                        <span className="text-sm font-semibold text-gray-900">
+                          {transaction.transactionNumber}
+                        </span>
+                        {transaction.note && (
+                          <div className="text-xs text-gray-500 truncate max-w-xs" title={transaction.note}>📝 {transaction.note}</div>
+                        )}
+                      </div>
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -316,6 +444,11 @@ export default function TransactionsPage() {
                       }`}></span>
                       {transaction.paymentStatus}
                     </span>
+                    {Number(transaction.refundedAmount) > 0 && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 text-gray-700">
+                        {Number(transaction.refundedAmount) >= Number(transaction.finalAmount) ? 'REFUNDED' : 'PARTIAL REFUND'}
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className="text-sm font-bold text-gray-900">
@@ -411,7 +544,7 @@ export default function TransactionsPage() {
                 </p>
               </div>
               <button
-                onClick={() => setSelectedTransaction(null)}
+                onClick={closeTransactionDetails}
                 className="p-2 text-gray-400 hover:text-gray-600 hover:bg-white rounded-lg transition-colors"
               >
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -440,10 +573,37 @@ export default function TransactionsPage() {
                       <dt className="text-sm font-medium text-gray-600">Cashier</dt>
                       <dd className="text-sm font-semibold text-gray-900">{selectedTransaction.cashier.name}</dd>
                     </div>
+                    {selectedTransaction.customer && (
+                      <div className="flex justify-between items-center py-2 border-b border-gray-200">
+                        <dt className="text-sm font-medium text-gray-600">Customer</dt>
+                        <dd className="text-sm font-semibold">
+                          <Link href={`/dashboard/customers/${selectedTransaction.customer.id}`} className="text-indigo-600 hover:text-indigo-800">
+                            {selectedTransaction.customer.name}
+                          </Link>
+                        </dd>
+                      </div>
+                    )}
+                    {(selectedTransaction.loyaltyPointsEarned > 0 || selectedTransaction.loyaltyPointsRedeemed > 0) && (
+                      <div className="flex justify-between items-center py-2 border-b border-gray-200">
+                        <dt className="text-sm font-medium text-gray-600">Points</dt>
+                        <dd className="text-sm font-semibold text-gray-900">
+                          {[
+                            selectedTransaction.loyaltyPointsEarned > 0 && `+${selectedTransaction.loyaltyPointsEarned} earned`,
+                            selectedTransaction.loyaltyPointsRedeemed > 0 && `${selectedTransaction.loyaltyPointsRedeemed} redeemed`,
+                          ].filter(Boolean).join(' · ')}
+                        </dd>
+                      </div>
+                    )}
                     <div className="flex justify-between items-center py-2 border-b border-gray-200">
                       <dt className="text-sm font-medium text-gray-600">Payment Method</dt>
                       <dd className="text-sm font-semibold text-gray-900">{selectedTransaction.paymentMethod}</dd>
                     </div>
+                    {selectedTransaction.payments.length > 1 && selectedTransaction.payments.map((payment) => (
+                      <div key={payment.id} className="flex justify-between items-center py-1 pl-4 border-b border-gray-100">
+                        <dt className="text-xs text-gray-500">{payment.method} · {payment.status}</dt>
+                        <dd className="text-xs font-medium text-gray-900">{formatCurrency(Number(payment.amount))}</dd>
+                      </div>
+                    ))}
                     <div className="flex justify-between items-center py-2">
                       <dt className="text-sm font-medium text-gray-600">Status</dt>
                       <dd>
@@ -490,10 +650,28 @@ export default function TransactionsPage() {
                       <dt className="text-base font-bold text-gray-900">Total Amount</dt>
                       <dd className="text-lg font-bold text-blue-600">{formatCurrency(selectedTransaction.finalAmount)}</dd>
                     </div>
+                    {Number(selectedTransaction.refundedAmount) > 0 && (
+                      <>
+                        <div className="flex justify-between items-center py-2 border-b border-blue-200">
+                          <dt className="text-sm font-medium text-gray-600">Refunded</dt>
+                          <dd className="text-sm font-semibold text-red-600">-{formatCurrency(selectedTransaction.refundedAmount)}</dd>
+                        </div>
+                        <div className="flex justify-between items-center py-2">
+                          <dt className="text-sm font-medium text-gray-600">Net Amount</dt>
+                          <dd className="text-sm font-bold text-gray-900">{formatCurrency(Number(selectedTransaction.finalAmount) - Number(selectedTransaction.refundedAmount))}</dd>
+                        </div>
+                      </>
+                    )}
                   </dl>
                 </div>
               </div>
 
+              {selectedTransaction.note && (
+                <div className="bg-yellow-50 rounded-xl p-4 border border-yellow-200 text-sm text-yellow-900">
+                  <span className="font-semibold">Order note:</span> {selectedTransaction.note}
+                </div>
+              )}
+
               {/* Items List */}
               <div>
                 <h4 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
@@ -513,11 +691,27 @@ export default function TransactionsPage() {
                           <div>
                             <p className="font-semibold text-gray-900">{item.product.name}</p>
                             <p className="text-sm text-gray-500">SKU: {item.product.sku}</p>
+                            {item.modifiers && item.modifiers.length > 0 && (
+                              <p className="text-xs text-gray-600">
+                                {item.modifiers.map(modifier => modifier.optionName).join(', ')}
+                              </p>
+                            )}
+                            {item.note && (
+                              <p className="text-xs italic text-gray-600">Note: {item.note}</p>
+                            )}
+                            {item.promotions?.map((promotion) => (
+                              <p key={promotion.id} className="text-xs text-green-700">
+                                {promotion.promotionName}: -{formatCurrency(Number(promotion.discountAmount))}
+                              </p>
+                            ))}
+                            {Number(item.refundedQuantity) > 0 && (
+                              <p className="text-xs font-medium text-red-600">{formatQuantity(item.refundedQuantity, item.product.soldByWeight)} refunded</p>
+                            )}
                           </div>
                         </div>
                         <div className="text-right">
                           <p className="text-sm text-gray-600">
-                            {item.quantity} × {formatCurrency(item.unitPrice)}
+                            {formatQuantity(item.quantity, item.product.soldByWeight)} × {formatCurrency(item.unitPrice)}
                           </p>
                           <p className="text-base font-bold text-gray-900">
                             {formatCurrency(item.totalPrice)}
@@ -528,16 +722,117 @@ export default function TransactionsPage() {
                   </div>
                 </div>
               </div>
+
+              {/* Refund Form */}
+              {showRefundForm && (
+                <div className="bg-red-50 rounded-xl p-5 border border-red-200 space-y-4">
+                  <h4 className="text-lg font-semibold text-gray-900">Refund Items</h4>
+                  <div className="space-y-2">
+                    {selectedTransaction.items
+                      .filter(item => refundableQuantity(item) > 0)
+                      .map((item) => (
+                        <div key={item.id} className="flex justify-between items-center">
+                          <span className="text-sm text-gray-900">
+                            {item.product.name}
+                            {item.modifiers && item.modifiers.length > 0 && (
+                              <span className="text-xs text-gray-500"> ({item.modifiers.map(modifier => modifier.optionName).join(', ')})</span>
+                            )}
+                          </span>
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="number"
+                              min={0}
+                              max={refundableQuantity(item)}
+                              step={item.product.soldByWeight ? '0.001' : '1'}
+                              value={refundQuantities[item.id] ?? 0}
+                              onChange={(e) => setRefundQuantities(prev => ({
+                                ...prev,
+                                [item.id]: Math.min(
+                                  Math.max((item.product.soldByWeight ? roundQuantity(parseFloat(e.target.value)) : parseInt(e.target.value)) || 0, 0),
+                                  refundableQuantity(item)
+                                )
+                              }))}
+                              className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                            />
+                            <span className="text-sm text-gray-500">of {formatQuantity(refundableQuantity(item), item.product.soldByWeight)}</span>
+                          </div>
+                        </div>
+                      ))}
+                  </div>
+                  <textarea
+                    placeholder="Reason for refund..."
+                    value={refundReason}
+                    onChange={(e) => setRefundReason(e.target.value)}
+                    rows={2}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                  />
+                  <div className="flex justify-end gap-3">
+                    <button
+                      onClick={() => setShowRefundForm(false)}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={processRefund}
+                      disabled={refundLoading}
+                      className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+                    >
+                      {refundLoading ? 'Processing...' : 'Confirm Refund'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Refund History */}
+              {selectedTransaction.refunds && selectedTransaction.refunds.length > 0 && (
+                <div>
+                  <h4 className="text-lg font-semibold text-gray-900 mb-4">
+                    Refund History ({selectedTransaction.refunds.length})
+                  </h4>
+                  <div className="bg-gray-50 rounded-xl border border-gray-200 overflow-hidden divide-y divide-gray-200">
+                    {selectedTransaction.refunds.map((refund) => (
+                      <div key={refund.id} className="p-4">
+                        <div className="flex justify-between items-center">
+                          <div>
+                            <p className="text-sm font-semibold text-gray-900">{refund.reason}</p>
+                            <p className="text-xs text-gray-500">
+                              {formatDate(refund.createdAt)} by {refund.user.name}
+                            </p>
+                          </div>
+                          <span className="text-sm font-bold text-red-600">-{formatCurrency(refund.amount)}</span>
+                        </div>
+                        <ul className="mt-2 text-xs text-gray-600 space-y-1">
+                          {refund.items.map((refundItem) => (
+                            <li key={refundItem.id}>
+                              {refundItem.quantity} × {selectedTransaction.items.find(item => item.id === refundItem.transactionItemId)?.product.name}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Modal Footer */}
             <div className="flex justify-end gap-3 p-6 border-t border-gray-200 bg-gray-50 rounded-b-2xl">
               <button
-                onClick={() => setSelectedTransaction(null)}
+                onClick={closeTransactionDetails}
                 className="px-5 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
               >
                 Close
               </button>
+              {canManage && selectedTransaction.paymentStatus === 'PAID' &&
+                selectedTransaction.items.some(item => refundableQuantity(item) > 0) && !showRefundForm && (
+                <button
+                  onClick={() => openRefundForm(selectedTransaction)}
+                  className="px-5 py-2.5 text-sm font-medium text-red-600 bg-white border border-red-300 rounded-lg hover:bg-red-50 transition-colors"
+                >
+                  Refund
+                </button>
+              )}
               <button
                 onClick={() => {
                   setReceiptTransaction(selectedTransaction)
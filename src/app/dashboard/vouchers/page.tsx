@@ -0,0 +1,684 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+
+type VoucherDiscountType = 'PERCENTAGE' | 'FIXED_AMOUNT'
+
+interface VoucherBatch {
+  id: string
+  name: string
+  description?: string | null
+  discountType: VoucherDiscountType
+  value: number
+  maxDiscount: number | null
+  minSpend: number
+  usageLimit: number | null
+  perCustomerLimit: number | null
+  startsAt: string | null
+  expiresAt: string | null
+  isActive: boolean
+  createdAt: string
+  user: { name: string }
+  _count: { vouchers: number }
+  redemptionCount: number
+  totalDiscount: number
+}
+
+interface VoucherCode {
+  id: string
+  code: string
+  usageCount: number
+  isActive: boolean
+}
+
+const emptyForm = {
+  name: '',
+  description: '',
+  discountType: 'PERCENTAGE' as VoucherDiscountType,
+  value: '',
+  maxDiscount: '',
+  minSpend: '',
+  usageLimit: '1',
+  perCustomerLimit: '',
+  startsAt: '',
+  expiresAt: '',
+  isActive: true,
+  codeMode: 'generate' as 'generate' | 'custom',
+  code: '',
+  prefix: '',
+  codeCount: '10',
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount)
+
+// datetime-local inputs want local time without a timezone suffix
+const toDateTimeInput = (value: string | null) => {
+  if (!value) return ''
+  const date = new Date(value)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+const describeDiscount = (batch: VoucherBatch) => {
+  const value = Number(batch.value)
+  if (batch.discountType === 'PERCENTAGE') {
+    return batch.maxDiscount !== null
+      ? `${value}% off (max ${formatCurrency(Number(batch.maxDiscount))})`
+      : `${value}% off`
+  }
+  return `${formatCurrency(value)} off`
+}
+
+const describeLimits = (batch: VoucherBatch) => {
+  const parts: string[] = []
+  if (Number(batch.minSpend) > 0) parts.push(`Min. ${formatCurrency(Number(batch.minSpend))}`)
+  parts.push(batch.usageLimit !== null ? `${batch.usageLimit}x per code` : 'Unlimited uses')
+  if (batch.perCustomerLimit !== null) parts.push(`${batch.perCustomerLimit}x per customer`)
+  return parts.join(' · ')
+}
+
+const describeValidity = (batch: VoucherBatch) => {
+  if (!batch.startsAt && !batch.expiresAt) return 'No expiry'
+  const from = batch.startsAt ? new Date(batch.startsAt).toLocaleDateString('id-ID') : '...'
+  const to = batch.expiresAt ? new Date(batch.expiresAt).toLocaleDateString('id-ID') : '...'
+  return `${from} - ${to}`
+}
+
+export default function VouchersPage() {
+  const { data: session } = useSession()
+  const [batches, setBatches] = useState<VoucherBatch[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showModal, setShowModal] = useState(false)
+  const [editingBatch, setEditingBatch] = useState<VoucherBatch | null>(null)
+  const [formData, setFormData] = useState(emptyForm)
+  const [codesBatch, setCodesBatch] = useState<VoucherBatch | null>(null)
+  const [codes, setCodes] = useState<VoucherCode[]>([])
+  const [extraCodes, setExtraCodes] = useState({ prefix: '', codeCount: '10' })
+
+  const canManage = session?.user?.role === 'ADMIN' || session?.user?.role === 'MANAGER'
+
+  const fetchBatches = async () => {
+    try {
+      const response = await fetch('/api/vouchers')
+      if (response.ok) {
+        const data = await response.json()
+        setBatches(data)
+      }
+    } catch (error) {
+      console.error('Error fetching vouchers:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchCodes = async (batchId: string) => {
+    try {
+      const response = await fetch(`/api/vouchers/${batchId}`)
+      if (response.ok) {
+        const data = await response.json()
+        setCodes(data.vouchers)
+      }
+    } catch (error) {
+      console.error('Error fetching voucher codes:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchBatches()
+  }, [])
+
+  const toRequestBody = (form: typeof emptyForm) => ({
+    ...form,
+    startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+    expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+    code: form.codeMode === 'custom' ? form.code : '',
+  })
+
+  const toForm = (batch: VoucherBatch): typeof emptyForm => ({
+    ...emptyForm,
+    name: batch.name,
+    description: batch.description || '',
+    discountType: batch.discountType,
+    value: Number(batch.value).toString(),
+    maxDiscount: batch.maxDiscount !== null ? Number(batch.maxDiscount).toString() : '',
+    minSpend: Number(batch.minSpend) > 0 ? Number(batch.minSpend).toString() : '',
+    usageLimit: batch.usageLimit?.toString() || '',
+    perCustomerLimit: batch.perCustomerLimit?.toString() || '',
+    startsAt: toDateTimeInput(batch.startsAt),
+    expiresAt: toDateTimeInput(batch.expiresAt),
+    isActive: batch.isActive,
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const url = editingBatch ? `/api/vouchers/${editingBatch.id}` : '/api/vouchers'
+      const method = editingBatch ? 'PUT' : 'POST'
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toRequestBody(formData)),
+      })
+
+      if (response.ok) {
+        closeModal()
+        fetchBatches()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error saving voucher batch:', error)
+      alert('Error saving voucher batch')
+    }
+  }
+
+  const handleEdit = (batch: VoucherBatch) => {
+    setEditingBatch(batch)
+    setFormData(toForm(batch))
+    setShowModal(true)
+  }
+
+  const toggleActive = async (batch: VoucherBatch) => {
+    try {
+      const response = await fetch(`/api/vouchers/${batch.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toRequestBody({ ...toForm(batch), isActive: !batch.isActive })),
+      })
+
+      if (response.ok) {
+        fetchBatches()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error updating voucher batch:', error)
+      alert('Error updating voucher batch')
+    }
+  }
+
+  const handleDelete = async (batch: VoucherBatch) => {
+    if (!confirm(`Are you sure you want to delete "${batch.name}" and all of its codes?`)) return
+
+    try {
+      const response = await fetch(`/api/vouchers/${batch.id}`, {
+        method: 'DELETE',
+      })
+
+      if (response.ok) {
+        fetchBatches()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error deleting voucher batch:', error)
+      alert('Error deleting voucher batch')
+    }
+  }
+
+  const openCodes = (batch: VoucherBatch) => {
+    setCodesBatch(batch)
+    setCodes([])
+    setExtraCodes({ prefix: '', codeCount: '10' })
+    fetchCodes(batch.id)
+  }
+
+  const generateMoreCodes = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!codesBatch) return
+
+    try {
+      const response = await fetch(`/api/vouchers/${codesBatch.id}/codes`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(extraCodes),
+      })
+
+      if (response.ok) {
+        fetchCodes(codesBatch.id)
+        fetchBatches()
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Error generating voucher codes:', error)
+      alert('Error generating voucher codes')
+    }
+  }
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.map(voucher => voucher.code).join('\n'))
+      alert(`${codes.length} codes copied to clipboard`)
+    } catch (error) {
+      console.error('Error copying codes:', error)
+      alert('Could not copy codes')
+    }
+  }
+
+  const closeModal = () => {
+    setShowModal(false)
+    setEditingBatch(null)
+    setFormData(emptyForm)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  const inputClass = 'mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm px-3 py-2'
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Vouchers</h1>
+        {canManage && (
+          <button
+            onClick={() => setShowModal(true)}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md font-medium"
+          >
+            Create Vouchers
+          </button>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Voucher codes are entered at the POS and applied after automatic promotions. Each batch shares one set of rules across all of its codes.
+      </p>
+
+      {/* Batches Table */}
+      <div className="bg-white shadow rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Batch</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Limits</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Redeemed</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {batches.map((batch) => (
+              <tr key={batch.id} className="hover:bg-gray-50">
+                <td className="px-3 py-2">
+                  <div className="text-sm font-medium text-gray-900">{batch.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {batch._count.vouchers} code{batch._count.vouchers === 1 ? '' : 's'} · by {batch.user.name}
+                  </div>
+                </td>
+                <td className="px-3 py-2 text-sm text-gray-900">{describeDiscount(batch)}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">{describeLimits(batch)}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">{describeValidity(batch)}</td>
+                <td className="px-3 py-2 text-sm text-gray-900">
+                  <div>{batch.redemptionCount}x</div>
+                  <div className="text-xs text-gray-500">{formatCurrency(batch.totalDiscount)}</div>
+                </td>
+                <td className="px-3 py-2">
+                  <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                    batch.isActive
+                      ? 'bg-green-100 text-green-800'
+                      : 'bg-red-100 text-red-800'
+                  }`}>
+                    {batch.isActive ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                <td className="px-3 py-2 text-right text-sm font-medium">
+                  <div className="flex justify-end gap-1">
+                    <button
+                      onClick={() => openCodes(batch)}
+                      className="inline-flex items-center px-2 py-1 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      Codes
+                    </button>
+                    <a
+                      href={`/api/vouchers/${batch.id}/redemptions?format=csv`}
+                      className="inline-flex items-center px-2 py-1 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      Export
+                    </a>
+                    {canManage && (
+                      <>
+                        <button
+                          onClick={() => toggleActive(batch)}
+                          className="inline-flex items-center px-2 py-1 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                          {batch.isActive ? 'Pause' : 'Resume'}
+                        </button>
+                        <button
+                          onClick={() => handleEdit(batch)}
+                          className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(batch)}
+                          className="inline-flex items-center px-2 py-1 border border-transparent text-xs font-medium rounded text-white bg-red-600 hover:bg-red-700"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {batches.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No vouchers yet.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Codes Modal */}
+      {codesBatch && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white mb-10">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium text-gray-900">{codesBatch.name}</h3>
+              <button
+                onClick={copyCodes}
+                className="px-2 py-1 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Copy All
+              </button>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+              {codes.map((voucher) => (
+                <div key={voucher.id} className="flex justify-between px-3 py-1.5 text-sm">
+                  <span className="font-mono text-gray-900">{voucher.code}</span>
+                  <span className="text-gray-500">
+                    Used {voucher.usageCount}{codesBatch.usageLimit !== null && ` / ${codesBatch.usageLimit}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {canManage && (
+              <form onSubmit={generateMoreCodes} className="mt-4 flex items-end gap-2">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700">Prefix</label>
+                  <input
+                    type="text"
+                    value={extraCodes.prefix}
+                    onChange={(e) => setExtraCodes({ ...extraCodes, prefix: e.target.value })}
+                    placeholder="e.g. PROMO"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="w-24">
+                  <label className="block text-sm font-medium text-gray-700">Codes</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="1000"
+                    required
+                    value={extraCodes.codeCount}
+                    onChange={(e) => setExtraCodes({ ...extraCodes, codeCount: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-indigo-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-indigo-700"
+                >
+                  Generate
+                </button>
+              </form>
+            )}
+
+            <div className="flex justify-end pt-4">
+              <button
+                type="button"
+                onClick={() => setCodesBatch(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Add/Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white mb-10">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              {editingBatch ? 'Edit Voucher Batch' : 'Create Vouchers'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. Grand Opening"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Description</label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              {!editingBatch && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Codes</label>
+                  <div className="mt-1 flex gap-4 text-sm">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={formData.codeMode === 'generate'}
+                        onChange={() => setFormData({ ...formData, codeMode: 'generate' })}
+                      />
+                      Generate unique codes
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={formData.codeMode === 'custom'}
+                        onChange={() => setFormData({ ...formData, codeMode: 'custom' })}
+                      />
+                      One shared code
+                    </label>
+                  </div>
+                  {formData.codeMode === 'generate' ? (
+                    <div className="grid grid-cols-2 gap-4 mt-2">
+                      <input
+                        type="text"
+                        value={formData.prefix}
+                        onChange={(e) => setFormData({ ...formData, prefix: e.target.value })}
+                        placeholder="Prefix (optional)"
+                        className={inputClass}
+                      />
+                      <input
+                        type="number"
+                        min="1"
+                        max="1000"
+                        required
+                        value={formData.codeCount}
+                        onChange={(e) => setFormData({ ...formData, codeCount: e.target.value })}
+                        placeholder="Number of codes"
+                        className={inputClass}
+                      />
+                    </div>
+                  ) : (
+                    <input
+                      type="text"
+                      required
+                      value={formData.code}
+                      onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                      placeholder="e.g. WELCOME10"
+                      className={`${inputClass} font-mono`}
+                    />
+                  )}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Discount Type</label>
+                  <select
+                    value={formData.discountType}
+                    onChange={(e) => setFormData({ ...formData, discountType: e.target.value as VoucherDiscountType })}
+                    className={inputClass}
+                  >
+                    <option value="PERCENTAGE">Percentage off</option>
+                    <option value="FIXED_AMOUNT">Amount off</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    {formData.discountType === 'PERCENTAGE' ? 'Discount (%)' : 'Discount amount'}
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    required
+                    value={formData.value}
+                    onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                {formData.discountType === 'PERCENTAGE' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Maximum discount</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.maxDiscount}
+                      onChange={(e) => setFormData({ ...formData, maxDiscount: e.target.value })}
+                      placeholder="No cap"
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Minimum spend</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.minSpend}
+                    onChange={(e) => setFormData({ ...formData, minSpend: e.target.value })}
+                    placeholder="None"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Uses per code</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.usageLimit}
+                    onChange={(e) => setFormData({ ...formData, usageLimit: e.target.value })}
+                    placeholder="Unlimited"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Uses per customer</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.perCustomerLimit}
+                    onChange={(e) => setFormData({ ...formData, perCustomerLimit: e.target.value })}
+                    placeholder="Unlimited"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Valid from</label>
+                  <input
+                    type="datetime-local"
+                    value={formData.startsAt}
+                    onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Expires</label>
+                  <input
+                    type="datetime-local"
+                    value={formData.expiresAt}
+                    onChange={(e) => setFormData({ ...formData, expiresAt: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              {formData.perCustomerLimit && (
+                <p className="text-xs text-gray-500">
+                  Customers must give their email at the till when a per-customer limit is set.
+                </p>
+              )}
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                />
+                Active
+              </label>
+
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-indigo-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-indigo-700"
+                >
+                  {editingBatch ? 'Update Batch' : 'Create Vouchers'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
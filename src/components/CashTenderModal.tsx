@@ -0,0 +1,134 @@
+'use client'
+
+import { useState } from 'react'
+
+const DENOMINATIONS = [10000, 20000, 50000, 100000]
+
+interface CashTenderModalProps {
+  amountDue: number
+  roundingAmount: number
+  processing?: boolean
+  onConfirm: (cashTendered: number) => void
+  onCancel: () => void
+}
+
+export default function CashTenderModal({
+  amountDue,
+  roundingAmount,
+  processing = false,
+  onConfirm,
+  onCancel
+}: CashTenderModalProps) {
+  const [tendered, setTendered] = useState('')
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(amount)
+  }
+
+  const tenderedAmount = Number(tendered) || 0
+  const changeDue = tenderedAmount - amountDue
+  const canConfirm = tenderedAmount >= amountDue && !processing
+
+  // Each press adds a note, so two Rp 50.000 notes are two presses
+  const addDenomination = (value: number) => {
+    setTendered(String(tenderedAmount + value))
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-full max-w-sm shadow-lg rounded-md bg-white">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Cash Payment</h3>
+
+        <div className="space-y-1 mb-4">
+          {roundingAmount !== 0 && (
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>Rounding:</span>
+              <span>{roundingAmount > 0 ? '+' : '-'}{formatCurrency(Math.abs(roundingAmount))}</span>
+            </div>
+          )}
+          <div className="flex justify-between items-center">
+            <span className="text-lg font-semibold">Amount Due:</span>
+            <span className="text-xl font-bold text-indigo-600">{formatCurrency(amountDue)}</span>
+          </div>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (canConfirm) onConfirm(tenderedAmount)
+          }}
+          className="space-y-4"
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Cash Tendered</label>
+            <input
+              type="number"
+              min="0"
+              step="100"
+              autoFocus
+              value={tendered}
+              onChange={(e) => setTendered(e.target.value)}
+              className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 px-3 py-2 text-lg"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              type="button"
+              onClick={() => setTendered(String(amountDue))}
+              className="px-2 py-2 border border-indigo-300 rounded-md text-sm font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100"
+            >
+              Exact
+            </button>
+            {DENOMINATIONS.map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => addDenomination(value)}
+                className="px-2 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                +{value / 1000}k
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => setTendered('')}
+              className="px-2 py-2 border border-gray-300 rounded-md text-sm font-medium text-red-600 hover:bg-red-50"
+            >
+              Clear
+            </button>
+          </div>
+
+          <div className="flex justify-between items-center bg-gray-50 rounded-md px-3 py-2">
+            <span className="font-medium text-gray-700">Change:</span>
+            <span className={`text-lg font-bold ${changeDue >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {changeDue >= 0 ? formatCurrency(changeDue) : `${formatCurrency(-changeDue)} short`}
+            </span>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!canConfirm}
+              className="px-4 py-2 bg-green-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+            >
+              {processing ? 'Processing...' : 'Complete Sale'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -1,16 +1,33 @@
 'use client'
 
 import { useRef } from 'react'
+import { getOrderLabel } from '@/lib/orderTypes'
+import { formatQuantity } from '@/lib/scaleBarcodes'
 
 interface ReceiptItem {
   id: string
   quantity: number
   unitPrice: number
   totalPrice: number
+  taxName?: string | null
+  taxRate?: number
+  taxAmount?: number
+  promotions?: Array<{
+    id: string
+    promotionName: string
+    discountAmount: number
+  }>
+  modifiers?: Array<{
+    id: string
+    optionName: string
+    priceDelta: number
+  }>
+  note?: string | null
   product: {
     id: string
     name: string
     sku: string
+    soldByWeight?: boolean
   }
 }
 
@@ -21,8 +38,36 @@ interface ReceiptData {
   taxAmount: number
   discountAmount: number
   finalAmount: number
+  taxInclusive?: boolean
+  roundingAmount?: number
+  cashTendered?: number | null
+  changeDue?: number | null
+  voucherRedemption?: {
+    discountAmount: number
+    voucher: {
+      code: string
+    }
+  } | null
+  loyaltyPointsEarned?: number
+  loyaltyPointsRedeemed?: number
+  loyaltyDiscount?: number
+  customer?: {
+    name: string
+    loyaltyPoints: number
+  } | null
+  orderType?: 'DINE_IN' | 'TAKEAWAY' | 'DELIVERY'
+  table?: {
+    name: string
+  } | null
+  note?: string | null
   paymentMethod: string
   paymentStatus: string
+  payments?: Array<{
+    id: string
+    method: string
+    amount: number
+    status: string
+  }>
   createdAt: string
   cashier: {
     id: string
@@ -49,6 +94,34 @@ export default function ReceiptPreview({ transaction, onClose, showPrintButton =
     }).format(amount)
   }
 
+  // Group item taxes by rate so each rate gets its own line, e.g. "PPN 11%"
+  const taxLines = Object.values(
+    transaction.items.reduce<Record<string, { label: string; amount: number }>>((groups, item) => {
+      if (!item.taxName || !Number(item.taxAmount)) {
+        return groups
+      }
+      const key = `${item.taxName}:${Number(item.taxRate)}`
+      if (!groups[key]) {
+        groups[key] = { label: `${item.taxName} ${Number(item.taxRate)}%`, amount: 0 }
+      }
+      groups[key].amount += Number(item.taxAmount)
+      return groups
+    }, {})
+  )
+  const taxSuffix = transaction.taxInclusive ? ' (incl.)' : ''
+
+  // Split payments list each tender that was or is still being collected
+  const tenders = (transaction.payments || []).filter(payment =>
+    payment.status === 'PAID' || payment.status === 'PENDING'
+  )
+
+  // Same rule as the printed receipt: no points section for customers who never had any
+  const showLoyalty = !!transaction.customer && (
+    transaction.customer.loyaltyPoints !== 0 ||
+    (transaction.loyaltyPointsEarned ?? 0) > 0 ||
+    (transaction.loyaltyPointsRedeemed ?? 0) > 0
+  )
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString('id-ID', {
       day: '2-digit',
@@ -312,10 +385,28 @@ export default function ReceiptPreview({ transaction, onClose, showPrintButton =
                 <span className="info-label">Cashier:</span>
                 <span>{transaction.cashier.name}</span>
               </div>
+              {transaction.orderType && (
+                <div className="info-row">
+                  <span className="info-label">Order:</span>
+                  <span>{getOrderLabel(transaction.orderType, transaction.table?.name)}</span>
+                </div>
+              )}
+              {transaction.note && (
+                <div className="info-row">
+                  <span className="info-label">Note:</span>
+                  <span>{transaction.note}</span>
+                </div>
+              )}
               <div className="info-row">
                 <span className="info-label">Payment:</span>
                 <span>{transaction.paymentMethod}</span>
               </div>
+              {tenders.length > 1 && tenders.map((payment) => (
+                <div key={payment.id} className="info-row">
+                  <span className="info-label">&nbsp;&nbsp;{payment.method}{payment.status === 'PENDING' ? ' (pending)' : ''}:</span>
+                  <span>{formatCurrency(Number(payment.amount))}</span>
+                </div>
+              ))}
               <div className="info-row">
                 <span className="info-label">Status:</span>
                 <span className={`status-badge ${
@@ -335,10 +426,27 @@ export default function ReceiptPreview({ transaction, onClose, showPrintButton =
                 <div key={item.id} className="item-row">
                   <div className="item-name">{item.product.name}</div>
                   <div className="item-sku">SKU: {item.product.sku}</div>
+                  {item.modifiers?.map((modifier) => (
+                    <div key={modifier.id} className="item-sku">
+                      + {modifier.optionName}
+                      {Number(modifier.priceDelta) !== 0 && (
+                        <> ({Number(modifier.priceDelta) > 0 ? '+' : '-'}{formatCurrency(Math.abs(Number(modifier.priceDelta)))})</>
+                      )}
+                    </div>
+                  ))}
+                  {item.note && (
+                    <div className="item-sku">* {item.note}</div>
+                  )}
                   <div className="item-calc">
-                    <span>{item.quantity} × {formatCurrency(item.unitPrice)}</span>
+                    <span>{formatQuantity(item.quantity, item.product.soldByWeight)} × {formatCurrency(item.unitPrice)}{item.product.soldByWeight && '/kg'}</span>
                     <span className="item-calc-bold">{formatCurrency(item.totalPrice)}</span>
                   </div>
+                  {item.promotions?.map((promotion) => (
+                    <div key={promotion.id} className="item-calc discount-text">
+                      <span>{promotion.promotionName}</span>
+                      <span>-{formatCurrency(Number(promotion.discountAmount))}</span>
+                    </div>
+                  ))}
                 </div>
               ))}
             </div>
@@ -351,14 +459,41 @@ export default function ReceiptPreview({ transaction, onClose, showPrintButton =
                 <span>Subtotal:</span>
                 <span>{formatCurrency(transaction.totalAmount)}</span>
               </div>
-              <div className="total-row">
-                <span>Tax:</span>
-                <span>{formatCurrency(transaction.taxAmount)}</span>
-              </div>
+              {taxLines.length > 0 ? (
+                taxLines.map((line) => (
+                  <div key={line.label} className="total-row">
+                    <span>{line.label}{taxSuffix}:</span>
+                    <span>{formatCurrency(line.amount)}</span>
+                  </div>
+                ))
+              ) : (
+                <div className="total-row">
+                  <span>Tax{taxSuffix}:</span>
+                  <span>{formatCurrency(transaction.taxAmount)}</span>
+                </div>
+              )}
               <div className="total-row">
                 <span>Discount:</span>
                 <span className="discount-text">-{formatCurrency(transaction.discountAmount)}</span>
               </div>
+              {transaction.voucherRedemption && (
+                <div className="item-calc discount-text">
+                  <span>Voucher {transaction.voucherRedemption.voucher.code}</span>
+                  <span>-{formatCurrency(Number(transaction.voucherRedemption.discountAmount))}</span>
+                </div>
+              )}
+              {(transaction.loyaltyPointsRedeemed ?? 0) > 0 && (
+                <div className="item-calc discount-text">
+                  <span>{transaction.loyaltyPointsRedeemed} points</span>
+                  <span>-{formatCurrency(Number(transaction.loyaltyDiscount))}</span>
+                </div>
+              )}
+              {Number(transaction.roundingAmount || 0) !== 0 && (
+                <div className="total-row">
+                  <span>Rounding:</span>
+                  <span>{formatCurrency(Number(transaction.roundingAmount))}</span>
+                </div>
+              )}
             </div>
 
             <div className="divider"></div>
@@ -369,6 +504,34 @@ export default function ReceiptPreview({ transaction, onClose, showPrintButton =
               <span>{formatCurrency(transaction.finalAmount)}</span>
             </div>
 
+            {transaction.cashTendered != null && (
+              <div>
+                <div className="total-row">
+                  <span>Cash:</span>
+                  <span>{formatCurrency(Number(transaction.cashTendered))}</span>
+                </div>
+                <div className="total-row">
+                  <span>Change:</span>
+                  <span>{formatCurrency(Number(transaction.changeDue || 0))}</span>
+                </div>
+              </div>
+            )}
+
+            {showLoyalty && transaction.customer && (
+              <div>
+                {(transaction.loyaltyPointsEarned ?? 0) > 0 && (
+                  <div className="total-row">
+                    <span>Points earned:</span>
+                    <span>+{transaction.loyaltyPointsEarned}</span>
+                  </div>
+                )}
+                <div className="total-row">
+                  <span>Points balance:</span>
+                  <span>{transaction.customer.loyaltyPoints}</span>
+                </div>
+              </div>
+            )}
+
             {/* Footer */}
             <div className="footer">
               <div className="footer-bold">Thank you for your purchase!</div>
@@ -70,3 +70,8 @@ export const authOptions: NextAuthOptions = {
     signIn: '/auth/login',
   }
 }
+
+// Store configuration (tax, pricing, catalog setup) is limited to these roles
+export function canManageStore(role?: string) {
+  return role === 'ADMIN' || role === 'MANAGER'
+}
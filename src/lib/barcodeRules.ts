@@ -0,0 +1,114 @@
+import { BarcodeValueType, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getLabelPrice, getLabelWeight, parseScaleBarcode } from '@/lib/scaleBarcodes'
+
+// EAN-13 carries 12 digits of data before its check digit
+const EAN13_DATA_LENGTH = 12
+
+// What the POS gets back for a scanned product, whichever way it was found
+export const SCANNED_PRODUCT_INCLUDE = {
+  category: true,
+  parent: {
+    select: { id: true, name: true, variantAxes: true }
+  }
+} satisfies Prisma.ProductInclude
+
+export class BarcodeRuleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BarcodeRuleError'
+  }
+}
+
+export interface BarcodeRuleInput {
+  name: string
+  prefix: string
+  pluLength: number
+  valueType: BarcodeValueType
+  valueLength: number
+  valueDecimals: number
+}
+
+export function parseBarcodeRuleInput(body: Record<string, unknown>): BarcodeRuleInput {
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) {
+    throw new BarcodeRuleError('Name is required')
+  }
+
+  const prefix = typeof body.prefix === 'string' ? body.prefix.trim() : ''
+  if (!/^\d{1,3}$/.test(prefix)) {
+    throw new BarcodeRuleError('Prefix must be 1 to 3 digits')
+  }
+
+  const valueType = body.valueType as BarcodeValueType
+  if (!Object.values(BarcodeValueType).includes(valueType)) {
+    throw new BarcodeRuleError('Value must be a weight or a price')
+  }
+
+  const pluLength = Number(body.pluLength ?? 5)
+  const valueLength = Number(body.valueLength ?? 5)
+  const valueDecimals = Number(body.valueDecimals ?? (valueType === 'WEIGHT' ? 3 : 0))
+
+  if (!Number.isInteger(pluLength) || pluLength < 1 || !Number.isInteger(valueLength) || valueLength < 1) {
+    throw new BarcodeRuleError('PLU and value lengths must be whole numbers of at least 1')
+  }
+
+  if (!Number.isInteger(valueDecimals) || valueDecimals < 0 || valueDecimals > valueLength) {
+    throw new BarcodeRuleError('Decimal places must be between 0 and the value length')
+  }
+
+  if (prefix.length + pluLength + valueLength > EAN13_DATA_LENGTH) {
+    throw new BarcodeRuleError(`Prefix, PLU and value must fit in ${EAN13_DATA_LENGTH} digits`)
+  }
+
+  return { name, prefix, pluLength, valueType, valueLength, valueDecimals }
+}
+
+export async function assertPrefixAvailable(prefix: string, excludeId?: string) {
+  const existing = await prisma.barcodeRule.findFirst({
+    where: { prefix, ...(excludeId && { id: { not: excludeId } }) }
+  })
+
+  if (existing) {
+    throw new BarcodeRuleError(`Prefix ${prefix} is already used by ${existing.name}`)
+  }
+}
+
+export async function getActiveBarcodeRules() {
+  return prisma.barcodeRule.findMany({
+    where: { isActive: true },
+    orderBy: { prefix: 'asc' }
+  })
+}
+
+/**
+ * Look up the product behind a scale label and the weight it was sold at.
+ * A price label also gives the price it was sold for. Returns null when the
+ * barcode is not a scale label or its PLU is unknown.
+ */
+export async function findProductByScaleBarcode(barcode: string) {
+  const label = parseScaleBarcode(barcode, await getActiveBarcodeRules())
+  if (!label) {
+    return null
+  }
+
+  const product = await prisma.product.findFirst({
+    where: { plu: label.plu, isActive: true },
+    include: SCANNED_PRODUCT_INCLUDE
+  })
+
+  if (!product) {
+    return null
+  }
+
+  if (!product.soldByWeight) {
+    throw new BarcodeRuleError(`"${product.name}" is not sold by weight`)
+  }
+
+  const quantity = getLabelWeight(label, Number(product.price))
+  if (quantity <= 0) {
+    throw new BarcodeRuleError('The label has no weight on it')
+  }
+
+  return { product, quantity, labelPrice: getLabelPrice(label) }
+}
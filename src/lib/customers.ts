@@ -0,0 +1,116 @@
+import { prisma } from '@/lib/prisma'
+import { normalizeCustomerEmail } from '@/lib/vouchers'
+
+export class CustomerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CustomerError'
+  }
+}
+
+export interface CustomerInput {
+  name: string
+  phone: string | null
+  email: string | null
+  notes: string | null
+}
+
+// Local numbers are stored in international form so 0812... and +62812... match
+export function normalizePhone(phone?: string | null): string | null {
+  if (!phone || !phone.trim()) {
+    return null
+  }
+
+  const digits = phone.replace(/[^\d+]/g, '')
+  if (digits.startsWith('+')) return `+${digits.slice(1).replace(/\+/g, '')}`
+  if (digits.startsWith('62')) return `+${digits}`
+  if (digits.startsWith('0')) return `+62${digits.slice(1)}`
+  return digits
+}
+
+export function parseCustomerInput(body: Record<string, unknown>): CustomerInput {
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) {
+    throw new CustomerError('Customer name is required')
+  }
+
+  const phone = normalizePhone(typeof body.phone === 'string' ? body.phone : null)
+  if (phone && !/^\+?\d{6,15}$/.test(phone)) {
+    throw new CustomerError('Phone number is not valid')
+  }
+
+  const email = normalizeCustomerEmail(typeof body.email === 'string' && body.email.trim() ? body.email : null)
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new CustomerError('Email address is not valid')
+  }
+
+  const notes = typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : null
+
+  return { name, phone, email, notes }
+}
+
+/**
+ * Name the field another customer already uses, so the cashier can pick that
+ * customer instead of creating a duplicate.
+ */
+export async function findDuplicateCustomer(input: CustomerInput, excludeId?: string) {
+  const matches = [
+    ...(input.phone ? [{ phone: input.phone }] : []),
+    ...(input.email ? [{ email: input.email }] : []),
+  ]
+  if (matches.length === 0) {
+    return null
+  }
+
+  const existing = await prisma.customer.findFirst({
+    where: {
+      OR: matches,
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+  })
+
+  if (!existing) {
+    return null
+  }
+
+  return input.phone && existing.phone === input.phone
+    ? `${existing.name} already uses this phone number`
+    : `${existing.name} already uses this email address`
+}
+
+/**
+ * Lifetime figures per customer from their paid sales. Spend is net of refunds;
+ * every paid sale counts as one visit.
+ */
+export async function getCustomerStats(customerIds: string[]) {
+  const rows = await prisma.transaction.groupBy({
+    by: ['customerId'],
+    where: {
+      customerId: { in: customerIds },
+      paymentStatus: 'PAID',
+    },
+    _sum: {
+      finalAmount: true,
+      refundedAmount: true,
+    },
+    _count: { _all: true },
+    _max: { createdAt: true },
+  })
+
+  return new Map(rows.map(row => {
+    const lifetimeSpend = Number(row._sum.finalAmount ?? 0) - Number(row._sum.refundedAmount ?? 0)
+    return [row.customerId as string, {
+      lifetimeSpend: Math.round(lifetimeSpend * 100) / 100,
+      visitCount: row._count._all,
+      averageSpend: row._count._all > 0 ? Math.round(lifetimeSpend / row._count._all * 100) / 100 : 0,
+      lastVisitAt: row._max.createdAt,
+    }]
+  }))
+}
+
+export const EMPTY_CUSTOMER_STATS = {
+  lifetimeSpend: 0,
+  visitCount: 0,
+  averageSpend: 0,
+  lastVisitAt: null,
+}
@@ -0,0 +1,69 @@
+import { prisma } from '@/lib/prisma'
+import { FLOOR_COLUMNS, FLOOR_ROWS } from '@/lib/orderTypes'
+
+export class DiningTableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DiningTableError'
+  }
+}
+
+export interface DiningTableInput {
+  name: string
+  area: string | null
+  seats: number
+  posX: number
+  posY: number
+}
+
+export function parseDiningTableInput(body: Record<string, unknown>): DiningTableInput {
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) {
+    throw new DiningTableError('Table name is required')
+  }
+
+  const seats = Number(body.seats ?? 4)
+  if (!Number.isInteger(seats) || seats <= 0) {
+    throw new DiningTableError('Seats must be a positive whole number')
+  }
+
+  const posX = Number(body.posX ?? 0)
+  const posY = Number(body.posY ?? 0)
+  if (
+    !Number.isInteger(posX) || posX < 0 || posX >= FLOOR_COLUMNS ||
+    !Number.isInteger(posY) || posY < 0 || posY >= FLOOR_ROWS
+  ) {
+    throw new DiningTableError('Table position is outside the floor plan')
+  }
+
+  const area = typeof body.area === 'string' && body.area.trim() ? body.area.trim() : null
+
+  return { name, area, seats, posX, posY }
+}
+
+// Names identify tables on receipts, and two active tables on an outlet's
+// floor plan cannot share a cell
+export async function assertTableAvailable(input: DiningTableInput, outletId: string, excludeId?: string) {
+  const [named, placed] = await Promise.all([
+    prisma.diningTable.findFirst({
+      where: { outletId, name: input.name, ...(excludeId && { id: { not: excludeId } }) }
+    }),
+    prisma.diningTable.findFirst({
+      where: {
+        outletId,
+        posX: input.posX,
+        posY: input.posY,
+        isActive: true,
+        ...(excludeId && { id: { not: excludeId } })
+      }
+    })
+  ])
+
+  if (named) {
+    throw new DiningTableError(`Table ${input.name} already exists`)
+  }
+
+  if (placed) {
+    throw new DiningTableError(`Table ${placed.name} is already in that spot`)
+  }
+}
@@ -0,0 +1,69 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+// Holds left longer than a shift are assumed abandoned
+export const HELD_CART_TTL_HOURS = 12
+
+export const HELD_CART_INCLUDE = {
+  items: {
+    include: {
+      product: {
+        include: {
+          category: true
+        }
+      }
+    }
+  },
+  cashier: {
+    select: { name: true }
+  },
+  customer: true
+} satisfies Prisma.HeldCartInclude
+
+export type HeldCartWithItems = Prisma.HeldCartGetPayload<{ include: typeof HELD_CART_INCLUDE }>
+
+export function getHeldCartExpiry(from = new Date()): Date {
+  return new Date(from.getTime() + HELD_CART_TTL_HOURS * 60 * 60 * 1000)
+}
+
+export async function purgeExpiredHeldCarts() {
+  await prisma.heldCart.deleteMany({
+    where: { expiresAt: { lt: new Date() } }
+  })
+}
+
+/**
+ * Flag held items that can no longer be sold as parked, because the product
+ * was deactivated or its stock at the cart's outlet has dropped since the
+ * cart was held.
+ */
+export function getHeldCartWarnings(cart: HeldCartWithItems, stockAt: (productId: string) => number): string[] {
+  return cart.items.flatMap(item => {
+    if (!item.product.isActive) {
+      return [`${item.product.name} is no longer available`]
+    }
+    const stock = stockAt(item.productId)
+    if (stock < Number(item.quantity)) {
+      return [stock > 0
+        ? `Only ${stock} ${item.product.name} left in stock (${item.quantity} held)`
+        : `${item.product.name} is out of stock`]
+    }
+    return []
+  })
+}
+
+export async function withHeldCartWarnings(carts: HeldCartWithItems[]) {
+  const levels = await prisma.outletStock.findMany({
+    where: {
+      outletId: { in: [...new Set(carts.map(cart => cart.outletId))] },
+      productId: { in: [...new Set(carts.flatMap(cart => cart.items.map(item => item.productId)))] }
+    },
+    select: { outletId: true, productId: true, stock: true }
+  })
+  const stock = new Map(levels.map(level => [`${level.outletId}:${level.productId}`, Number(level.stock)]))
+
+  return carts.map(cart => ({
+    ...cart,
+    warnings: getHeldCartWarnings(cart, productId => stock.get(`${cart.outletId}:${productId}`) ?? 0)
+  }))
+}
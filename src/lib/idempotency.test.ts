@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('next-auth', () => ({ getServerSession: vi.fn() }))
+vi.mock('@/lib/auth', () => ({ authOptions: {} }))
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    idempotencyKey: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn()
+    }
+  }
+}))
+
+import { getServerSession } from 'next-auth'
+import { prisma } from '@/lib/prisma'
+import { withIdempotency } from '@/lib/idempotency'
+
+const KEY = 'checkout-0001'
+
+function checkoutRequest(body: unknown, key: string | null = KEY) {
+  return new NextRequest('http://localhost/api/transactions', {
+    method: 'POST',
+    headers: key === null ? {} : { 'Idempotency-Key': key },
+    body: JSON.stringify(body)
+  })
+}
+
+// The token the request under test claimed the key with
+function claimToken(call = 0) {
+  return vi.mocked(prisma.idempotencyKey.create).mock.calls[call][0].data.claimToken
+}
+
+function duplicateKey() {
+  return new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+}
+
+// The key row the first request left behind, with the hash it was claimed under
+async function claimedKey(body: unknown, overrides: Record<string, unknown> = {}) {
+  vi.mocked(prisma.idempotencyKey.create).mockResolvedValueOnce({ id: 'key-1' } as never)
+  await withIdempotency(checkoutRequest(body), async () => NextResponse.json({ id: 'sale-1' }, { status: 201 }))
+  const { data } = vi.mocked(prisma.idempotencyKey.create).mock.calls[0][0]
+
+  vi.clearAllMocks()
+  vi.mocked(prisma.idempotencyKey.deleteMany).mockResolvedValue({ count: 0 })
+  vi.mocked(prisma.idempotencyKey.create).mockRejectedValue(duplicateKey())
+
+  return {
+    id: 'key-1',
+    ...data,
+    statusCode: 201,
+    response: { id: 'sale-1' },
+    createdAt: new Date(),
+    ...overrides
+  }
+}
+
+describe('withIdempotency', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getServerSession).mockResolvedValue({ user: { id: 'cashier' } })
+    vi.mocked(prisma.idempotencyKey.deleteMany).mockResolvedValue({ count: 0 })
+  })
+
+  it('runs requests without a key as before', async () => {
+    const handler = vi.fn(async () => NextResponse.json({ ok: true }))
+
+    await withIdempotency(checkoutRequest({ total: 1 }, null), handler)
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(prisma.idempotencyKey.create).not.toHaveBeenCalled()
+  })
+
+  it('rejects malformed keys', async () => {
+    const handler = vi.fn(async () => NextResponse.json({ ok: true }))
+
+    const response = await withIdempotency(checkoutRequest({ total: 1 }, 'short'), handler)
+
+    expect(response.status).toBe(400)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('stores the first response against the key', async () => {
+    vi.mocked(prisma.idempotencyKey.create).mockResolvedValue({ id: 'key-1' } as never)
+
+    const response = await withIdempotency(checkoutRequest({ total: 1 }), async () =>
+      NextResponse.json({ id: 'sale-1' }, { status: 201 })
+    )
+
+    expect(response.status).toBe(201)
+    expect(prisma.idempotencyKey.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'cashier', key: KEY, method: 'POST', path: '/api/transactions' })
+    })
+    expect(prisma.idempotencyKey.updateMany).toHaveBeenCalledWith({
+      where: { id: 'key-1', claimToken: claimToken() },
+      data: { statusCode: 201, response: { id: 'sale-1' } }
+    })
+  })
+
+  it('replays the stored response to a retry instead of running the handler again', async () => {
+    vi.mocked(prisma.idempotencyKey.findUnique).mockResolvedValue(await claimedKey({ total: 1 }) as never)
+    const handler = vi.fn(async () => NextResponse.json({ id: 'sale-2' }, { status: 201 }))
+
+    const response = await withIdempotency(checkoutRequest({ total: 1 }), handler)
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(response.status).toBe(201)
+    expect(response.headers.get('Idempotent-Replayed')).toBe('true')
+    expect(await response.json()).toEqual({ id: 'sale-1' })
+  })
+
+  it('rejects the same key with a different body', async () => {
+    vi.mocked(prisma.idempotencyKey.findUnique).mockResolvedValue(await claimedKey({ total: 1 }) as never)
+    const handler = vi.fn(async () => NextResponse.json({ id: 'sale-2' }, { status: 201 }))
+
+    const response = await withIdempotency(checkoutRequest({ total: 2 }), handler)
+
+    expect(response.status).toBe(422)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('turns away a retry while the first request is still running', async () => {
+    vi.mocked(prisma.idempotencyKey.findUnique).mockResolvedValue(
+      await claimedKey({ total: 1 }, { statusCode: null, response: null }) as never
+    )
+    const handler = vi.fn(async () => NextResponse.json({ id: 'sale-2' }, { status: 201 }))
+
+    const response = await withIdempotency(checkoutRequest({ total: 1 }), handler)
+
+    expect(response.status).toBe(409)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('lets a retry take over a key whose request never answered', async () => {
+    vi.mocked(prisma.idempotencyKey.findUnique).mockResolvedValue(
+      await claimedKey({ total: 1 }, { statusCode: null, response: null, createdAt: new Date(Date.now() - 3 * 60 * 1000) }) as never
+    )
+    vi.mocked(prisma.idempotencyKey.updateMany).mockResolvedValue({ count: 1 })
+    const handler = vi.fn(async () => NextResponse.json({ id: 'sale-1' }, { status: 201 }))
+
+    const response = await withIdempotency(checkoutRequest({ total: 1 }), handler)
+
+    expect(response.status).toBe(201)
+    expect(handler).toHaveBeenCalledTimes(1)
+
+    // The retry answers under its own token, so the overtaken request can no longer
+    const [[reclaim], [store]] = vi.mocked(prisma.idempotencyKey.updateMany).mock.calls
+    expect(reclaim.data).toEqual(expect.objectContaining({ claimToken: claimToken(), statusCode: null }))
+    expect(store.where).toEqual({ id: 'key-1', claimToken: claimToken() })
+  })
+
+  it('releases the key when the handler fails', async () => {
+    vi.mocked(prisma.idempotencyKey.create).mockResolvedValue({ id: 'key-1' } as never)
+
+    const response = await withIdempotency(checkoutRequest({ total: 1 }), async () =>
+      NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    )
+
+    expect(response.status).toBe(500)
+    expect(prisma.idempotencyKey.deleteMany).toHaveBeenCalledWith({ where: { id: 'key-1', claimToken: claimToken(0) } })
+    expect(prisma.idempotencyKey.updateMany).not.toHaveBeenCalled()
+
+    await expect(withIdempotency(checkoutRequest({ total: 1 }), async () => {
+      throw new Error('Database unreachable')
+    })).rejects.toThrow('Database unreachable')
+    expect(prisma.idempotencyKey.deleteMany).toHaveBeenCalledWith({ where: { id: 'key-1', claimToken: claimToken(1) } })
+    expect(claimToken(1)).not.toBe(claimToken(0))
+  })
+})
@@ -0,0 +1,178 @@
+import { createHash, randomUUID } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { IdempotencyKey, Prisma } from '@prisma/client'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key'
+
+// Long enough to cover a retry after a dropped connection or an offline spell
+const IDEMPOTENCY_KEY_TTL_HOURS = 24
+
+// A key still without a response after this long belongs to a request that
+// died mid-handler; a retry may take it over
+const IDEMPOTENCY_PENDING_TIMEOUT_MS = 2 * 60 * 1000
+
+// Expired keys are swept at most this often, in the background
+const PURGE_INTERVAL_MS = 60 * 60 * 1000
+
+// UUIDs and similar client-generated tokens
+const KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/
+
+let lastPurgeAt = 0
+
+function hashRequest(method: string, path: string, body: string) {
+  return createHash('sha256').update(`${method} ${path}\n${body}`).digest('hex')
+}
+
+function getExpiryCutoff(now = Date.now()) {
+  return new Date(now - IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000)
+}
+
+// Expired keys are already ignored when claiming, so sweeping them can wait
+function schedulePurge() {
+  const now = Date.now()
+  if (now - lastPurgeAt < PURGE_INTERVAL_MS) {
+    return
+  }
+  lastPurgeAt = now
+
+  prisma.idempotencyKey.deleteMany({
+    where: { createdAt: { lt: getExpiryCutoff(now) } }
+  }).catch(error => console.error('Error purging idempotency keys:', error))
+}
+
+// An expired key, or one whose request never answered, can be used again
+function isReclaimable(existing: IdempotencyKey, now = Date.now()) {
+  return existing.createdAt < getExpiryCutoff(now) ||
+    (existing.statusCode === null && now - existing.createdAt.getTime() > IDEMPOTENCY_PENDING_TIMEOUT_MS)
+}
+
+// Returns the key's id and this request's claim token when it claimed the key,
+// or the record that got there first
+async function claimKey(data: { userId: string; key: string; method: string; path: string; requestHash: string }) {
+  const claimToken = randomUUID()
+
+  try {
+    const created = await prisma.idempotencyKey.create({ data: { ...data, claimToken } })
+    return { id: created.id, claimToken }
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+      throw error
+    }
+  }
+
+  const existing = await prisma.idempotencyKey.findUnique({
+    where: { userId_key: { userId: data.userId, key: data.key } }
+  })
+
+  if (existing && isReclaimable(existing)) {
+    // Matching on createdAt lets only one of several retries take the key over
+    const reclaimed = await prisma.idempotencyKey.updateMany({
+      where: { id: existing.id, createdAt: existing.createdAt },
+      data: {
+        method: data.method,
+        path: data.path,
+        requestHash: data.requestHash,
+        statusCode: null,
+        response: Prisma.DbNull,
+        claimToken,
+        createdAt: new Date()
+      }
+    })
+
+    if (reclaimed.count === 1) {
+      return { id: existing.id, claimToken }
+    }
+
+    return { existing: null }
+  }
+
+  return { existing }
+}
+
+/**
+ * Run a mutating handler at most once per Idempotency-Key header. Keys are
+ * scoped to the signed-in user. A retry with the same key and body replays the
+ * first response; the same key with a different request is rejected. Server
+ * errors release the key so the request can be tried again, as does a request
+ * that never answered within a couple of minutes. Requests without the header
+ * run as before.
+ */
+export async function withIdempotency(request: NextRequest, handler: () => Promise<NextResponse>): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)
+  if (key === null) {
+    return handler()
+  }
+
+  // The handler answers unauthenticated requests itself
+  const session = await getServerSession(authOptions)
+  if (!session) {
+    return handler()
+  }
+
+  if (!KEY_PATTERN.test(key)) {
+    return NextResponse.json({ error: 'Invalid idempotency key' }, { status: 400 })
+  }
+
+  schedulePurge()
+
+  const method = request.method
+  const path = request.nextUrl.pathname
+  const requestHash = hashRequest(method, path, await request.clone().text())
+
+  const claim = await claimKey({ userId: session.user.id, key, method, path, requestHash })
+
+  if ('existing' in claim) {
+    const { existing } = claim
+
+    if (existing && (existing.method !== method || existing.path !== path || existing.requestHash !== requestHash)) {
+      return NextResponse.json(
+        { error: 'This idempotency key was already used for a different request' },
+        { status: 422 }
+      )
+    }
+
+    if (!existing || existing.statusCode === null) {
+      return NextResponse.json(
+        { error: 'A request with this idempotency key is still being processed' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(existing.response, {
+      status: existing.statusCode,
+      headers: { 'Idempotent-Replayed': 'true' }
+    })
+  }
+
+  // A request that ran past the pending timeout may have lost the key to a
+  // retry; it then leaves the key to the retry rather than releasing or
+  // answering it
+  const ownClaim = { id: claim.id, claimToken: claim.claimToken }
+
+  let response: NextResponse
+  try {
+    response = await handler()
+  } catch (error) {
+    await prisma.idempotencyKey.deleteMany({ where: ownClaim })
+    throw error
+  }
+
+  if (response.status >= 500) {
+    await prisma.idempotencyKey.deleteMany({ where: ownClaim })
+    return response
+  }
+
+  const body = await response.clone().json().catch(() => null)
+  await prisma.idempotencyKey.updateMany({
+    where: ownClaim,
+    data: {
+      statusCode: response.status,
+      response: body ?? Prisma.JsonNull
+    }
+  })
+
+  return response
+}
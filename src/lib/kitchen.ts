@@ -0,0 +1,255 @@
+import { KitchenItemStatus, KitchenStation, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+// The order items move through, from the moment the ticket prints to the table
+const STATUS_FLOW: KitchenItemStatus[] = ['NEW', 'IN_PROGRESS', 'READY', 'SERVED']
+
+export const KITCHEN_TICKET_INCLUDE = {
+  transaction: {
+    select: {
+      transactionNumber: true,
+      orderType: true,
+      note: true,
+      table: {
+        select: { name: true }
+      },
+      cashier: {
+        select: { name: true }
+      }
+    }
+  },
+  tab: {
+    select: {
+      label: true,
+      orderType: true,
+      table: {
+        select: { name: true }
+      },
+      cashier: {
+        select: { name: true }
+      }
+    }
+  },
+  items: {
+    orderBy: { id: 'asc' }
+  }
+} satisfies Prisma.KitchenTicketInclude
+
+export type KitchenTicketWithItems = Prisma.KitchenTicketGetPayload<{ include: typeof KITCHEN_TICKET_INCLUDE }>
+
+interface KitchenLine {
+  station: KitchenStation | null
+  transactionItemId?: string
+  name: string
+  quantity: number
+  modifiers: string[]
+  note: string | null
+}
+
+export class KitchenError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'KitchenError'
+  }
+}
+
+// An empty station means every station
+export function parseKitchenStation(value: unknown): KitchenStation | null {
+  if (value === null || value === undefined || value === '') {
+    return null
+  }
+
+  if (!Object.values(KitchenStation).includes(value as KitchenStation)) {
+    throw new KitchenError('Invalid kitchen station')
+  }
+
+  return value as KitchenStation
+}
+
+export function parseKitchenItemStatus(value: unknown): KitchenItemStatus {
+  if (!STATUS_FLOW.includes(value as KitchenItemStatus)) {
+    throw new KitchenError('Invalid kitchen status')
+  }
+
+  return value as KitchenItemStatus
+}
+
+// One ticket per station; lines from categories without a station are
+// handed over at the till and never reach the kitchen
+async function createKitchenTickets(
+  tx: Prisma.TransactionClient,
+  source: { transactionId: string } | { tabId: string; round: number },
+  lines: KitchenLine[]
+) {
+  const linesByStation = new Map<KitchenStation, KitchenLine[]>()
+  for (const line of lines) {
+    if (line.station) {
+      linesByStation.set(line.station, [...(linesByStation.get(line.station) ?? []), line])
+    }
+  }
+
+  for (const [station, stationLines] of linesByStation) {
+    await tx.kitchenTicket.create({
+      data: {
+        ...source,
+        station,
+        items: {
+          create: stationLines.map(line => ({
+            transactionItemId: line.transactionItemId,
+            name: line.name,
+            quantity: line.quantity,
+            modifiers: line.modifiers,
+            note: line.note
+          }))
+        }
+      }
+    })
+  }
+}
+
+/**
+ * Route the items of a paid order to the stations that prepare them. Does
+ * nothing if the order already has tickets, or if it settles an open tab,
+ * whose rounds went to the kitchen as they were ordered.
+ */
+export async function sendToKitchen(tx: Prisma.TransactionClient, transactionId: string) {
+  const [existing, tab] = await Promise.all([
+    tx.kitchenTicket.count({ where: { transactionId } }),
+    tx.openTab.findUnique({ where: { transactionId } })
+  ])
+  if (existing > 0 || tab) {
+    return
+  }
+
+  const items = await tx.transactionItem.findMany({
+    where: { transactionId },
+    include: {
+      modifiers: true,
+      product: {
+        select: {
+          name: true,
+          category: {
+            select: { kitchenStation: true }
+          }
+        }
+      }
+    },
+    orderBy: { id: 'asc' }
+  })
+
+  await createKitchenTickets(tx, { transactionId }, items.map(item => ({
+    station: item.product.category.kitchenStation,
+    transactionItemId: item.id,
+    name: item.product.name,
+    quantity: Number(item.quantity),
+    modifiers: item.modifiers.map(modifier => modifier.optionName),
+    note: item.note
+  })))
+}
+
+// Send one round of an open tab to the kitchen as soon as it is ordered
+export async function sendTabRoundToKitchen(tx: Prisma.TransactionClient, tabId: string, round: number) {
+  const items = await tx.openTabItem.findMany({
+    where: { tabId, round },
+    include: {
+      product: {
+        select: {
+          name: true,
+          category: {
+            select: { kitchenStation: true }
+          }
+        }
+      }
+    },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  const options = await tx.modifierOption.findMany({
+    where: { id: { in: items.flatMap(item => item.modifierOptionIds) } },
+    select: { id: true, name: true }
+  })
+  const optionNames = new Map(options.map(option => [option.id, option.name]))
+
+  await createKitchenTickets(tx, { tabId, round }, items.map(item => ({
+    station: item.product.category.kitchenStation,
+    name: item.product.name,
+    quantity: item.quantity,
+    modifiers: item.modifierOptionIds.flatMap(id => optionNames.get(id) ?? []),
+    note: item.note
+  })))
+}
+
+// Tickets still being worked on, oldest first
+export async function getOpenKitchenTickets(station: KitchenStation | null) {
+  return prisma.kitchenTicket.findMany({
+    where: {
+      ...(station && { station }),
+      items: { some: { status: { not: 'SERVED' } } }
+    },
+    include: KITCHEN_TICKET_INCLUDE,
+    orderBy: { createdAt: 'asc' }
+  })
+}
+
+/**
+ * A cheap fingerprint of a station's tickets that changes whenever a ticket is
+ * added or one of its items moves, so displays only refetch when needed.
+ */
+export async function getKitchenVersion(station: KitchenStation | null): Promise<string> {
+  const { _count, _max } = await prisma.kitchenTicket.aggregate({
+    where: station ? { station } : {},
+    _count: { id: true },
+    _max: { updatedAt: true }
+  })
+
+  return `${_count.id}-${_max.updatedAt?.getTime() ?? 0}`
+}
+
+/**
+ * Move one item, or every item on the ticket that is not already past the
+ * given status, to that status. A single item may also be moved back to undo
+ * a mistaken tap; the timestamps of the stages it leaves are cleared.
+ */
+export async function moveKitchenItems(ticketId: string, status: KitchenItemStatus, itemId?: string) {
+  const ticket = await prisma.kitchenTicket.findUnique({
+    where: { id: ticketId },
+    include: { items: true }
+  })
+
+  if (!ticket) {
+    throw new KitchenError('Ticket not found')
+  }
+
+  const rank = STATUS_FLOW.indexOf(status)
+  const items = itemId
+    ? ticket.items.filter(item => item.id === itemId)
+    : ticket.items.filter(item => STATUS_FLOW.indexOf(item.status) < rank)
+
+  if (itemId && items.length === 0) {
+    throw new KitchenError('Item is not on this ticket')
+  }
+
+  const now = new Date()
+
+  await prisma.$transaction([
+    ...items.map(item => prisma.kitchenTicketItem.update({
+      where: { id: item.id },
+      data: {
+        status,
+        startedAt: rank >= 1 ? item.startedAt ?? now : null,
+        readyAt: rank >= 2 ? item.readyAt ?? now : null,
+        servedAt: rank >= 3 ? item.servedAt ?? now : null
+      }
+    })),
+    // Touch the ticket so displays pick up the change
+    prisma.kitchenTicket.update({
+      where: { id: ticketId },
+      data: { updatedAt: now }
+    })
+  ])
+
+  return prisma.kitchenTicket.findUniqueOrThrow({
+    where: { id: ticketId },
+    include: KITCHEN_TICKET_INCLUDE
+  })
+}
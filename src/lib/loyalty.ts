@@ -0,0 +1,428 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getStoreSettings, StoreSettingsWithTax } from '@/lib/settings'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class LoyaltyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LoyaltyError'
+  }
+}
+
+export interface ValidatedLoyaltyRedemption {
+  customerId: string
+  points: number
+  discountAmount: number
+}
+
+interface EarningLine {
+  totalPrice: number
+  discountAmount: number
+  taxAmount: number
+  multiplier: number
+}
+
+/**
+ * Points for a sale: what the customer paid for each line, weighted by its
+ * category's multiplier, per spend-per-point rupiah (rounded down).
+ */
+export function calculateEarnedPoints(
+  lines: EarningLine[],
+  taxInclusive: boolean,
+  settings: Pick<StoreSettingsWithTax, 'loyaltyEnabled' | 'loyaltySpendPerPoint'>
+): number {
+  if (!settings.loyaltyEnabled || settings.loyaltySpendPerPoint <= 0) {
+    return 0
+  }
+
+  const weightedSpend = lines.reduce((sum, line) => {
+    const paidForLine = line.totalPrice - line.discountAmount + (taxInclusive ? 0 : line.taxAmount)
+    return sum + paidForLine * line.multiplier
+  }, 0)
+
+  return Math.max(Math.floor(weightedSpend / settings.loyaltySpendPerPoint), 0)
+}
+
+function expiryFrom(settings: Pick<StoreSettingsWithTax, 'loyaltyPointsExpireDays'>): Date | null {
+  return settings.loyaltyPointsExpireDays
+    ? new Date(Date.now() + settings.loyaltyPointsExpireDays * DAY_MS)
+    : null
+}
+
+/**
+ * Check that a customer can redeem the requested points against a cart whose
+ * remaining (post-discount) amount is maxDiscount.
+ */
+export async function validateLoyaltyRedemption(
+  customerId: string | null | undefined,
+  pointsInput: number | string,
+  maxDiscount: number
+): Promise<ValidatedLoyaltyRedemption> {
+  const settings = await getStoreSettings()
+  if (!settings.loyaltyEnabled) {
+    throw new LoyaltyError('Loyalty points are not enabled')
+  }
+
+  if (!customerId) {
+    throw new LoyaltyError('Select a customer to redeem points')
+  }
+
+  const points = Number(pointsInput)
+  if (!Number.isInteger(points) || points <= 0) {
+    throw new LoyaltyError('Points to redeem must be a whole number greater than 0')
+  }
+
+  await expireLoyaltyPoints([customerId])
+
+  const customer = await prisma.customer.findUnique({
+    where: { id: customerId },
+    select: { loyaltyPoints: true }
+  })
+
+  if (!customer) {
+    throw new LoyaltyError('Customer not found')
+  }
+
+  if (points > customer.loyaltyPoints) {
+    throw new LoyaltyError(`Customer only has ${Math.max(customer.loyaltyPoints, 0)} points`)
+  }
+
+  const discountAmount = points * settings.loyaltyPointValue
+  if (discountAmount > maxDiscount) {
+    throw new LoyaltyError(`At most ${Math.floor(maxDiscount / settings.loyaltyPointValue)} points can be redeemed on this sale`)
+  }
+
+  return { customerId, points, discountAmount }
+}
+
+// Take points out of the customer's unspent lots, soonest to expire first
+async function consumeLots(tx: Prisma.TransactionClient, customerId: string, points: number) {
+  const lots = await tx.loyaltyEntry.findMany({
+    where: { customerId, remaining: { gt: 0 } },
+    orderBy: [
+      { expiresAt: { sort: 'asc', nulls: 'last' } },
+      { createdAt: 'asc' }
+    ]
+  })
+
+  let left = points
+  for (const lot of lots) {
+    if (left <= 0) break
+
+    const take = Math.min(lot.remaining, left)
+    const updated = await tx.loyaltyEntry.updateMany({
+      where: { id: lot.id, remaining: { gte: take } },
+      data: { remaining: { decrement: take } }
+    })
+
+    if (updated.count > 0) {
+      left -= take
+    }
+  }
+}
+
+/**
+ * Spend points on a sale. The balance is checked again here so two tills
+ * can't spend the same points.
+ */
+export async function redeemLoyaltyPoints(
+  tx: Prisma.TransactionClient,
+  redemption: ValidatedLoyaltyRedemption,
+  transactionId: string,
+  transactionNumber: string
+) {
+  const updated = await tx.customer.updateMany({
+    where: { id: redemption.customerId, loyaltyPoints: { gte: redemption.points } },
+    data: { loyaltyPoints: { decrement: redemption.points } }
+  })
+
+  if (updated.count === 0) {
+    throw new LoyaltyError('Customer no longer has enough points')
+  }
+
+  await consumeLots(tx, redemption.customerId, redemption.points)
+
+  await tx.loyaltyEntry.create({
+    data: {
+      customerId: redemption.customerId,
+      transactionId,
+      type: 'REDEEM',
+      points: -redemption.points,
+      description: `Redeemed on ${transactionNumber}`
+    }
+  })
+}
+
+/**
+ * Credit the points for a sale that has just become PAID. Runs at most once
+ * per sale, whichever payment path gets there first.
+ */
+export async function earnLoyaltyPoints(tx: Prisma.TransactionClient, transactionId: string) {
+  const transaction = await tx.transaction.findUniqueOrThrow({
+    where: { id: transactionId },
+    include: {
+      items: {
+        include: {
+          product: {
+            select: {
+              category: {
+                select: { loyaltyMultiplier: true }
+              }
+            }
+          }
+        }
+      }
+    }
+  })
+
+  if (!transaction.customerId || transaction.paymentStatus !== 'PAID' || transaction.loyaltyPointsEarned > 0) {
+    return 0
+  }
+
+  const settings = await getStoreSettings()
+  const points = calculateEarnedPoints(
+    transaction.items.map(item => ({
+      totalPrice: Number(item.totalPrice),
+      discountAmount: Number(item.discountAmount),
+      taxAmount: Number(item.taxAmount),
+      multiplier: Number(item.product.category.loyaltyMultiplier)
+    })),
+    transaction.taxInclusive,
+    settings
+  )
+
+  if (points === 0) {
+    return 0
+  }
+
+  const updated = await tx.transaction.updateMany({
+    where: { id: transactionId, loyaltyPointsEarned: 0 },
+    data: { loyaltyPointsEarned: points }
+  })
+
+  if (updated.count === 0) {
+    return 0
+  }
+
+  await tx.customer.update({
+    where: { id: transaction.customerId },
+    data: { loyaltyPoints: { increment: points } }
+  })
+
+  await tx.loyaltyEntry.create({
+    data: {
+      customerId: transaction.customerId,
+      transactionId,
+      type: 'EARN',
+      points,
+      remaining: points,
+      expiresAt: expiryFrom(settings),
+      description: `Earned on ${transaction.transactionNumber}`
+    }
+  })
+
+  return points
+}
+
+async function sumEntries(tx: Prisma.TransactionClient, transactionId: string, type: 'REVERSE' | 'RESTORE') {
+  const result = await tx.loyaltyEntry.aggregate({
+    where: { transactionId, type },
+    _sum: { points: true }
+  })
+  return Math.abs(result._sum.points ?? 0)
+}
+
+// Give back redeemed points up to target in total for the sale, as a new lot
+async function restoreRedeemedUpTo(
+  tx: Prisma.TransactionClient,
+  transaction: { id: string; customerId: string; transactionNumber: string },
+  target: number,
+  description: string
+) {
+  const points = target - await sumEntries(tx, transaction.id, 'RESTORE')
+  if (points <= 0) {
+    return
+  }
+
+  const settings = await getStoreSettings()
+
+  await tx.customer.update({
+    where: { id: transaction.customerId },
+    data: { loyaltyPoints: { increment: points } }
+  })
+
+  await tx.loyaltyEntry.create({
+    data: {
+      customerId: transaction.customerId,
+      transactionId: transaction.id,
+      type: 'RESTORE',
+      points,
+      remaining: points,
+      expiresAt: expiryFrom(settings),
+      description
+    }
+  })
+}
+
+/**
+ * Hand back the points a sale redeemed when it ends up failed or expired.
+ */
+export async function restoreRedeemedPoints(tx: Prisma.TransactionClient, transactionId: string) {
+  const transaction = await tx.transaction.findUniqueOrThrow({
+    where: { id: transactionId }
+  })
+
+  if (!transaction.customerId || transaction.loyaltyPointsRedeemed === 0) {
+    return
+  }
+
+  await restoreRedeemedUpTo(
+    tx,
+    { ...transaction, customerId: transaction.customerId },
+    transaction.loyaltyPointsRedeemed,
+    `Returned from unpaid ${transaction.transactionNumber}`
+  )
+}
+
+/**
+ * Bring a refunded sale's points in line with what is left of it: earned
+ * points are taken back and redeemed points given back in proportion to the
+ * amount refunded so far. Call after refundedAmount has been updated.
+ */
+export async function settleLoyaltyForRefund(tx: Prisma.TransactionClient, transactionId: string) {
+  const transaction = await tx.transaction.findUniqueOrThrow({
+    where: { id: transactionId }
+  })
+
+  if (!transaction.customerId) {
+    return
+  }
+
+  const finalAmount = Number(transaction.finalAmount)
+  const ratio = finalAmount > 0 ? Math.min(Number(transaction.refundedAmount) / finalAmount, 1) : 1
+
+  const reverseTarget = ratio >= 1
+    ? transaction.loyaltyPointsEarned
+    : Math.round(transaction.loyaltyPointsEarned * ratio)
+  const toReverse = reverseTarget - await sumEntries(tx, transaction.id, 'REVERSE')
+
+  if (toReverse > 0) {
+    // Points already spent elsewhere can take the balance below zero
+    await tx.customer.update({
+      where: { id: transaction.customerId },
+      data: { loyaltyPoints: { decrement: toReverse } }
+    })
+    await consumeLots(tx, transaction.customerId, toReverse)
+    await tx.loyaltyEntry.create({
+      data: {
+        customerId: transaction.customerId,
+        transactionId: transaction.id,
+        type: 'REVERSE',
+        points: -toReverse,
+        description: `Refund on ${transaction.transactionNumber}`
+      }
+    })
+  }
+
+  const restoreTarget = ratio >= 1
+    ? transaction.loyaltyPointsRedeemed
+    : Math.round(transaction.loyaltyPointsRedeemed * ratio)
+
+  await restoreRedeemedUpTo(
+    tx,
+    { ...transaction, customerId: transaction.customerId },
+    restoreTarget,
+    `Returned with refund on ${transaction.transactionNumber}`
+  )
+}
+
+/**
+ * Write off lots that have passed their expiry date. Expiry is applied
+ * lazily, whenever a customer's balance is looked at or spent.
+ */
+export async function expireLoyaltyPoints(customerIds: string[]) {
+  const lots = await prisma.loyaltyEntry.findMany({
+    where: {
+      customerId: { in: customerIds },
+      remaining: { gt: 0 },
+      expiresAt: { lte: new Date() }
+    }
+  })
+
+  for (const lot of lots) {
+    await prisma.$transaction(async (tx) => {
+      // Only the caller that zeroes the lot writes it off
+      const updated = await tx.loyaltyEntry.updateMany({
+        where: { id: lot.id, remaining: lot.remaining },
+        data: { remaining: 0 }
+      })
+
+      if (updated.count === 0) {
+        return
+      }
+
+      await tx.customer.update({
+        where: { id: lot.customerId },
+        data: { loyaltyPoints: { decrement: lot.remaining } }
+      })
+
+      await tx.loyaltyEntry.create({
+        data: {
+          customerId: lot.customerId,
+          transactionId: lot.transactionId,
+          type: 'EXPIRE',
+          points: -lot.remaining,
+          description: `Points from ${lot.createdAt.toLocaleDateString('id-ID')} expired`
+        }
+      })
+    })
+  }
+}
+
+/**
+ * Manual correction by a manager. Removing points is limited to the balance.
+ */
+export async function adjustLoyaltyPoints(customerId: string, points: number, reason: string, userId: string) {
+  if (!Number.isInteger(points) || points === 0) {
+    throw new LoyaltyError('Adjustment must be a whole number of points other than 0')
+  }
+
+  if (!reason.trim()) {
+    throw new LoyaltyError('Adjustment reason is required')
+  }
+
+  const settings = await getStoreSettings()
+  await expireLoyaltyPoints([customerId])
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.customer.updateMany({
+      where: {
+        id: customerId,
+        ...(points < 0 && { loyaltyPoints: { gte: -points } })
+      },
+      data: { loyaltyPoints: { increment: points } }
+    })
+
+    if (updated.count === 0) {
+      throw new LoyaltyError('Customer does not have that many points')
+    }
+
+    if (points < 0) {
+      await consumeLots(tx, customerId, -points)
+    }
+
+    return tx.loyaltyEntry.create({
+      data: {
+        customerId,
+        type: 'ADJUST',
+        points,
+        remaining: points > 0 ? points : 0,
+        expiresAt: points > 0 ? expiryFrom(settings) : null,
+        description: reason.trim(),
+        createdBy: userId
+      }
+    })
+  })
+}
@@ -0,0 +1,155 @@
+import { Prisma } from '@prisma/client'
+
+export class ModifierInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ModifierInputError'
+  }
+}
+
+export const MODIFIER_GROUP_INCLUDE = {
+  options: {
+    include: {
+      ingredient: { select: { id: true, name: true } }
+    },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }]
+  },
+  products: { select: { id: true, name: true } },
+  categories: { select: { id: true, name: true } }
+} satisfies Prisma.ModifierGroupInclude
+
+export type ModifierGroupWithDetails = Prisma.ModifierGroupGetPayload<{ include: typeof MODIFIER_GROUP_INCLUDE }>
+
+// What a product (or its category) needs loaded to offer and price modifiers
+export const ACTIVE_MODIFIER_GROUPS = {
+  where: { isActive: true },
+  include: {
+    options: {
+      where: { isActive: true },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }]
+    }
+  },
+  orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }]
+} satisfies Prisma.Product$modifierGroupsArgs
+
+type ActiveModifierGroup = Prisma.ModifierGroupGetPayload<{ include: typeof ACTIVE_MODIFIER_GROUPS.include }>
+
+export interface ProductWithModifierGroups {
+  modifierGroups: ActiveModifierGroup[]
+  category: {
+    modifierGroups: ActiveModifierGroup[]
+  }
+}
+
+export interface ModifierOptionInput {
+  id: string | null
+  name: string
+  priceDelta: number
+  ingredientId: string | null
+  ingredientQuantity: number
+  isActive: boolean
+}
+
+export interface ModifierGroupInput {
+  name: string
+  minSelect: number
+  maxSelect: number | null
+  sortOrder: number
+  isActive: boolean
+  options: ModifierOptionInput[]
+  productIds: string[]
+  categoryIds: string[]
+}
+
+/**
+ * The groups offered with a product: its own plus its category's, each once,
+ * in display order. Groups without any active option are left out.
+ */
+export function getProductModifierGroups(product: ProductWithModifierGroups): ActiveModifierGroup[] {
+  const groups = new Map<string, ActiveModifierGroup>()
+  for (const group of [...product.modifierGroups, ...product.category.modifierGroups]) {
+    if (group.options.length > 0) {
+      groups.set(group.id, group)
+    }
+  }
+
+  return Array.from(groups.values())
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name))
+}
+
+function wholeNumber(value: unknown, field: string, min: number): number {
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < min) {
+    throw new ModifierInputError(`${field} must be a whole number of at least ${min}`)
+  }
+  return number
+}
+
+/**
+ * Validate a modifier group submitted from the admin form.
+ */
+export function parseModifierGroupInput(body: Record<string, unknown>): ModifierGroupInput {
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) {
+    throw new ModifierInputError('Name is required')
+  }
+
+  const minSelect = wholeNumber(body.minSelect ?? 0, 'Minimum selections', 0)
+  const maxSelect = body.maxSelect === undefined || body.maxSelect === null || body.maxSelect === ''
+    ? null
+    : wholeNumber(body.maxSelect, 'Maximum selections', 1)
+
+  if (maxSelect !== null && maxSelect < minSelect) {
+    throw new ModifierInputError('Maximum selections cannot be less than the minimum')
+  }
+
+  const rawOptions = Array.isArray(body.options) ? body.options as Array<Record<string, unknown>> : []
+  const options = rawOptions.map((option): ModifierOptionInput => {
+    const optionName = typeof option.name === 'string' ? option.name.trim() : ''
+    if (!optionName) {
+      throw new ModifierInputError('Every option needs a name')
+    }
+
+    // Negative deltas are allowed, e.g. a smaller size
+    const priceDelta = Number(option.priceDelta || 0)
+    if (!Number.isFinite(priceDelta)) {
+      throw new ModifierInputError(`Invalid price for ${optionName}`)
+    }
+
+    const ingredientId = typeof option.ingredientId === 'string' && option.ingredientId ? option.ingredientId : null
+
+    return {
+      id: typeof option.id === 'string' && option.id ? option.id : null,
+      name: optionName,
+      priceDelta: Math.round(priceDelta * 100) / 100,
+      ingredientId,
+      ingredientQuantity: ingredientId ? wholeNumber(option.ingredientQuantity ?? 1, `Ingredient quantity for ${optionName}`, 1) : 1,
+      isActive: option.isActive === undefined ? true : Boolean(option.isActive)
+    }
+  })
+
+  if (options.length === 0) {
+    throw new ModifierInputError('Add at least one option')
+  }
+
+  const names = new Set(options.map(option => option.name.toLowerCase()))
+  if (names.size !== options.length) {
+    throw new ModifierInputError('Option names must be unique within a group')
+  }
+
+  const activeOptions = options.filter(option => option.isActive).length
+  if (minSelect > activeOptions) {
+    throw new ModifierInputError('Minimum selections cannot be more than the number of active options')
+  }
+
+  return {
+    name,
+    minSelect,
+    maxSelect,
+    sortOrder: Number(body.sortOrder) || 0,
+    isActive: body.isActive === undefined ? true : Boolean(body.isActive),
+    options,
+    productIds: Array.isArray(body.productIds) ? body.productIds.map(String) : [],
+    categoryIds: Array.isArray(body.categoryIds) ? body.categoryIds.map(String) : []
+  }
+}
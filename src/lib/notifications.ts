@@ -77,6 +77,16 @@ export async function notifyPaymentFailed(userId: string, transactionNumber: str
   })
 }
 
+export async function notifyRefundIssued(userId: string, transactionNumber: string, amount: number, reason: string) {
+  return createNotification({
+    userId,
+    title: 'Refund Issued',
+    message: `Refund of ${new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(amount)} issued for order #${transactionNumber}: ${reason}`,
+    type: 'WARNING',
+    metadata: { transactionNumber, amount, reason },
+  })
+}
+
 export async function notifyInventoryUpdate(userId: string, productName: string, quantity: number, type: string) {
   return createNotification({
     userId,
@@ -0,0 +1,365 @@
+// Browser-side storage for the POS offline mode. The catalog and the queue of
+// unsynced cash sales live in IndexedDB so they survive a reload; nothing in
+// this module runs on the server.
+
+import type { ScaleBarcodeRule } from '@/lib/scaleBarcodes'
+import { DEFAULT_TIME_ZONE } from '@/lib/storeTime'
+import { applyPromotions, isPromotionActiveAt, PricingPromotion, PromotableLine } from '@/lib/promotionPricing'
+
+const DB_NAME = 'tokoku-pos'
+const DB_VERSION = 1
+const CATALOG_STORE = 'catalog'
+const QUEUE_STORE = 'queuedSales'
+const CATALOG_KEY = 'current'
+
+export interface OfflineModifierGroup {
+  id: string
+  name: string
+  minSelect: number
+  // null when any number of options may be chosen
+  maxSelect: number | null
+  options: Array<{
+    id: string
+    name: string
+    priceDelta: number
+  }>
+}
+
+export interface OfflineCatalogProduct {
+  id: string
+  name: string
+  sku: string
+  price: number
+  // Available to sell: on hand less what pending digital payments hold
+  stock: number
+  reservedStock?: number
+  minStock?: number
+  image?: string
+  barcode?: string
+  // Price is per kilogram and stock is in kilograms
+  soldByWeight?: boolean
+  plu?: string | null
+  category: {
+    id: string
+    name: string
+  }
+  tax: {
+    name: string | null
+    rate: number
+  }
+  modifierGroups: OfflineModifierGroup[]
+}
+
+// A promotion as cached; its dates come back from storage as ISO strings
+export type OfflinePromotion = Omit<PricingPromotion, 'value' | 'startsAt' | 'endsAt'> & {
+  value: number
+  startsAt: string | null
+  endsAt: string | null
+}
+
+export interface OfflineCatalog {
+  products: OfflineCatalogProduct[]
+  categories: Array<{ id: string; name: string }>
+  // Whose stock the catalog shows; null when an admin is looking at all outlets
+  outlet?: { id: string; name: string; code: string } | null
+  settings: {
+    pricesIncludeTax: boolean
+    cashRounding: number
+    // Missing from catalogs cached before the store had a time zone
+    timeZone?: string
+  }
+  // Missing from catalogs cached before scale labels were supported
+  barcodeRules?: ScaleBarcodeRule[]
+  // Missing from catalogs cached before promotions were applied offline
+  promotions?: OfflinePromotion[]
+  cachedAt: string
+}
+
+export interface QueuedSaleItem {
+  productId: string
+  name: string
+  quantity: number
+  unitPrice: number
+  totalPrice: number
+  modifierOptionIds?: string[]
+  note?: string
+  labelBarcode?: string
+}
+
+export interface QueuedSale {
+  clientId: string
+  soldAt: string
+  status: 'pending' | 'conflict'
+  error?: string
+  request: {
+    totalAmount: number
+    taxAmount: number
+    discountAmount: number
+    finalAmount: number
+    paymentMethod: 'CASH'
+    cashTendered?: number
+    cashierId: string
+    customerEmail?: string
+    customerId?: string
+    voucherCode?: string
+    loyaltyPoints?: number
+    orderType?: 'DINE_IN' | 'TAKEAWAY' | 'DELIVERY'
+    tableId?: string
+    // Paying an open tab needs the server, so these sales are never queued
+    tabId?: string
+    note?: string
+    items: QueuedSaleItem[]
+  }
+}
+
+export interface SyncResult {
+  synced: number
+  conflicts: number
+  // Set when the connection dropped (or the server failed) before the queue was done
+  interrupted: boolean
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(CATALOG_STORE)) {
+        db.createObjectStore(CATALOG_STORE)
+      }
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'clientId' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase()
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode)
+      const request = run(transaction.objectStore(storeName))
+
+      transaction.oncomplete = () => resolve(request.result as T)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function saveCatalog(catalog: OfflineCatalog): Promise<void> {
+  await withStore(CATALOG_STORE, 'readwrite', store => store.put(catalog, CATALOG_KEY))
+}
+
+export async function loadCatalog(): Promise<OfflineCatalog | null> {
+  const catalog = await withStore<OfflineCatalog | undefined>(CATALOG_STORE, 'readonly', store => store.get(CATALOG_KEY))
+  return catalog ?? null
+}
+
+export async function listQueuedSales(): Promise<QueuedSale[]> {
+  const sales = await withStore<QueuedSale[]>(QUEUE_STORE, 'readonly', store => store.getAll())
+  return sales.sort((a, b) => a.soldAt.localeCompare(b.soldAt))
+}
+
+export async function saveQueuedSale(sale: QueuedSale): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.put(sale))
+}
+
+export async function deleteQueuedSale(clientId: string): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.delete(clientId))
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Total a cart from the cached catalog. Mirrors priceCart for a cart without
+ * vouchers or redeemed points: the promotions running at the time of the sale
+ * come off first and tax is charged on what is left. The server re-prices
+ * every queued sale at the time it was made when it syncs and reports any
+ * difference as a conflict.
+ */
+export function estimateOfflineTotals(
+  lines: Array<PromotableLine & { taxRate: number }>,
+  settings: OfflineCatalog['settings'],
+  promotions: OfflinePromotion[] = [],
+  soldAt = new Date()
+) {
+  const running = promotions
+    .map((promotion): PricingPromotion => ({
+      ...promotion,
+      startsAt: promotion.startsAt ? new Date(promotion.startsAt) : null,
+      endsAt: promotion.endsAt ? new Date(promotion.endsAt) : null
+    }))
+    .filter(promotion => isPromotionActiveAt(promotion, soldAt, settings.timeZone ?? DEFAULT_TIME_ZONE))
+  const appliedPromotions = applyPromotions(lines, running)
+  const discounts = appliedPromotions.map(applied =>
+    roundCurrency(applied.reduce((sum, promotion) => sum + promotion.discountAmount, 0))
+  )
+
+  const taxInclusive = settings.pricesIncludeTax
+  const totalAmount = roundCurrency(lines.reduce((sum, line) => sum + line.totalPrice, 0))
+  const discountAmount = roundCurrency(discounts.reduce((sum, discount) => sum + discount, 0))
+  const taxAmount = roundCurrency(lines.reduce((sum, line, index) => {
+    if (line.taxRate <= 0) return sum
+
+    const taxable = line.totalPrice - discounts[index]
+    const tax = taxInclusive
+      ? taxable - taxable / (1 + line.taxRate / 100)
+      : taxable * line.taxRate / 100
+    return sum + Math.round(tax * 100) / 100
+  }, 0))
+  const finalAmount = roundCurrency(totalAmount + (taxInclusive ? 0 : taxAmount) - discountAmount)
+
+  const cashAmount = settings.cashRounding
+    ? Math.round(finalAmount / settings.cashRounding) * settings.cashRounding
+    : finalAmount
+
+  return {
+    taxInclusive,
+    totalAmount,
+    taxAmount,
+    discountAmount,
+    finalAmount,
+    cashAmount,
+    cashRoundingAmount: roundCurrency(cashAmount - finalAmount),
+    items: lines.map((line, index) => ({
+      productId: line.productId,
+      discountAmount: discounts[index],
+      promotions: appliedPromotions[index]
+    }))
+  }
+}
+
+async function postQueuedSale(sale: QueuedSale): Promise<Response> {
+  return fetch('/api/transactions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      ...sale.request,
+      clientId: sale.clientId,
+      soldAt: sale.soldAt
+    }),
+  })
+}
+
+let activeSync: Promise<SyncResult> | null = null
+
+/**
+ * Send pending sales to the server, oldest first. A rejected sale (changed
+ * price, not enough stock, ...) stays in the queue as a conflict for the
+ * cashier to resolve; the rest are removed once recorded.
+ */
+export function syncQueuedSales(): Promise<SyncResult> {
+  // The online event and a manual "Sync now" can overlap
+  if (!activeSync) {
+    activeSync = runSync().finally(() => {
+      activeSync = null
+    })
+  }
+  return activeSync
+}
+
+async function runSync(): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, conflicts: 0, interrupted: false }
+  const sales = (await listQueuedSales()).filter(sale => sale.status === 'pending')
+
+  for (const sale of sales) {
+    let response: Response
+    try {
+      response = await postQueuedSale(sale)
+    } catch {
+      result.interrupted = true
+      return result
+    }
+
+    if (response.ok) {
+      await deleteQueuedSale(sale.clientId)
+      result.synced++
+    } else if (response.status === 400 || response.status === 409) {
+      const data = await response.json().catch(() => ({}))
+      await saveQueuedSale({ ...sale, status: 'conflict', error: data.error || 'Rejected by the server' })
+      result.conflicts++
+    } else {
+      // Signed out or a server error; keep everything pending for the next attempt
+      result.interrupted = true
+      return result
+    }
+  }
+
+  return result
+}
+
+/**
+ * Re-price a conflicting sale at today's catalog prices so it can be sent
+ * again. Promotions are those that ran when the sale was rung up, as on resend.
+ * Cash already handed over is kept only while it still covers the sale.
+ */
+export async function repriceQueuedSale(sale: QueuedSale): Promise<QueuedSale> {
+  const response = await fetch('/api/transactions/quote', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      items: sale.request.items.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        modifierOptionIds: item.modifierOptionIds,
+        note: item.note,
+        labelBarcode: item.labelBarcode
+      })),
+      voucherCode: sale.request.voucherCode,
+      customerEmail: sale.request.customerEmail,
+      customerId: sale.request.customerId,
+      loyaltyPoints: sale.request.loyaltyPoints,
+      soldAt: sale.soldAt
+    }),
+  })
+
+  const quote = await response.json()
+  if (!response.ok) {
+    throw new Error(quote.error || 'Unable to price the sale')
+  }
+
+  const cashTendered = sale.request.cashTendered !== undefined && sale.request.cashTendered >= quote.cashAmount
+    ? sale.request.cashTendered
+    : undefined
+
+  return {
+    ...sale,
+    status: 'pending',
+    error: undefined,
+    request: {
+      ...sale.request,
+      totalAmount: quote.totalAmount,
+      taxAmount: quote.taxAmount,
+      discountAmount: quote.discountAmount,
+      finalAmount: quote.finalAmount,
+      cashTendered,
+      // Quote lines come back in the order the items were sent
+      items: sale.request.items.map((item, index) => {
+        const line = quote.items[index]
+        return {
+          ...item,
+          unitPrice: line.unitPrice,
+          totalPrice: line.totalPrice
+        }
+      })
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import type { OrderType } from '@prisma/client'
+
+// Kept free of server imports so the POS and receipt preview can share it
+
+export const ORDER_TYPES: OrderType[] = ['DINE_IN', 'TAKEAWAY', 'DELIVERY']
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  DINE_IN: 'Dine-in',
+  TAKEAWAY: 'Takeaway',
+  DELIVERY: 'Delivery'
+}
+
+export function isOrderType(value: unknown): value is OrderType {
+  return ORDER_TYPES.includes(value as OrderType)
+}
+
+// What receipts and kitchen tickets print: the order type, plus the table for dine-in
+export function getOrderLabel(orderType: OrderType, tableName?: string | null): string {
+  return orderType === 'DINE_IN' && tableName
+    ? `${ORDER_TYPE_LABELS[orderType]} · Table ${tableName}`
+    : ORDER_TYPE_LABELS[orderType]
+}
+
+// The floor plan is a grid; each dining table sits in one cell
+export const FLOOR_COLUMNS = 8
+export const FLOOR_ROWS = 6
@@ -0,0 +1,157 @@
+import { cookies } from 'next/headers'
+import type { Session } from 'next-auth'
+import { Outlet, OutletStock, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+// Remembers which outlet the user is working at
+export const OUTLET_COOKIE = 'outlet'
+
+export class OutletError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OutletError'
+  }
+}
+
+export interface OutletInput {
+  name: string
+  code: string
+  address: string | null
+}
+
+// The code is printed on the outlet's transaction numbers, e.g. TK01
+export function parseOutletInput(body: Record<string, unknown>): OutletInput {
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) {
+    throw new OutletError('Name is required')
+  }
+
+  const code = typeof body.code === 'string' ? body.code.trim().toUpperCase() : ''
+  if (!/^[A-Z0-9]{1,10}$/.test(code)) {
+    throw new OutletError('Code must be 1 to 10 letters or digits')
+  }
+
+  const address = typeof body.address === 'string' && body.address.trim() ? body.address.trim() : null
+
+  return { name, code, address }
+}
+
+export async function assertOutletCodeAvailable(code: string, excludeId?: string) {
+  const existing = await prisma.outlet.findFirst({
+    where: { code, ...(excludeId && { id: { not: excludeId } }) }
+  })
+
+  if (existing) {
+    throw new OutletError(`Code ${code} is already used by ${existing.name}`)
+  }
+}
+
+// Admins reach every outlet; everyone else the outlets they are assigned to
+export async function getAccessibleOutlets(session: Session) {
+  return prisma.outlet.findMany({
+    where: {
+      isActive: true,
+      ...(session.user.role !== 'ADMIN' && { users: { some: { id: session.user.id } } })
+    },
+    orderBy: { name: 'asc' }
+  })
+}
+
+/**
+ * The outlet the user is working at, as picked in the outlet switcher. Admins
+ * who have not picked one see all outlets together (null); everyone else falls
+ * back to the first outlet they are assigned to.
+ */
+export async function getActiveOutlet(session: Session): Promise<Outlet | null> {
+  const [outlets, cookieStore] = await Promise.all([getAccessibleOutlets(session), cookies()])
+  const outletId = cookieStore.get(OUTLET_COOKIE)?.value
+
+  const outlet = outlets.find(candidate => candidate.id === outletId)
+  if (outlet) {
+    return outlet
+  }
+
+  if (session.user.role === 'ADMIN') {
+    return null
+  }
+
+  if (outlets.length === 0) {
+    throw new OutletError('You are not assigned to an outlet')
+  }
+
+  return outlets[0]
+}
+
+// Sales and stock counts always belong to one outlet
+export async function requireActiveOutlet(session: Session): Promise<Outlet> {
+  const outlet = await getActiveOutlet(session)
+  if (!outlet) {
+    throw new OutletError('Choose an outlet first')
+  }
+
+  return outlet
+}
+
+/**
+ * Give every product a stock row at every outlet, starting empty with the
+ * product's default minimum. Call it when products or outlets are added;
+ * existing rows are left alone.
+ */
+export async function createOutletStocks(
+  tx: Prisma.TransactionClient,
+  { productIds, outletIds }: { productIds?: string[]; outletIds?: string[] }
+) {
+  const [products, outlets] = await Promise.all([
+    tx.product.findMany({
+      where: productIds ? { id: { in: productIds } } : {},
+      select: { id: true, minStock: true }
+    }),
+    tx.outlet.findMany({
+      where: outletIds ? { id: { in: outletIds } } : {},
+      select: { id: true }
+    })
+  ])
+
+  await tx.outletStock.createMany({
+    data: outlets.flatMap(outlet => products.map(product => ({
+      outletId: outlet.id,
+      productId: product.id,
+      minStock: product.minStock
+    }))),
+    skipDuplicates: true
+  })
+}
+
+// Stock rows at the outlet by product id, or null when all outlets are shown together
+export async function getOutletStockLevels(
+  outlet: { id: string } | null,
+  productIds: string[],
+  client: Prisma.TransactionClient = prisma
+): Promise<Map<string, OutletStock> | null> {
+  if (!outlet) {
+    return null
+  }
+
+  const levels = await client.outletStock.findMany({
+    where: { outletId: outlet.id, productId: { in: productIds } }
+  })
+
+  return new Map(levels.map(level => [level.productId, level]))
+}
+
+// A product as seen from the outlet: its stock and minimum there
+export function withOutletStock<T extends { id: string; stock: Prisma.Decimal; minStock: Prisma.Decimal }>(
+  product: T,
+  levels: Map<string, OutletStock> | null
+): T {
+  if (!levels) {
+    return product
+  }
+
+  const level = levels.get(product.id)
+  return {
+    ...product,
+    stock: level?.stock ?? new Prisma.Decimal(0),
+    minStock: level?.minStock ?? product.minStock
+  }
+}
@@ -0,0 +1,120 @@
+import { Prisma } from '@prisma/client'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { $transaction: vi.fn() }
+}))
+vi.mock('@/lib/transactions', () => ({
+  markTransactionPaid: vi.fn(),
+  markTransactionUnpaid: vi.fn()
+}))
+
+import { prisma } from '@/lib/prisma'
+import { markTransactionPaid, markTransactionUnpaid } from '@/lib/transactions'
+import { markPaymentPaid, markPaymentUnpaid, parseTenders, PaymentError } from '@/lib/payments'
+
+describe('parseTenders', () => {
+  it('pays the whole amount with the sale payment method when no tenders are given', () => {
+    expect(parseTenders(undefined, 25000, 'CASH')).toEqual([{ method: 'CASH', amount: 25000 }])
+  })
+
+  it('accepts tenders that add up to the total', () => {
+    expect(parseTenders([
+      { method: 'CASH', amount: '10000' },
+      { method: 'XENDIT_QRIS', amount: 15000 }
+    ], 25000)).toEqual([
+      { method: 'CASH', amount: 10000 },
+      { method: 'XENDIT_QRIS', amount: 15000 }
+    ])
+  })
+
+  it('rejects tenders that do not add up to the total', () => {
+    expect(() => parseTenders([{ method: 'CASH', amount: 20000 }], 25000))
+      .toThrow('Payments add up to 20000 but the sale total is 25000')
+  })
+
+  it('rejects SPLIT and unknown methods as a tender', () => {
+    expect(() => parseTenders([{ method: 'SPLIT', amount: 25000 }], 25000)).toThrow(PaymentError)
+    expect(() => parseTenders([{ method: 'BARTER', amount: 25000 }], 25000)).toThrow('Invalid payment method: BARTER')
+  })
+
+  it('rejects empty and non-positive tenders', () => {
+    expect(() => parseTenders([], 25000)).toThrow('At least one payment is required')
+    expect(() => parseTenders([{ method: 'CASH', amount: 0 }, { method: 'XENDIT_QRIS', amount: 25000 }], 25000))
+      .toThrow('Payment amounts must be greater than 0')
+  })
+})
+
+function createTx({ paid, finalAmount = 25000, openTenders = 0 }: { paid: number; finalAmount?: number; openTenders?: number }) {
+  return {
+    payment: {
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: vi.fn().mockResolvedValue({
+        id: 'payment-1',
+        transactionId: 'sale-1',
+        transaction: { finalAmount: new Prisma.Decimal(finalAmount) }
+      }),
+      aggregate: vi.fn().mockResolvedValue({ _sum: { amount: new Prisma.Decimal(paid) } }),
+      count: vi.fn().mockResolvedValue(openTenders)
+    }
+  }
+}
+
+function runTransactionsWith(tx: ReturnType<typeof createTx>) {
+  vi.mocked(prisma.$transaction).mockImplementation(((run: (client: unknown) => unknown) => run(tx)) as never)
+}
+
+describe('markPaymentPaid', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(markTransactionPaid).mockResolvedValue({ transitioned: true } as never)
+  })
+
+  it('leaves the sale pending while its paid tenders fall short', async () => {
+    const tx = createTx({ paid: 10000 })
+    runTransactionsWith(tx)
+
+    const result = await markPaymentPaid('payment-1')
+
+    expect(tx.payment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'payment-1', status: { not: 'PAID' } },
+      data: { status: 'PAID', paidAt: expect.any(Date) }
+    })
+    expect(result).toEqual({ covered: false, transitioned: false })
+    expect(markTransactionPaid).not.toHaveBeenCalled()
+  })
+
+  it('marks the sale paid once its tenders cover the total', async () => {
+    runTransactionsWith(createTx({ paid: 25000 }))
+
+    const result = await markPaymentPaid('payment-1', { providerReference: 'inv-1' })
+
+    expect(result).toEqual({ covered: true, transitioned: true })
+    expect(markTransactionPaid).toHaveBeenCalledWith('sale-1')
+  })
+})
+
+describe('markPaymentUnpaid', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(markTransactionUnpaid).mockResolvedValue({ updated: true } as never)
+  })
+
+  it('keeps the sale pending while another tender has been or may be collected', async () => {
+    runTransactionsWith(createTx({ paid: 0, openTenders: 1 }))
+
+    const result = await markPaymentUnpaid('payment-1', 'EXPIRED')
+
+    expect(result).toEqual({ updated: true, transactionUpdated: false })
+    expect(markTransactionUnpaid).not.toHaveBeenCalled()
+  })
+
+  it('fails the sale with its last open tender', async () => {
+    runTransactionsWith(createTx({ paid: 0, openTenders: 0 }))
+
+    const result = await markPaymentUnpaid('payment-1', 'FAILED')
+
+    expect(result).toEqual({ updated: true, transactionUpdated: true })
+    expect(markTransactionUnpaid).toHaveBeenCalledWith('sale-1', 'FAILED')
+  })
+})
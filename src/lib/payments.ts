@@ -0,0 +1,197 @@
+import { PaymentMethod, PaymentStatus, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { markTransactionPaid, markTransactionUnpaid } from '@/lib/transactions'
+
+// SPLIT only describes a transaction; every tender has a concrete method
+const TENDER_METHODS: PaymentMethod[] = Object.values(PaymentMethod).filter(method => method !== 'SPLIT')
+
+// Smallest practical cash amounts; 0 turns rounding off
+export const CASH_ROUNDING_OPTIONS = [0, 100, 500]
+
+export class PaymentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PaymentError'
+  }
+}
+
+export interface TenderInput {
+  method: PaymentMethod
+  amount: number
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Validate the tenders a sale is paid with. Without explicit tenders the whole
+ * amount is paid with the sale's payment method.
+ */
+export function parseTenders(
+  tenders: unknown,
+  finalAmount: number,
+  paymentMethod?: string
+): TenderInput[] {
+  const input = tenders ?? (paymentMethod ? [{ method: paymentMethod, amount: finalAmount }] : [])
+
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new PaymentError('At least one payment is required')
+  }
+
+  const parsed = input.map((tender: { method?: string; amount?: number | string }) => {
+    const method = tender?.method as PaymentMethod
+    if (!TENDER_METHODS.includes(method)) {
+      throw new PaymentError(`Invalid payment method: ${tender?.method}`)
+    }
+
+    const amount = round(Number(tender?.amount))
+    if (!(amount > 0)) {
+      throw new PaymentError('Payment amounts must be greater than 0')
+    }
+
+    return { method, amount }
+  })
+
+  const covered = round(parsed.reduce((sum, tender) => sum + tender.amount, 0))
+  if (Math.abs(covered - finalAmount) > 0.01) {
+    throw new PaymentError(`Payments add up to ${covered} but the sale total is ${finalAmount}`)
+  }
+
+  return parsed
+}
+
+// Cash is in the drawer as soon as the sale is rung up; everything else waits
+// for the provider to confirm it
+export function isSettledAtTill(method: PaymentMethod): boolean {
+  return method === 'CASH'
+}
+
+/**
+ * Round a cash total to the nearest coin the till can give as change. The
+ * rounding amount is positive when the customer pays a little more.
+ */
+export function applyCashRounding(amount: number, increment: number) {
+  if (!increment) {
+    return { amount, roundingAmount: 0 }
+  }
+
+  const rounded = Math.round(amount / increment) * increment
+  return { amount: rounded, roundingAmount: round(rounded - amount) }
+}
+
+/**
+ * Work out the change for the cash handed over. Sales rung up without a
+ * tendered amount (e.g. through the API) record neither.
+ */
+export function calculateChange(cashTendered: unknown, tenders: TenderInput[]) {
+  if (cashTendered === undefined || cashTendered === null || cashTendered === '') {
+    return { cashTendered: null, changeDue: null }
+  }
+
+  const cashDue = round(tenders
+    .filter(tender => tender.method === 'CASH')
+    .reduce((sum, tender) => sum + tender.amount, 0))
+
+  if (cashDue === 0) {
+    throw new PaymentError('Cash tendered was given for a sale without a cash payment')
+  }
+
+  const tendered = round(Number(cashTendered))
+  if (!(tendered >= cashDue)) {
+    throw new PaymentError(`Cash tendered must be at least ${cashDue}`)
+  }
+
+  return { cashTendered: tendered, changeDue: round(tendered - cashDue) }
+}
+
+export function getTransactionPaymentMethod(tenders: TenderInput[]): PaymentMethod {
+  const methods = new Set(tenders.map(tender => tender.method))
+  return methods.size === 1 ? tenders[0].method : 'SPLIT'
+}
+
+async function getPaidAmount(tx: Prisma.TransactionClient, transactionId: string): Promise<number> {
+  const paid = await tx.payment.aggregate({
+    where: { transactionId, status: 'PAID' },
+    _sum: { amount: true }
+  })
+
+  return Number(paid._sum.amount ?? 0)
+}
+
+/**
+ * Mark one tender as paid. The transaction itself becomes PAID (and has its
+ * stock deducted) only once its paid tenders cover the final amount.
+ */
+export async function markPaymentPaid(
+  paymentId: string,
+  data: Prisma.PaymentUpdateManyMutationInput = {}
+) {
+  const { transactionId, covered } = await prisma.$transaction(async (tx) => {
+    await tx.payment.updateMany({
+      where: { id: paymentId, status: { not: 'PAID' } },
+      data: { ...data, status: 'PAID', paidAt: new Date() }
+    })
+
+    const payment = await tx.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: { transaction: { select: { finalAmount: true } } }
+    })
+
+    const paidAmount = await getPaidAmount(tx, payment.transactionId)
+
+    return {
+      transactionId: payment.transactionId,
+      covered: paidAmount >= Number(payment.transaction.finalAmount) - 0.005
+    }
+  })
+
+  // Re-delivered confirmations reach this again, so a crash between the two
+  // database transactions heals itself
+  if (!covered) {
+    return { covered, transitioned: false }
+  }
+
+  const { transitioned } = await markTransactionPaid(transactionId)
+  return { covered, transitioned }
+}
+
+/**
+ * Record a tender that failed, expired or is still pending. The sale only
+ * fails with it when nothing else has been or may still be collected;
+ * otherwise it stays pending so the balance can be paid another way.
+ */
+export async function markPaymentUnpaid(
+  paymentId: string,
+  status: Exclude<PaymentStatus, 'PAID'>,
+  data: Prisma.PaymentUpdateManyMutationInput = {}
+) {
+  const { updated, transactionId, openTenders } = await prisma.$transaction(async (tx) => {
+    // Only a pending tender can change; a late update never reopens or
+    // overrides a settled one
+    const updated = await tx.payment.updateMany({
+      where: { id: paymentId, status: 'PENDING' },
+      data: { ...data, status }
+    })
+
+    const payment = await tx.payment.findUniqueOrThrow({
+      where: { id: paymentId }
+    })
+
+    const openTenders = await tx.payment.count({
+      where: {
+        transactionId: payment.transactionId,
+        status: { in: ['PAID', 'PENDING'] }
+      }
+    })
+
+    return { updated: updated.count > 0, transactionId: payment.transactionId, openTenders }
+  })
+
+  if (!updated || status === 'PENDING' || openTenders > 0) {
+    return { updated, transactionUpdated: false }
+  }
+
+  const { updated: transactionUpdated } = await markTransactionUnpaid(transactionId, status)
+  return { updated, transactionUpdated }
+}
@@ -0,0 +1,200 @@
+import { Prisma } from '@prisma/client'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    product: { findMany: vi.fn() }
+  }
+}))
+vi.mock('@/lib/settings', () => ({ getStoreSettings: vi.fn() }))
+vi.mock('@/lib/promotions', () => ({ getActivePromotions: vi.fn() }))
+vi.mock('@/lib/vouchers', () => ({ validateVoucher: vi.fn() }))
+vi.mock('@/lib/loyalty', () => ({ validateLoyaltyRedemption: vi.fn() }))
+vi.mock('@/lib/barcodeRules', () => ({ getActiveBarcodeRules: vi.fn() }))
+
+import { prisma } from '@/lib/prisma'
+import { getStoreSettings } from '@/lib/settings'
+import { getActivePromotions } from '@/lib/promotions'
+import { validateVoucher } from '@/lib/vouchers'
+import { getActiveBarcodeRules } from '@/lib/barcodeRules'
+import { assertClientTotals, priceCart, PricingError } from '@/lib/pricing'
+
+function product(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'coffee',
+    name: 'Coffee',
+    price: new Prisma.Decimal(20000),
+    isActive: true,
+    variantAxes: [],
+    soldByWeight: false,
+    plu: null,
+    categoryId: 'drinks',
+    taxClass: null,
+    taxRate: null,
+    modifierGroups: [],
+    category: { id: 'drinks', taxClass: null, taxRate: null, modifierGroups: [] },
+    ...overrides
+  }
+}
+
+const promotion = {
+  id: 'promo',
+  name: '10% off drinks',
+  type: 'PERCENTAGE',
+  scope: 'CATEGORY',
+  value: new Prisma.Decimal(10),
+  buyQuantity: null,
+  getQuantity: null,
+  startsAt: null,
+  endsAt: null,
+  startTime: null,
+  endTime: null,
+  daysOfWeek: [],
+  isActive: true,
+  products: [],
+  categories: [{ id: 'drinks', name: 'Drinks' }]
+}
+
+function withCatalog(products: ReturnType<typeof product>[], { pricesIncludeTax = false, promotions = [] as unknown[] } = {}) {
+  vi.mocked(prisma.product.findMany).mockResolvedValue(products as never)
+  vi.mocked(getStoreSettings).mockResolvedValue({
+    pricesIncludeTax,
+    defaultTaxRate: { name: 'PPN', rate: new Prisma.Decimal(11), isActive: true }
+  } as never)
+  vi.mocked(getActivePromotions).mockResolvedValue(promotions as never)
+}
+
+describe('priceCart', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('prices from the catalog whatever the client sent, with tax added on top', async () => {
+    withCatalog([product()])
+
+    const cart = await priceCart([{ productId: 'coffee', quantity: 2, unitPrice: 1, totalPrice: 2 }])
+
+    expect(cart.lines[0].unitPrice).toBe(20000)
+    expect(cart.lines[0].totalPrice).toBe(40000)
+    expect(cart.taxAmount).toBe(4400)
+    expect(cart.finalAmount).toBe(44400)
+  })
+
+  it('backs tax out of inclusive prices', async () => {
+    withCatalog([product({ price: new Prisma.Decimal(11100) })], { pricesIncludeTax: true })
+
+    const cart = await priceCart([{ productId: 'coffee', quantity: 1 }])
+
+    expect(cart.taxAmount).toBe(1100)
+    expect(cart.finalAmount).toBe(11100)
+  })
+
+  it('charges tax on what is left after promotions', async () => {
+    withCatalog([product()], { promotions: [promotion] })
+
+    const cart = await priceCart([{ productId: 'coffee', quantity: 1 }])
+
+    expect(cart.discountAmount).toBe(2000)
+    expect(cart.lines[0].promotions).toEqual([{ promotionId: 'promo', promotionName: '10% off drinks', discountAmount: 2000 }])
+    expect(cart.taxAmount).toBe(1980)
+    expect(cart.finalAmount).toBe(19980)
+  })
+
+  it('spreads a voucher over the lines left after promotions', async () => {
+    withCatalog([product(), product({ id: 'cake', name: 'Cake', categoryId: 'food', category: { id: 'food', taxClass: null, taxRate: null, modifierGroups: [] } })], { promotions: [promotion] })
+    vi.mocked(validateVoucher).mockResolvedValue({ discountAmount: 3800 } as never)
+
+    const cart = await priceCart(
+      [{ productId: 'coffee', quantity: 1 }, { productId: 'cake', quantity: 1 }],
+      { voucherCode: 'HEMAT' }
+    )
+
+    // 18,000 of coffee and 20,000 of cake are left after the promotion
+    expect(validateVoucher).toHaveBeenCalledWith('HEMAT', 38000, undefined)
+    expect(cart.lines.map(line => line.voucherDiscountAmount)).toEqual([1800, 2000])
+    expect(cart.discountAmount).toBe(5800)
+  })
+
+  it('gives the rounding remainder of a voucher to the last line so the shares add up', async () => {
+    withCatalog([product(), product({ id: 'tea', name: 'Tea' }), product({ id: 'juice', name: 'Juice' })])
+    vi.mocked(validateVoucher).mockResolvedValue({ discountAmount: 100 } as never)
+
+    const cart = await priceCart(
+      [{ productId: 'coffee', quantity: 1 }, { productId: 'tea', quantity: 1 }, { productId: 'juice', quantity: 1 }],
+      { voucherCode: 'HEMAT' }
+    )
+
+    expect(cart.lines.map(line => line.voucherDiscountAmount)).toEqual([33.33, 33.33, 33.34])
+    expect(cart.discountAmount).toBe(100)
+  })
+
+  it('rejects the same line twice', async () => {
+    withCatalog([product()])
+
+    await expect(priceCart([
+      { productId: 'coffee', quantity: 1 },
+      { productId: 'coffee', quantity: 2 }
+    ])).rejects.toThrow(PricingError)
+  })
+
+  it('rejects fractional quantities of products sold by the unit', async () => {
+    withCatalog([product()])
+
+    await expect(priceCart([{ productId: 'coffee', quantity: 1.5 }])).rejects.toThrow('Invalid quantity for "Coffee"')
+  })
+
+  describe('scale price labels', () => {
+    const cheese = product({
+      id: 'cheese',
+      name: 'Cheese',
+      price: new Prisma.Decimal(150000),
+      soldByWeight: true,
+      plu: '123'
+    })
+    const rule = { prefix: '21', pluLength: 5, valueType: 'PRICE', valueLength: 5, valueDecimals: 0 }
+    // Cheese, PLU 00123, Rp 37,499
+    const label = '2100123374991'
+
+    beforeEach(() => {
+      vi.mocked(getActiveBarcodeRules).mockResolvedValue([rule] as never)
+    })
+
+    it('charges the printed price instead of the weight times the price per kg', async () => {
+      withCatalog([cheese])
+
+      const cart = await priceCart([{ productId: 'cheese', quantity: 0.25, labelBarcode: label }])
+
+      expect(cart.lines[0].quantity).toBe(0.25)
+      expect(cart.lines[0].totalPrice).toBe(37499)
+    })
+
+    it('rejects a weight that does not match the label', async () => {
+      withCatalog([cheese])
+
+      await expect(priceCart([{ productId: 'cheese', quantity: 0.3, labelBarcode: label }]))
+        .rejects.toThrow('Weight of "Cheese" does not match its price label')
+    })
+
+    it('rejects a label printed for another product', async () => {
+      withCatalog([product({ ...cheese, plu: '456' })])
+
+      await expect(priceCart([{ productId: 'cheese', quantity: 0.25, labelBarcode: label }]))
+        .rejects.toThrow('The price label scanned for "Cheese" is not valid')
+    })
+  })
+})
+
+describe('assertClientTotals', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('rejects totals that differ from the server by more than rounding noise', async () => {
+    withCatalog([product()])
+    const items = [{ productId: 'coffee', quantity: 1 }]
+    const cart = await priceCart(items)
+
+    expect(() => assertClientTotals(cart, items, { finalAmount: 22200.004 })).not.toThrow()
+    expect(() => assertClientTotals(cart, items, { finalAmount: 20000 })).toThrow(PricingError)
+  })
+})
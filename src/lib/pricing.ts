@@ -0,0 +1,356 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getStoreSettings } from '@/lib/settings'
+import { resolveProductTax, calculateTax, TaxableProduct } from '@/lib/tax'
+import { getActivePromotions } from '@/lib/promotions'
+import { applyPromotions, AppliedPromotion } from '@/lib/promotionPricing'
+import { validateVoucher, ValidatedVoucher } from '@/lib/vouchers'
+import { validateLoyaltyRedemption, ValidatedLoyaltyRedemption } from '@/lib/loyalty'
+import { ACTIVE_MODIFIER_GROUPS, getProductModifierGroups, ProductWithModifierGroups } from '@/lib/modifiers'
+import { getActiveBarcodeRules } from '@/lib/barcodeRules'
+import { getLabelPrice, getLabelWeight, isValidQuantity, parseScaleBarcode, ScaleBarcodeRule } from '@/lib/scaleBarcodes'
+
+// Client-submitted amounts may differ from ours by floating point noise only
+const AMOUNT_TOLERANCE = 0.01
+
+export const ITEM_NOTE_MAX_LENGTH = 200
+export const ORDER_NOTE_MAX_LENGTH = 500
+
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PricingError'
+  }
+}
+
+export interface CartItemInput {
+  productId: string
+  quantity: number | string
+  unitPrice?: number | string
+  totalPrice?: number | string
+  modifierOptionIds?: string[]
+  note?: string | null
+  // The scale's price label the line was scanned from
+  labelBarcode?: string | null
+}
+
+export interface ClientTotals {
+  totalAmount?: number | string
+  taxAmount?: number | string
+  discountAmount?: number | string
+  finalAmount?: number | string
+}
+
+export interface PricedModifier {
+  modifierOptionId: string
+  groupName: string
+  optionName: string
+  priceDelta: number
+  ingredientId: string | null
+  ingredientQuantity: number
+}
+
+export interface PricedLine {
+  productId: string
+  product: TaxableProduct
+  quantity: number
+  // Product price plus the chosen modifiers
+  unitPrice: number
+  modifiers: PricedModifier[]
+  note: string | null
+  totalPrice: number
+  // Promotions plus this line's share of any voucher and redeemed points
+  discountAmount: number
+  promotions: AppliedPromotion[]
+  voucherDiscountAmount: number
+  loyaltyDiscountAmount: number
+  taxName: string | null
+  taxRate: number
+  taxAmount: number
+}
+
+export interface PricedCart {
+  lines: PricedLine[]
+  taxInclusive: boolean
+  totalAmount: number
+  taxAmount: number
+  discountAmount: number
+  finalAmount: number
+  voucher: ValidatedVoucher | null
+  loyalty: ValidatedLoyaltyRedemption | null
+}
+
+export interface PriceCartOptions {
+  voucherCode?: string | null
+  customerEmail?: string | null
+  customerId?: string | null
+  loyaltyPoints?: number | string | null
+  // When the sale was made, for sales recorded offline and sent later
+  pricedAt?: Date
+}
+
+// Special instructions are free text; a blank note is no note
+export function normalizeNote(note: unknown, maxLength = ITEM_NOTE_MAX_LENGTH): string | null {
+  if (note === undefined || note === null) {
+    return null
+  }
+
+  if (typeof note !== 'string') {
+    throw new PricingError('Notes must be text')
+  }
+
+  const trimmed = note.trim()
+  if (trimmed.length > maxLength) {
+    throw new PricingError(`Notes can be at most ${maxLength} characters`)
+  }
+
+  return trimmed || null
+}
+
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function amountsDiffer(clientAmount: number | string | undefined, serverAmount: number): boolean {
+  if (clientAmount === undefined || clientAmount === null || clientAmount === '') {
+    return false
+  }
+  return Math.abs(Number(clientAmount) - serverAmount) > AMOUNT_TOLERANCE
+}
+
+// Check the chosen options against the product's groups and snapshot them for the line
+function resolveModifiers(
+  product: ProductWithModifierGroups & { name: string },
+  optionIds: string[]
+): PricedModifier[] {
+  const groups = getProductModifierGroups(product)
+  const chosen = new Set(optionIds)
+
+  for (const optionId of chosen) {
+    if (!groups.some(group => group.options.some(option => option.id === optionId))) {
+      throw new PricingError(`A selected option for "${product.name}" is no longer available`)
+    }
+  }
+
+  return groups.flatMap(group => {
+    const options = group.options.filter(option => chosen.has(option.id))
+
+    if (options.length < group.minSelect) {
+      throw new PricingError(`Choose at least ${group.minSelect} ${group.name} for "${product.name}"`)
+    }
+
+    if (group.maxSelect !== null && options.length > group.maxSelect) {
+      throw new PricingError(`Choose at most ${group.maxSelect} ${group.name} for "${product.name}"`)
+    }
+
+    return options.map(option => ({
+      modifierOptionId: option.id,
+      groupName: group.name,
+      optionName: option.name,
+      priceDelta: Number(option.priceDelta),
+      ingredientId: option.ingredientId,
+      ingredientQuantity: option.ingredientId ? option.ingredientQuantity : 0
+    }))
+  })
+}
+
+// A price label fixes what the line costs; the weight read from it is what comes off the shelf
+function resolveLabelPrice(
+  product: { name: string; plu: string | null; price: Prisma.Decimal; soldByWeight: boolean },
+  quantity: number,
+  barcode: string,
+  rules: ScaleBarcodeRule[]
+): number {
+  const label = parseScaleBarcode(barcode, rules)
+  const price = label && getLabelPrice(label)
+  if (!label || price === null || !product.soldByWeight || label.plu !== product.plu) {
+    throw new PricingError(`The price label scanned for "${product.name}" is not valid`)
+  }
+
+  if (getLabelWeight(label, Number(product.price)) !== quantity) {
+    throw new PricingError(`Weight of "${product.name}" does not match its price label`)
+  }
+
+  return price
+}
+
+/**
+ * Price a cart from the catalog. Only product IDs, chosen modifier options
+ * and quantities are taken from the client; prices, promotions and tax always
+ * come from the database. Promotions are the ones running when the sale was
+ * made. A line scanned from a scale's price label is charged
+ * the price printed on it, read again from the label here.
+ */
+export async function priceCart(
+  items: CartItemInput[],
+  { voucherCode, customerEmail, customerId, loyaltyPoints, pricedAt }: PriceCartOptions = {}
+): Promise<PricedCart> {
+  // The same product may be on several lines as long as each has different
+  // modifiers, a different note or its own price label
+  const seen = new Set<string>()
+  for (const item of items) {
+    const key = [item.productId, ...[...(item.modifierOptionIds ?? [])].sort(), normalizeNote(item.note) ?? '', item.labelBarcode ?? ''].join(':')
+    if (seen.has(key)) {
+      throw new PricingError(`Product ${item.productId} appears more than once in the cart`)
+    }
+    seen.add(key)
+  }
+
+  const [products, settings, promotions, barcodeRules] = await Promise.all([
+    prisma.product.findMany({
+      where: { id: { in: items.map(item => item.productId) } },
+      include: {
+        taxRate: true,
+        modifierGroups: ACTIVE_MODIFIER_GROUPS,
+        category: {
+          include: {
+            taxRate: true,
+            modifierGroups: ACTIVE_MODIFIER_GROUPS
+          }
+        }
+      }
+    }),
+    getStoreSettings(),
+    getActivePromotions(pricedAt),
+    items.some(item => item.labelBarcode) ? getActiveBarcodeRules() : []
+  ])
+  const taxInclusive = settings.pricesIncludeTax
+
+  const catalogLines = items.map(item => {
+    const product = products.find(p => p.id === item.productId)
+
+    if (!product) {
+      throw new PricingError(`Product ${item.productId} not found`)
+    }
+
+    if (!product.isActive) {
+      throw new PricingError(`Product "${product.name}" is no longer available`)
+    }
+
+    if (product.variantAxes.length > 0) {
+      throw new PricingError(`Choose a variant of "${product.name}"`)
+    }
+
+    // Whole units, or kilograms to the gram for products sold by weight
+    const quantity = Number(item.quantity)
+    if (!isValidQuantity(quantity, product.soldByWeight)) {
+      throw new PricingError(`Invalid quantity for "${product.name}"`)
+    }
+
+    const modifiers = resolveModifiers(product, item.modifierOptionIds ?? [])
+    const unitPrice = roundCurrency(Number(product.price) + modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0))
+
+    if (unitPrice < 0) {
+      throw new PricingError(`Selected options take "${product.name}" below zero`)
+    }
+
+    return {
+      productId: product.id,
+      product,
+      quantity,
+      unitPrice,
+      modifiers,
+      note: normalizeNote(item.note),
+      totalPrice: item.labelBarcode
+        ? resolveLabelPrice(product, quantity, item.labelBarcode, barcodeRules)
+        : roundCurrency(unitPrice * quantity)
+    }
+  })
+
+  const appliedPromotions = applyPromotions(
+    catalogLines.map(line => ({ ...line, categoryId: line.product.categoryId })),
+    promotions
+  )
+
+  const promotionDiscounts = appliedPromotions.map(lineDiscounts =>
+    roundCurrency(lineDiscounts.reduce((sum, promotion) => sum + promotion.discountAmount, 0))
+  )
+  const amountsAfterPromotions = catalogLines.map((line, index) => line.totalPrice - promotionDiscounts[index])
+
+  // A voucher discounts what is left after promotions, spread over the lines by value
+  const voucher = voucherCode
+    ? await validateVoucher(voucherCode, roundCurrency(amountsAfterPromotions.reduce((sum, amount) => sum + amount, 0)), customerEmail)
+    : null
+  const voucherDiscounts = allocateDiscount(voucher?.discountAmount ?? 0, amountsAfterPromotions)
+
+  // Redeemed points come off last and can't take a line below zero
+  const amountsAfterVoucher = amountsAfterPromotions.map((amount, index) => amount - voucherDiscounts[index])
+  const loyalty = loyaltyPoints
+    ? await validateLoyaltyRedemption(customerId, loyaltyPoints, roundCurrency(amountsAfterVoucher.reduce((sum, amount) => sum + amount, 0)))
+    : null
+  const loyaltyDiscounts = allocateDiscount(loyalty?.discountAmount ?? 0, amountsAfterVoucher)
+
+  const lines = catalogLines.map((line, index): PricedLine => {
+    const discountAmount = roundCurrency(promotionDiscounts[index] + voucherDiscounts[index] + loyaltyDiscounts[index])
+    const tax = resolveProductTax(line.product, settings)
+
+    return {
+      ...line,
+      discountAmount,
+      promotions: appliedPromotions[index],
+      voucherDiscountAmount: voucherDiscounts[index],
+      loyaltyDiscountAmount: loyaltyDiscounts[index],
+      taxName: tax.name,
+      taxRate: tax.rate,
+      // Tax is charged on what the customer pays for the line, after discounts
+      taxAmount: calculateTax(line.totalPrice - discountAmount, tax.rate, taxInclusive)
+    }
+  })
+
+  const totalAmount = roundCurrency(lines.reduce((sum, line) => sum + line.totalPrice, 0))
+  const taxAmount = roundCurrency(lines.reduce((sum, line) => sum + line.taxAmount, 0))
+  const discountAmount = roundCurrency(lines.reduce((sum, line) => sum + line.discountAmount, 0))
+
+  return {
+    lines,
+    taxInclusive,
+    totalAmount,
+    taxAmount,
+    discountAmount,
+    // Inclusive prices already carry their tax, so it is only added on top for exclusive pricing
+    finalAmount: roundCurrency(totalAmount + (taxInclusive ? 0 : taxAmount) - discountAmount),
+    voucher,
+    loyalty
+  }
+}
+
+// Split a cart-level discount over line amounts; the last line takes the rounding remainder
+function allocateDiscount(discount: number, amounts: number[]): number[] {
+  const base = amounts.reduce((sum, amount) => sum + amount, 0)
+  if (discount <= 0 || base <= 0) {
+    return amounts.map(() => 0)
+  }
+
+  let allocated = 0
+  return amounts.map((amount, index) => {
+    const share = index === amounts.length - 1
+      ? roundCurrency(discount - allocated)
+      : roundCurrency(discount * amount / base)
+    allocated += share
+    return share
+  })
+}
+
+/**
+ * Reject the request when the amounts the client displayed to the cashier do
+ * not match what the server is about to charge.
+ */
+export function assertClientTotals(cart: PricedCart, items: CartItemInput[], totals: ClientTotals) {
+  // Lines are priced in the order the items were sent
+  items.forEach((item, index) => {
+    const line = cart.lines[index]
+
+    if (amountsDiffer(item.unitPrice, line.unitPrice) || amountsDiffer(item.totalPrice, line.totalPrice)) {
+      throw new PricingError(`Price of "${line.product.name}" has changed. Please refresh the product list and try again.`)
+    }
+  })
+
+  if (
+    amountsDiffer(totals.totalAmount, cart.totalAmount) ||
+    amountsDiffer(totals.taxAmount, cart.taxAmount) ||
+    amountsDiffer(totals.discountAmount, cart.discountAmount) ||
+    amountsDiffer(totals.finalAmount, cart.finalAmount)
+  ) {
+    throw new PricingError('Transaction totals do not match server pricing. Please refresh and try again.')
+  }
+}
@@ -0,0 +1,30 @@
+// Helpers shared by the printed documents: receipts, kitchen tickets, shift
+// reports, transfer slips and purchase orders
+
+export function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(amount)
+}
+
+// Names and notes are typed in by staff, so anything put into a printed page is escaped first
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Notes are printed in full, broken over as many lines as the paper needs
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = []
+  for (let start = 0; start < text.length; start += width) {
+    lines.push(text.substring(start, start + width))
+  }
+  return lines
+}
@@ -0,0 +1,212 @@
+import type { Prisma, PromotionScope, PromotionType } from '@prisma/client'
+import { getStoreClock } from '@/lib/storeTime'
+
+// Kept free of server imports so the POS can apply promotions while offline
+
+// What pricing reads of a promotion, whether loaded from the database or the offline catalog
+export interface PricingPromotion {
+  id: string
+  name: string
+  type: PromotionType
+  scope: PromotionScope
+  value: Prisma.Decimal | number
+  buyQuantity: number | null
+  getQuantity: number | null
+  startsAt: Date | null
+  endsAt: Date | null
+  startTime: string | null
+  endTime: string | null
+  daysOfWeek: number[]
+  isActive: boolean
+  products: Array<{ id: string }>
+  categories: Array<{ id: string }>
+}
+
+export interface PromotableLine {
+  productId: string
+  categoryId: string
+  quantity: number
+  unitPrice: number
+  totalPrice: number
+}
+
+export interface AppliedPromotion {
+  promotionId: string
+  promotionName: string
+  discountAmount: number
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number)
+  return hours * 60 + (minutes || 0)
+}
+
+export function isValidTime(value: string): boolean {
+  return /^([01]\d|2[0-3]):[0-5]\d$/.test(value)
+}
+
+/**
+ * Whether a promotion runs at the given moment: inside its date range, on one
+ * of its weekdays and inside its daily time window (if it has one). Weekdays
+ * and times are read off the store's clock.
+ */
+export function isPromotionActiveAt(promotion: PricingPromotion, now: Date, timeZone: string): boolean {
+  if (!promotion.isActive) return false
+  if (promotion.startsAt && now < promotion.startsAt) return false
+  if (promotion.endsAt && now > promotion.endsAt) return false
+
+  const clock = getStoreClock(now, timeZone)
+  if (promotion.daysOfWeek.length > 0 && !promotion.daysOfWeek.includes(clock.weekday)) {
+    return false
+  }
+
+  if (promotion.startTime && promotion.endTime) {
+    const minutes = clock.hours * 60 + clock.minutes
+    const start = parseTime(promotion.startTime)
+    const end = parseTime(promotion.endTime)
+
+    // Windows may run past midnight, e.g. 22:00-02:00
+    return start <= end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end
+  }
+
+  return true
+}
+
+function isEligible(promotion: PricingPromotion, line: PromotableLine): boolean {
+  switch (promotion.scope) {
+    case 'PRODUCT':
+      return promotion.products.some(product => product.id === line.productId)
+    case 'CATEGORY':
+      return promotion.categories.some(category => category.id === line.categoryId)
+    default:
+      return true
+  }
+}
+
+function addDiscount(discounts: Map<number, number>, index: number, amount: number) {
+  discounts.set(index, (discounts.get(index) ?? 0) + amount)
+}
+
+// One entry per unit so quantity-based deals can pick individual units
+function expandUnits(lines: PromotableLine[], eligible: number[]) {
+  return eligible.flatMap(index =>
+    Array.from({ length: Math.floor(lines[index].quantity) }, () => ({ index, price: lines[index].unitPrice }))
+  )
+}
+
+function calculateDiscounts(
+  promotion: PricingPromotion,
+  lines: PromotableLine[],
+  eligible: number[],
+  remaining: number[]
+): Map<number, number> {
+  const value = Number(promotion.value)
+  const discounts = new Map<number, number>()
+
+  switch (promotion.type) {
+    case 'PERCENTAGE':
+      for (const index of eligible) {
+        addDiscount(discounts, index, remaining[index] * Math.min(value, 100) / 100)
+      }
+      break
+
+    case 'FIXED_AMOUNT':
+      if (promotion.scope === 'CART') {
+        // One amount off the whole cart, spread over the lines by value; the
+        // last line takes the rounding remainder
+        const base = eligible.reduce((sum, index) => sum + remaining[index], 0)
+        const amount = Math.min(value, base)
+        let allocated = 0
+        eligible.forEach((index, position) => {
+          const share = position === eligible.length - 1
+            ? amount - allocated
+            : round(amount * remaining[index] / base)
+          allocated += share
+          addDiscount(discounts, index, share)
+        })
+      } else {
+        // Product and category promotions take the amount off every unit
+        for (const index of eligible) {
+          addDiscount(discounts, index, value * lines[index].quantity)
+        }
+      }
+      break
+
+    case 'BUY_X_GET_Y': {
+      const buy = promotion.buyQuantity ?? 0
+      const get = promotion.getQuantity ?? 0
+      if (buy <= 0 || get <= 0) break
+
+      // The cheapest units in the deal are the free ones
+      const units = expandUnits(lines, eligible).sort((a, b) => a.price - b.price)
+      const freeUnits = Math.floor(units.length / (buy + get)) * get
+      for (const unit of units.slice(0, freeUnits)) {
+        addDiscount(discounts, unit.index, unit.price)
+      }
+      break
+    }
+
+    case 'BUNDLE': {
+      const size = promotion.buyQuantity ?? 0
+      if (size <= 0) break
+
+      const units = expandUnits(lines, eligible).sort((a, b) => b.price - a.price)
+      const bundles = Math.floor(units.length / size)
+      for (let i = 0; i < bundles; i++) {
+        const bundle = units.slice(i * size, (i + 1) * size)
+        const regularPrice = bundle.reduce((sum, unit) => sum + unit.price, 0)
+        const saving = regularPrice - value
+        if (saving <= 0) continue
+
+        for (const unit of bundle) {
+          addDiscount(discounts, unit.index, saving * unit.price / regularPrice)
+        }
+      }
+      break
+    }
+  }
+
+  return discounts
+}
+
+/**
+ * Work out the discounts each cart line receives. Promotions are applied in
+ * priority order and stack, but a line is never discounted below zero.
+ */
+export function applyPromotions(
+  lines: PromotableLine[],
+  promotions: PricingPromotion[]
+): AppliedPromotion[][] {
+  const applied: AppliedPromotion[][] = lines.map(() => [])
+  const remaining = lines.map(line => line.totalPrice)
+
+  for (const promotion of promotions) {
+    const eligible = lines
+      .map((_, index) => index)
+      .filter(index => remaining[index] > 0 && isEligible(promotion, lines[index]))
+
+    if (eligible.length === 0) continue
+
+    const discounts = calculateDiscounts(promotion, lines, eligible, remaining)
+
+    for (const [index, amount] of discounts) {
+      const discountAmount = round(Math.min(amount, remaining[index]))
+      if (discountAmount <= 0) continue
+
+      remaining[index] = round(remaining[index] - discountAmount)
+      applied[index].push({
+        promotionId: promotion.id,
+        promotionName: promotion.name,
+        discountAmount
+      })
+    }
+  }
+
+  return applied
+}
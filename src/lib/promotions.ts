@@ -0,0 +1,184 @@
+import { Prisma, PromotionScope, PromotionType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getStoreSettings } from '@/lib/settings'
+import { isPromotionActiveAt, isValidTime } from '@/lib/promotionPricing'
+
+export class PromotionInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PromotionInputError'
+  }
+}
+
+export const PROMOTION_TARGETS = {
+  products: { select: { id: true, name: true } },
+  categories: { select: { id: true, name: true } }
+} satisfies Prisma.PromotionInclude
+
+export type PromotionWithTargets = Prisma.PromotionGetPayload<{ include: typeof PROMOTION_TARGETS }>
+
+export interface PromotionInput {
+  name: string
+  description: string | null
+  type: PromotionType
+  scope: PromotionScope
+  value: number
+  buyQuantity: number | null
+  getQuantity: number | null
+  priority: number
+  startsAt: Date | null
+  endsAt: Date | null
+  startTime: string | null
+  endTime: string | null
+  daysOfWeek: number[]
+  isActive: boolean
+  productIds: string[]
+  categoryIds: string[]
+}
+
+function optionalInteger(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null
+  return Number(value)
+}
+
+function optionalDate(value: unknown, field: string): Date | null {
+  if (!value) return null
+  const date = new Date(value as string)
+  if (isNaN(date.getTime())) {
+    throw new PromotionInputError(`Invalid ${field}`)
+  }
+  return date
+}
+
+/**
+ * Validate a promotion submitted from the admin form. Type-specific fields
+ * that don't apply are cleared so stale values never affect pricing.
+ */
+export function parsePromotionInput(body: Record<string, unknown>): PromotionInput {
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) {
+    throw new PromotionInputError('Name is required')
+  }
+
+  const type = body.type as PromotionType
+  if (!Object.values(PromotionType).includes(type)) {
+    throw new PromotionInputError('Invalid promotion type')
+  }
+
+  const scope = (body.scope || 'CART') as PromotionScope
+  if (!Object.values(PromotionScope).includes(scope)) {
+    throw new PromotionInputError('Invalid promotion scope')
+  }
+
+  const value = Number(body.value || 0)
+  const buyQuantity = optionalInteger(body.buyQuantity)
+  const getQuantity = optionalInteger(body.getQuantity)
+
+  switch (type) {
+    case 'PERCENTAGE':
+      if (!(value > 0 && value <= 100)) {
+        throw new PromotionInputError('Percentage must be between 0 and 100')
+      }
+      break
+    case 'FIXED_AMOUNT':
+      if (!(value > 0)) {
+        throw new PromotionInputError('Discount amount must be greater than 0')
+      }
+      break
+    case 'BUY_X_GET_Y':
+      if (!Number.isInteger(buyQuantity) || buyQuantity! < 1 || !Number.isInteger(getQuantity) || getQuantity! < 1) {
+        throw new PromotionInputError('Buy and get quantities must be whole numbers of at least 1')
+      }
+      break
+    case 'BUNDLE':
+      if (!Number.isInteger(buyQuantity) || buyQuantity! < 2) {
+        throw new PromotionInputError('A bundle must contain at least 2 items')
+      }
+      if (!(value > 0)) {
+        throw new PromotionInputError('Bundle price must be greater than 0')
+      }
+      break
+  }
+
+  const productIds = Array.isArray(body.productIds) ? body.productIds.map(String) : []
+  const categoryIds = Array.isArray(body.categoryIds) ? body.categoryIds.map(String) : []
+
+  if (scope === 'PRODUCT' && productIds.length === 0) {
+    throw new PromotionInputError('Select at least one product')
+  }
+  if (scope === 'CATEGORY' && categoryIds.length === 0) {
+    throw new PromotionInputError('Select at least one category')
+  }
+
+  const startsAt = optionalDate(body.startsAt, 'start date')
+  const endsAt = optionalDate(body.endsAt, 'end date')
+  if (startsAt && endsAt && startsAt > endsAt) {
+    throw new PromotionInputError('End date must be after start date')
+  }
+
+  const startTime = (body.startTime as string) || null
+  const endTime = (body.endTime as string) || null
+  if (Boolean(startTime) !== Boolean(endTime)) {
+    throw new PromotionInputError('Both start and end time are required for a daily time window')
+  }
+  if ((startTime && !isValidTime(startTime)) || (endTime && !isValidTime(endTime))) {
+    throw new PromotionInputError('Times must be in HH:mm format')
+  }
+
+  const daysOfWeek = Array.isArray(body.daysOfWeek) ? body.daysOfWeek.map(Number) : []
+  if (daysOfWeek.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new PromotionInputError('Invalid day of week')
+  }
+
+  return {
+    name,
+    description: (body.description as string) || null,
+    type,
+    scope,
+    value: type === 'BUY_X_GET_Y' ? 0 : value,
+    buyQuantity: type === 'BUY_X_GET_Y' || type === 'BUNDLE' ? buyQuantity : null,
+    getQuantity: type === 'BUY_X_GET_Y' ? getQuantity : null,
+    priority: Number(body.priority) || 0,
+    startsAt,
+    endsAt,
+    startTime,
+    endTime,
+    daysOfWeek,
+    isActive: body.isActive === undefined ? true : Boolean(body.isActive),
+    productIds: scope === 'PRODUCT' ? productIds : [],
+    categoryIds: scope === 'CATEGORY' ? categoryIds : []
+  }
+}
+
+export async function getActivePromotions(now = new Date()): Promise<PromotionWithTargets[]> {
+  const [promotions, settings] = await Promise.all([
+    prisma.promotion.findMany({
+      where: {
+        isActive: true,
+        AND: [
+          { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+          { OR: [{ endsAt: null }, { endsAt: { gte: now } }] }
+        ]
+      },
+      include: PROMOTION_TARGETS,
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }]
+    }),
+    getStoreSettings()
+  ])
+
+  // Weekdays and daily hours are the store's, not the server's
+  return promotions.filter(promotion => isPromotionActiveAt(promotion, now, settings.timeZone))
+}
+
+// Promotions that are switched on and not over yet, for the POS to work out
+// offline which of them apply at the moment of each sale
+export async function getScheduledPromotions(now = new Date()): Promise<PromotionWithTargets[]> {
+  return prisma.promotion.findMany({
+    where: {
+      isActive: true,
+      OR: [{ endsAt: null }, { endsAt: { gte: now } }]
+    },
+    include: PROMOTION_TARGETS,
+    orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }]
+  })
+}
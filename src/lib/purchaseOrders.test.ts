@@ -0,0 +1,112 @@
+import { Prisma } from '@prisma/client'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    purchaseOrder: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn() }
+  }
+}))
+vi.mock('@/lib/outlets', () => ({ getAccessibleOutlets: vi.fn() }))
+vi.mock('@/lib/settings', () => ({ getStoreSettings: vi.fn() }))
+vi.mock('@/lib/stock', () => ({ recordStockMovement: vi.fn() }))
+vi.mock('@/lib/transactionNumbers', () => ({ formatSequenceDate: vi.fn(), nextSequenceValue: vi.fn() }))
+
+import { prisma } from '@/lib/prisma'
+import { recordStockMovement } from '@/lib/stock'
+import { PurchaseOrderError, receivePurchaseOrder } from '@/lib/purchaseOrders'
+
+// Ten bags of beans ordered, four already in
+const order = {
+  id: 'po-1',
+  poNumber: 'PO-20261019-0001',
+  status: 'PARTIALLY_RECEIVED',
+  outletId: 'outlet-1',
+  supplier: { name: 'Kopi Nusantara' },
+  items: [{
+    id: 'line-1',
+    productId: 'beans',
+    quantity: new Prisma.Decimal(10),
+    receivedQuantity: new Prisma.Decimal(4),
+    unitCost: new Prisma.Decimal(85000),
+    product: { name: 'Coffee beans', soldByWeight: false }
+  }]
+}
+
+function createTx(receivedQuantity: number) {
+  return {
+    purchaseOrderItem: {
+      update: vi.fn().mockResolvedValue({ receivedQuantity: new Prisma.Decimal(receivedQuantity) }),
+      findMany: vi.fn().mockResolvedValue([{ quantity: new Prisma.Decimal(10), receivedQuantity: new Prisma.Decimal(receivedQuantity) }])
+    },
+    product: { update: vi.fn() },
+    purchaseOrder: { updateMany: vi.fn().mockResolvedValue({ count: 1 }) }
+  }
+}
+
+function runTransactionsWith(tx: ReturnType<typeof createTx>) {
+  vi.mocked(prisma.$transaction).mockImplementation(((run: (client: unknown) => unknown) => run(tx)) as never)
+}
+
+describe('receivePurchaseOrder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.purchaseOrder.findUnique).mockResolvedValue(order as never)
+  })
+
+  it('books in what arrived and leaves the order open while some is still to come', async () => {
+    const tx = createTx(7)
+    runTransactionsWith(tx)
+
+    await receivePurchaseOrder('po-1', { items: [{ itemId: 'line-1', quantity: 3 }] }, 'manager')
+
+    expect(recordStockMovement).toHaveBeenCalledWith(tx, expect.objectContaining({
+      productId: 'beans',
+      outletId: 'outlet-1',
+      purchaseOrderId: 'po-1',
+      type: 'RESTOCK',
+      delta: 3
+    }))
+    expect(tx.purchaseOrder.updateMany).toHaveBeenCalledWith({
+      where: { id: 'po-1', status: { in: ['SENT', 'PARTIALLY_RECEIVED'] } },
+      data: { status: 'PARTIALLY_RECEIVED' }
+    })
+  })
+
+  it('closes the order once everything has arrived', async () => {
+    const tx = createTx(10)
+    runTransactionsWith(tx)
+
+    await receivePurchaseOrder('po-1', { items: [{ itemId: 'line-1', quantity: 6 }] }, 'manager')
+
+    expect(tx.purchaseOrder.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: { status: 'RECEIVED', receivedAt: expect.any(Date) }
+    }))
+  })
+
+  it('refuses to receive more than is still outstanding', async () => {
+    const tx = createTx(11)
+    runTransactionsWith(tx)
+
+    await expect(receivePurchaseOrder('po-1', { items: [{ itemId: 'line-1', quantity: 7 }] }, 'manager'))
+      .rejects.toThrow('Only 6 of "Coffee beans" is still outstanding')
+    expect(recordStockMovement).not.toHaveBeenCalled()
+    expect(tx.purchaseOrder.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('takes over-receipts by a concurrent receipt into account', async () => {
+    // Another receipt booked in 5 while this one was on its way
+    runTransactionsWith(createTx(13))
+
+    await expect(receivePurchaseOrder('po-1', { items: [{ itemId: 'line-1', quantity: 4 }] }, 'manager'))
+      .rejects.toThrow('Only 1 of "Coffee beans" is still outstanding')
+  })
+
+  it('only receives against a sent order', async () => {
+    vi.mocked(prisma.purchaseOrder.findUnique).mockResolvedValue({ ...order, status: 'DRAFT' } as never)
+
+    await expect(receivePurchaseOrder('po-1', { items: [{ itemId: 'line-1', quantity: 1 }] }, 'manager'))
+      .rejects.toThrow(PurchaseOrderError)
+    expect(prisma.$transaction).not.toHaveBeenCalled()
+  })
+})
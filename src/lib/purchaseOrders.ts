@@ -0,0 +1,337 @@
+import { Prisma, PurchaseOrderStatus } from '@prisma/client'
+import type { Session } from 'next-auth'
+import { prisma } from '@/lib/prisma'
+import { getAccessibleOutlets } from '@/lib/outlets'
+import { roundCurrency } from '@/lib/pricing'
+import { formatQuantity, isValidQuantity, roundQuantity } from '@/lib/scaleBarcodes'
+import { getStoreSettings } from '@/lib/settings'
+import { recordStockMovement } from '@/lib/stock'
+import { formatSequenceDate, nextSequenceValue } from '@/lib/transactionNumbers'
+
+const PURCHASE_ORDER_NOTE_MAX_LENGTH = 500
+
+// Goods can still arrive against these
+const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = ['SENT', 'PARTIALLY_RECEIVED']
+
+export const PURCHASE_ORDER_INCLUDE = {
+  supplier: true,
+  outlet: {
+    select: { id: true, name: true, code: true, address: true }
+  },
+  creator: {
+    select: { name: true }
+  },
+  items: {
+    include: {
+      product: {
+        select: { id: true, name: true, sku: true, soldByWeight: true, cost: true }
+      }
+    },
+    orderBy: { product: { name: 'asc' } }
+  }
+} satisfies Prisma.PurchaseOrderInclude
+
+export type PurchaseOrderWithItems = Prisma.PurchaseOrderGetPayload<{ include: typeof PURCHASE_ORDER_INCLUDE }>
+
+export class PurchaseOrderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PurchaseOrderError'
+  }
+}
+
+interface PurchaseOrderLine {
+  productId: string
+  quantity: number
+  unitCost: number
+}
+
+// The order's expected cost: what was ordered at the agreed unit costs
+export function getPurchaseOrderTotal(items: Array<{ quantity: Prisma.Decimal | number; unitCost: Prisma.Decimal | number }>): number {
+  return roundCurrency(items.reduce((sum, item) => sum + Number(item.quantity) * Number(item.unitCost), 0))
+}
+
+// Orders are handled by the staff of the outlet the goods are delivered to
+export async function assertPurchaseOrderAccess(session: Session, order: { outletId: string }) {
+  const outlets = await getAccessibleOutlets(session)
+  if (!outlets.some(outlet => outlet.id === order.outletId)) {
+    throw new PurchaseOrderError('You do not work at the outlet this order is for')
+  }
+}
+
+function parseNote(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null
+  }
+
+  if (typeof value !== 'string' || value.trim().length > PURCHASE_ORDER_NOTE_MAX_LENGTH) {
+    throw new PurchaseOrderError(`Notes must be text of at most ${PURCHASE_ORDER_NOTE_MAX_LENGTH} characters`)
+  }
+
+  return value.trim() || null
+}
+
+function parseExpectedAt(value: unknown): Date | null {
+  if (value === undefined || value === null || value === '') {
+    return null
+  }
+
+  const date = new Date(String(value))
+  if (isNaN(date.getTime())) {
+    throw new PurchaseOrderError('Expected delivery date is not valid')
+  }
+
+  return date
+}
+
+function parseUnitCost(value: unknown, productName: string): number {
+  const unitCost = Number(value)
+  if (!Number.isFinite(unitCost) || unitCost < 0) {
+    throw new PurchaseOrderError(`Unit cost of "${productName}" must be 0 or more`)
+  }
+
+  return roundCurrency(unitCost)
+}
+
+async function assertSupplier(supplierId: unknown) {
+  if (typeof supplierId !== 'string' || !supplierId) {
+    throw new PurchaseOrderError('Choose a supplier')
+  }
+
+  const supplier = await prisma.supplier.findUnique({ where: { id: supplierId } })
+  if (!supplier || !supplier.isActive) {
+    throw new PurchaseOrderError('Supplier not found')
+  }
+
+  return supplier
+}
+
+// Products to order; the unit cost defaults to the product's current cost
+export async function parsePurchaseOrderItems(input: unknown): Promise<PurchaseOrderLine[]> {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new PurchaseOrderError('Add at least one product to the order')
+  }
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: input.map(line => typeof line?.productId === 'string' ? line.productId : '') } },
+    select: { id: true, name: true, cost: true, soldByWeight: true, variantAxes: true }
+  })
+
+  const seen = new Set<string>()
+  return input.map(line => {
+    const product = products.find(candidate => candidate.id === line?.productId)
+    if (!product) {
+      throw new PurchaseOrderError('Product not found')
+    }
+
+    if (product.variantAxes.length > 0) {
+      throw new PurchaseOrderError(`Choose which variants of "${product.name}" to order`)
+    }
+
+    if (seen.has(product.id)) {
+      throw new PurchaseOrderError(`"${product.name}" is on the order twice`)
+    }
+    seen.add(product.id)
+
+    const quantity = Number(line.quantity)
+    if (!isValidQuantity(quantity, product.soldByWeight)) {
+      throw new PurchaseOrderError(`Quantity of "${product.name}" must be ${product.soldByWeight ? 'a weight in kg to the gram' : 'a whole number'} above 0`)
+    }
+
+    const unitCost = line.unitCost === undefined || line.unitCost === null || line.unitCost === ''
+      ? Number(product.cost)
+      : parseUnitCost(line.unitCost, product.name)
+
+    return { productId: product.id, quantity, unitCost }
+  })
+}
+
+// Orders are numbered per outlet and day, e.g. PO-TK01-20261019-0002
+export async function createPurchaseOrder(
+  { outletId, supplierId, note, expectedAt, items, createdBy }: {
+    outletId: string; supplierId: unknown; note: unknown; expectedAt: unknown; items: unknown; createdBy: string
+  }
+) {
+  const supplier = await assertSupplier(supplierId)
+  const lines = await parsePurchaseOrderItems(items)
+  const orderNote = parseNote(note)
+  const expected = parseExpectedAt(expectedAt)
+  const settings = await getStoreSettings()
+
+  return prisma.$transaction(async (tx) => {
+    const outlet = await tx.outlet.findUniqueOrThrow({ where: { id: outletId } })
+    const day = formatSequenceDate(new Date(), settings.timeZone)
+    const sequence = await nextSequenceValue(tx, `PO-${outlet.code}`, day)
+
+    return tx.purchaseOrder.create({
+      data: {
+        poNumber: `PO-${outlet.code}-${day}-${String(sequence).padStart(4, '0')}`,
+        supplierId: supplier.id,
+        outletId,
+        note: orderNote,
+        expectedAt: expected,
+        createdBy,
+        items: {
+          create: lines
+        }
+      },
+      include: PURCHASE_ORDER_INCLUDE
+    })
+  })
+}
+
+// Only a draft can still change; once sent, the supplier is working from it
+export async function updatePurchaseOrder(
+  order: { id: string; status: PurchaseOrderStatus },
+  { supplierId, note, expectedAt, items }: { supplierId?: unknown; note?: unknown; expectedAt?: unknown; items?: unknown }
+) {
+  if (order.status !== 'DRAFT') {
+    throw new PurchaseOrderError('Only a draft purchase order can be changed')
+  }
+
+  const supplier = supplierId !== undefined ? await assertSupplier(supplierId) : null
+  const lines = items !== undefined ? await parsePurchaseOrderItems(items) : null
+
+  return prisma.$transaction(async (tx) => {
+    if (lines) {
+      await tx.purchaseOrderItem.deleteMany({ where: { purchaseOrderId: order.id } })
+    }
+
+    return tx.purchaseOrder.update({
+      where: { id: order.id },
+      data: {
+        ...(supplier && { supplierId: supplier.id }),
+        ...(note !== undefined && { note: parseNote(note) }),
+        ...(expectedAt !== undefined && { expectedAt: parseExpectedAt(expectedAt) }),
+        ...(lines && { items: { create: lines } })
+      },
+      include: PURCHASE_ORDER_INCLUDE
+    })
+  })
+}
+
+// Mark a draft as sent to the supplier; from then on goods can be received against it
+export async function sendPurchaseOrder(orderId: string) {
+  const sent = await prisma.purchaseOrder.updateMany({
+    where: { id: orderId, status: 'DRAFT' },
+    data: { status: 'SENT', sentAt: new Date() }
+  })
+
+  if (sent.count === 0) {
+    throw new PurchaseOrderError('Only a draft purchase order can be sent')
+  }
+}
+
+// Stop expecting what is still outstanding; stock already received stays
+export async function cancelPurchaseOrder(orderId: string) {
+  const cancelled = await prisma.purchaseOrder.updateMany({
+    where: { id: orderId, status: { in: ['DRAFT', ...RECEIVABLE_STATUSES] } },
+    data: { status: 'CANCELLED', cancelledAt: new Date() }
+  })
+
+  if (cancelled.count === 0) {
+    throw new PurchaseOrderError('This purchase order is already received or cancelled')
+  }
+}
+
+/**
+ * Book in a delivery against a sent order: each line goes on the outlet's
+ * shelves through a RESTOCK entry linked to the order. A delivery may cover
+ * part of the order; the order is received once every line has arrived in
+ * full. With updateCost, each product's cost becomes the unit cost paid.
+ */
+export async function receivePurchaseOrder(
+  orderId: string,
+  { items, updateCost, note }: { items?: unknown; updateCost?: unknown; note?: unknown },
+  userId: string
+) {
+  const order = await prisma.purchaseOrder.findUnique({
+    where: { id: orderId },
+    include: PURCHASE_ORDER_INCLUDE
+  })
+
+  if (!order || !RECEIVABLE_STATUSES.includes(order.status)) {
+    throw new PurchaseOrderError('Goods can only be received against a sent purchase order')
+  }
+
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new PurchaseOrderError('Enter what arrived')
+  }
+
+  const receiptNote = parseNote(note)
+  const seen = new Set<string>()
+  const lines = items.map((line: { itemId?: unknown; quantity?: unknown; unitCost?: unknown }) => {
+    const item = order.items.find(candidate => candidate.id === line?.itemId)
+    if (!item) {
+      throw new PurchaseOrderError('Item is not on this purchase order')
+    }
+
+    if (seen.has(item.id)) {
+      throw new PurchaseOrderError(`"${item.product.name}" is on the receipt twice`)
+    }
+    seen.add(item.id)
+
+    const quantity = Number(line.quantity)
+    if (!isValidQuantity(quantity, item.product.soldByWeight)) {
+      throw new PurchaseOrderError(`Received quantity of "${item.product.name}" must be ${item.product.soldByWeight ? 'a weight in kg to the gram' : 'a whole number'} above 0`)
+    }
+
+    const unitCost = line.unitCost === undefined || line.unitCost === null || line.unitCost === ''
+      ? Number(item.unitCost)
+      : parseUnitCost(line.unitCost, item.product.name)
+
+    return { item, quantity, unitCost }
+  })
+
+  await prisma.$transaction(async (tx) => {
+    for (const { item, quantity, unitCost } of lines) {
+      // Counted up first so two receipts at once cannot both take the last of a line
+      const updated = await tx.purchaseOrderItem.update({
+        where: { id: item.id },
+        data: { receivedQuantity: { increment: quantity } }
+      })
+
+      if (roundQuantity(Number(updated.receivedQuantity)) > Number(item.quantity)) {
+        const outstanding = roundQuantity(Number(item.quantity) - (Number(updated.receivedQuantity) - quantity))
+        throw new PurchaseOrderError(`Only ${formatQuantity(outstanding, item.product.soldByWeight)} of "${item.product.name}" is still outstanding`)
+      }
+
+      await recordStockMovement(tx, {
+        productId: item.productId,
+        outletId: order.outletId,
+        purchaseOrderId: order.id,
+        type: 'RESTOCK',
+        delta: quantity,
+        reason: `Purchase order ${order.poNumber} from ${order.supplier.name}` + (receiptNote ? `: ${receiptNote}` : ''),
+        createdBy: userId
+      })
+
+      if (updateCost === true) {
+        await tx.product.update({
+          where: { id: item.productId },
+          data: { cost: unitCost }
+        })
+      }
+    }
+
+    const remaining = await tx.purchaseOrderItem.findMany({ where: { purchaseOrderId: order.id } })
+    const complete = remaining.every(item => Number(item.receivedQuantity) >= Number(item.quantity))
+
+    // Guards against the order being cancelled while the goods were booked in
+    const claimed = await tx.purchaseOrder.updateMany({
+      where: { id: order.id, status: { in: RECEIVABLE_STATUSES } },
+      data: complete
+        ? { status: 'RECEIVED', receivedAt: new Date() }
+        : { status: 'PARTIALLY_RECEIVED' }
+    })
+
+    if (claimed.count === 0) {
+      throw new PurchaseOrderError('This purchase order was cancelled')
+    }
+  })
+
+  return prisma.purchaseOrder.findUniqueOrThrow({
+    where: { id: order.id },
+    include: PURCHASE_ORDER_INCLUDE
+  })
+}
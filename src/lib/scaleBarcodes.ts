@@ -0,0 +1,103 @@
+import type { BarcodeValueType, Prisma } from '@prisma/client'
+
+// Kept free of server imports so the POS can read scale labels while offline
+
+// Quantities are kept to three decimals: weights to the gram
+export const QUANTITY_DECIMALS = 3
+
+export interface ScaleBarcodeRule {
+  prefix: string
+  pluLength: number
+  valueType: BarcodeValueType
+  valueLength: number
+  valueDecimals: number
+}
+
+export interface ScaleLabel<T extends ScaleBarcodeRule = ScaleBarcodeRule> {
+  rule: T
+  plu: string
+  // Kilograms or rupiah, depending on the rule
+  value: number
+}
+
+export function roundQuantity(quantity: number): number {
+  const factor = 10 ** QUANTITY_DECIMALS
+  return Math.round(quantity * factor) / factor
+}
+
+// Whole units, or a weight to the gram for products sold by weight
+export function isValidQuantity(quantity: number, soldByWeight: boolean): boolean {
+  return quantity > 0 && (soldByWeight ? roundQuantity(quantity) === quantity : Number.isInteger(quantity))
+}
+
+// Stock entered on a form: kilograms for products sold by weight, otherwise whole units
+export function parseStock(value: unknown, soldByWeight: boolean): number {
+  return soldByWeight ? roundQuantity(parseFloat(String(value))) : parseInt(String(value))
+}
+
+export function formatQuantity(quantity: number | string | Prisma.Decimal, soldByWeight?: boolean): string {
+  return soldByWeight
+    ? `${Number(quantity).toFixed(QUANTITY_DECIMALS)} kg`
+    : String(Number(quantity))
+}
+
+// PLUs are compared as numbers, so "00123" on a label finds product PLU "123"
+export function normalizePlu(value: string): string {
+  return value.replace(/^0+(?=\d)/, '')
+}
+
+export function isValidEan13(barcode: string): boolean {
+  if (!/^\d{13}$/.test(barcode)) {
+    return false
+  }
+
+  const digits = barcode.split('').map(Number)
+  const sum = digits.slice(0, 12).reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 1 : 3), 0)
+  return (10 - sum % 10) % 10 === digits[12]
+}
+
+/**
+ * Read a label printed by the scale. The PLU follows the rule's prefix and the
+ * value sits in the digits just before the check digit, so any price check
+ * digit in between is skipped. Anything that is not a valid EAN-13 with a
+ * known prefix is not a scale label.
+ */
+export function parseScaleBarcode<T extends ScaleBarcodeRule>(barcode: string, rules: T[]): ScaleLabel<T> | null {
+  const code = barcode.trim()
+  if (!isValidEan13(code)) {
+    return null
+  }
+
+  // Prefixes are unique; the longest one that matches is the most specific
+  const rule = [...rules]
+    .sort((a, b) => b.prefix.length - a.prefix.length)
+    .find(r => code.startsWith(r.prefix))
+
+  if (!rule) {
+    return null
+  }
+
+  return {
+    rule,
+    plu: normalizePlu(code.slice(rule.prefix.length, rule.prefix.length + rule.pluLength)),
+    value: Number(code.slice(12 - rule.valueLength, 12)) / 10 ** rule.valueDecimals
+  }
+}
+
+/**
+ * The weight a label stands for, which is what comes off the shelf. A price
+ * label is turned back into a weight at the product's price per kg; the line
+ * is still charged the printed price (see getLabelPrice).
+ */
+export function getLabelWeight(label: ScaleLabel, pricePerKg: number): number {
+  if (label.rule.valueType === 'WEIGHT') {
+    return roundQuantity(label.value)
+  }
+
+  return pricePerKg > 0 ? roundQuantity(label.value / pricePerKg) : 0
+}
+
+// What the customer was quoted on a price label; null for weight labels
+export function getLabelPrice(label: ScaleLabel): number | null {
+  return label.rule.valueType === 'PRICE' ? label.value : null
+}
@@ -0,0 +1,20 @@
+import { prisma } from '@/lib/prisma'
+
+const STORE_SETTINGS_ID = 'default'
+
+/**
+ * Store-wide settings live in a single row that is created with defaults the
+ * first time it is read.
+ */
+export async function getStoreSettings() {
+  return prisma.storeSettings.upsert({
+    where: { id: STORE_SETTINGS_ID },
+    create: { id: STORE_SETTINGS_ID },
+    update: {},
+    include: {
+      defaultTaxRate: true
+    }
+  })
+}
+
+export type StoreSettingsWithTax = Awaited<ReturnType<typeof getStoreSettings>>
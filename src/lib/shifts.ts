@@ -0,0 +1,232 @@
+import { PaymentMethod, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { roundQuantity } from '@/lib/scaleBarcodes'
+
+// Rupiah notes and coins in circulation, largest first
+export const CASH_DENOMINATIONS = [100000, 50000, 20000, 10000, 5000, 2000, 1000, 500, 200, 100]
+
+export const SHIFT_INCLUDE = {
+  cashier: {
+    select: { id: true, name: true }
+  },
+  closer: {
+    select: { name: true }
+  },
+  cashMovements: {
+    include: {
+      user: {
+        select: { name: true }
+      }
+    },
+    orderBy: { createdAt: 'asc' }
+  }
+} satisfies Prisma.ShiftInclude
+
+export type ShiftWithDetails = Prisma.ShiftGetPayload<{ include: typeof SHIFT_INCLUDE }>
+
+export class ShiftError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ShiftError'
+  }
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export async function getOpenShift(cashierId: string) {
+  return prisma.shift.findFirst({
+    where: { cashierId, status: 'OPEN' },
+    orderBy: { openedAt: 'desc' }
+  })
+}
+
+/**
+ * The drawer a refund is paid from: the sale's own shift while it is still
+ * open, else the selling cashier's current shift, else that of whoever hands
+ * the money back.
+ */
+export async function getRefundShift(
+  transaction: { shiftId: string | null; cashierId: string },
+  refundedBy: string
+) {
+  if (transaction.shiftId) {
+    const saleShift = await prisma.shift.findFirst({
+      where: { id: transaction.shiftId, status: 'OPEN' }
+    })
+    if (saleShift) {
+      return saleShift
+    }
+  }
+
+  return (await getOpenShift(transaction.cashierId)) ?? getOpenShift(refundedBy)
+}
+
+export function parseCashAmount(value: unknown, label: string, { allowZero = false } = {}): number {
+  const amount = round(Number(value))
+
+  if (!Number.isFinite(amount) || amount < 0 || (!allowZero && amount === 0)) {
+    throw new ShiftError(`${label} must be ${allowZero ? '0 or more' : 'greater than 0'}`)
+  }
+
+  return amount
+}
+
+/**
+ * Validate a drawer count given as `{ "<denomination>": <count> }` and total it.
+ * Denominations that were not counted can be left out.
+ */
+export function countDenominations(input: unknown) {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ShiftError('Counted cash must be given per denomination')
+  }
+
+  const counts: Record<string, number> = {}
+  let total = 0
+
+  for (const [denomination, value] of Object.entries(input)) {
+    if (!CASH_DENOMINATIONS.includes(Number(denomination))) {
+      throw new ShiftError(`Unknown denomination: ${denomination}`)
+    }
+
+    const count = Number(value)
+    if (!Number.isInteger(count) || count < 0) {
+      throw new ShiftError(`Invalid count for ${denomination}`)
+    }
+
+    if (count > 0) {
+      counts[denomination] = count
+      total += Number(denomination) * count
+    }
+  }
+
+  return { counts, total: round(total) }
+}
+
+/**
+ * Everything a Z-report needs for one shift: takings by payment method, items
+ * sold, voided and refunded sales, cash paid in or out, and the cash that
+ * should be in the drawer.
+ */
+export async function summarizeShift(shift: ShiftWithDetails) {
+  const [transactions, refunds] = await Promise.all([
+    prisma.transaction.findMany({
+      where: { shiftId: shift.id },
+      include: {
+        items: {
+          include: {
+            product: {
+              select: { name: true }
+            }
+          }
+        },
+        payments: true
+      }
+    }),
+    prisma.refund.findMany({
+      where: { shiftId: shift.id },
+      include: {
+        transaction: {
+          include: { payments: true }
+        }
+      }
+    })
+  ])
+
+  const paid = transactions.filter(transaction => transaction.paymentStatus === 'PAID')
+  const voided = transactions.filter(transaction =>
+    transaction.paymentStatus === 'FAILED' || transaction.paymentStatus === 'EXPIRED'
+  )
+  const pending = transactions.filter(transaction => transaction.paymentStatus === 'PENDING')
+
+  // Takings are counted per tender, so a split sale shows under each method it used
+  const methodTotals = new Map<PaymentMethod, { count: number; amount: number }>()
+  for (const payment of paid.flatMap(transaction => transaction.payments)) {
+    if (payment.status !== 'PAID') continue
+
+    const totals = methodTotals.get(payment.method) ?? { count: 0, amount: 0 }
+    totals.count++
+    totals.amount = round(totals.amount + Number(payment.amount))
+    methodTotals.set(payment.method, totals)
+  }
+
+  const productTotals = new Map<string, { name: string; quantity: number; amount: number }>()
+  for (const item of paid.flatMap(transaction => transaction.items)) {
+    const totals = productTotals.get(item.productId) ?? { name: item.product.name, quantity: 0, amount: 0 }
+    totals.quantity = roundQuantity(totals.quantity + Number(item.quantity))
+    totals.amount = round(totals.amount + Number(item.totalPrice) - Number(item.discountAmount))
+    productTotals.set(item.productId, totals)
+  }
+
+  // Cash taken on a sale that later failed is handed back, so it never stays in the drawer
+  const cashSales = round(transactions
+    .filter(transaction => transaction.paymentStatus === 'PAID' || transaction.paymentStatus === 'PENDING')
+    .flatMap(transaction => transaction.payments)
+    .filter(payment => payment.method === 'CASH' && payment.status === 'PAID')
+    .reduce((sum, payment) => sum + Number(payment.amount), 0))
+
+  // A refund is paid back the way the sale was paid, split pro rata over its tenders
+  const cashRefunds = round(refunds.reduce((sum, refund) => {
+    const finalAmount = Number(refund.transaction.finalAmount)
+    const cashPaid = refund.transaction.payments
+      .filter(payment => payment.method === 'CASH' && payment.status === 'PAID')
+      .reduce((total, payment) => total + Number(payment.amount), 0)
+    return finalAmount > 0 ? sum + Number(refund.amount) * cashPaid / finalAmount : sum
+  }, 0))
+
+  const cashIn = round(shift.cashMovements
+    .filter(movement => movement.type === 'CASH_IN')
+    .reduce((sum, movement) => sum + Number(movement.amount), 0))
+  const cashOut = round(shift.cashMovements
+    .filter(movement => movement.type === 'CASH_OUT')
+    .reduce((sum, movement) => sum + Number(movement.amount), 0))
+
+  const openingFloat = Number(shift.openingFloat)
+  const expectedCash = shift.expectedCash !== null
+    ? Number(shift.expectedCash)
+    : round(openingFloat + cashSales + cashIn - cashOut - cashRefunds)
+
+  return {
+    sales: {
+      count: paid.length,
+      totalAmount: round(paid.reduce((sum, transaction) => sum + Number(transaction.totalAmount), 0)),
+      discountAmount: round(paid.reduce((sum, transaction) => sum + Number(transaction.discountAmount), 0)),
+      taxAmount: round(paid.reduce((sum, transaction) => sum + Number(transaction.taxAmount), 0)),
+      roundingAmount: round(paid.reduce((sum, transaction) => sum + Number(transaction.roundingAmount), 0)),
+      finalAmount: round(paid.reduce((sum, transaction) => sum + Number(transaction.finalAmount), 0))
+    },
+    paymentMethods: Array.from(methodTotals.entries())
+      .map(([method, totals]) => ({ method, ...totals }))
+      .sort((a, b) => b.amount - a.amount),
+    items: {
+      quantity: Array.from(productTotals.values()).reduce((sum, product) => roundQuantity(sum + product.quantity), 0),
+      products: Array.from(productTotals.values()).sort((a, b) => b.quantity - a.quantity)
+    },
+    voids: {
+      count: voided.length,
+      amount: round(voided.reduce((sum, transaction) => sum + Number(transaction.finalAmount), 0))
+    },
+    pending: {
+      count: pending.length,
+      amount: round(pending.reduce((sum, transaction) => sum + Number(transaction.finalAmount), 0))
+    },
+    refunds: {
+      count: refunds.length,
+      amount: round(refunds.reduce((sum, refund) => sum + Number(refund.amount), 0)),
+      cashAmount: cashRefunds
+    },
+    cash: {
+      openingFloat,
+      cashSales,
+      cashIn,
+      cashOut,
+      cashRefunds,
+      expectedCash,
+      countedCash: shift.countedCash !== null ? Number(shift.countedCash) : null,
+      variance: shift.variance !== null ? Number(shift.variance) : null
+    }
+  }
+}
+
+export type ShiftSummary = Awaited<ReturnType<typeof summarizeShift>>
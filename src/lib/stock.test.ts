@@ -0,0 +1,180 @@
+import { Prisma } from '@prisma/client'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+vi.mock('@/lib/notifications', () => ({ notifyLowStock: vi.fn() }))
+
+import {
+  deductStockForTransaction,
+  InsufficientStockError,
+  recordStockMovement,
+  reserveStockForTransaction
+} from '@/lib/stock'
+
+// Just enough of a transaction client for the stock helpers
+function createTx() {
+  return {
+    $queryRaw: vi.fn(),
+    outletStock: {
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      findUnique: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([])
+    },
+    product: { update: vi.fn() },
+    inventoryLog: { create: vi.fn() },
+    stockReservation: {
+      deleteMany: vi.fn(),
+      groupBy: vi.fn().mockResolvedValue([]),
+      createMany: vi.fn()
+    },
+    transaction: {
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: vi.fn()
+    }
+  }
+}
+
+type Tx = ReturnType<typeof createTx>
+
+function asClient(tx: Tx) {
+  return tx as unknown as Prisma.TransactionClient
+}
+
+function stockLevel(stock: number, name = 'Coffee beans') {
+  return { stock: new Prisma.Decimal(stock), minStock: new Prisma.Decimal(5), product: { name } }
+}
+
+const movement = {
+  productId: 'beans',
+  outletId: 'outlet-1',
+  type: 'SALE' as const,
+  reason: 'Sale - Transaction TK01-20261019-0001',
+  createdBy: 'cashier'
+}
+
+describe('recordStockMovement', () => {
+  let tx: Tx
+
+  beforeEach(() => {
+    tx = createTx()
+  })
+
+  it('only takes stock while enough is left and logs the change', async () => {
+    tx.outletStock.findUnique.mockResolvedValue(stockLevel(7))
+
+    const result = await recordStockMovement(asClient(tx), { ...movement, delta: -3, allowNegative: false })
+
+    expect(tx.outletStock.updateMany).toHaveBeenCalledWith({
+      where: { outletId: 'outlet-1', productId: 'beans', stock: { gte: 3 } },
+      data: { stock: { increment: -3 } }
+    })
+    expect(tx.product.update).toHaveBeenCalledWith({
+      where: { id: 'beans' },
+      data: { stock: { increment: -3 } }
+    })
+    expect(tx.inventoryLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'SALE', quantity: 3, previousStock: 10, newStock: 7 })
+    })
+    expect(result).toEqual({ productId: 'beans', productName: 'Coffee beans', previousStock: 10, newStock: 7, minStock: 5 })
+  })
+
+  it('refuses to take more than is on the shelf', async () => {
+    tx.outletStock.updateMany.mockResolvedValue({ count: 0 })
+    tx.outletStock.findUnique.mockResolvedValue(stockLevel(2))
+
+    await expect(recordStockMovement(asClient(tx), { ...movement, delta: -3, allowNegative: false }))
+      .rejects.toThrow(InsufficientStockError)
+    expect(tx.product.update).not.toHaveBeenCalled()
+    expect(tx.inventoryLog.create).not.toHaveBeenCalled()
+  })
+
+  it('lets stock go below zero when allowed', async () => {
+    tx.outletStock.findUnique.mockResolvedValue(stockLevel(-1))
+
+    await recordStockMovement(asClient(tx), { ...movement, delta: -3, allowNegative: true })
+
+    expect(tx.outletStock.updateMany).toHaveBeenCalledWith({
+      where: { outletId: 'outlet-1', productId: 'beans' },
+      data: { stock: { increment: -3 } }
+    })
+  })
+
+  it('rounds weights to the gram', async () => {
+    tx.outletStock.findUnique.mockResolvedValue(stockLevel(0.7))
+
+    await recordStockMovement(asClient(tx), { ...movement, delta: 0.1 + 0.2, allowNegative: false })
+
+    expect(tx.outletStock.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: { stock: { increment: 0.3 } }
+    }))
+  })
+})
+
+describe('reserveStockForTransaction', () => {
+  let tx: Tx
+
+  beforeEach(() => {
+    tx = createTx()
+    tx.transaction.findUniqueOrThrow.mockResolvedValue({
+      outletId: 'outlet-1',
+      items: [{
+        productId: 'latte',
+        quantity: new Prisma.Decimal(2),
+        modifiers: [{ ingredientId: 'shot', ingredientQuantity: 1 }]
+      }]
+    })
+  })
+
+  it('holds the stock of every item and the ingredients its options use', async () => {
+    tx.outletStock.findMany.mockResolvedValue([
+      { productId: 'latte', stock: new Prisma.Decimal(10), product: { name: 'Latte' } },
+      { productId: 'shot', stock: new Prisma.Decimal(10), product: { name: 'Espresso shot' } }
+    ])
+
+    await reserveStockForTransaction(asClient(tx), 'sale-1', { allowNegative: false })
+
+    expect(tx.stockReservation.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ transactionId: 'sale-1', productId: 'latte', outletId: 'outlet-1', quantity: 2 }),
+        expect.objectContaining({ transactionId: 'sale-1', productId: 'shot', outletId: 'outlet-1', quantity: 2 })
+      ]
+    })
+  })
+
+  it('does not hold stock that other pending sales already hold', async () => {
+    tx.outletStock.findMany.mockResolvedValue([
+      { productId: 'latte', stock: new Prisma.Decimal(10), product: { name: 'Latte' } },
+      { productId: 'shot', stock: new Prisma.Decimal(3), product: { name: 'Espresso shot' } }
+    ])
+    tx.stockReservation.groupBy.mockResolvedValue([{ productId: 'shot', _sum: { quantity: new Prisma.Decimal(2) } }])
+
+    await expect(reserveStockForTransaction(asClient(tx), 'sale-1', { allowNegative: false }))
+      .rejects.toThrow('Insufficient stock for "Espresso shot" (1 available, 2 requested)')
+    expect(tx.stockReservation.createMany).not.toHaveBeenCalled()
+
+    // The stock rows are locked before anything is counted
+    expect(tx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(tx.outletStock.findMany.mock.invocationCallOrder[0])
+    expect(tx.$queryRaw.mock.calls[0].slice(1)).toEqual(['outlet-1', expect.objectContaining({ values: ['latte', 'shot'] })])
+
+    // The sale's own hold is left out when counting what others hold
+    expect(tx.stockReservation.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ outletId: 'outlet-1', transactionId: { not: 'sale-1' } })
+    }))
+  })
+})
+
+describe('deductStockForTransaction', () => {
+  it('deducts nothing when another request already claimed the sale', async () => {
+    const tx = createTx()
+    tx.transaction.updateMany.mockResolvedValue({ count: 0 })
+
+    const movements = await deductStockForTransaction(asClient(tx), 'sale-1', { allowNegative: false })
+
+    expect(movements).toEqual([])
+    expect(tx.transaction.updateMany).toHaveBeenCalledWith({
+      where: { id: 'sale-1', stockDeductedAt: null },
+      data: { stockDeductedAt: expect.any(Date) }
+    })
+    expect(tx.outletStock.updateMany).not.toHaveBeenCalled()
+  })
+})
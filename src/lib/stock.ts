@@ -0,0 +1,354 @@
+import { InventoryLogType, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { notifyLowStock } from '@/lib/notifications'
+import { roundQuantity } from '@/lib/scaleBarcodes'
+
+// Store-wide policy: whether a sale may take stock below zero
+const ALLOW_NEGATIVE_STOCK = process.env.ALLOW_NEGATIVE_STOCK === 'true'
+
+// Matches the Xendit invoice duration: stock is held for as long as the
+// invoice can be paid
+export const STOCK_RESERVATION_TTL_HOURS = 24
+
+export class InsufficientStockError extends Error {
+  constructor(public productName: string, public available: number, public requested: number) {
+    super(`Insufficient stock for "${productName}" (${available} available, ${requested} requested)`)
+    this.name = 'InsufficientStockError'
+  }
+}
+
+// Stock levels are those at the outlet the stock moved at
+export interface StockMovement {
+  productId: string
+  productName: string
+  previousStock: number
+  newStock: number
+  minStock: number
+}
+
+interface RecordStockMovementParams {
+  productId: string
+  outletId: string
+  transferId?: string
+  purchaseOrderId?: string
+  type: InventoryLogType
+  // Signed change: negative for stock leaving, positive for stock coming back
+  delta: number
+  reason: string
+  createdBy: string
+  allowNegative?: boolean
+}
+
+/**
+ * Apply a relative stock change at an outlet and write its inventory log. The
+ * product's store-wide total moves with it. Must run inside
+ * `prisma.$transaction` so the change and the log commit together.
+ */
+export async function recordStockMovement(
+  tx: Prisma.TransactionClient,
+  { productId, outletId, transferId, purchaseOrderId, type, delta: rawDelta, reason, createdBy, allowNegative = ALLOW_NEGATIVE_STOCK }: RecordStockMovementParams
+): Promise<StockMovement> {
+  // Weights times ingredient quantities can run past the gram
+  const delta = roundQuantity(rawDelta)
+
+  // Conditional decrement: the row only matches while enough stock is left
+  const updated = await tx.outletStock.updateMany({
+    where: {
+      outletId,
+      productId,
+      ...(delta < 0 && !allowNegative && { stock: { gte: -delta } })
+    },
+    data: {
+      stock: { increment: delta }
+    }
+  })
+
+  const level = await tx.outletStock.findUnique({
+    where: { outletId_productId: { outletId, productId } },
+    include: { product: { select: { name: true } } }
+  })
+
+  if (!level) {
+    throw new Error(`Product ${productId} has no stock at outlet ${outletId}`)
+  }
+
+  const newStock = Number(level.stock)
+
+  if (updated.count === 0) {
+    throw new InsufficientStockError(level.product.name, newStock, -delta)
+  }
+
+  await tx.product.update({
+    where: { id: productId },
+    data: { stock: { increment: delta } }
+  })
+
+  const previousStock = roundQuantity(newStock - delta)
+
+  await tx.inventoryLog.create({
+    data: {
+      productId,
+      outletId,
+      transferId,
+      purchaseOrderId,
+      type,
+      quantity: Math.abs(delta),
+      previousStock,
+      newStock,
+      reason,
+      createdBy
+    }
+  })
+
+  return {
+    productId,
+    productName: level.product.name,
+    previousStock,
+    newStock,
+    minStock: Number(level.minStock)
+  }
+}
+
+/**
+ * Set a product's stock at an outlet to what was counted, logged as a restock
+ * or an adjustment. Returns null when nothing changed.
+ */
+export async function setOutletStock(
+  tx: Prisma.TransactionClient,
+  { productId, outletId, newStock, reason, createdBy }: { productId: string; outletId: string; newStock: number; reason: string; createdBy: string }
+): Promise<StockMovement | null> {
+  const level = await tx.outletStock.findUniqueOrThrow({
+    where: { outletId_productId: { outletId, productId } }
+  })
+
+  const delta = roundQuantity(newStock - Number(level.stock))
+  if (delta === 0) {
+    return null
+  }
+
+  return recordStockMovement(tx, {
+    productId,
+    outletId,
+    type: delta > 0 ? 'RESTOCK' : 'ADJUSTMENT',
+    delta,
+    reason,
+    createdBy,
+    allowNegative: true
+  })
+}
+
+type SaleItems = Array<{
+  productId: string
+  quantity: Prisma.Decimal
+  modifiers: Array<{ ingredientId: string | null; ingredientQuantity: number }>
+}>
+
+// Total stock a sale takes from each product, ingredients included
+function getStockDemand(items: SaleItems): Map<string, number> {
+  const demand = new Map<string, number>()
+  const add = (productId: string, quantity: number) =>
+    demand.set(productId, roundQuantity((demand.get(productId) ?? 0) + quantity))
+
+  for (const item of items) {
+    add(item.productId, Number(item.quantity))
+
+    for (const modifier of item.modifiers) {
+      if (modifier.ingredientId && modifier.ingredientQuantity > 0) {
+        add(modifier.ingredientId, modifier.ingredientQuantity * Number(item.quantity))
+      }
+    }
+  }
+
+  return demand
+}
+
+export function getStockReservationExpiry(from = new Date()): Date {
+  return new Date(from.getTime() + STOCK_RESERVATION_TTL_HOURS * 60 * 60 * 1000)
+}
+
+/**
+ * Stock held by sales waiting on a digital payment, per product, at one outlet
+ * or across all of them. Reservations past their expiry no longer count. A
+ * sale's own reservation can be left out when it is the one taking the stock.
+ */
+export async function getReservedStock(
+  productIds: string[],
+  { client = prisma, outletId, excludeTransactionId }: { client?: Prisma.TransactionClient; outletId?: string; excludeTransactionId?: string } = {}
+): Promise<Map<string, number>> {
+  const reserved = await client.stockReservation.groupBy({
+    by: ['productId'],
+    where: {
+      productId: { in: productIds },
+      ...(outletId && { outletId }),
+      expiresAt: { gt: new Date() },
+      ...(excludeTransactionId && { transactionId: { not: excludeTransactionId } })
+    },
+    _sum: { quantity: true }
+  })
+
+  return new Map(reserved.map(row => [row.productId, Number(row._sum.quantity ?? 0)]))
+}
+
+// Stock on hand less what pending payments hold
+export function getAvailableStock(stock: Prisma.Decimal | number, reserved = 0): number {
+  return roundQuantity(Number(stock) - reserved)
+}
+
+async function assertStockAvailable(
+  tx: Prisma.TransactionClient,
+  demand: Map<string, number>,
+  { transactionId, outletId }: { transactionId: string; outletId: string }
+) {
+  const productIds = [...demand.keys()]
+  if (productIds.length === 0) {
+    return
+  }
+
+  // Lock the stock rows, in a fixed order, until the caller's transaction
+  // commits: two sales after the last unit then check one after the other
+  // instead of both seeing it free
+  await tx.$queryRaw`
+    SELECT "id" FROM "outlet_stocks"
+    WHERE "outletId" = ${outletId} AND "productId" IN (${Prisma.join(productIds)})
+    ORDER BY "productId"
+    FOR UPDATE
+  `
+
+  const [levels, reserved] = await Promise.all([
+    tx.outletStock.findMany({
+      where: { outletId, productId: { in: productIds } },
+      select: { productId: true, stock: true, product: { select: { name: true } } }
+    }),
+    getReservedStock(productIds, { client: tx, outletId, excludeTransactionId: transactionId })
+  ])
+
+  for (const level of levels) {
+    const available = getAvailableStock(level.stock, reserved.get(level.productId))
+    const requested = demand.get(level.productId) ?? 0
+    if (available < requested) {
+      throw new InsufficientStockError(level.product.name, available, requested)
+    }
+  }
+}
+
+/**
+ * Hold the stock of a sale that waits on a digital payment at its outlet, so
+ * other tills cannot sell it in the meantime. Stock is only deducted once the payment is
+ * confirmed (see deductStockForTransaction).
+ */
+export async function reserveStockForTransaction(
+  tx: Prisma.TransactionClient,
+  transactionId: string,
+  { allowNegative = ALLOW_NEGATIVE_STOCK }: { allowNegative?: boolean } = {}
+) {
+  // Expired holds no longer count; clear them out while we are here
+  await tx.stockReservation.deleteMany({
+    where: { expiresAt: { lt: new Date() } }
+  })
+
+  const { outletId, items } = await tx.transaction.findUniqueOrThrow({
+    where: { id: transactionId },
+    select: {
+      outletId: true,
+      items: {
+        include: { modifiers: true }
+      }
+    }
+  })
+
+  const demand = getStockDemand(items)
+  if (!allowNegative) {
+    await assertStockAvailable(tx, demand, { transactionId, outletId })
+  }
+
+  const expiresAt = getStockReservationExpiry()
+  await tx.stockReservation.createMany({
+    data: [...demand].map(([productId, quantity]) => ({ transactionId, productId, outletId, quantity, expiresAt }))
+  })
+}
+
+// A new invoice for the same sale keeps its stock held for as long as that invoice runs
+export async function extendStockReservations(transactionId: string) {
+  await prisma.stockReservation.updateMany({
+    where: { transactionId, expiresAt: { gt: new Date() } },
+    data: { expiresAt: getStockReservationExpiry() }
+  })
+}
+
+export async function releaseStockReservations(tx: Prisma.TransactionClient, transactionId: string) {
+  await tx.stockReservation.deleteMany({
+    where: { transactionId }
+  })
+}
+
+/**
+ * Deduct stock at the sale's outlet for every item of a sale, and for any
+ * ingredients its modifiers use, exactly once. Unless negative stock is allowed, stock held
+ * for other sales' pending payments cannot be sold. The transaction row is
+ * claimed via `stockDeductedAt`, so a webhook racing a manual payment check
+ * will find it already claimed and deduct nothing.
+ */
+export async function deductStockForTransaction(
+  tx: Prisma.TransactionClient,
+  transactionId: string,
+  { allowNegative = ALLOW_NEGATIVE_STOCK }: { allowNegative?: boolean } = {}
+): Promise<StockMovement[]> {
+  const claimed = await tx.transaction.updateMany({
+    where: { id: transactionId, stockDeductedAt: null },
+    data: { stockDeductedAt: new Date() }
+  })
+
+  if (claimed.count === 0) {
+    return []
+  }
+
+  const transaction = await tx.transaction.findUniqueOrThrow({
+    where: { id: transactionId },
+    include: {
+      items: {
+        include: { modifiers: true }
+      }
+    }
+  })
+
+  if (!allowNegative) {
+    await assertStockAvailable(tx, getStockDemand(transaction.items), { transactionId, outletId: transaction.outletId })
+  }
+
+  const movements: StockMovement[] = []
+  for (const item of transaction.items) {
+    movements.push(await recordStockMovement(tx, {
+      productId: item.productId,
+      outletId: transaction.outletId,
+      type: 'SALE',
+      delta: -Number(item.quantity),
+      reason: `Sale - Transaction ${transaction.transactionNumber}`,
+      createdBy: transaction.cashierId,
+      allowNegative
+    }))
+
+    for (const modifier of item.modifiers) {
+      if (!modifier.ingredientId || modifier.ingredientQuantity <= 0) continue
+
+      movements.push(await recordStockMovement(tx, {
+        productId: modifier.ingredientId,
+        outletId: transaction.outletId,
+        type: 'SALE',
+        delta: -modifier.ingredientQuantity * Number(item.quantity),
+        reason: `Sale - Transaction ${transaction.transactionNumber} (${modifier.optionName})`,
+        createdBy: transaction.cashierId,
+        allowNegative
+      }))
+    }
+  }
+
+  return movements
+}
+
+export async function notifyLowStockMovements(userId: string, movements: StockMovement[]) {
+  for (const movement of movements) {
+    if (movement.newStock <= movement.minStock) {
+      await notifyLowStock(userId, movement.productName, movement.newStock)
+    }
+  }
+}
@@ -0,0 +1,311 @@
+import { Prisma } from '@prisma/client'
+import type { Session } from 'next-auth'
+import { prisma } from '@/lib/prisma'
+import { getAccessibleOutlets } from '@/lib/outlets'
+import { formatQuantity, isValidQuantity, roundQuantity } from '@/lib/scaleBarcodes'
+import { getStoreSettings } from '@/lib/settings'
+import { recordStockMovement, StockMovement } from '@/lib/stock'
+import { formatSequenceDate, nextSequenceValue } from '@/lib/transactionNumbers'
+
+const TRANSFER_NOTE_MAX_LENGTH = 500
+
+const OUTLET_SELECT = {
+  select: { id: true, name: true, code: true, address: true }
+} as const
+
+export const STOCK_TRANSFER_INCLUDE = {
+  fromOutlet: OUTLET_SELECT,
+  toOutlet: OUTLET_SELECT,
+  creator: {
+    select: { name: true }
+  },
+  sender: {
+    select: { name: true }
+  },
+  receiver: {
+    select: { name: true }
+  },
+  items: {
+    include: {
+      product: {
+        select: { id: true, name: true, sku: true, soldByWeight: true }
+      }
+    },
+    orderBy: { product: { name: 'asc' } }
+  }
+} satisfies Prisma.StockTransferInclude
+
+export type StockTransferWithItems = Prisma.StockTransferGetPayload<{ include: typeof STOCK_TRANSFER_INCLUDE }>
+
+export class StockTransferError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StockTransferError'
+  }
+}
+
+interface TransferLine {
+  productId: string
+  quantity: number
+}
+
+export function parseTransferNote(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null
+  }
+
+  if (typeof value !== 'string' || value.trim().length > TRANSFER_NOTE_MAX_LENGTH) {
+    throw new StockTransferError(`Notes must be text of at most ${TRANSFER_NOTE_MAX_LENGTH} characters`)
+  }
+
+  return value.trim() || null
+}
+
+// Products to move and how much of each; parents are moved variant by variant
+export async function parseTransferItems(input: unknown): Promise<TransferLine[]> {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new StockTransferError('Add at least one product to the transfer')
+  }
+
+  const lines = input.map(line => ({
+    productId: typeof line?.productId === 'string' ? line.productId : '',
+    quantity: Number(line?.quantity)
+  }))
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: lines.map(line => line.productId) } },
+    select: { id: true, name: true, soldByWeight: true, variantAxes: true }
+  })
+
+  const seen = new Set<string>()
+  for (const line of lines) {
+    const product = products.find(candidate => candidate.id === line.productId)
+    if (!product) {
+      throw new StockTransferError('Product not found')
+    }
+
+    if (product.variantAxes.length > 0) {
+      throw new StockTransferError(`Choose which variants of "${product.name}" to transfer`)
+    }
+
+    if (seen.has(product.id)) {
+      throw new StockTransferError(`"${product.name}" is on the transfer twice`)
+    }
+    seen.add(product.id)
+
+    if (!isValidQuantity(line.quantity, product.soldByWeight)) {
+      throw new StockTransferError(`Quantity of "${product.name}" must be ${product.soldByWeight ? 'a weight in kg to the gram' : 'a whole number'} above 0`)
+    }
+  }
+
+  return lines
+}
+
+// Staff can only move stock out of, and take it in at, the outlets they work at
+export async function assertOutletAccess(session: Session, outletId: string) {
+  const outlets = await getAccessibleOutlets(session)
+  if (!outlets.some(outlet => outlet.id === outletId)) {
+    throw new StockTransferError('You do not work at that outlet')
+  }
+}
+
+async function assertDestination(fromOutletId: string, toOutletId: unknown) {
+  if (typeof toOutletId !== 'string' || !toOutletId) {
+    throw new StockTransferError('Choose the outlet to send to')
+  }
+
+  if (toOutletId === fromOutletId) {
+    throw new StockTransferError('Stock cannot be transferred to the outlet it is at')
+  }
+
+  const destination = await prisma.outlet.findUnique({ where: { id: toOutletId } })
+  if (!destination || !destination.isActive) {
+    throw new StockTransferError('Destination outlet not found')
+  }
+
+  return destination
+}
+
+// Transfers are numbered per source outlet and day, e.g. TRF-TK01-20261019-0003
+export async function createStockTransfer(
+  { fromOutletId, toOutletId, note, items, createdBy }: { fromOutletId: string; toOutletId: unknown; note: unknown; items: unknown; createdBy: string }
+) {
+  const destination = await assertDestination(fromOutletId, toOutletId)
+  const lines = await parseTransferItems(items)
+  const transferNote = parseTransferNote(note)
+  const settings = await getStoreSettings()
+
+  return prisma.$transaction(async (tx) => {
+    const source = await tx.outlet.findUniqueOrThrow({ where: { id: fromOutletId } })
+    const day = formatSequenceDate(new Date(), settings.timeZone)
+    const sequence = await nextSequenceValue(tx, `TRF-${source.code}`, day)
+
+    return tx.stockTransfer.create({
+      data: {
+        transferNumber: `TRF-${source.code}-${day}-${String(sequence).padStart(4, '0')}`,
+        fromOutletId,
+        toOutletId: destination.id,
+        note: transferNote,
+        createdBy,
+        items: {
+          create: lines
+        }
+      },
+      include: STOCK_TRANSFER_INCLUDE
+    })
+  })
+}
+
+// Only a draft can still change; once sent, the stock is on its way
+export async function updateStockTransfer(
+  transfer: { id: string; status: string; fromOutletId: string },
+  { toOutletId, note, items }: { toOutletId?: unknown; note?: unknown; items?: unknown }
+) {
+  if (transfer.status !== 'DRAFT') {
+    throw new StockTransferError('Only a draft transfer can be changed')
+  }
+
+  const destination = toOutletId !== undefined ? await assertDestination(transfer.fromOutletId, toOutletId) : null
+  const lines = items !== undefined ? await parseTransferItems(items) : null
+
+  return prisma.$transaction(async (tx) => {
+    if (lines) {
+      await tx.stockTransferItem.deleteMany({ where: { transferId: transfer.id } })
+    }
+
+    return tx.stockTransfer.update({
+      where: { id: transfer.id },
+      data: {
+        ...(destination && { toOutletId: destination.id }),
+        ...(note !== undefined && { note: parseTransferNote(note) }),
+        ...(lines && { items: { create: lines } })
+      },
+      include: STOCK_TRANSFER_INCLUDE
+    })
+  })
+}
+
+/**
+ * Send a draft: its stock leaves the source outlet, one TRANSFER entry per
+ * product, and is counted nowhere until it is received. Claiming the draft
+ * first means a double click sends it only once.
+ */
+export async function sendStockTransfer(transferId: string, userId: string): Promise<StockMovement[]> {
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.stockTransfer.updateMany({
+      where: { id: transferId, status: 'DRAFT' },
+      data: { status: 'IN_TRANSIT', sentBy: userId, sentAt: new Date() }
+    })
+
+    if (claimed.count === 0) {
+      throw new StockTransferError('Only a draft transfer can be sent')
+    }
+
+    const transfer = await tx.stockTransfer.findUniqueOrThrow({
+      where: { id: transferId },
+      include: STOCK_TRANSFER_INCLUDE
+    })
+
+    const movements: StockMovement[] = []
+    for (const item of transfer.items) {
+      movements.push(await recordStockMovement(tx, {
+        productId: item.productId,
+        outletId: transfer.fromOutletId,
+        transferId,
+        type: 'TRANSFER',
+        delta: -Number(item.quantity),
+        reason: `Transfer ${transfer.transferNumber} to ${transfer.toOutlet.name}`,
+        createdBy: userId
+      }))
+    }
+
+    return movements
+  })
+}
+
+/**
+ * Receive a transfer in transit: what was counted on arrival goes on the
+ * destination's shelves, one TRANSFER entry per product. Products not listed
+ * arrived in full. When anything arrived short or over, the note saying why
+ * is required; the difference stays on the transfer for follow-up.
+ */
+export async function receiveStockTransfer(
+  transferId: string,
+  { items, receivedNote }: { items?: unknown; receivedNote?: unknown },
+  userId: string
+) {
+  const transfer = await prisma.stockTransfer.findUnique({
+    where: { id: transferId },
+    include: STOCK_TRANSFER_INCLUDE
+  })
+
+  if (!transfer || transfer.status !== 'IN_TRANSIT') {
+    throw new StockTransferError('Only a transfer in transit can be received')
+  }
+
+  if (items !== undefined && !Array.isArray(items)) {
+    throw new StockTransferError('Received items must be a list')
+  }
+
+  const counted = new Map<string, number>()
+  for (const line of (items ?? []) as Array<{ itemId?: unknown; receivedQuantity?: unknown }>) {
+    const item = transfer.items.find(candidate => candidate.id === line?.itemId)
+    if (!item) {
+      throw new StockTransferError('Item is not on this transfer')
+    }
+
+    const quantity = Number(line.receivedQuantity)
+    if (quantity !== 0 && !isValidQuantity(quantity, item.product.soldByWeight)) {
+      throw new StockTransferError(`Received quantity of "${item.product.name}" must be ${item.product.soldByWeight ? 'a weight in kg to the gram' : 'a whole number'}`)
+    }
+    counted.set(item.id, quantity)
+  }
+
+  const received = transfer.items.map(item => ({
+    item,
+    quantity: counted.get(item.id) ?? Number(item.quantity)
+  }))
+
+  const note = parseTransferNote(receivedNote)
+  if (!note && received.some(line => roundQuantity(line.quantity) !== Number(line.item.quantity))) {
+    throw new StockTransferError('Say why what arrived differs from what was sent')
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const claimed = await tx.stockTransfer.updateMany({
+      where: { id: transferId, status: 'IN_TRANSIT' },
+      data: { status: 'RECEIVED', receivedBy: userId, receivedAt: new Date(), receivedNote: note }
+    })
+
+    if (claimed.count === 0) {
+      throw new StockTransferError('This transfer was received by another request')
+    }
+
+    for (const { item, quantity } of received) {
+      await tx.stockTransferItem.update({
+        where: { id: item.id },
+        data: { receivedQuantity: quantity }
+      })
+
+      if (quantity === 0) continue
+
+      const sent = Number(item.quantity)
+      await recordStockMovement(tx, {
+        productId: item.productId,
+        outletId: transfer.toOutletId,
+        transferId,
+        type: 'TRANSFER',
+        delta: quantity,
+        reason: `Transfer ${transfer.transferNumber} from ${transfer.fromOutlet.name}` +
+          (quantity !== sent ? ` (${formatQuantity(sent, item.product.soldByWeight)} sent)` : ''),
+        createdBy: userId,
+        allowNegative: true
+      })
+    }
+  })
+
+  return prisma.stockTransfer.findUniqueOrThrow({
+    where: { id: transferId },
+    include: STOCK_TRANSFER_INCLUDE
+  })
+}
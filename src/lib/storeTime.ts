@@ -0,0 +1,71 @@
+// Kept free of server imports so the POS can read the store's clock while offline
+
+// Where the store is unless its settings say otherwise
+export const DEFAULT_TIME_ZONE = 'Asia/Jakarta'
+
+// Indonesia's three zones, offered in the settings; any IANA zone is accepted
+export const STORE_TIME_ZONES = [
+  { value: 'Asia/Jakarta', label: 'WIB (Asia/Jakarta)' },
+  { value: 'Asia/Makassar', label: 'WITA (Asia/Makassar)' },
+  { value: 'Asia/Jayapura', label: 'WIT (Asia/Jayapura)' }
+]
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export interface StoreClock {
+  year: number
+  // 1-12
+  month: number
+  day: number
+  // 0 is Sunday, as in Date.getDay()
+  weekday: number
+  hours: number
+  minutes: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) {
+    return false
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The date and time on the store's wall clock at a given moment, whatever
+ * zone the server or the till runs in.
+ */
+export function getStoreClock(date: Date, timeZone: string): StoreClock {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23'
+    })
+    formatters.set(timeZone, formatter)
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]))
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hours: Number(parts.hour),
+    minutes: Number(parts.minute)
+  }
+}
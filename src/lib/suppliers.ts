@@ -0,0 +1,48 @@
+import { normalizePhone } from '@/lib/customers'
+
+export class SupplierError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SupplierError'
+  }
+}
+
+export interface SupplierInput {
+  name: string
+  contactName: string | null
+  phone: string | null
+  email: string | null
+  address: string | null
+  notes: string | null
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+// Contact details are printed on purchase orders, so they are checked the way customers' are
+export function parseSupplierInput(body: Record<string, unknown>): SupplierInput {
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) {
+    throw new SupplierError('Supplier name is required')
+  }
+
+  const phone = normalizePhone(typeof body.phone === 'string' ? body.phone : null)
+  if (phone && !/^\+?\d{6,15}$/.test(phone)) {
+    throw new SupplierError('Phone number is not valid')
+  }
+
+  const email = optionalText(body.email)?.toLowerCase() ?? null
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new SupplierError('Email address is not valid')
+  }
+
+  return {
+    name,
+    contactName: optionalText(body.contactName),
+    phone,
+    email,
+    address: optionalText(body.address),
+    notes: optionalText(body.notes),
+  }
+}
@@ -0,0 +1,215 @@
+import { OrderType, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { normalizeNote, priceCart } from '@/lib/pricing'
+import { sendTabRoundToKitchen } from '@/lib/kitchen'
+
+export class TabError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TabError'
+  }
+}
+
+// The table was given an open tab by someone else
+export class TabConflictError extends TabError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TabConflictError'
+  }
+}
+
+export const OPEN_TAB_INCLUDE = {
+  items: {
+    include: {
+      product: {
+        include: {
+          category: true
+        }
+      }
+    },
+    orderBy: [{ round: 'asc' }, { createdAt: 'asc' }]
+  },
+  table: true,
+  customer: true,
+  cashier: {
+    select: { name: true }
+  }
+} satisfies Prisma.OpenTabInclude
+
+export type OpenTabWithItems = Prisma.OpenTabGetPayload<{ include: typeof OPEN_TAB_INCLUDE }>
+
+export interface TabItemInput {
+  productId: string
+  quantity: number
+  modifierOptionIds: string[]
+  note: string | null
+}
+
+export interface OpenTabInput {
+  label?: string
+  orderType: OrderType
+  tableId?: string | null
+  customerId?: string | null
+  cashierId: string
+  outletId: string
+  items: TabItemInput[]
+}
+
+export function parseTabItems(value: unknown): TabItemInput[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new TabError('Items are required')
+  }
+
+  return value.map((item: { productId?: unknown; quantity?: unknown; modifierOptionIds?: unknown; note?: unknown }) => {
+    const quantity = Number(item?.quantity)
+    if (typeof item?.productId !== 'string' || !item.productId || !Number.isInteger(quantity) || quantity <= 0) {
+      throw new TabError('Each item needs a product and a positive whole quantity')
+    }
+
+    return {
+      productId: item.productId,
+      quantity,
+      modifierOptionIds: Array.isArray(item.modifierOptionIds) ? item.modifierOptionIds.map(String) : [],
+      note: normalizeNote(item.note)
+    }
+  })
+}
+
+// Adds a round to the tab and sends it to the kitchen in the same transaction
+async function createRound(tx: Prisma.TransactionClient, tabId: string, round: number, items: TabItemInput[]) {
+  await tx.openTabItem.createMany({
+    data: items.map(item => ({ tabId, round, ...item }))
+  })
+  await sendTabRoundToKitchen(tx, tabId, round)
+}
+
+/**
+ * Open a tab with its first round. A table can only have one open tab at a
+ * time; the round is checked against the catalog the same way a sale is, so
+ * a tab never holds something that cannot be paid for.
+ */
+export async function openTab({ label, orderType, tableId, customerId, cashierId, outletId, items }: OpenTabInput) {
+  const table = tableId
+    ? await prisma.diningTable.findUnique({ where: { id: tableId } })
+    : null
+
+  if (tableId && (!table || !table.isActive || table.outletId !== outletId)) {
+    throw new TabError('Table not found')
+  }
+
+  if (table && await prisma.openTab.count({ where: { tableId: table.id, closedAt: null } }) > 0) {
+    throw new TabConflictError(`Table ${table.name} already has an open tab`)
+  }
+
+  const tabLabel = label?.trim() || (table ? `Table ${table.name}` : '')
+  if (!tabLabel) {
+    throw new TabError('Label is required')
+  }
+
+  await priceCart(items)
+
+  // The check above is only a courtesy; two tills opening the same table at
+  // once are told apart by the unique index on open tabs per table
+  const tab = await prisma.$transaction(async (tx) => {
+    const created = await tx.openTab.create({
+      data: {
+        label: tabLabel,
+        orderType,
+        tableId: table?.id ?? null,
+        customerId: customerId || null,
+        cashierId,
+        outletId
+      }
+    })
+    await createRound(tx, created.id, 1, items)
+    return created
+  }).catch(error => {
+    if (table && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new TabConflictError(`Table ${table.name} already has an open tab`)
+    }
+    throw error
+  })
+
+  return prisma.openTab.findUniqueOrThrow({
+    where: { id: tab.id },
+    include: OPEN_TAB_INCLUDE
+  })
+}
+
+export async function addTabRound(tabId: string, items: TabItemInput[]) {
+  const tab = await prisma.openTab.findUnique({
+    where: { id: tabId },
+    include: { items: { select: { round: true } } }
+  })
+
+  if (!tab) {
+    throw new TabError('Tab not found')
+  }
+
+  if (tab.closedAt) {
+    throw new TabError('Tab is already closed')
+  }
+
+  await priceCart(items)
+
+  const round = Math.max(0, ...tab.items.map(item => item.round)) + 1
+  await prisma.$transaction(async (tx) => {
+    await createRound(tx, tabId, round, items)
+  })
+
+  return prisma.openTab.findUniqueOrThrow({
+    where: { id: tabId },
+    include: OPEN_TAB_INCLUDE
+  })
+}
+
+// One line per product, choice of options and note, however many rounds it was ordered over
+function tabLineKey(item: { productId: string; modifierOptionIds?: string[]; note?: string | null }) {
+  return [item.productId, ...[...(item.modifierOptionIds ?? [])].sort(), normalizeNote(item.note) ?? ''].join(':')
+}
+
+// The sale that pays a tab must charge for exactly what was ordered on it
+export function assertTabItems(
+  tabItems: Array<{ productId: string; quantity: number; modifierOptionIds: string[]; note: string | null }>,
+  items: Array<{ productId: string; quantity: number | string; modifierOptionIds?: string[]; note?: string | null }>
+) {
+  const ordered = new Map<string, number>()
+  for (const item of tabItems) {
+    ordered.set(tabLineKey(item), (ordered.get(tabLineKey(item)) ?? 0) + item.quantity)
+  }
+
+  const matches = items.length === ordered.size &&
+    items.every(item => ordered.get(tabLineKey(item)) === Number(item.quantity))
+
+  if (!matches) {
+    throw new TabError('The cart no longer matches the tab. Please load the tab again.')
+  }
+}
+
+// Close the tab against the transaction that pays it; fails if someone else got there first
+export async function linkTabToTransaction(tx: Prisma.TransactionClient, tabId: string, transactionId: string) {
+  const closed = await tx.openTab.updateMany({
+    where: { id: tabId, closedAt: null },
+    data: { transactionId, closedAt: new Date() }
+  })
+
+  if (closed.count === 0) {
+    throw new TabError('Tab is not open')
+  }
+}
+
+// A payment that failed or expired leaves the table's tab open to pay again.
+// If the table has been seated again since, the new tab keeps it and the
+// reopened one is left off the floor plan.
+export async function reopenTabForTransaction(tx: Prisma.TransactionClient, transactionId: string) {
+  const tab = await tx.openTab.findUnique({ where: { transactionId } })
+  if (!tab) return
+
+  const tableTaken = tab.tableId !== null &&
+    await tx.openTab.count({ where: { tableId: tab.tableId, closedAt: null } }) > 0
+
+  await tx.openTab.update({
+    where: { id: tab.id },
+    data: { transactionId: null, closedAt: null, ...(tableTaken && { tableId: null }) }
+  })
+}
@@ -0,0 +1,91 @@
+import { Category, Prisma, Product, TaxRate } from '@prisma/client'
+import { StoreSettingsWithTax } from '@/lib/settings'
+
+export type TaxableProduct = Product & {
+  taxRate: TaxRate | null
+  category: Category & {
+    taxRate: TaxRate | null
+  }
+}
+
+export interface ResolvedTax {
+  name: string | null
+  rate: number
+}
+
+const NO_TAX: ResolvedTax = { name: null, rate: 0 }
+
+function fromTaxRate(taxRate: TaxRate | null | undefined): ResolvedTax | null {
+  if (!taxRate || !taxRate.isActive) {
+    return null
+  }
+  return { name: taxRate.name, rate: Number(taxRate.rate) }
+}
+
+/**
+ * Work out which tax applies to a product. A product's own tax class wins over
+ * its category's; anything unconfigured is taxable at the store default rate.
+ */
+export function resolveProductTax(product: TaxableProduct, settings: StoreSettingsWithTax): ResolvedTax {
+  const storeDefault = fromTaxRate(settings.defaultTaxRate) ?? NO_TAX
+
+  const taxClass = product.taxClass ?? product.category.taxClass ?? 'TAXABLE'
+  const customRate = product.taxClass ? product.taxRate : product.category.taxRate
+
+  switch (taxClass) {
+    case 'EXEMPT':
+      return NO_TAX
+    case 'CUSTOM':
+      return fromTaxRate(customRate) ?? storeDefault
+    default:
+      return storeDefault
+  }
+}
+
+/**
+ * Tax on a line amount. With inclusive pricing the tax is already part of the
+ * amount and is backed out of it; otherwise it is charged on top.
+ */
+export function calculateTax(amount: number, rate: number, inclusive: boolean): number {
+  if (rate <= 0) {
+    return 0
+  }
+
+  const tax = inclusive
+    ? amount - amount / (1 + rate / 100)
+    : amount * rate / 100
+
+  return Math.round(tax * 100) / 100
+}
+
+type Amount = number | string | Prisma.Decimal
+
+export interface TaxBreakdownLine {
+  name: string
+  rate: number
+  taxableAmount: number
+  taxAmount: number
+}
+
+/**
+ * Group taxed lines by rate for receipts and reports.
+ */
+export function summarizeTax(
+  lines: Array<{ taxName: string | null; taxRate: Amount; taxAmount: Amount; totalPrice: Amount; discountAmount?: Amount }>
+): TaxBreakdownLine[] {
+  const breakdown = new Map<string, TaxBreakdownLine>()
+
+  for (const line of lines) {
+    const rate = Number(line.taxRate)
+    if (rate <= 0) continue
+
+    const name = line.taxName || 'Tax'
+    const key = `${name}:${rate}`
+    const entry = breakdown.get(key) ?? { name, rate, taxableAmount: 0, taxAmount: 0 }
+    entry.taxableAmount += Number(line.totalPrice) - Number(line.discountAmount ?? 0)
+    entry.taxAmount += Number(line.taxAmount)
+    breakdown.set(key, entry)
+  }
+
+  return Array.from(breakdown.values())
+}
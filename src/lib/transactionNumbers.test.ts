@@ -0,0 +1,55 @@
+import { Prisma } from '@prisma/client'
+import { describe, expect, it, vi } from 'vitest'
+import { allocateTransactionNumber, parseTransactionNumberFormat, TransactionNumberError } from '@/lib/transactionNumbers'
+
+function createTx(lastValue: number) {
+  return {
+    transactionSequence: { upsert: vi.fn().mockResolvedValue({ lastValue }) }
+  }
+}
+
+function asClient(tx: ReturnType<typeof createTx>) {
+  return tx as unknown as Prisma.TransactionClient
+}
+
+// 10:00 in Jakarta
+const soldAt = new Date('2026-10-19T03:00:00Z')
+
+describe('allocateTransactionNumber', () => {
+  it('counts each outlet on its own when the number carries the store code', async () => {
+    const tx = createTx(7)
+
+    const number = await allocateTransactionNumber(
+      asClient(tx),
+      { storeCode: 'TK01', transactionNumberFormat: '{store}-{date}-{seq}', timeZone: 'Asia/Jakarta' },
+      soldAt
+    )
+
+    expect(number).toBe('TK01-20261019-0007')
+    expect(tx.transactionSequence.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'TK01:20261019' }
+    }))
+  })
+
+  it('counts one sequence across outlets when the number has no store code', async () => {
+    const tx = createTx(8)
+
+    const number = await allocateTransactionNumber(
+      asClient(tx),
+      { storeCode: 'TK02', transactionNumberFormat: 'INV/{date}/{seq}', timeZone: 'Asia/Jakarta' },
+      soldAt
+    )
+
+    expect(number).toBe('INV/20261019/0008')
+    expect(tx.transactionSequence.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: '*:20261019' }
+    }))
+  })
+})
+
+describe('parseTransactionNumberFormat', () => {
+  it('requires the day and its sequence', () => {
+    expect(parseTransactionNumberFormat(' {date}-{seq} ')).toBe('{date}-{seq}')
+    expect(() => parseTransactionNumberFormat('{store}-{seq}')).toThrow(TransactionNumberError)
+  })
+})
@@ -0,0 +1,90 @@
+import type { Prisma } from '@prisma/client'
+import { getStoreClock } from '@/lib/storeTime'
+
+const SEQUENCE_DIGITS = 4
+
+const FORMAT_TOKENS = ['{store}', '{date}', '{seq}']
+
+// Sequence key for formats without {store}: every outlet then shares one count,
+// or two outlets would hand out the same number. Outlet codes are letters and
+// digits only, so it cannot collide with one.
+const STORE_WIDE_SEQUENCE = '*'
+
+export class TransactionNumberError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TransactionNumberError'
+  }
+}
+
+// A number must be unique for good, so every format carries the day and its sequence
+export function parseTransactionNumberFormat(value: unknown): string {
+  const format = typeof value === 'string' ? value.trim() : ''
+
+  if (!format.includes('{date}') || !format.includes('{seq}')) {
+    throw new TransactionNumberError('Transaction number format must include {date} and {seq}')
+  }
+
+  const literal = FORMAT_TOKENS.reduce((rest, token) => rest.split(token).join(''), format)
+  if (!/^[A-Za-z0-9\-_/.]*$/.test(literal) || format.length > 40) {
+    throw new TransactionNumberError('Transaction number format may only use {store}, {date}, {seq}, letters, digits and - _ / .')
+  }
+
+  return format
+}
+
+// The store's calendar day, e.g. 20261019; a new day starts at the store's midnight
+export function formatSequenceDate(date: Date, timeZone: string): string {
+  const clock = getStoreClock(date, timeZone)
+  return [
+    clock.year,
+    String(clock.month).padStart(2, '0'),
+    String(clock.day).padStart(2, '0')
+  ].join('')
+}
+
+export function formatTransactionNumber(format: string, storeCode: string, day: string, sequence: number): string {
+  return format
+    .split('{store}').join(storeCode)
+    .split('{date}').join(day)
+    .split('{seq}').join(String(sequence).padStart(SEQUENCE_DIGITS, '0'))
+}
+
+/**
+ * Take the next number in the outlet's sequence for the day the sale was made;
+ * the outlet's code is the store code. A format without {store} counts one
+ * sequence across all outlets instead.
+ * Must run inside the `prisma.$transaction` that creates the sale: the
+ * sequence row stays locked until it commits, and a sale that rolls back gives
+ * its number back, so the day's numbers run without gaps.
+ */
+export async function allocateTransactionNumber(
+  tx: Prisma.TransactionClient,
+  settings: { storeCode: string; transactionNumberFormat: string; timeZone: string },
+  date: Date = new Date()
+): Promise<string> {
+  const day = formatSequenceDate(date, settings.timeZone)
+  const sequenceKey = settings.transactionNumberFormat.includes('{store}') ? settings.storeCode : STORE_WIDE_SEQUENCE
+  const sequence = await nextSequenceValue(tx, sequenceKey, day)
+
+  return formatTransactionNumber(settings.transactionNumberFormat, settings.storeCode, day, sequence)
+}
+
+// Count one more for the key and day; the row stays locked until the caller's
+// transaction commits
+export async function nextSequenceValue(tx: Prisma.TransactionClient, storeCode: string, day: string): Promise<number> {
+  // A single-field upsert runs as one INSERT ... ON CONFLICT, so the first
+  // two of a day cannot both create the row
+  const sequence = await tx.transactionSequence.upsert({
+    where: { id: `${storeCode}:${day}` },
+    create: { id: `${storeCode}:${day}`, storeCode, date: day, lastValue: 1 },
+    update: { lastValue: { increment: 1 } }
+  })
+
+  return sequence.lastValue
+}
+
+// Sales are looked up by id or by number, old random-style numbers included
+export function transactionIdOrNumber(value: string): Prisma.TransactionWhereInput {
+  return { OR: [{ id: value }, { transactionNumber: value }] }
+}
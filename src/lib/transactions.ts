@@ -0,0 +1,90 @@
+import { prisma } from '@/lib/prisma'
+import { PaymentStatus, Prisma } from '@prisma/client'
+import { deductStockForTransaction, notifyLowStockMovements, releaseStockReservations } from '@/lib/stock'
+import { notifyPaymentReceived } from '@/lib/notifications'
+import { releaseVoucherRedemption } from '@/lib/vouchers'
+import { earnLoyaltyPoints, restoreRedeemedPoints } from '@/lib/loyalty'
+import { sendToKitchen } from '@/lib/kitchen'
+import { reopenTabForTransaction } from '@/lib/tabs'
+
+/**
+ * Move a transaction to PAID, deduct its stock, credit loyalty points and send
+ * the order to the kitchen in one database transaction. Safe to call from
+ * every payment path (webhook, manual check, cash): only the first caller
+ * transitions the transaction and sends notifications.
+ */
+export async function markTransactionPaid(
+  transactionId: string,
+  data: Prisma.TransactionUpdateManyMutationInput = {}
+) {
+  const { transitioned, movements, transaction } = await prisma.$transaction(async (tx) => {
+    const updated = await tx.transaction.updateMany({
+      where: { id: transactionId, paymentStatus: { not: 'PAID' } },
+      data: { ...data, paymentStatus: 'PAID' }
+    })
+
+    // Once the sale is confirmed paid, so is any tender still waiting on it
+    if (updated.count > 0) {
+      await tx.payment.updateMany({
+        where: { transactionId, status: 'PENDING' },
+        data: { status: 'PAID', paidAt: new Date() }
+      })
+      await earnLoyaltyPoints(tx, transactionId)
+      await sendToKitchen(tx, transactionId)
+    }
+
+    // The customer has already paid, so the sale is recorded even if it takes stock negative
+    const movements = await deductStockForTransaction(tx, transactionId, { allowNegative: true })
+    await releaseStockReservations(tx, transactionId)
+
+    const transaction = await tx.transaction.findUniqueOrThrow({
+      where: { id: transactionId }
+    })
+
+    return { transitioned: updated.count > 0, movements, transaction }
+  })
+
+  await notifyLowStockMovements(transaction.cashierId, movements)
+
+  if (transitioned) {
+    await notifyPaymentReceived(
+      transaction.cashierId,
+      transaction.transactionNumber,
+      Number(transaction.finalAmount)
+    )
+  }
+
+  return { transitioned, transaction }
+}
+
+/**
+ * Record a non-paid payment status. A paid transaction is never downgraded by
+ * a late or duplicate update, and a sale that ended up failed or expired gives
+ * back anything it was holding, such as reserved stock, a voucher use,
+ * redeemed points or the open tab it was settling.
+ */
+export async function markTransactionUnpaid(
+  transactionId: string,
+  paymentStatus: Exclude<PaymentStatus, 'PAID'>,
+  data: Prisma.TransactionUpdateManyMutationInput = {}
+) {
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.transaction.updateMany({
+      where: { id: transactionId, paymentStatus: { not: 'PAID' } },
+      data: { ...data, paymentStatus }
+    })
+
+    if (updated.count > 0 && paymentStatus !== 'PENDING') {
+      await tx.payment.updateMany({
+        where: { transactionId, status: 'PENDING' },
+        data: { status: paymentStatus }
+      })
+      await releaseStockReservations(tx, transactionId)
+      await releaseVoucherRedemption(tx, transactionId)
+      await restoreRedeemedPoints(tx, transactionId)
+      await reopenTabForTransaction(tx, transactionId)
+    }
+
+    return { updated: updated.count > 0 }
+  })
+}
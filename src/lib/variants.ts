@@ -0,0 +1,160 @@
+import { prisma } from '@/lib/prisma'
+import { createOutletStocks } from '@/lib/outlets'
+
+const MAX_AXES = 3
+const MAX_VARIANTS = 100
+
+export class VariantError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VariantError'
+  }
+}
+
+export interface VariantAxisInput {
+  name: string
+  values: string[]
+}
+
+/**
+ * Validate the option axes submitted from the variant matrix form.
+ */
+export function parseVariantAxes(input: unknown): VariantAxisInput[] {
+  const rawAxes = Array.isArray(input) ? input as Array<Record<string, unknown>> : []
+
+  const axes = rawAxes.map((axis): VariantAxisInput => {
+    const name = typeof axis.name === 'string' ? axis.name.trim() : ''
+    if (!name) {
+      throw new VariantError('Every option needs a name, e.g. Size')
+    }
+
+    const rawValues = Array.isArray(axis.values) ? axis.values : []
+    const values = rawValues.map(value => String(value).trim()).filter(Boolean)
+    if (values.length === 0) {
+      throw new VariantError(`Add at least one value for ${name}`)
+    }
+
+    if (new Set(values.map(value => value.toLowerCase())).size !== values.length) {
+      throw new VariantError(`${name} has the same value twice`)
+    }
+
+    return { name, values }
+  })
+
+  if (axes.length === 0 || axes.length > MAX_AXES) {
+    throw new VariantError(`Use between 1 and ${MAX_AXES} options`)
+  }
+
+  if (new Set(axes.map(axis => axis.name.toLowerCase())).size !== axes.length) {
+    throw new VariantError('Option names must be unique')
+  }
+
+  return axes
+}
+
+// Every combination of one value per axis, in axis order
+export function buildVariantMatrix(axes: VariantAxisInput[]): string[][] {
+  return axes.reduce<string[][]>(
+    (combinations, axis) => combinations.flatMap(combination => axis.values.map(value => [...combination, value])),
+    [[]]
+  )
+}
+
+export function getVariantName(parentName: string, values: string[]): string {
+  return `${parentName} ${values.join(' / ')}`
+}
+
+export function getVariantSku(parentSku: string, values: string[]): string {
+  const suffix = values
+    .map(value => value.toUpperCase().replace(/[^A-Z0-9]+/g, ''))
+    .join('-')
+  return `${parentSku}-${suffix}`
+}
+
+/**
+ * Create the variants of a product that are missing from the matrix. Existing
+ * variants are left alone, so values can be added later; the axes themselves
+ * are fixed once the first variant exists.
+ */
+export async function generateVariants(parentId: string, axes: VariantAxisInput[]) {
+  const parent = await prisma.product.findUnique({
+    where: { id: parentId },
+    include: { variants: true }
+  })
+
+  if (!parent) {
+    throw new VariantError('Product not found')
+  }
+
+  if (parent.parentId) {
+    throw new VariantError('A variant cannot have variants of its own')
+  }
+
+  const axisNames = axes.map(axis => axis.name)
+  if (
+    parent.variants.length > 0 &&
+    (axisNames.length !== parent.variantAxes.length || axisNames.some((name, index) => name !== parent.variantAxes[index]))
+  ) {
+    throw new VariantError(`Variants already use ${parent.variantAxes.join(', ')}; only new values can be added`)
+  }
+
+  // Stock lives on the variants once there are any
+  if (parent.variants.length === 0 && Number(parent.stock) !== 0) {
+    throw new VariantError(`Set the stock of "${parent.name}" to 0 at every outlet and record it on the variants instead`)
+  }
+
+  const matrix = buildVariantMatrix(axes)
+  if (matrix.length > MAX_VARIANTS) {
+    throw new VariantError(`That would make ${matrix.length} variants; the limit is ${MAX_VARIANTS}`)
+  }
+
+  const existing = new Set(parent.variants.map(variant => variant.variantValues.join('\u0000')))
+  const missing = matrix.filter(values => !existing.has(values.join('\u0000')))
+
+  const skus = missing.map(values => getVariantSku(parent.sku, values))
+  const taken = await prisma.product.findMany({
+    where: { sku: { in: skus } },
+    select: { sku: true }
+  })
+
+  if (taken.length > 0) {
+    throw new VariantError(`SKU ${taken[0].sku} already exists`)
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await tx.product.update({
+      where: { id: parent.id },
+      data: { variantAxes: axisNames }
+    })
+
+    // New variants start with the parent's details and no stock
+    const created: string[] = []
+    for (const [index, values] of missing.entries()) {
+      const variant = await tx.product.create({
+        data: {
+          name: getVariantName(parent.name, values),
+          sku: skus[index],
+          price: parent.price,
+          cost: parent.cost,
+          stock: 0,
+          minStock: parent.minStock,
+          categoryId: parent.categoryId,
+          image: parent.image,
+          taxClass: parent.taxClass,
+          taxRateId: parent.taxRateId,
+          isActive: parent.isActive,
+          parentId: parent.id,
+          variantValues: values
+        }
+      })
+      created.push(variant.id)
+    }
+
+    await createOutletStocks(tx, { productIds: created })
+
+    return tx.product.findMany({
+      where: { parentId: parent.id },
+      orderBy: { name: 'asc' }
+    })
+  })
+}
@@ -0,0 +1,69 @@
+import { Prisma } from '@prisma/client'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+import { redeemVoucher, ValidatedVoucher, VoucherError } from '@/lib/vouchers'
+
+function createTx(previousRedemptions: number) {
+  return {
+    $queryRaw: vi.fn(),
+    voucher: { updateMany: vi.fn().mockResolvedValue({ count: 1 }) },
+    voucherRedemption: {
+      count: vi.fn().mockResolvedValue(previousRedemptions),
+      create: vi.fn()
+    }
+  }
+}
+
+function asClient(tx: ReturnType<typeof createTx>) {
+  return tx as unknown as Prisma.TransactionClient
+}
+
+// Once per customer
+const voucher: ValidatedVoucher = {
+  voucherId: 'voucher-1',
+  code: 'WELCOME',
+  usageLimit: null,
+  batchId: 'batch-1',
+  perCustomerLimit: 1,
+  discountAmount: 10000
+}
+
+describe('redeemVoucher', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('records the redemption against the customer', async () => {
+    const tx = createTx(0)
+
+    await redeemVoucher(asClient(tx), voucher, 'sale-1', ' Budi@Example.com ')
+
+    expect(tx.voucherRedemption.count).toHaveBeenCalledWith({
+      where: { customerEmail: 'budi@example.com', voucher: { batchId: 'batch-1' } }
+    })
+    expect(tx.voucherRedemption.create).toHaveBeenCalledWith({
+      data: { voucherId: 'voucher-1', transactionId: 'sale-1', customerEmail: 'budi@example.com', discountAmount: 10000 }
+    })
+  })
+
+  it('counts the customer limit again under a lock on the batch', async () => {
+    // Another sale to the same customer redeemed it since the cart was priced
+    const tx = createTx(1)
+
+    await expect(redeemVoucher(asClient(tx), voucher, 'sale-1', 'budi@example.com')).rejects.toThrow(VoucherError)
+
+    expect(tx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(tx.voucherRedemption.count.mock.invocationCallOrder[0])
+    expect(tx.voucherRedemption.create).not.toHaveBeenCalled()
+  })
+
+  it('skips the customer check for vouchers without a per-customer limit', async () => {
+    const tx = createTx(5)
+
+    await redeemVoucher(asClient(tx), { ...voucher, perCustomerLimit: null }, 'sale-1')
+
+    expect(tx.$queryRaw).not.toHaveBeenCalled()
+    expect(tx.voucherRedemption.create).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,319 @@
+import { randomInt } from 'crypto'
+import { Prisma, VoucherBatch, VoucherDiscountType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { formatCurrency } from '@/lib/printing'
+
+// No 0/O or 1/I so codes can be read out loud and typed from a printout
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+export const MAX_VOUCHER_CODES_PER_REQUEST = 1000
+
+export class VoucherError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VoucherError'
+  }
+}
+
+export interface ValidatedVoucher {
+  voucherId: string
+  code: string
+  usageLimit: number | null
+  batchId: string
+  perCustomerLimit: number | null
+  discountAmount: number
+}
+
+export interface VoucherBatchInput {
+  name: string
+  description: string | null
+  discountType: VoucherDiscountType
+  value: number
+  maxDiscount: number | null
+  minSpend: number
+  usageLimit: number | null
+  perCustomerLimit: number | null
+  startsAt: Date | null
+  expiresAt: Date | null
+  isActive: boolean
+}
+
+export function normalizeVoucherCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+export function normalizeCustomerEmail(email?: string | null): string | null {
+  return email ? email.trim().toLowerCase() : null
+}
+
+function optionalNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null
+  return Number(value)
+}
+
+function optionalLimit(value: unknown, field: string): number | null {
+  const limit = optionalNumber(value)
+  if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+    throw new VoucherError(`${field} must be a whole number of at least 1`)
+  }
+  return limit
+}
+
+function optionalDate(value: unknown, field: string): Date | null {
+  if (!value) return null
+  const date = new Date(value as string)
+  if (isNaN(date.getTime())) {
+    throw new VoucherError(`Invalid ${field}`)
+  }
+  return date
+}
+
+/**
+ * Validate a voucher batch submitted from the admin form.
+ */
+export function parseVoucherBatchInput(body: Record<string, unknown>): VoucherBatchInput {
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name) {
+    throw new VoucherError('Name is required')
+  }
+
+  const discountType = body.discountType as VoucherDiscountType
+  if (!Object.values(VoucherDiscountType).includes(discountType)) {
+    throw new VoucherError('Invalid discount type')
+  }
+
+  const value = Number(body.value || 0)
+  if (discountType === 'PERCENTAGE' && !(value > 0 && value <= 100)) {
+    throw new VoucherError('Percentage must be between 0 and 100')
+  }
+  if (discountType === 'FIXED_AMOUNT' && !(value > 0)) {
+    throw new VoucherError('Discount amount must be greater than 0')
+  }
+
+  const maxDiscount = optionalNumber(body.maxDiscount)
+  if (maxDiscount !== null && !(maxDiscount > 0)) {
+    throw new VoucherError('Maximum discount must be greater than 0')
+  }
+
+  const minSpend = Number(body.minSpend || 0)
+  if (!(minSpend >= 0)) {
+    throw new VoucherError('Minimum spend cannot be negative')
+  }
+
+  const startsAt = optionalDate(body.startsAt, 'start date')
+  const expiresAt = optionalDate(body.expiresAt, 'expiry date')
+  if (startsAt && expiresAt && startsAt > expiresAt) {
+    throw new VoucherError('Expiry date must be after start date')
+  }
+
+  return {
+    name,
+    description: (body.description as string) || null,
+    discountType,
+    value,
+    // A cap only makes sense on percentage vouchers
+    maxDiscount: discountType === 'PERCENTAGE' ? maxDiscount : null,
+    minSpend,
+    usageLimit: optionalLimit(body.usageLimit, 'Usage limit'),
+    perCustomerLimit: optionalLimit(body.perCustomerLimit, 'Per-customer limit'),
+    startsAt,
+    expiresAt,
+    isActive: body.isActive === undefined ? true : Boolean(body.isActive)
+  }
+}
+
+function calculateVoucherDiscount(batch: VoucherBatch, amount: number): number {
+  const value = Number(batch.value)
+  let discount = batch.discountType === 'PERCENTAGE' ? amount * value / 100 : value
+
+  if (batch.maxDiscount !== null) {
+    discount = Math.min(discount, Number(batch.maxDiscount))
+  }
+
+  return Math.round(Math.min(discount, amount) * 100) / 100
+}
+
+/**
+ * Check a voucher code against its batch rules and work out its discount.
+ * `eligibleAmount` is the cart subtotal after automatic promotions.
+ */
+export async function validateVoucher(
+  code: string,
+  eligibleAmount: number,
+  customerEmail?: string | null
+): Promise<ValidatedVoucher> {
+  const voucher = await prisma.voucher.findUnique({
+    where: { code: normalizeVoucherCode(code) },
+    include: { batch: true }
+  })
+
+  if (!voucher) {
+    throw new VoucherError('Voucher code not found')
+  }
+
+  const { batch } = voucher
+  const now = new Date()
+
+  if (!voucher.isActive || !batch.isActive) {
+    throw new VoucherError('This voucher is no longer active')
+  }
+
+  if (batch.startsAt && now < batch.startsAt) {
+    throw new VoucherError('This voucher is not valid yet')
+  }
+
+  if (batch.expiresAt && now > batch.expiresAt) {
+    throw new VoucherError('This voucher has expired')
+  }
+
+  if (batch.usageLimit !== null && voucher.usageCount >= batch.usageLimit) {
+    throw new VoucherError('This voucher has already been used')
+  }
+
+  if (eligibleAmount < Number(batch.minSpend)) {
+    throw new VoucherError(`This voucher requires a minimum spend of ${formatCurrency(Number(batch.minSpend))}`)
+  }
+
+  if (batch.perCustomerLimit !== null) {
+    const email = normalizeCustomerEmail(customerEmail)
+
+    if (!email) {
+      throw new VoucherError('Customer email is required for this voucher')
+    }
+
+    await assertCustomerLimit(prisma, batch.id, batch.perCustomerLimit, email)
+  }
+
+  return {
+    voucherId: voucher.id,
+    code: voucher.code,
+    usageLimit: batch.usageLimit,
+    batchId: batch.id,
+    perCustomerLimit: batch.perCustomerLimit,
+    discountAmount: calculateVoucherDiscount(batch, eligibleAmount)
+  }
+}
+
+async function assertCustomerLimit(
+  client: Prisma.TransactionClient,
+  batchId: string,
+  perCustomerLimit: number,
+  email: string
+) {
+  const previousRedemptions = await client.voucherRedemption.count({
+    where: {
+      customerEmail: email,
+      voucher: { batchId }
+    }
+  })
+
+  if (previousRedemptions >= perCustomerLimit) {
+    throw new VoucherError('This customer has already used this voucher the maximum number of times')
+  }
+}
+
+/**
+ * Record a redemption inside the sale's database transaction. The usage count
+ * is bumped conditionally so two tills can't both take a code's last use, and
+ * the per-customer limit is counted again under a lock on the batch so two
+ * sales to the same customer can't both take their last use.
+ */
+export async function redeemVoucher(
+  tx: Prisma.TransactionClient,
+  voucher: ValidatedVoucher,
+  transactionId: string,
+  customerEmail?: string | null
+) {
+  const updated = await tx.voucher.updateMany({
+    where: {
+      id: voucher.voucherId,
+      ...(voucher.usageLimit !== null && { usageCount: { lt: voucher.usageLimit } })
+    },
+    data: {
+      usageCount: { increment: 1 }
+    }
+  })
+
+  if (updated.count === 0) {
+    throw new VoucherError('This voucher has already been used')
+  }
+
+  if (voucher.perCustomerLimit !== null) {
+    const email = normalizeCustomerEmail(customerEmail)
+    if (!email) {
+      throw new VoucherError('Customer email is required for this voucher')
+    }
+
+    // Held until the sale commits, so the next redemption counts this one
+    await tx.$queryRaw`SELECT "id" FROM "voucher_batches" WHERE "id" = ${voucher.batchId} FOR UPDATE`
+    await assertCustomerLimit(tx, voucher.batchId, voucher.perCustomerLimit, email)
+  }
+
+  await tx.voucherRedemption.create({
+    data: {
+      voucherId: voucher.voucherId,
+      transactionId,
+      customerEmail: normalizeCustomerEmail(customerEmail),
+      discountAmount: voucher.discountAmount
+    }
+  })
+}
+
+/**
+ * Give a voucher use back when the sale that redeemed it is never paid.
+ */
+export async function releaseVoucherRedemption(tx: Prisma.TransactionClient, transactionId: string) {
+  const redemption = await tx.voucherRedemption.findUnique({
+    where: { transactionId }
+  })
+
+  if (!redemption) {
+    return
+  }
+
+  // deleteMany so a concurrent release of the same redemption is a no-op
+  const deleted = await tx.voucherRedemption.deleteMany({
+    where: { id: redemption.id }
+  })
+
+  if (deleted.count > 0) {
+    await tx.voucher.update({
+      where: { id: redemption.voucherId },
+      data: { usageCount: { decrement: 1 } }
+    })
+  }
+}
+
+export function generateVoucherCodes(prefix: string, count: number, length = 8): string[] {
+  const normalizedPrefix = normalizeVoucherCode(prefix)
+  const codes = new Set<string>()
+
+  while (codes.size < count) {
+    let code = ''
+    for (let i = 0; i < length; i++) {
+      code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+    }
+    codes.add(normalizedPrefix ? `${normalizedPrefix}-${code}` : code)
+  }
+
+  return Array.from(codes)
+}
+
+/**
+ * Generate codes that don't collide with any existing voucher.
+ */
+export async function generateUniqueVoucherCodes(prefix: string, count: number): Promise<string[]> {
+  const codes = generateVoucherCodes(prefix, count)
+  const existing = await prisma.voucher.findMany({
+    where: { code: { in: codes } },
+    select: { code: true }
+  })
+
+  if (existing.length === 0) {
+    return codes
+  }
+
+  const taken = new Set(existing.map(voucher => voucher.code))
+  const replacements = await generateUniqueVoucherCodes(prefix, existing.length)
+  return [...codes.filter(code => !taken.has(code)), ...replacements]
+}
@@ -11,8 +11,11 @@ export type TransactionWithDetails = Prisma.TransactionGetPayload<{
             name: true
             sku: true
             price: true
+            soldByWeight: true
           }
         }
+        promotions: true
+        modifiers: true
       }
     }
     cashier: {
@@ -21,6 +24,27 @@ export type TransactionWithDetails = Prisma.TransactionGetPayload<{
         email: true
       }
     }
+    payments: true
+    voucherRedemption: {
+      include: {
+        voucher: {
+          select: {
+            code: true
+          }
+        }
+      }
+    }
+    customer: {
+      select: {
+        name: true
+        loyaltyPoints: true
+      }
+    }
+    table: {
+      select: {
+        name: true
+      }
+    }
   }
 }>
 